@@ -0,0 +1,19 @@
+-- Change history for airline bookings and tour package bookings.
+-- Rows are written by the server actions, which know the signed-in Supabase user.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL
+    CHECK (entity_type IN ('booking', 'tour_package_booking')),
+  entity_id text NOT NULL,
+  action text NOT NULL
+    CHECK (action IN ('created', 'updated', 'deleted')),
+  -- Field-level diff: [{ "field": "status", "before": "Open", "after": "Negotiating" }, ...]
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity_created
+  ON audit_log(entity_type, entity_id, created_at DESC);
@@ -0,0 +1,180 @@
+-- Typed time limits for airline bookings (deposit, name list, ticketing, full payment).
+-- deadline_rules are templates per airline and/or fare class, e.g. "ticketing 21 days before
+-- travel"; booking_deadlines holds the dates generated from them or entered by hand.
+-- bookings.deadline is kept as the earliest open time limit, so lists that sort or filter on it
+-- keep working; it is maintained by the triggers below and no longer written by the app.
+
+CREATE TABLE IF NOT EXISTS deadline_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Two-character IATA code; NULL applies to every airline
+  airline_code text CHECK (airline_code IS NULL OR airline_code ~ '^[A-Z0-9]{2}$'),
+  -- NULL applies to every fare class
+  fare_class_id uuid REFERENCES fare_classes(id) ON DELETE CASCADE,
+  deadline_type text NOT NULL
+    CHECK (deadline_type IN ('deposit', 'name_list', 'ticketing', 'full_payment')),
+  anchor text NOT NULL CHECK (anchor IN ('after_booking', 'before_travel')),
+  days integer NOT NULL CHECK (days BETWEEN 0 AND 365),
+  description text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One rule per type for each airline / fare class combination
+CREATE UNIQUE INDEX IF NOT EXISTS uq_deadline_rules_scope
+  ON deadline_rules (COALESCE(airline_code, ''), COALESCE(fare_class_id, '00000000-0000-0000-0000-000000000000'::uuid), deadline_type);
+
+CREATE TABLE IF NOT EXISTS booking_deadlines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  deadline_type text NOT NULL
+    CHECK (deadline_type IN ('deposit', 'name_list', 'ticketing', 'full_payment')),
+  due_date date NOT NULL,
+  -- The rule that produced the date; NULL once it has been set by hand
+  rule_id uuid REFERENCES deadline_rules(id) ON DELETE SET NULL,
+  -- Manual dates are never overwritten when rules are re-applied
+  is_manual boolean NOT NULL DEFAULT false,
+  completed_at timestamptz,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT uq_booking_deadlines_booking_type UNIQUE (booking_id, deadline_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_deadlines_open_due
+  ON booking_deadlines(due_date) WHERE completed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION update_deadline_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_booking_deadlines_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'trigger_update_deadline_rules_updated_at'
+  ) THEN
+    CREATE TRIGGER trigger_update_deadline_rules_updated_at
+      BEFORE UPDATE ON deadline_rules
+      FOR EACH ROW
+      EXECUTE FUNCTION update_deadline_rules_updated_at();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'trigger_update_booking_deadlines_updated_at'
+  ) THEN
+    CREATE TRIGGER trigger_update_booking_deadlines_updated_at
+      BEFORE UPDATE ON booking_deadlines
+      FOR EACH ROW
+      EXECUTE FUNCTION update_booking_deadlines_updated_at();
+  END IF;
+END $$;
+
+-- The single manual deadline each booking had becomes its ticketing time limit
+INSERT INTO booking_deadlines (booking_id, deadline_type, due_date, is_manual)
+SELECT id, 'ticketing', deadline, true
+FROM bookings
+WHERE deadline IS NOT NULL
+ON CONFLICT (booking_id, deadline_type) DO NOTHING;
+
+-- bookings.deadline = earliest open time limit. The BEFORE trigger ignores whatever a booking
+-- save writes; the AFTER trigger on booking_deadlines touches the booking so it is recomputed.
+CREATE OR REPLACE FUNCTION set_booking_next_deadline()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.deadline := (
+    SELECT MIN(due_date) FROM booking_deadlines
+    WHERE booking_id = NEW.id AND completed_at IS NULL
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_booking_next_deadline()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE bookings SET deadline = NULL
+  WHERE id = COALESCE(NEW.booking_id, OLD.booking_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'trigger_set_booking_next_deadline'
+  ) THEN
+    CREATE TRIGGER trigger_set_booking_next_deadline
+      BEFORE INSERT OR UPDATE ON bookings
+      FOR EACH ROW
+      EXECUTE FUNCTION set_booking_next_deadline();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'trigger_refresh_booking_next_deadline'
+  ) THEN
+    CREATE TRIGGER trigger_refresh_booking_next_deadline
+      AFTER INSERT OR UPDATE OR DELETE ON booking_deadlines
+      FOR EACH ROW
+      EXECUTE FUNCTION refresh_booking_next_deadline();
+  END IF;
+END $$;
+
+-- Applies the deadlines generated from the rules to one booking, in one transaction.
+--
+-- p_deadlines: JSON array of { deadline_type, due_date, rule_id }, at most one per type.
+-- Manual and completed deadlines are left as they are. Generated deadlines whose rule no
+-- longer applies are removed. Returns the number of deadlines written.
+
+CREATE OR REPLACE FUNCTION apply_booking_deadline_rules(
+  p_booking_id uuid,
+  p_deadlines jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  PERFORM 1 FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % was not found.', p_booking_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  DELETE FROM booking_deadlines
+  WHERE booking_id = p_booking_id
+    AND NOT is_manual
+    AND completed_at IS NULL
+    AND deadline_type NOT IN (
+      SELECT value->>'deadline_type' FROM jsonb_array_elements(p_deadlines)
+    );
+
+  INSERT INTO booking_deadlines (booking_id, deadline_type, due_date, rule_id)
+  SELECT p_booking_id, d.deadline_type, d.due_date, d.rule_id
+  FROM jsonb_to_recordset(p_deadlines) AS d(deadline_type text, due_date date, rule_id uuid)
+  ON CONFLICT (booking_id, deadline_type) DO UPDATE
+  SET due_date = EXCLUDED.due_date,
+      rule_id = EXCLUDED.rule_id
+  WHERE NOT booking_deadlines.is_manual
+    AND booking_deadlines.completed_at IS NULL
+    AND (booking_deadlines.due_date, booking_deadlines.rule_id)
+        IS DISTINCT FROM (EXCLUDED.due_date, EXCLUDED.rule_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,107 @@
+-- Invoices and receipts issued for tour package bookings.
+-- Document numbers are sequential and gap-free per document type and calendar year
+-- (INV-2026-00001, RCP-2026-00001, ...). issue_booking_document() takes the next number and
+-- records the document in one transaction, so a number is only ever consumed by a stored row.
+-- The PDF itself lives in the `booking-documents` storage bucket at storage_path; it is
+-- uploaded after the row exists and can be re-rendered under the same number if that fails.
+-- Issued documents are never deleted, so bookings that have them cannot be deleted either.
+
+CREATE TABLE IF NOT EXISTS document_number_sequences (
+    doc_type TEXT NOT NULL CHECK (doc_type IN ('invoice', 'receipt')),
+    year INTEGER NOT NULL,
+    last_number INTEGER NOT NULL DEFAULT 0 CHECK (last_number >= 0),
+
+    PRIMARY KEY (doc_type, year)
+);
+
+CREATE TABLE IF NOT EXISTS booking_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    doc_type TEXT NOT NULL CHECK (doc_type IN ('invoice', 'receipt')),
+    document_number TEXT NOT NULL,
+    tour_package_booking_id VARCHAR(5) NOT NULL,
+    payment_id UUID,
+    amount NUMERIC(12, 2) NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'THB'
+        CHECK (currency IN ('THB', 'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'SGD', 'AUD')),
+    storage_path TEXT,
+    issued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    issued_by_email TEXT,
+    issued_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT uq_booking_documents_document_number UNIQUE (document_number),
+
+    CONSTRAINT fk_booking_documents_tour_package_booking_id
+        FOREIGN KEY (tour_package_booking_id)
+        REFERENCES tour_package_bookings(id),
+
+    CONSTRAINT fk_booking_documents_payment_id
+        FOREIGN KEY (payment_id)
+        REFERENCES payments(id),
+
+    CONSTRAINT chk_booking_documents_receipt_payment
+        CHECK ((doc_type = 'receipt') = (payment_id IS NOT NULL))
+);
+
+-- One receipt per payment; invoices can be reissued as the booking changes
+CREATE UNIQUE INDEX IF NOT EXISTS uq_booking_documents_receipt_payment
+    ON booking_documents(payment_id)
+    WHERE doc_type = 'receipt';
+
+CREATE INDEX IF NOT EXISTS idx_booking_documents_tour_package_booking_id
+    ON booking_documents(tour_package_booking_id);
+
+-- Take the next number for p_doc_type and record the document.
+-- Re-issuing a receipt for a payment that already has one returns the existing row.
+CREATE OR REPLACE FUNCTION issue_booking_document(
+  p_doc_type text,
+  p_booking_id varchar,
+  p_payment_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_issued_by uuid,
+  p_issued_by_email text
+)
+RETURNS booking_documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_document booking_documents%ROWTYPE;
+  v_year integer := EXTRACT(YEAR FROM NOW())::integer;
+  v_number integer;
+BEGIN
+  IF p_doc_type = 'receipt' THEN
+    SELECT * INTO v_document FROM booking_documents
+    WHERE doc_type = 'receipt' AND payment_id = p_payment_id;
+    IF FOUND THEN
+      RETURN v_document;
+    END IF;
+  END IF;
+
+  -- The upsert row-locks the counter, so concurrent issuers queue here until this transaction ends
+  INSERT INTO document_number_sequences (doc_type, year, last_number)
+  VALUES (p_doc_type, v_year, 1)
+  ON CONFLICT (doc_type, year)
+  DO UPDATE SET last_number = document_number_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO booking_documents (
+    doc_type, document_number, tour_package_booking_id, payment_id,
+    amount, currency, issued_by, issued_by_email
+  )
+  VALUES (
+    p_doc_type,
+    CASE p_doc_type WHEN 'invoice' THEN 'INV' ELSE 'RCP' END || '-' || v_year || '-' || LPAD(v_number::text, 5, '0'),
+    p_booking_id,
+    p_payment_id,
+    p_amount,
+    p_currency,
+    p_issued_by,
+    p_issued_by_email
+  )
+  RETURNING * INTO v_document;
+
+  RETURN v_document;
+END;
+$$;
+
+-- Storage: create a private bucket named `booking-documents` alongside `payment-slips`.
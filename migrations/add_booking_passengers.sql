@@ -0,0 +1,176 @@
+-- Passenger manifest for airline bookings: who is travelling, and on which sectors.
+-- Names are stored in upper case as ticketed. Every edit to a passenger's name is kept in
+-- booking_passenger_name_changes, flagged when made after the booking's deadline, because
+-- airlines charge for late name changes.
+
+CREATE TABLE IF NOT EXISTS booking_passengers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  title text CHECK (title IS NULL OR title IN ('MR', 'MRS', 'MS', 'MISS', 'MSTR')),
+  first_name text NOT NULL,
+  last_name text NOT NULL,
+  passport_number text,
+  passport_expiry date,
+  date_of_birth date,
+  nationality text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_passengers_booking_id ON booking_passengers(booking_id);
+
+-- Which sectors each passenger flies; removed with the passenger or the sector
+CREATE TABLE IF NOT EXISTS booking_passenger_sectors (
+  passenger_id uuid NOT NULL REFERENCES booking_passengers(id) ON DELETE CASCADE,
+  booking_sector_id uuid NOT NULL REFERENCES booking_sectors(id) ON DELETE CASCADE,
+  PRIMARY KEY (passenger_id, booking_sector_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_passenger_sectors_sector ON booking_passenger_sectors(booking_sector_id);
+
+CREATE TABLE IF NOT EXISTS booking_passenger_name_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  passenger_id uuid NOT NULL REFERENCES booking_passengers(id) ON DELETE CASCADE,
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  previous_name text NOT NULL,
+  new_name text NOT NULL,
+  after_deadline boolean NOT NULL DEFAULT false,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_passenger_name_changes_booking
+  ON booking_passenger_name_changes(booking_id, changed_at DESC);
+
+CREATE OR REPLACE FUNCTION update_booking_passengers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'trigger_update_booking_passengers_updated_at'
+  ) THEN
+    CREATE TRIGGER trigger_update_booking_passengers_updated_at
+      BEFORE UPDATE ON booking_passengers
+      FOR EACH ROW
+      EXECUTE FUNCTION update_booking_passengers_updated_at();
+  END IF;
+END $$;
+
+-- Saves passengers and their sector assignments in one transaction.
+--
+-- p_passengers: JSON array; rows carrying an "id" are updated, rows without one are inserted.
+--               "sector_ids" replaces the passenger's assignments and must only name sectors
+--               of this booking.
+-- Renames are logged with the acting user. Returns the number of passengers saved.
+--
+-- Errors raised with a HINT carry the array index (e.g. 'passengers.2') so the server
+-- action can point at the offending row.
+
+CREATE OR REPLACE FUNCTION save_booking_passengers(
+  p_booking_id uuid,
+  p_passengers jsonb,
+  p_actor_id uuid,
+  p_actor_email text
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_deadline date;
+  v_json jsonb;
+  v_index integer;
+  v_row booking_passengers%ROWTYPE;
+  v_existing booking_passengers%ROWTYPE;
+  v_passenger_id uuid;
+  v_sector_ids uuid[];
+  v_count integer := 0;
+BEGIN
+  SELECT deadline INTO v_deadline FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % was not found.', p_booking_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  FOR v_json, v_index IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_passengers) WITH ORDINALITY
+  LOOP
+    v_row := jsonb_populate_record(NULL::booking_passengers, v_json - 'id' - 'booking_id');
+    v_sector_ids := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_json->'sector_ids', '[]'::jsonb))::uuid);
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(v_sector_ids) AS s(id)
+      WHERE NOT EXISTS (SELECT 1 FROM booking_sectors bs WHERE bs.id = s.id AND bs.booking_id = p_booking_id)
+    ) THEN
+      RAISE EXCEPTION 'Passenger % is assigned to a sector of another booking.', v_index + 1
+        USING HINT = 'passengers.' || v_index;
+    END IF;
+
+    IF NULLIF(v_json->>'id', '') IS NOT NULL THEN
+      SELECT * INTO v_existing FROM booking_passengers
+      WHERE id = (v_json->>'id')::uuid AND booking_id = p_booking_id
+      FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Passenger % does not belong to this booking.', v_index + 1
+          USING HINT = 'passengers.' || v_index;
+      END IF;
+
+      UPDATE booking_passengers
+      SET title = v_row.title,
+          first_name = v_row.first_name,
+          last_name = v_row.last_name,
+          passport_number = v_row.passport_number,
+          passport_expiry = v_row.passport_expiry,
+          date_of_birth = v_row.date_of_birth,
+          nationality = v_row.nationality
+      WHERE id = v_existing.id;
+      v_passenger_id := v_existing.id;
+
+      IF (v_existing.title, v_existing.first_name, v_existing.last_name)
+         IS DISTINCT FROM (v_row.title, v_row.first_name, v_row.last_name) THEN
+        INSERT INTO booking_passenger_name_changes (
+          passenger_id, booking_id, previous_name, new_name, after_deadline, changed_by, changed_by_email
+        )
+        VALUES (
+          v_passenger_id,
+          p_booking_id,
+          v_existing.last_name || '/' || v_existing.first_name || COALESCE(' ' || v_existing.title, ''),
+          v_row.last_name || '/' || v_row.first_name || COALESCE(' ' || v_row.title, ''),
+          v_deadline IS NOT NULL AND v_deadline < CURRENT_DATE,
+          p_actor_id,
+          p_actor_email
+        );
+      END IF;
+    ELSE
+      INSERT INTO booking_passengers (
+        booking_id, title, first_name, last_name, passport_number, passport_expiry, date_of_birth, nationality
+      )
+      VALUES (
+        p_booking_id,
+        v_row.title,
+        v_row.first_name,
+        v_row.last_name,
+        v_row.passport_number,
+        v_row.passport_expiry,
+        v_row.date_of_birth,
+        v_row.nationality
+      )
+      RETURNING id INTO v_passenger_id;
+    END IF;
+
+    DELETE FROM booking_passenger_sectors WHERE passenger_id = v_passenger_id;
+    INSERT INTO booking_passenger_sectors (passenger_id, booking_sector_id)
+    SELECT v_passenger_id, s.id FROM unnest(v_sector_ids) AS s(id);
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
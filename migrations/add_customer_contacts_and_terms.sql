@@ -0,0 +1,69 @@
+-- Customer master data: billing details, credit terms and named contacts.
+-- credit_limit is in the base currency (THB) and applies to outstanding tour booking balances;
+-- NULL means no limit. call_reports.contact_person stays as the printed name and is filled
+-- from the picked contact.
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS billing_address text,
+  ADD COLUMN IF NOT EXISTS tax_id text,
+  ADD COLUMN IF NOT EXISTS payment_terms_days integer CHECK (payment_terms_days IS NULL OR payment_terms_days BETWEEN 0 AND 365),
+  ADD COLUMN IF NOT EXISTS credit_limit numeric(14,2) CHECK (credit_limit IS NULL OR credit_limit >= 0);
+
+CREATE TABLE IF NOT EXISTS customer_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  role text,
+  email text,
+  phone text,
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_contacts_customer_id ON customer_contacts(customer_id);
+
+-- At most one primary contact per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_contacts_one_primary
+  ON customer_contacts(customer_id) WHERE is_primary;
+
+CREATE OR REPLACE FUNCTION update_customer_contacts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'trigger_update_customer_contacts_updated_at'
+  ) THEN
+    CREATE TRIGGER trigger_update_customer_contacts_updated_at
+      BEFORE UPDATE ON customer_contacts
+      FOR EACH ROW
+      EXECUTE FUNCTION update_customer_contacts_updated_at();
+  END IF;
+END $$;
+
+ALTER TABLE call_reports
+  ADD COLUMN IF NOT EXISTS contact_id uuid REFERENCES customer_contacts(id) ON DELETE SET NULL;
+
+-- Seed contacts from the free-text names already typed on call reports, then link those reports
+INSERT INTO customer_contacts (customer_id, name)
+SELECT DISTINCT ON (cr.customer_id, lower(trim(cr.contact_person))) cr.customer_id, trim(cr.contact_person)
+FROM call_reports cr
+WHERE trim(coalesce(cr.contact_person, '')) <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM customer_contacts cc
+    WHERE cc.customer_id = cr.customer_id AND lower(cc.name) = lower(trim(cr.contact_person))
+  );
+
+UPDATE call_reports cr
+SET contact_id = cc.id
+FROM customer_contacts cc
+WHERE cr.contact_id IS NULL
+  AND cc.customer_id = cr.customer_id
+  AND lower(cc.name) = lower(trim(cr.contact_person));
@@ -0,0 +1,26 @@
+-- Daily KPI history for the dashboard's "change" figures. The snapshot job (/api/kpi-snapshots,
+-- src/lib/kpi-snapshots) stores one row per metric per day; re-running it on the same day
+-- overwrites that day's values. Amounts are in the base currency (THB).
+
+CREATE TABLE IF NOT EXISTS kpi_snapshots (
+  snapshot_date date NOT NULL,
+  metric text NOT NULL
+    CHECK (metric IN (
+      'total_revenue',
+      'revenue_open',
+      'revenue_negotiating',
+      'revenue_paid_first_installment',
+      'revenue_paid_full',
+      'revenue_complete',
+      'revenue_closed',
+      'pending_amount',
+      'active_bookings',
+      'tour_bookings',
+      'total_customers',
+      'completion_rate',
+      'tour_packages'
+    )),
+  value numeric(14, 2) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (snapshot_date, metric)
+);
@@ -0,0 +1,93 @@
+-- Merge a duplicate customer into the surviving record, atomically.
+-- Re-points airline bookings, tour package bookings (refreshing their printed customer_name),
+-- call reports and contacts to the survivor, fills the survivor's blank billing fields from the
+-- duplicate, then deletes the duplicate. Any failure rolls the whole merge back.
+--
+-- Returns the number of bookings, tour bookings and call reports moved, as JSON, with the
+-- moved airline bookings' ids and previous customer_id, the moved tour bookings' ids and
+-- previous customer_name, and the survivor's name, so the app can audit each moved booking.
+
+CREATE OR REPLACE FUNCTION merge_customers(
+  p_survivor_id uuid,
+  p_duplicate_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_survivor customers%ROWTYPE;
+  v_duplicate customers%ROWTYPE;
+  v_bookings integer;
+  v_tour_bookings integer;
+  v_call_reports integer;
+  v_moved_bookings jsonb;
+  v_moved_tour_bookings jsonb;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A customer cannot be merged into itself.';
+  END IF;
+
+  -- Lock both rows so concurrent edits or merges of the same pair wait for this one
+  SELECT * INTO v_survivor FROM customers WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surviving customer not found.';
+  END IF;
+  SELECT * INTO v_duplicate FROM customers WHERE id = p_duplicate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duplicate customer not found.';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('id', moved.id, 'customer_id', moved.customer_id)), '[]'::jsonb)
+  INTO v_moved_bookings
+  FROM (
+    SELECT id, customer_id FROM bookings
+    WHERE customer_id = p_duplicate_id
+    ORDER BY id
+    FOR UPDATE
+  ) moved;
+
+  UPDATE bookings SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  GET DIAGNOSTICS v_bookings = ROW_COUNT;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('id', moved.id, 'customer_name', moved.customer_name)), '[]'::jsonb)
+  INTO v_moved_tour_bookings
+  FROM (
+    SELECT id, customer_name FROM tour_package_bookings
+    WHERE customer_id = p_duplicate_id
+    ORDER BY id
+    FOR UPDATE
+  ) moved;
+
+  UPDATE tour_package_bookings
+  SET customer_id = p_survivor_id, customer_name = v_survivor.company_name
+  WHERE customer_id = p_duplicate_id;
+  GET DIAGNOSTICS v_tour_bookings = ROW_COUNT;
+
+  UPDATE call_reports SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  GET DIAGNOSTICS v_call_reports = ROW_COUNT;
+
+  -- Keep the survivor's primary contact when both customers have one
+  IF EXISTS (SELECT 1 FROM customer_contacts WHERE customer_id = p_survivor_id AND is_primary) THEN
+    UPDATE customer_contacts SET is_primary = false WHERE customer_id = p_duplicate_id AND is_primary;
+  END IF;
+  UPDATE customer_contacts SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+
+  UPDATE customers
+  SET billing_address = COALESCE(billing_address, v_duplicate.billing_address),
+      tax_id = COALESCE(tax_id, v_duplicate.tax_id),
+      payment_terms_days = COALESCE(payment_terms_days, v_duplicate.payment_terms_days),
+      credit_limit = COALESCE(credit_limit, v_duplicate.credit_limit)
+  WHERE id = p_survivor_id;
+
+  DELETE FROM customers WHERE id = p_duplicate_id;
+
+  RETURN jsonb_build_object(
+    'bookings', v_bookings,
+    'tour_bookings', v_tour_bookings,
+    'call_reports', v_call_reports,
+    'moved_bookings', v_moved_bookings,
+    'moved_tour_bookings', v_moved_tour_bookings,
+    'survivor_name', v_survivor.company_name
+  );
+END;
+$$;
@@ -0,0 +1,148 @@
+-- Multi-City bookings: any number of ordered sectors per airline booking.
+-- Adds booking_sectors.sector_order so the itinerary keeps the order it was entered in
+-- (sectors saved in one transaction share the same created_at), allows the 'Multi-City'
+-- booking type, and makes save_booking_with_sectors store each sector's array position.
+
+ALTER TABLE booking_sectors ADD COLUMN IF NOT EXISTS sector_order INTEGER;
+
+-- Existing sectors: order by travel date, then by when they were added
+UPDATE booking_sectors bs
+SET sector_order = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (
+    PARTITION BY booking_id ORDER BY travel_date NULLS LAST, created_at, id
+  ) - 1 AS position
+  FROM booking_sectors
+) ordered
+WHERE bs.id = ordered.id AND bs.sector_order IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_booking_sectors_booking_order ON booking_sectors (booking_id, sector_order);
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_booking_type_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_booking_type_check
+  CHECK (booking_type IN ('One-Way', 'Return', 'Multi-City'));
+
+CREATE OR REPLACE FUNCTION save_booking_with_sectors(
+  p_booking_id uuid,
+  p_booking jsonb,
+  p_sectors jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_booking_id uuid := p_booking_id;
+  v_sector booking_sectors%ROWTYPE;
+  v_sector_json jsonb;
+  v_index integer;
+  v_kept_ids uuid[] := '{}';
+BEGIN
+  v_booking := jsonb_populate_record(NULL::bookings, p_booking);
+
+  IF p_sectors IS NOT NULL
+     AND (jsonb_typeof(p_sectors) <> 'array' OR jsonb_array_length(p_sectors) = 0) THEN
+    RAISE EXCEPTION 'At least one sector is required.' USING HINT = 'sectors';
+  END IF;
+
+  -- 1. Booking row
+  IF v_booking_id IS NULL THEN
+    IF p_sectors IS NULL THEN
+      RAISE EXCEPTION 'At least one sector is required.' USING HINT = 'sectors';
+    END IF;
+
+    INSERT INTO bookings (customer_id, booking_reference, booking_type, deadline, status, num_pax)
+    VALUES (
+      v_booking.customer_id,
+      v_booking.booking_reference,
+      v_booking.booking_type,
+      v_booking.deadline,
+      v_booking.status,
+      0
+    )
+    RETURNING id INTO v_booking_id;
+  ELSE
+    UPDATE bookings
+    SET customer_id = v_booking.customer_id,
+        booking_reference = v_booking.booking_reference,
+        booking_type = COALESCE(v_booking.booking_type, booking_type),
+        deadline = v_booking.deadline,
+        status = COALESCE(v_booking.status, status),
+        updated_at = NOW()
+    WHERE id = v_booking_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking % was not found.', v_booking_id USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  -- 2. Sector diff
+  IF p_sectors IS NOT NULL THEN
+    -- Every id sent by the client must already belong to this booking
+    FOR v_sector_json, v_index IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(p_sectors) WITH ORDINALITY
+    LOOP
+      IF NULLIF(v_sector_json->>'id', '') IS NOT NULL THEN
+        IF NOT EXISTS (
+          SELECT 1 FROM booking_sectors
+          WHERE id = (v_sector_json->>'id')::uuid AND booking_id = v_booking_id
+        ) THEN
+          RAISE EXCEPTION 'Sector % does not belong to this booking.', v_index + 1
+            USING HINT = 'sectors.' || v_index;
+        END IF;
+        v_kept_ids := v_kept_ids || (v_sector_json->>'id')::uuid;
+      END IF;
+    END LOOP;
+
+    DELETE FROM booking_sectors
+    WHERE booking_id = v_booking_id
+      AND NOT (id = ANY (v_kept_ids));
+
+    FOR v_sector_json, v_index IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(p_sectors) WITH ORDINALITY
+    LOOP
+      v_sector := jsonb_populate_record(NULL::booking_sectors, v_sector_json - 'id' - 'booking_id');
+
+      IF v_sector.predefined_sector_id IS NULL THEN
+        RAISE EXCEPTION 'Sector % is missing a route.', v_index + 1
+          USING HINT = 'sectors.' || v_index || '.predefined_sector_id';
+      END IF;
+
+      IF NULLIF(v_sector_json->>'id', '') IS NOT NULL THEN
+        UPDATE booking_sectors
+        SET predefined_sector_id = v_sector.predefined_sector_id,
+            travel_date = v_sector.travel_date,
+            status = v_sector.status,
+            flight_number = v_sector.flight_number,
+            num_pax = COALESCE(v_sector.num_pax, 0),
+            fare_class_id = v_sector.fare_class_id,
+            sector_order = v_index
+        WHERE id = (v_sector_json->>'id')::uuid;
+      ELSE
+        INSERT INTO booking_sectors (
+          booking_id, predefined_sector_id, travel_date, status, flight_number, num_pax, fare_class_id, sector_order
+        )
+        VALUES (
+          v_booking_id,
+          v_sector.predefined_sector_id,
+          v_sector.travel_date,
+          v_sector.status,
+          v_sector.flight_number,
+          COALESCE(v_sector.num_pax, 0),
+          v_sector.fare_class_id,
+          v_index
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- 3. Total passengers always reflects the saved sectors
+  UPDATE bookings
+  SET num_pax = (
+    SELECT COALESCE(SUM(num_pax), 0) FROM booking_sectors WHERE booking_id = v_booking_id
+  )
+  WHERE id = v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$;
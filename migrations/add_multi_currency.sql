@@ -0,0 +1,50 @@
+-- Multi-currency tour bookings and payments.
+-- Bookings are priced in their own currency (base price, add-ons and grand_total all share it);
+-- payments record the currency shown on the slip. Existing rows were always THB.
+-- exchange_rates is maintained by hand or by CSV import: one row says 1 unit of `currency`
+-- is worth `rate` THB from `rate_date` on. Reports convert with the latest rate on or before
+-- the payment date.
+
+ALTER TABLE tour_package_bookings ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'THB'
+  CHECK (currency IN ('THB', 'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'SGD', 'AUD'));
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'THB'
+  CHECK (currency IN ('THB', 'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'SGD', 'AUD'));
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    currency TEXT NOT NULL CHECK (currency IN ('USD', 'EUR', 'GBP', 'JPY', 'CNY', 'SGD', 'AUD')),
+    rate_date DATE NOT NULL,
+    rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_by_email TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT uq_exchange_rates_currency_date UNIQUE (currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_currency_date
+    ON exchange_rates(currency, rate_date DESC);
+
+CREATE OR REPLACE FUNCTION update_exchange_rates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_trigger
+        WHERE tgname = 'trigger_update_exchange_rates_updated_at'
+    ) THEN
+        CREATE TRIGGER trigger_update_exchange_rates_updated_at
+            BEFORE UPDATE ON exchange_rates
+            FOR EACH ROW
+            EXECUTE FUNCTION update_exchange_rates_updated_at();
+    END IF;
+END $$;
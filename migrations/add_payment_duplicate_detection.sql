@@ -0,0 +1,18 @@
+-- Duplicate payment slip detection.
+-- slip_hash is the sha256 of the uploaded file; verified fields (amount + date + origin bank)
+-- are compared after OCR. A suspected duplicate points at the earlier payment it matches,
+-- and stays flagged until someone accepts it.
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS slip_hash text;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS duplicate_of_payment_id uuid
+  REFERENCES payments(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS duplicate_reason text
+  CHECK (duplicate_reason IN ('content_hash', 'verified_fields'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS duplicate_accepted_by uuid
+  REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS duplicate_accepted_by_email text;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS duplicate_accepted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_payments_slip_hash ON payments(slip_hash);
+CREATE INDEX IF NOT EXISTS idx_payments_verified_amount_date
+  ON payments(verified_amount, verified_payment_date);
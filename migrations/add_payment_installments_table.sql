@@ -0,0 +1,50 @@
+-- Installment schedule for tour package bookings.
+-- Each row is one scheduled payment (deposit, intermediate installments, balance) with
+-- its due date and amount. Verified payments are matched to installments in sequence
+-- order when the schedule is read, so nothing here needs updating when a slip is verified.
+
+CREATE TABLE IF NOT EXISTS payment_installments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tour_package_booking_id VARCHAR(5) NOT NULL,
+    sequence INTEGER NOT NULL CHECK (sequence > 0),
+    label TEXT NOT NULL,
+    due_date DATE NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT fk_payment_installments_tour_package_booking_id
+        FOREIGN KEY (tour_package_booking_id)
+        REFERENCES tour_package_bookings(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT uq_payment_installments_booking_sequence
+        UNIQUE (tour_package_booking_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_installments_tour_package_booking_id
+    ON payment_installments(tour_package_booking_id);
+
+CREATE INDEX IF NOT EXISTS idx_payment_installments_due_date
+    ON payment_installments(due_date);
+
+CREATE OR REPLACE FUNCTION update_payment_installments_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_trigger
+        WHERE tgname = 'trigger_update_payment_installments_updated_at'
+    ) THEN
+        CREATE TRIGGER trigger_update_payment_installments_updated_at
+            BEFORE UPDATE ON payment_installments
+            FOR EACH ROW
+            EXECUTE FUNCTION update_payment_installments_updated_at();
+    END IF;
+END $$;
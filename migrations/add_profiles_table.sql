@@ -0,0 +1,82 @@
+-- User profiles with an application role (agent / manager / admin).
+-- One row per auth.users entry; new sign-ups start as 'agent'.
+-- Promote users with: UPDATE profiles SET role = 'manager' WHERE email = '...';
+-- Row level security lets signed-in users read only their own row; clients cannot
+-- write to the table, so roles change only through the service role (updateUserRole).
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  full_name text,
+  role text NOT NULL DEFAULT 'agent'
+    CHECK (role IN ('agent', 'manager', 'admin')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON profiles(role);
+
+CREATE OR REPLACE FUNCTION update_profiles_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'trigger_update_profiles_updated_at'
+  ) THEN
+    CREATE TRIGGER trigger_update_profiles_updated_at
+      BEFORE UPDATE ON profiles
+      FOR EACH ROW
+      EXECUTE FUNCTION update_profiles_updated_at();
+  END IF;
+END $$;
+
+-- Create a profile for every new auth user
+CREATE OR REPLACE FUNCTION handle_new_user_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email)
+  VALUES (NEW.id, NEW.email)
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'trigger_handle_new_user_profile'
+  ) THEN
+    CREATE TRIGGER trigger_handle_new_user_profile
+      AFTER INSERT ON auth.users
+      FOR EACH ROW
+      EXECUTE FUNCTION handle_new_user_profile();
+  END IF;
+END $$;
+
+-- Backfill existing users
+INSERT INTO profiles (id, email)
+SELECT id, email FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Users may read their own profile and nothing else
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS profiles_select_own ON profiles;
+CREATE POLICY profiles_select_own ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = id);
+
+-- No client writes: rows come from the sign-up trigger and roles from the service role
+REVOKE INSERT, UPDATE, DELETE ON profiles FROM anon, authenticated;
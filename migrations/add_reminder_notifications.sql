@@ -0,0 +1,70 @@
+-- Reminder notifications for booking deadlines, task due dates and call report follow-ups.
+-- The reminder job (GET /api/reminders, run daily by a scheduler) writes one in-app
+-- notification per user and item, then emails each user a single daily digest.
+-- Bookings, tasks and call reports have no owner, so every user with a profile is reminded;
+-- notification_preferences sets each user's lead times and whether they get the email.
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  email_enabled boolean NOT NULL DEFAULT true,
+  -- Remind this many days before the due date (0 = on the day)
+  booking_deadline_lead_days integer NOT NULL DEFAULT 2 CHECK (booking_deadline_lead_days BETWEEN 0 AND 30),
+  task_lead_days integer NOT NULL DEFAULT 1 CHECK (task_lead_days BETWEEN 0 AND 30),
+  follow_up_lead_days integer NOT NULL DEFAULT 1 CHECK (follow_up_lead_days BETWEEN 0 AND 30),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('booking_deadline', 'task', 'follow_up')),
+  -- booking_deadlines.id, tasks.id or call_reports.id (tasks use integer ids, hence text)
+  source_id text NOT NULL,
+  due_date date NOT NULL,
+  title text NOT NULL,
+  body text,
+  link text,
+  -- kind:source_id:due_date:stage; the same reminder is never created twice for a user
+  dedupe_key text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  read_at timestamptz,
+  -- Set once the notification went out in a digest
+  emailed_at timestamptz,
+  CONSTRAINT uq_notifications_user_dedupe UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unemailed ON notifications(user_id) WHERE emailed_at IS NULL;
+
+-- At most one digest email per user per day
+CREATE TABLE IF NOT EXISTS reminder_digests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  digest_date date NOT NULL,
+  transport text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT uq_reminder_digests_user_date UNIQUE (user_id, digest_date)
+);
+
+CREATE OR REPLACE FUNCTION update_notification_preferences_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'trigger_update_notification_preferences_updated_at'
+  ) THEN
+    CREATE TRIGGER trigger_update_notification_preferences_updated_at
+      BEFORE UPDATE ON notification_preferences
+      FOR EACH ROW
+      EXECUTE FUNCTION update_notification_preferences_updated_at();
+  END IF;
+END $$;
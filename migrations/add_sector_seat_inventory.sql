@@ -0,0 +1,116 @@
+-- Seat inventory for group blocks. booking_sectors.num_pax stays the number of seats currently
+-- held with the airline; released and ticketed seats are tracked next to it, and seats named on
+-- the passenger manifest are counted from booking_passenger_sectors.
+-- Every change to a sector's inventory is kept in booking_sector_inventory_changes so a block
+-- can be traced from the first hold to ticketing.
+
+ALTER TABLE booking_sectors
+  ADD COLUMN IF NOT EXISTS seats_released integer NOT NULL DEFAULT 0 CHECK (seats_released >= 0),
+  ADD COLUMN IF NOT EXISTS seats_ticketed integer NOT NULL DEFAULT 0 CHECK (seats_ticketed >= 0);
+
+CREATE TABLE IF NOT EXISTS booking_sector_inventory_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  booking_sector_id uuid NOT NULL REFERENCES booking_sectors(id) ON DELETE CASCADE,
+  -- held/adjusted come from the booking form, added/released/ticketed are recorded on the block
+  change_type text NOT NULL
+    CHECK (change_type IN ('held', 'added', 'released', 'ticketed', 'adjusted')),
+  -- Seats added (positive) or removed (negative) from the hold; tickets issued for 'ticketed'
+  seats integer NOT NULL,
+  seats_held_after integer NOT NULL,
+  note text,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_sector_inventory_changes_booking
+  ON booking_sector_inventory_changes(booking_id, changed_at DESC);
+
+-- Existing sectors start their timeline with the seats they hold today
+INSERT INTO booking_sector_inventory_changes (booking_id, booking_sector_id, change_type, seats, seats_held_after, changed_at)
+SELECT bs.booking_id, bs.id, 'held', COALESCE(bs.num_pax, 0), COALESCE(bs.num_pax, 0), bs.created_at
+FROM booking_sectors bs
+WHERE NOT EXISTS (
+  SELECT 1 FROM booking_sector_inventory_changes c WHERE c.booking_sector_id = bs.id
+);
+
+-- Adds, releases or tickets seats on one sector and logs the change, in one transaction.
+-- Releasing can't drop the hold below the seats already ticketed, and no more seats can be
+-- ticketed than are held. bookings.num_pax is kept as the sum of its sectors.
+-- Returns the seats held after the change. Validation errors carry HINT 'seats'.
+
+CREATE OR REPLACE FUNCTION record_sector_inventory_change(
+  p_booking_sector_id uuid,
+  p_change_type text,
+  p_seats integer,
+  p_note text,
+  p_actor_id uuid,
+  p_actor_email text
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_sector booking_sectors%ROWTYPE;
+  v_held integer;
+  v_delta integer;
+BEGIN
+  SELECT * INTO v_sector FROM booking_sectors WHERE id = p_booking_sector_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sector % was not found.', p_booking_sector_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_seats IS NULL OR p_seats < 1 THEN
+    RAISE EXCEPTION 'Enter at least one seat.' USING HINT = 'seats';
+  END IF;
+
+  v_held := COALESCE(v_sector.num_pax, 0);
+
+  IF p_change_type = 'added' THEN
+    v_delta := p_seats;
+    UPDATE booking_sectors SET num_pax = v_held + p_seats WHERE id = v_sector.id;
+  ELSIF p_change_type = 'released' THEN
+    IF p_seats > v_held - v_sector.seats_ticketed THEN
+      RAISE EXCEPTION 'Only % unticketed seat(s) can be released.', GREATEST(v_held - v_sector.seats_ticketed, 0)
+        USING HINT = 'seats';
+    END IF;
+    v_delta := -p_seats;
+    UPDATE booking_sectors
+    SET num_pax = v_held - p_seats,
+        seats_released = seats_released + p_seats
+    WHERE id = v_sector.id;
+  ELSIF p_change_type = 'ticketed' THEN
+    IF v_sector.seats_ticketed + p_seats > v_held THEN
+      RAISE EXCEPTION 'Only % held seat(s) are still unticketed.', GREATEST(v_held - v_sector.seats_ticketed, 0)
+        USING HINT = 'seats';
+    END IF;
+    v_delta := 0;
+    UPDATE booking_sectors SET seats_ticketed = seats_ticketed + p_seats WHERE id = v_sector.id;
+  ELSE
+    RAISE EXCEPTION 'Unknown inventory change "%".', p_change_type USING HINT = 'change_type';
+  END IF;
+
+  UPDATE bookings
+  SET num_pax = (
+    SELECT COALESCE(SUM(num_pax), 0) FROM booking_sectors WHERE booking_id = v_sector.booking_id
+  )
+  WHERE id = v_sector.booking_id;
+
+  INSERT INTO booking_sector_inventory_changes (
+    booking_id, booking_sector_id, change_type, seats, seats_held_after, note, changed_by, changed_by_email
+  )
+  VALUES (
+    v_sector.booking_id,
+    v_sector.id,
+    p_change_type,
+    CASE WHEN p_change_type = 'ticketed' THEN p_seats ELSE v_delta END,
+    v_held + v_delta,
+    NULLIF(btrim(p_note), ''),
+    p_actor_id,
+    p_actor_email
+  );
+
+  RETURN v_held + v_delta;
+END;
+$$;
@@ -0,0 +1,24 @@
+-- Link tour package bookings to the customers master table.
+-- customer_name stays on the booking as the printed name (invoices, lists) and is refreshed
+-- from customers.company_name whenever a customer is linked.
+-- Existing bookings whose name matches exactly one customer (ignoring case and surrounding
+-- spaces) are linked here. The rest keep customer_id NULL and are listed on
+-- /tour-packages/customer-links, which suggests fuzzy matches for manual review.
+
+ALTER TABLE tour_package_bookings
+  ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_tour_package_bookings_customer_id
+  ON tour_package_bookings(customer_id);
+
+WITH unique_names AS (
+  SELECT lower(trim(company_name)) AS normalized_name, (array_agg(id))[1] AS customer_id
+  FROM customers
+  GROUP BY lower(trim(company_name))
+  HAVING COUNT(*) = 1
+)
+UPDATE tour_package_bookings AS booking
+SET customer_id = unique_names.customer_id
+FROM unique_names
+WHERE booking.customer_id IS NULL
+  AND lower(trim(booking.customer_name)) = unique_names.normalized_name;
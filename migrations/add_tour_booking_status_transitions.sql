@@ -0,0 +1,30 @@
+-- Every attempt to change a tour package booking's status, including the ones that were refused.
+-- The transition graph and its guards (verified payments for full payment, travel finished for
+-- Complete) live in src/lib/tour-status.ts; rows are written by the server actions with the
+-- reason code of the decision.
+
+CREATE TABLE IF NOT EXISTS tour_booking_status_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tour_package_booking_id varchar(5) NOT NULL REFERENCES tour_package_bookings(id) ON DELETE CASCADE,
+  -- NULL for the status a booking was created with
+  from_status text,
+  to_status text NOT NULL,
+  allowed boolean NOT NULL,
+  reason_code text NOT NULL
+    CHECK (reason_code IN (
+      'allowed',
+      'not_initial_status',
+      'transition_not_allowed',
+      'missing_grand_total',
+      'insufficient_verified_payments',
+      'missing_travel_end_date',
+      'travel_not_finished'
+    )),
+  reason_message text NOT NULL,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tour_booking_status_transitions_booking
+  ON tour_booking_status_transitions(tour_package_booking_id, created_at DESC);
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { runDailyKpiSnapshot } from '@/lib/kpi-snapshots';
+
+export const dynamic = 'force-dynamic';
+
+// Daily KPI snapshot, called by a scheduler like /api/reminders with
+// "Authorization: Bearer $CRON_SECRET". A second run on the same day replaces that day's values.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('[kpi-snapshots] CRON_SECRET is not configured; refusing to run.');
+    return NextResponse.json({ error: 'KPI snapshot job is not configured.' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runDailyKpiSnapshot();
+    console.log('[kpi-snapshots] Snapshot saved:', summary);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('[kpi-snapshots] Snapshot failed:', error);
+    const message = error instanceof Error ? error.message : 'KPI snapshot job failed.';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { runScheduledReminders } from '@/lib/reminders';
+
+export const dynamic = 'force-dynamic';
+
+// Daily reminder job, called by a scheduler (e.g. Vercel Cron or a crontab curl) with
+// "Authorization: Bearer $CRON_SECRET". Running it more than once a day is harmless.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('[reminders] CRON_SECRET is not configured; refusing to run.');
+    return NextResponse.json({ error: 'Reminder job is not configured.' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runScheduledReminders();
+    console.log('[reminders] Run finished:', summary);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('[reminders] Run failed:', error);
+    const message = error instanceof Error ? error.message : 'Reminder job failed.';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
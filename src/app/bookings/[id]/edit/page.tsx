@@ -43,6 +43,7 @@ export default async function EditBookingPage({ params }: EditBookingPageProps)
                 booking_sectors ( *, fare_class_id, predefined_sectors ( id, origin_code, destination_code, description ) )
             `) 
             .eq('id', id)
+            .order('sector_order', { referencedTable: 'booking_sectors', ascending: true })
             .order('created_at', { referencedTable: 'booking_sectors', ascending: true })
             .returns<FullBookingEditData>()
             .single(),
@@ -88,8 +89,8 @@ export default async function EditBookingPage({ params }: EditBookingPageProps)
       status: booking.status,
       booking_reference: booking.booking_reference,
       booking_type: booking.booking_type,
-      deadline: booking.deadline ? new Date(booking.deadline) : null, 
       sectors: booking.booking_sectors.map(sector => ({
+          id: sector.id,
           predefined_sector_id: sector.predefined_sector_id,
           travel_date: sector.travel_date ? new Date(sector.travel_date) : null, 
           fare_class_id: sector.fare_class_id, // <-- Include fare_class_id
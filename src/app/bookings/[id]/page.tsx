@@ -3,7 +3,7 @@
 import { createSimpleServerClient } from "@/lib/supabase/server";
 import type { Booking, BookingSector, PredefinedSector, Customer } from "@/types/database";
 import { notFound } from 'next/navigation';
-import { useState, useEffect, use } from 'react';
+import { useState, useEffect, useCallback, use } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -15,9 +15,19 @@ import {
     TableRow,
   } from "@/components/ui/table";
 import Link from 'next/link';
+import { AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { BookingDeleteDialog } from "@/components/bookings/booking-delete-dialog";
+import { BookingManifest } from "@/components/bookings/booking-manifest";
+import { BookingDeadlines } from "@/components/bookings/booking-deadlines";
+import { SeatInventoryPanel } from "@/components/bookings/seat-inventory-panel";
 import { cn } from "@/lib/utils"; // For class merging
+import { findBookingStatusContradiction, formatTicketNumber } from "@/lib/booking-status";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditHistoryTimeline } from "@/components/audit/audit-history-timeline";
+import { getAuditHistory } from "@/lib/actions/audit-log";
+import type { AuditLogEntry } from "@/lib/types/audit-log";
+import type { SectorHold } from "@/lib/types/seat-inventory";
 
 // Type combining BookingSector with nested PredefinedSector details
 interface PopulatedBookingSector extends BookingSector {
@@ -118,6 +128,7 @@ export default function BookingDetailPage({ params }: BookingDetailPageProps) {
   
   const [booking, setBooking] = useState<PopulatedBooking | null>(null);
   const [sectors, setSectors] = useState<PopulatedBookingSector[] | null>(null);
+  const [history, setHistory] = useState<AuditLogEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
 
@@ -132,6 +143,7 @@ export default function BookingDetailPage({ params }: BookingDetailPageProps) {
               .from('bookings')
               .select(`
                 id, booking_reference, booking_type, deadline, status, created_at, updated_at, num_pax, 
+                ticket_numbers, ticketed_at, cancellation_reason, cancelled_at,
                 customers ( id, company_name ) 
               `)
               .eq('id', id)
@@ -144,11 +156,16 @@ export default function BookingDetailPage({ params }: BookingDetailPageProps) {
                   predefined_sectors ( id, origin_code, destination_code, description ) 
               `)
               .eq('booking_id', id)
+              .order('sector_order', { ascending: true })
               .order('created_at', { ascending: true })
               .returns<PopulatedBookingSector[]>()
          ];
 
-         const [bookingResult, sectorsResult] = await Promise.all([bookingPromise, sectorsPromise]);
+         const [bookingResult, sectorsResult, historyResult] = await Promise.all([
+            bookingPromise,
+            sectorsPromise,
+            getAuditHistory('booking', id),
+         ]);
 
          // --- Check for errors first --- 
          if (bookingResult.error) {
@@ -176,6 +193,7 @@ export default function BookingDetailPage({ params }: BookingDetailPageProps) {
          // --- Finally, set state --- 
          setBooking(bookingData);
          setSectors(sectorsData || []); // sectorsData can be null or [], default to []
+         setHistory(historyResult);
       } catch (error: unknown) {
           let errorMessage = 'Failed to load booking details.';
           if (error instanceof Error) {
@@ -196,6 +214,17 @@ export default function BookingDetailPage({ params }: BookingDetailPageProps) {
     fetchData();
   }, [id]);
 
+  // Seat changes recorded in the inventory panel move num_pax; keep the Sectors card in step
+  const handleHoldsChange = useCallback((holds: SectorHold[]) => {
+    const held = new Map(holds.map((hold) => [hold.id, hold.num_pax]));
+    setSectors((current) => current?.map((sector) => ({ ...sector, num_pax: held.get(sector.id) ?? sector.num_pax })) ?? null);
+  }, []);
+
+  // bookings.deadline is the earliest open typed deadline
+  const handleNextDeadlineChange = useCallback((deadline: string | null) => {
+    setBooking((current) => (current ? { ...current, deadline } : current));
+  }, []);
+
   if (isLoading) {
       return <p className="p-4">Loading booking details...</p>;
   }
@@ -208,6 +237,8 @@ export default function BookingDetailPage({ params }: BookingDetailPageProps) {
     notFound();
   }
 
+  const statusContradiction = sectors && findBookingStatusContradiction(booking.status, sectors.map((sector) => sector.status));
+
   return (
     <div>
         <div className="flex justify-between items-center mb-6">
@@ -230,90 +261,140 @@ export default function BookingDetailPage({ params }: BookingDetailPageProps) {
              </div>
         </div>
 
-      <div className="grid gap-6 grid-cols-1 md:grid-cols-3 mb-6">
-         {/* Booking Details Card */}
-        <Card className="col-span-1">
-            <CardHeader>
-                <CardTitle>Details</CardTitle>
-            </CardHeader>
-            <CardContent className="text-sm space-y-2">
-                <p><strong>Customer:</strong> {booking.customers?.company_name ?? 'Unknown'}</p>
-                <p><strong>Reference:</strong> {booking.booking_reference}</p>
-                <p><strong>Type:</strong> {booking.booking_type}</p>
-                <p><strong>Status:</strong> 
-                    <Badge 
-                        className={cn({
-                            'bg-green-100 text-green-800': booking.status === 'Ticketed',
-                            'bg-red-100 text-red-800': booking.status === 'Cancelled',
-                            'bg-blue-100 text-blue-800': booking.status === 'Confirmed',
-                            'bg-amber-100 text-amber-800': booking.status === 'Waiting List',
-                            'bg-gray-100 text-gray-800': !booking.status || ['Pending', 'Unconfirmed'].includes(booking.status)
-                        })}
-                    >
-                        {booking.status}
-                    </Badge>
-                </p>
-                <p>
-                    <strong>Deadline:</strong> {formatDate(booking.deadline)} 
-                    <span className="text-muted-foreground ml-1">
-                        {formatDeadlineDifference(booking.deadline)}
-                    </span>
-                </p>
-            </CardContent>
-        </Card>
+      <Tabs defaultValue="details">
+        <TabsList className="mb-4">
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="passengers">Passengers</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details">
+          {statusContradiction && (
+            <div className="mb-6 flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>{statusContradiction.message} Saving the booking brings the status back in line with its sectors.</span>
+            </div>
+          )}
+          <div className="grid gap-6 grid-cols-1 md:grid-cols-3 mb-6">
+             {/* Booking Details Card */}
+            <Card className="col-span-1">
+                <CardHeader>
+                    <CardTitle>Details</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm space-y-2">
+                    <p><strong>Customer:</strong> {booking.customers?.company_name ?? 'Unknown'}</p>
+                    <p><strong>Reference:</strong> {booking.booking_reference}</p>
+                    <p><strong>Type:</strong> {booking.booking_type}</p>
+                    <p><strong>Status:</strong> 
+                        <Badge 
+                            className={cn({
+                                'bg-green-100 text-green-800': booking.status === 'Ticketed',
+                                'bg-red-100 text-red-800': booking.status === 'Cancelled',
+                                'bg-blue-100 text-blue-800': booking.status === 'Confirmed',
+                                'bg-amber-100 text-amber-800': booking.status === 'Waiting List',
+                                'bg-gray-100 text-gray-800': !booking.status || ['Pending', 'Unconfirmed'].includes(booking.status)
+                            })}
+                        >
+                            {booking.status}
+                        </Badge>
+                    </p>
+                    {booking.ticket_numbers && booking.ticket_numbers.length > 0 && (
+                        <p>
+                            <strong>Tickets:</strong> {booking.ticket_numbers.map(formatTicketNumber).join(', ')}
+                            {booking.ticketed_at && <span className="text-muted-foreground ml-1">(issued {formatDate(booking.ticketed_at)})</span>}
+                        </p>
+                    )}
+                    {booking.status === 'Cancelled' && booking.cancellation_reason && (
+                        <p>
+                            <strong>Cancelled:</strong> {booking.cancellation_reason}
+                            {booking.cancelled_at && <span className="text-muted-foreground ml-1">({formatDate(booking.cancelled_at)})</span>}
+                        </p>
+                    )}
+                    <p>
+                        <strong>Next Deadline:</strong> {formatDate(booking.deadline)} 
+                        <span className="text-muted-foreground ml-1">
+                            {formatDeadlineDifference(booking.deadline)}
+                        </span>
+                    </p>
+                </CardContent>
+            </Card>
+
+             {/* Sectors Card */}
+             <Card className="col-span-1 md:col-span-2">
+                <CardHeader>
+                    <CardTitle>Sectors</CardTitle>
+                     <CardDescription>Flights associated with this booking.</CardDescription>
+                </CardHeader>
+                 <CardContent className="overflow-x-auto">
+                    {fetchError && <p className="text-red-500 mb-4">Error loading sectors: {fetchError}</p>}
+                    {sectors && Array.isArray(sectors) && sectors.length > 0 ? (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                <TableHead>Origin</TableHead>
+                                <TableHead>Destination</TableHead>
+                                <TableHead>Travel Date</TableHead>
+                                <TableHead>Flight No.</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead>Passengers</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {sectors.map((sector) => (
+                                <TableRow key={sector.id}>
+                                    <TableCell>{sector.predefined_sectors?.origin_code ?? 'N/A'}</TableCell>
+                                    <TableCell>{sector.predefined_sectors?.destination_code ?? 'N/A'}</TableCell>
+                                    <TableCell>{formatShortDate(sector.travel_date)}</TableCell>
+                                    <TableCell>{sector.flight_number || '-'}</TableCell>
+                                    <TableCell>
+                                        <Badge 
+                                            className={cn({
+                                                'bg-green-100 text-green-800': sector.status === 'Ticketed',
+                                                'bg-red-100 text-red-800': sector.status === 'Cancelled',
+                                                'bg-blue-100 text-blue-800': sector.status === 'Confirmed',
+                                                'bg-amber-100 text-amber-800': sector.status === 'Waiting List',
+                                            })}
+                                        >
+                                            {sector.status}
+                                        </Badge>
+                                    </TableCell>
+                                    <TableCell>{sector.num_pax || '-'}</TableCell>
+                                </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    ) : (
+                        <TableRow>
+                            <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                                No sectors found for this booking.
+                            </TableCell>
+                        </TableRow>
+                    )}
+                </CardContent>
+             </Card>
+          </div>
+          <div className="mb-6">
+            <BookingDeadlines bookingId={booking.id} onNextDeadlineChange={handleNextDeadlineChange} />
+          </div>
+          <SeatInventoryPanel bookingId={booking.id} onHoldsChange={handleHoldsChange} />
+        </TabsContent>
+
+        <TabsContent value="passengers">
+          <BookingManifest bookingId={booking.id} bookingReference={booking.booking_reference} />
+        </TabsContent>
 
-         {/* Sectors Card */}
-         <Card className="col-span-1 md:col-span-2">
+        <TabsContent value="history">
+          <Card>
             <CardHeader>
-                <CardTitle>Sectors</CardTitle>
-                 <CardDescription>Flights associated with this booking.</CardDescription>
+              <CardTitle>Change History</CardTitle>
+              <CardDescription>Status, deadline and other changes to this booking.</CardDescription>
             </CardHeader>
-             <CardContent className="overflow-x-auto">
-                {fetchError && <p className="text-red-500 mb-4">Error loading sectors: {fetchError}</p>}
-                {sectors && Array.isArray(sectors) && sectors.length > 0 ? (
-                    <Table>
-                        <TableHeader>
-                            <TableRow>
-                            <TableHead>Origin</TableHead>
-                            <TableHead>Destination</TableHead>
-                            <TableHead>Travel Date</TableHead>
-                            <TableHead>Flight No.</TableHead>
-                            <TableHead>Status</TableHead>
-                            <TableHead>Passengers</TableHead>
-                            </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                            {sectors.map((sector) => (
-                            <TableRow key={sector.id}>
-                                <TableCell>{sector.predefined_sectors?.origin_code ?? 'N/A'}</TableCell>
-                                <TableCell>{sector.predefined_sectors?.destination_code ?? 'N/A'}</TableCell>
-                                <TableCell>{formatShortDate(sector.travel_date)}</TableCell>
-                                <TableCell>{sector.flight_number || '-'}</TableCell>
-                                <TableCell>
-                                    <Badge 
-                                        className={cn({
-                                            'bg-blue-100 text-blue-800': sector.status === 'Confirmed',
-                                            'bg-amber-100 text-amber-800': sector.status === 'Waiting List',
-                                        })}
-                                    >
-                                        {sector.status}
-                                    </Badge>
-                                </TableCell>
-                                <TableCell>{sector.num_pax || '-'}</TableCell>
-                            </TableRow>
-                            ))}
-                        </TableBody>
-                    </Table>
-                ) : (
-                    <TableRow>
-                        <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
-                            No sectors found for this booking.
-                        </TableCell>
-                    </TableRow>
-                )}
+            <CardContent>
+              <AuditHistoryTimeline entries={history} />
             </CardContent>
-         </Card>
-      </div>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 } 
\ No newline at end of file
@@ -4,11 +4,18 @@ import { z } from 'zod';
 import { createSimpleServerClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
 import { bookingFormSchema, BookingFormData } from '@/lib/schemas';
+import { recordAuditEntry } from '@/lib/audit-log';
+import { getTravelDateRange } from '@/lib/itinerary';
+import { getSectorHolds, recordSectorHoldChanges } from '@/lib/seat-inventory-log';
+import { applyBookingDeadlineRules } from '@/lib/actions/booking-deadlines';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
+import { deriveBookingStatus, parseTicketNumbers, resolveBookingStatusChange } from '@/lib/booking-status';
 import type { BookingStatus } from '@/types/database';
 import type { Booking, BookingSector, PredefinedSector, Customer, FareClass } from "@/types/database";
 
 // Define a proper type for the sector data we parse from JSON
 interface SectorUpdateData {
+  id?: string | null; // Existing booking_sectors.id, absent for new rows
   predefined_sector_id: string;
   travel_date: string | null;
   status: BookingStatus;
@@ -17,11 +24,6 @@ interface SectorUpdateData {
   fare_class_id?: string | null;
 }
 
-// Helper function to determine overall booking status from sectors
-function determineOverallStatus(sectors: BookingFormData['sectors']): BookingStatus {
-  return sectors.some(sector => sector.status === 'Waiting List') ? 'Waiting List' : 'Confirmed';
-}
-
 function formatDateForDB(date: Date | null | undefined): string | null {
     if (!date) return null;
     try {
@@ -39,12 +41,109 @@ export type BookingActionState = {
   bookingId?: string | null;
 };
 
+// deadline is not sent: the database derives it from booking_deadlines
+interface SaveBookingPayload {
+  customer_id: string;
+  booking_reference: string;
+  booking_type?: string | null;
+  status?: BookingStatus | null;
+  // Captured when the booking moves into Ticketed or Cancelled; omitted otherwise
+  ticket_numbers?: string[];
+  ticketed_at?: string;
+  cancellation_reason?: string;
+  cancelled_at?: string;
+}
+
+interface SaveBookingError {
+  message: string;
+  code?: string;
+  hint?: string | null;
+}
+
+// Translate a save_booking_with_sectors error into a form-friendly action state.
+// The function puts the form field path in HINT (e.g. 'sectors.1'); constraint
+// violations are mapped to the field they most likely came from.
+function toBookingActionError(error: SaveBookingError, fallback: string): BookingActionState {
+  let path: (string | number)[] | null = null;
+
+  if (error.hint && /^[a-z_]+(\.[a-z_0-9]+)*$/.test(error.hint)) {
+    path = error.hint.split('.').map(part => (/^\d+$/.test(part) ? Number(part) : part));
+  } else if (error.code === '23503') { // Foreign key violation
+    path = error.message.includes('customer') ? ['customer_id'] : ['sectors'];
+  } else if (error.code === '23505') { // Unique violation
+    path = ['booking_reference'];
+  }
+
+  if (!path) {
+    return { message: `Database Error: ${fallback} ${error.message}` };
+  }
+
+  return {
+    message: 'Validation failed',
+    errors: [{ code: z.ZodIssueCode.custom, path, message: error.message }],
+  };
+}
+
+const BOOKING_AUDIT_COLUMNS = 'status, deadline, booking_reference, customer_id, booking_type, num_pax, ticket_numbers, cancellation_reason';
+
+// Current values of the audited booking columns, used as the before/after of a history entry
+async function getBookingAuditSnapshot(bookingId: string): Promise<Record<string, unknown> | null> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('bookings')
+    .select(BOOKING_AUDIT_COLUMNS)
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching audit snapshot for booking ${bookingId}:`, error);
+    return null;
+  }
+  return data;
+}
+
+// Saved sectors in itinerary order, in the shape the save function takes
+async function getSavedSectors(bookingId: string): Promise<SectorUpdateData[]> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('booking_sectors')
+    .select('id, predefined_sector_id, travel_date, status, flight_number, num_pax, fare_class_id')
+    .eq('booking_id', bookingId)
+    .order('sector_order', { ascending: true })
+    .order('created_at', { ascending: true })
+    .returns<SectorUpdateData[]>();
+
+  if (error) {
+    console.error(`Error fetching sectors for booking ${bookingId}:`, error);
+    return [];
+  }
+  return data ?? [];
+}
+
+// Saves the booking row and its sectors in a single transaction via RPC.
+// Pass sectors as null to leave the existing sectors untouched.
+async function saveBookingWithSectors(
+  bookingId: string | null,
+  booking: SaveBookingPayload,
+  sectors: SectorUpdateData[] | null
+): Promise<{ bookingId?: string; error?: SaveBookingError }> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase.rpc('save_booking_with_sectors', {
+    p_booking_id: bookingId,
+    p_booking: booking,
+    p_sectors: sectors,
+  });
+
+  if (error) {
+    console.error('Supabase error saving booking with sectors:', error);
+    return { error: { message: error.message, code: error.code, hint: error.hint } };
+  }
+  return { bookingId: data as string };
+}
+
 // Server Action to add a new booking and its sectors
 export async function addBooking(prevState: BookingActionState | undefined, formData: FormData): Promise<BookingActionState> {
-
-  // WARNING: This is a simplified approach without proper transaction handling.
-  // If inserting sectors fails after the booking is created, the booking will still exist.
-  // A robust solution would use a database function (RPC) to perform both inserts atomically.
+  await requireUser();
 
   // Manual parsing because formData doesn't directly support nested arrays/objects
   let parsedData: BookingFormData;
@@ -64,7 +163,6 @@ export async function addBooking(prevState: BookingActionState | undefined, form
         num_pax: numPaxValue ? Number(numPaxValue) : undefined, // Parse num_pax
         booking_type: formData.get('booking_type'),
         booking_reference: formData.get('booking_reference'),
-        deadline: formData.get('deadline') ? new Date(formData.get('deadline') as string) : null,
         sectors: rawSectors,
     });
   } catch (error) {
@@ -79,54 +177,40 @@ export async function addBooking(prevState: BookingActionState | undefined, form
     }
   }
 
-  const supabase = createSimpleServerClient();
-
-  // 1. Insert the main booking record
-  const overallStatus = determineOverallStatus(parsedData.sectors);
-  
-  // Calculate total passenger count from all sectors
-  const totalPassengers = parsedData.sectors.reduce((sum, sector) => sum + sector.num_pax, 0);
-  
-  const { data: newBooking, error: bookingInsertError } = await supabase
-    .from('bookings')
-    .insert({
-        customer_id: parsedData.customer_id,
-        num_pax: totalPassengers, // Use calculated total
-        booking_type: parsedData.booking_type,
-        booking_reference: parsedData.booking_reference,
-        deadline: formatDateForDB(parsedData.deadline),
-        status: overallStatus,
-    })
-    .select('id') // Select the ID of the newly created booking
-    .single();
-
-  if (bookingInsertError || !newBooking) {
-    console.error('Supabase error adding booking:', bookingInsertError);
-    return { message: `Database Error: Failed to create booking. ${bookingInsertError?.message}` };
-  }
-
-  // 2. Insert the booking sectors
-  const sectorsToInsert = parsedData.sectors.map(sector => ({
-      booking_id: newBooking.id,
+  // Booking, sectors and num_pax are written atomically by the database function
+  const { bookingId: newBookingId, error } = await saveBookingWithSectors(
+    null,
+    {
+      customer_id: parsedData.customer_id,
+      booking_reference: parsedData.booking_reference,
+      booking_type: parsedData.booking_type,
+      status: deriveBookingStatus(parsedData.sectors.map(sector => sector.status)) ?? 'Confirmed',
+    },
+    parsedData.sectors.map(sector => ({
       predefined_sector_id: sector.predefined_sector_id,
       travel_date: formatDateForDB(sector.travel_date), // Format date
       status: sector.status,
       flight_number: sector.flight_number,
       num_pax: sector.num_pax, // Include sector-specific passenger count
       fare_class_id: sector.fare_class_id ?? null, // Use nullish coalescing
-  }));
-
-  const { error: sectorsInsertError } = await supabase
-    .from('booking_sectors')
-    .insert(sectorsToInsert);
+    }))
+  );
 
-  if (sectorsInsertError) {
-    console.error('Supabase error adding sectors:', sectorsInsertError);
-    // Attempt to delete the booking record we just created (basic cleanup)
-     await supabase.from('bookings').delete().eq('id', newBooking.id);
-    return { message: `Database Error: Failed to add sectors after booking was created. Booking creation rolled back. ${sectorsInsertError.message}` };
+  if (error || !newBookingId) {
+    return toBookingActionError(error ?? { message: 'No booking ID returned.' }, 'Failed to create booking.');
   }
 
+  // bookings.deadline follows the typed deadlines, so generate them before the audit snapshot
+  await applyBookingDeadlineRules(newBookingId);
+
+  await recordAuditEntry({
+    entityType: 'booking',
+    entityId: newBookingId,
+    action: 'created',
+    after: await getBookingAuditSnapshot(newBookingId),
+  });
+  await recordSectorHoldChanges(newBookingId, []);
+
   // Revalidate relevant paths
   revalidatePath('/bookings');
   revalidatePath('/'); // Revalidate dashboard
@@ -134,7 +218,7 @@ export async function addBooking(prevState: BookingActionState | undefined, form
   // Instead of redirecting, return success with the booking ID
   return { 
     message: 'Successfully added booking', 
-    bookingId: newBooking.id,
+    bookingId: newBookingId,
     isSuccess: true
   };
 }
@@ -142,11 +226,13 @@ export async function addBooking(prevState: BookingActionState | undefined, form
 // NOTE: Using updateBookingActionSchema defined in schemas.ts
 // const updateBookingSchema = z.object({ ... }); // Removed local definition
 
-// Server Action to UPDATE a booking and REPLACE its sectors
+// Server Action to UPDATE a booking and diff its sectors (update / insert / delete by id)
 export async function updateBooking(
   bookingId: string,
   formData: FormData
 ): Promise<BookingActionState> {
+  await requireUser();
+
   if (!bookingId) {
     return { message: 'Error: Missing booking ID' };
   }
@@ -158,36 +244,19 @@ export async function updateBooking(
       booking_reference: formData.get('booking_reference'),
       customer_id: formData.get('customer_id'),
       status: formData.get('status'),
-      deadline: formData.get('deadline') ? new Date(formData.get('deadline') as string) : null,
+      ticket_numbers: formData.get('ticket_numbers'),
+      cancellation_reason: formData.get('cancellation_reason'),
     });
 
-    const supabase = createSimpleServerClient();
-
-    // Process sectors data if available
-    let totalPassengers = 0;
-    let sectorsToUpdate: {
-      booking_id: string;
-      predefined_sector_id: string;
-      travel_date: string | null;
-      status: BookingStatus;
-      flight_number: string | null;
-      num_pax: number;
-      fare_class_id?: string | null;
-    }[] = [];
-    
+    // Sectors are only submitted by the full edit form; edit-simple leaves them as they are
+    let sectorsToSave: SectorUpdateData[] | null = null;
     const sectorsJson = formData.get('sectorsJson');
     
     if (sectorsJson) {
       try {
-        // Parse the sectors data from the JSON string
-        const sectors = JSON.parse(sectorsJson as string) as (SectorUpdateData & { fare_class_id?: string | null })[];
-        
-        // Calculate total passengers from all sectors
-        totalPassengers = sectors.reduce((sum: number, sector) => sum + (sector.num_pax || 0), 0);
-        
-        // Prepare sectors for update
-        sectorsToUpdate = sectors.map((sector) => ({
-          booking_id: bookingId,
+        const sectors = JSON.parse(sectorsJson as string) as SectorUpdateData[];
+        sectorsToSave = sectors.map((sector) => ({
+          id: sector.id || null,
           predefined_sector_id: sector.predefined_sector_id,
           travel_date: sector.travel_date, // Already formatted in the form
           status: sector.status,
@@ -203,54 +272,70 @@ export async function updateBooking(
       }
     }
 
-    // Update booking
-    const { error: bookingError } = await supabase
-      .from('bookings')
-      .update({
-        booking_reference: parsedData.booking_reference,
-        customer_id: parsedData.customer_id,
-        status: parsedData.status,
-        deadline: formatDateForDB(parsedData.deadline as Date | null | undefined),
-        updated_at: new Date().toISOString(),
-        num_pax: totalPassengers, // Update total passengers count
-      })
-      .eq('id', bookingId);
-
-    if (bookingError) {
-      console.error('Error updating booking:', bookingError);
-      return { 
-        message: `Error updating booking: ${bookingError.message}`
+    const before = await getBookingAuditSnapshot(bookingId);
+
+    // The booking status follows the sectors; Ticketed and Cancelled are pushed down to them
+    const { ticketNumbers, invalid } = parseTicketNumbers(parsedData.ticket_numbers ?? '');
+    if (invalid.length > 0) {
+      return {
+        message: 'Validation failed',
+        errors: [{ code: z.ZodIssueCode.custom, path: ['ticket_numbers'], message: `Not a ticket number: ${invalid.join(', ')}` }],
       };
     }
+    const sectorsForStatus = sectorsToSave ?? await getSavedSectors(bookingId);
+    const resolution = resolveBookingStatusChange({
+      current: (before?.status as BookingStatus | undefined) ?? null,
+      requested: parsedData.status,
+      sectorStatuses: sectorsForStatus.map(sector => sector.status),
+      ticketNumbers,
+      cancellationReason: parsedData.cancellation_reason,
+    });
+    if (!resolution.ok) {
+      return {
+        message: 'Validation failed',
+        errors: [{ code: z.ZodIssueCode.custom, path: [resolution.field], message: resolution.message }],
+      };
+    }
+    if (resolution.captured) {
+      // Ticketing and cancelling change every sector, so they are saved even from the simple form
+      sectorsToSave = sectorsForStatus.map((sector, index) => ({ ...sector, status: resolution.sectorStatuses[index] }));
+    }
+    const changedAt = new Date().toISOString();
 
-    // Update sectors if available
-    if (sectorsToUpdate.length > 0) {
-      // First, delete existing sectors
-      const { error: deleteError } = await supabase
-        .from('booking_sectors')
-        .delete()
-        .eq('booking_id', bookingId);
-        
-      if (deleteError) {
-        console.error('Error deleting existing sectors:', deleteError);
-        return {
-          message: `Error updating sectors: ${deleteError.message}`
-        };
-      }
-      
-      // Then, insert the new sectors
-      const { error: insertError } = await supabase
-        .from('booking_sectors')
-        .insert(sectorsToUpdate);
-        
-      if (insertError) {
-        console.error('Error inserting updated sectors:', insertError);
-        return {
-          message: `Error updating sectors: ${insertError.message}`
-        };
-      }
+    const holdsBefore = sectorsToSave ? await getSectorHolds(bookingId) : null;
+    const bookingType = formData.get('booking_type');
+    const { error } = await saveBookingWithSectors(
+      bookingId,
+      {
+        booking_reference: parsedData.booking_reference,
+        customer_id: parsedData.customer_id,
+        booking_type: bookingType ? String(bookingType) : null,
+        status: resolution.status,
+        ...(resolution.captured === 'Ticketed' && { ticket_numbers: ticketNumbers, ticketed_at: changedAt }),
+        ...(resolution.captured === 'Cancelled' && {
+          cancellation_reason: parsedData.cancellation_reason?.trim(),
+          cancelled_at: changedAt,
+        }),
+      },
+      sectorsToSave
+    );
+
+    if (error) {
+      return toBookingActionError(error, 'Failed to update booking.');
     }
 
+    // Sector dates, flights and fare classes drive the deadline rules
+    await applyBookingDeadlineRules(bookingId);
+
+    await recordAuditEntry({
+      entityType: 'booking',
+      entityId: bookingId,
+      action: 'updated',
+      before,
+      after: await getBookingAuditSnapshot(bookingId),
+    });
+    if (holdsBefore) await recordSectorHoldChanges(bookingId, holdsBefore);
+
     revalidatePath('/bookings');
     revalidatePath(`/bookings/${bookingId}`);
     revalidatePath('/');
@@ -267,11 +352,17 @@ export async function updateBooking(
 
 // Server Action to delete a booking
 export async function deleteBooking(bookingId: string): Promise<BookingActionState> {
+  await requireUser();
+
   if (!bookingId) {
     return { message: 'Error: Invalid Booking ID provided for deletion.' };
   }
 
+  const access = await checkPermission('bookings.delete');
+  if (!access.allowed) return { message: access.message };
+
   const supabase = createSimpleServerClient();
+  const before = await getBookingAuditSnapshot(bookingId);
 
   // Delete the booking. Relies on `ON DELETE CASCADE` for booking_sectors.
   const { error } = await supabase
@@ -284,6 +375,8 @@ export async function deleteBooking(bookingId: string): Promise<BookingActionSta
     return { message: `Database Error: Failed to delete booking. ${error.message}` };
   }
 
+  await recordAuditEntry({ entityType: 'booking', entityId: bookingId, action: 'deleted', before });
+
   // Revalidate relevant paths
   revalidatePath('/bookings');
   revalidatePath('/');
@@ -299,6 +392,8 @@ export interface BookingReference {
 }
 
 export async function getBookingReferences(): Promise<BookingReference[]> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   const { data, error } = await supabase
     .from('bookings')
@@ -318,6 +413,7 @@ export interface LinkedBookingSelectItem {
   booking_reference: string | null;
   customer_name: string | null;
   earliest_travel_date: string | null; // ISO date string
+  latest_travel_date: string | null; // ISO date string
   status: BookingStatus | null;
   created_at: string; // ISO date string
 }
@@ -328,6 +424,8 @@ export async function getPaginatedBookingsForLinking(
   pageSize: number = 10,
   searchTerm?: string | null
 ): Promise<{ bookings: LinkedBookingSelectItem[]; totalCount: number; error?: string }> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   const offset = (page - 1) * pageSize;
 
@@ -361,32 +459,25 @@ export async function getPaginatedBookingsForLinking(
       return { bookings: [], totalCount: 0, error: error.message };
     }
 
-    const bookingsWithEarliestTravelDate = data.map(booking => {
-      // Ensure booking_sectors is an array and not null
+    const bookingsWithTravelDates = data.map(booking => {
+      // Ensure booking_sectors is an array and not null; Multi-City bookings can have any number
       const sectorsArray = Array.isArray(booking.booking_sectors) ? booking.booking_sectors : [];
-      
-      const earliestSector = sectorsArray.reduce((earliest: any, current: any) => {
-        if (!current.travel_date) return earliest;
-        // Ensure earliest is not null and has a travel_date before comparing
-        if (!earliest || !earliest.travel_date || new Date(current.travel_date) < new Date(earliest.travel_date)) {
-          return current;
-        }
-        return earliest;
-      }, null);
+      const { earliest, latest } = getTravelDateRange(sectorsArray);
 
       return {
         id: booking.id,
         booking_reference: booking.booking_reference,
         // @ts-ignore - customers can be null if not found or if join is structured differently.
         customer_name: booking.customers?.company_name || 'N/A',
-        earliest_travel_date: earliestSector?.travel_date || null,
+        earliest_travel_date: earliest,
+        latest_travel_date: latest,
         status: booking.status as BookingStatus, // Assuming status is always one of BookingStatus or null
         created_at: booking.created_at,
       };
     });
 
     return {
-      bookings: bookingsWithEarliestTravelDate,
+      bookings: bookingsWithTravelDates,
       totalCount: count || 0,
     };
   } catch (e) {
@@ -397,6 +488,8 @@ export async function getPaginatedBookingsForLinking(
 }
 
 export async function getBookingReferenceById(bookingId: string): Promise<string | null> {
+  await requireUser();
+
   if (!bookingId) return null;
   const supabase = createSimpleServerClient();
   try {
@@ -0,0 +1,138 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import {
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import {
+  ResponsiveTable,
+  ResponsiveCard,
+  ResponsiveCardItem,
+  ResponsiveCardContainer
+} from "@/components/ui/responsive-table";
+import { cn } from "@/lib/utils";
+import { getUnderusedBlocks } from "@/lib/actions/seat-inventory";
+import { DEFAULT_UNDERUSED_BLOCK_OPTIONS, formatUtilisation } from "@/lib/seat-inventory";
+import { formatDate } from "@/lib/utils/formatting";
+
+const WINDOW_OPTIONS = [7, 14, 30];
+
+interface SeatInventoryPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }> | undefined;
+}
+
+const formatDaysLeft = (days: number): string =>
+  days === 0 ? 'Due today' : days === 1 ? 'Due tomorrow' : `Due in ${days} days`;
+
+export default async function SeatInventoryPage({ searchParams }: SeatInventoryPageProps) {
+  const requestedDays = Number((await searchParams)?.days);
+  const withinDays = WINDOW_OPTIONS.includes(requestedDays) ? requestedDays : DEFAULT_UNDERUSED_BLOCK_OPTIONS.withinDays;
+  const blocks = await getUnderusedBlocks(withinDays);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Seat Inventory</h1>
+          <p className="text-sm text-muted-foreground">
+            Open blocks with a deadline in the next {withinDays} days that still hold seats with no name or ticket,
+            at up to {formatUtilisation(DEFAULT_UNDERUSED_BLOCK_OPTIONS.maxUtilisation)} utilisation.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {WINDOW_OPTIONS.map((days) => (
+            <Button key={days} variant={days === withinDays ? 'secondary' : 'outline'} size="sm" asChild>
+              <Link href={`/bookings/inventory?days=${days}`}>{days} days</Link>
+            </Button>
+          ))}
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/bookings">
+              <ArrowLeft className="mr-2 h-4 w-4" /> Back to Bookings
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {/* Desktop Table View */}
+      <div className="hidden md:block">
+        <ResponsiveTable caption="Release unused seats before the deadline to avoid airline charges.">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Reference</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Route</TableHead>
+              <TableHead>Deadline</TableHead>
+              <TableHead className="text-right">Held</TableHead>
+              <TableHead className="text-right">Named</TableHead>
+              <TableHead className="text-right">Ticketed</TableHead>
+              <TableHead className="text-right">Unused</TableHead>
+              <TableHead className="text-right">Utilisation</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {blocks.length > 0 ? (
+              blocks.map((block) => (
+                <TableRow key={block.booking_id}>
+                  <TableCell className="font-medium">
+                    <Link href={`/bookings/${block.booking_id}`} className="hover:underline">
+                      {block.booking_reference || 'N/A'}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{block.customer_name ?? 'N/A'}</TableCell>
+                  <TableCell>{block.route}</TableCell>
+                  <TableCell>
+                    {block.deadline ? formatDate(block.deadline.slice(0, 10)) : '-'}
+                    <div className={cn('text-xs', block.days_to_deadline <= 2 ? 'text-red-600' : 'text-muted-foreground')}>
+                      {formatDaysLeft(block.days_to_deadline)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{block.held}</TableCell>
+                  <TableCell className="text-right">{block.named}</TableCell>
+                  <TableCell className="text-right">{block.ticketed}</TableCell>
+                  <TableCell className="text-right font-medium">{block.unused}</TableCell>
+                  <TableCell className="text-right">{formatUtilisation(block.utilisation)}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                  No blocks with unused seats are approaching their deadline.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </ResponsiveTable>
+      </div>
+
+      {/* Mobile Card View */}
+      <div className="md:hidden">
+        {blocks.length === 0 ? (
+          <div className="text-center py-4">No blocks with unused seats are approaching their deadline.</div>
+        ) : (
+          <ResponsiveCardContainer>
+            {blocks.map((block) => (
+              <ResponsiveCard key={block.booking_id}>
+                <div className="flex justify-between items-start mb-3">
+                  <Link href={`/bookings/${block.booking_id}`} className="text-lg font-medium hover:underline">
+                    {block.booking_reference || 'N/A'}
+                  </Link>
+                  <span className="text-sm font-medium">{formatUtilisation(block.utilisation)}</span>
+                </div>
+                <div className="grid grid-cols-1 gap-2">
+                  <ResponsiveCardItem label="Customer" value={block.customer_name ?? 'N/A'} />
+                  <ResponsiveCardItem label="Route" value={block.route} />
+                  <ResponsiveCardItem label="Deadline" value={formatDaysLeft(block.days_to_deadline)} />
+                  <ResponsiveCardItem label="Unused Seats" value={`${block.unused} of ${block.held}`} />
+                </div>
+              </ResponsiveCard>
+            ))}
+          </ResponsiveCardContainer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -13,8 +13,10 @@ import { createClient } from '@/lib/supabase/client'; // <-- SWITCH TO CLIENT co
 import Link from 'next/link';
 import { Badge } from "@/components/ui/badge"; // For status display
 import { BookingDeleteDialog } from "@/components/bookings/booking-delete-dialog";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatItineraryRoute, getTravelDateRange } from "@/lib/itinerary";
+import { findBookingStatusContradiction } from "@/lib/booking-status";
 import type { BookingStatus } from '@/types/database'; // Import BookingStatus
 import { Checkbox } from "@/components/ui/checkbox"; // Import Checkbox
 import { Label } from "@/components/ui/label"; // Import Label
@@ -89,44 +91,37 @@ function formatDeadlineDifference(deadline: string | null | undefined): string {
   }
 }
 
-// Helper function to format sector display string
+// Helper function to format sector display string, e.g. BKK-HND-BKK or BKK-HND / KIX-BKK for an open jaw
 function formatSectorsDisplay(booking: FetchedBooking): string {
-  if (!booking.booking_sectors || booking.booking_sectors.length === 0) {
-    return "N/A";
-  }
-
-  // Sectors are assumed to be sorted by the query
-  const sectors = booking.booking_sectors;
-
-  const firstSector = sectors[0]?.predefined_sectors;
-  const origin1 = firstSector?.origin_code ?? '?';
-  const dest1 = firstSector?.destination_code ?? '?';
-
-  if (booking.booking_type === 'One-Way') {
-    return `${origin1}-${dest1}`;
-  }
-
-  if (booking.booking_type === 'Return' && sectors.length >= 2) {
-    const secondSector = sectors[1]?.predefined_sectors;
-    // Assuming the return destination is the same as the first origin
-    const dest2 = secondSector?.destination_code ?? '?'; 
-    // We only need the destination of the second leg for BKK-PBH-BKK format
-    return `${origin1}-${dest1}-${dest2}`; 
-  }
-
-  // Fallback for unexpected types or sector counts
-  return sectors.map(s => `${s.predefined_sectors?.origin_code ?? '?'}-${s.predefined_sectors?.destination_code ?? '?'}`).join(', ');
+  // Sectors are sorted into itinerary order by the query
+  return formatItineraryRoute((booking.booking_sectors ?? []).map((s) => s.predefined_sectors));
 }
 
 // Define the type for a booking sector
 interface BookingSector {
   travel_date: string | null;
+  status: BookingStatus;
   predefined_sectors: {
     origin_code: string | null;
     destination_code: string | null;
   } | null;
 }
 
+// Warning icon for a booking whose status disagrees with its sectors
+function StatusContradictionFlag({ booking }: { booking: FetchedBooking }) {
+  if (!booking.status) return null;
+  const contradiction = findBookingStatusContradiction(
+    booking.status as BookingStatus,
+    booking.booking_sectors.map((sector) => sector.status)
+  );
+  if (!contradiction) return null;
+  return (
+    <span title={contradiction.message}>
+      <AlertTriangle className="h-4 w-4 text-amber-600" aria-label={contradiction.message} />
+    </span>
+  );
+}
+
 // Type for the data structure returned by the Supabase query
 interface FetchedBooking {
   id: string;
@@ -174,10 +169,11 @@ export default function BookingsPage() {
             deadline, 
             created_at, 
             customers(company_name),
-            booking_sectors(travel_date, predefined_sectors(origin_code, destination_code))
+            booking_sectors(travel_date, status, predefined_sectors(origin_code, destination_code))
           `)
           .order('created_at', { ascending: false }) // Order main bookings
-          .order('created_at', { referencedTable: 'booking_sectors', ascending: true }) // Order sectors within booking
+          .order('sector_order', { referencedTable: 'booking_sectors', ascending: true }) // Order sectors within booking
+          .order('created_at', { referencedTable: 'booking_sectors', ascending: true })
           .returns<FetchedBooking[]>(); // Specify the return type here
 
         if (error) throw error;
@@ -194,42 +190,16 @@ export default function BookingsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // <-- REMOVE supabase from dependency array
 
-  // Helper to format travel dates
+  // Helper to format travel dates: first to last date, whatever the number of sectors
   const formatTravelDates = (booking: FetchedBooking): string => {
-    if (!booking.booking_sectors || booking.booking_sectors.length === 0) {
-      return "N/A";
-    }
-
-    // Sort sectors by travel date
-    const sortedSectors = [...booking.booking_sectors]
-      .filter((sector: BookingSector) => sector.travel_date)
-      .sort((a: BookingSector, b: BookingSector) => {
-        if (!a.travel_date) return 1;
-        if (!b.travel_date) return -1;
-        return new Date(a.travel_date).getTime() - new Date(b.travel_date).getTime();
-      });
-
-    if (sortedSectors.length === 0) {
+    const { earliest, latest } = getTravelDateRange(booking.booking_sectors ?? []);
+    if (!earliest || !latest) {
       return "N/A";
     }
-    
-    // For one-way bookings (or only one date)
-    if (booking.booking_type === 'One-Way' || sortedSectors.length === 1) {
-      return formatShortDate(sortedSectors[0].travel_date);
+    if (earliest === latest) {
+      return formatShortDate(earliest);
     }
-    
-    // For return bookings
-    if (booking.booking_type === 'Return' && sortedSectors.length >= 2) {
-      const departDate = formatShortDate(sortedSectors[0].travel_date);
-      const returnDate = formatShortDate(sortedSectors[1].travel_date);
-      
-      if (departDate !== "N/A" && returnDate !== "N/A") {
-        return `${departDate}-${returnDate}`;
-      }
-    }
-    
-    // Fallback for other cases
-    return sortedSectors.map((s: BookingSector) => formatShortDate(s.travel_date)).join(", ");
+    return `${formatShortDate(earliest)}-${formatShortDate(latest)}`;
   };
   
   // Helper functions to check deadlines
@@ -278,9 +248,14 @@ export default function BookingsPage() {
     <div>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
         <h1 className="text-2xl font-semibold">Bookings</h1>
-        <Button asChild className="w-full sm:w-auto">
-             <Link href="/bookings/new">Add New Booking</Link>
-        </Button>
+        <div className="flex w-full sm:w-auto gap-2">
+          <Button variant="outline" asChild className="flex-1 sm:flex-none">
+            <Link href="/bookings/inventory">Seat Inventory</Link>
+          </Button>
+          <Button asChild className="flex-1 sm:flex-none">
+               <Link href="/bookings/new">Add New Booking</Link>
+          </Button>
+        </div>
       </div>
 
       {fetchError && (
@@ -349,6 +324,7 @@ export default function BookingsPage() {
                   <TableCell>{booking.booking_type}</TableCell>
                   <TableCell>{formatTravelDates(booking)}</TableCell>
                   <TableCell>
+                    <div className="flex items-center gap-1">
                       <Badge 
                           className={cn({
                               'bg-green-100 text-green-800': booking.status === 'Ticketed',
@@ -360,6 +336,8 @@ export default function BookingsPage() {
                       >
                           {booking.status}
                       </Badge>
+                      <StatusContradictionFlag booking={booking} />
+                    </div>
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-1">
@@ -413,17 +391,20 @@ export default function BookingsPage() {
               >
                 <div className="flex justify-between items-start mb-2">
                   <div className="font-medium">{booking.booking_reference || 'No Reference'}</div>
-                  <Badge 
-                    className={cn({
-                      'bg-green-100 text-green-800': booking.status === 'Ticketed',
-                      'bg-red-100 text-red-800': booking.status === 'Cancelled',
-                      'bg-blue-100 text-blue-800': booking.status === 'Confirmed',
-                      'bg-amber-100 text-amber-800': booking.status === 'Waiting List',
-                      'bg-gray-100 text-gray-800': !booking.status || ['Pending', 'Unconfirmed'].includes(booking.status)
-                    })}
-                  >
-                    {booking.status}
-                  </Badge>
+                  <div className="flex items-center gap-1">
+                    <StatusContradictionFlag booking={booking} />
+                    <Badge 
+                      className={cn({
+                        'bg-green-100 text-green-800': booking.status === 'Ticketed',
+                        'bg-red-100 text-red-800': booking.status === 'Cancelled',
+                        'bg-blue-100 text-blue-800': booking.status === 'Confirmed',
+                        'bg-amber-100 text-amber-800': booking.status === 'Waiting List',
+                        'bg-gray-100 text-gray-800': !booking.status || ['Pending', 'Unconfirmed'].includes(booking.status)
+                      })}
+                    >
+                      {booking.status}
+                    </Badge>
+                  </div>
                 </div>
 
                 <div className="grid grid-cols-1 gap-2">
@@ -0,0 +1,306 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, Edit } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BalanceStatusBadge } from '@/components/tour-packages/reconciliation-summary';
+import { CallReportProgressTimeline } from '@/components/call-reports/call-report-progress-timeline';
+import { CustomerFormDialog } from '@/components/customers/customer-form-dialog';
+import { CustomerContacts } from '@/components/customers/customer-contacts';
+import { CreditLimitWarning } from '@/components/customers/credit-limit-warning';
+import { getCustomer360 } from '@/lib/actions/customers';
+import { BASE_CURRENCY } from '@/lib/types/currency';
+import type { CustomerAirlineBooking } from '@/lib/types/customers';
+import { formatCurrency, formatDate, getStatusVariant, openStatusBadgeClass } from '@/lib/utils/formatting';
+import { getCallReportStatusStyles } from '@/lib/utils/call-report-status-styles';
+
+interface CustomerDetailPageProps {
+  params: Promise<{ id: string }> | undefined;
+}
+
+const MetricCard = ({ label, value, note }: { label: string; value: React.ReactNode; note?: React.ReactNode }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-2xl">{value}</CardTitle>
+    </CardHeader>
+    {note && <CardContent className="pt-0 text-xs text-amber-600">{note}</CardContent>}
+  </Card>
+);
+
+const formatRoute = (booking: CustomerAirlineBooking): string =>
+  booking.sectors.length > 0
+    ? booking.sectors.map((s) => `${s.origin_code ?? '?'}-${s.destination_code ?? '?'}`).join(', ')
+    : '-';
+
+export default async function CustomerDetailPage({ params }: CustomerDetailPageProps) {
+  if (!params) {
+    throw new Error('Missing page parameters');
+  }
+  const { id } = await params;
+
+  const data = await getCustomer360(id);
+  if (!data) {
+    notFound();
+  }
+
+  const { customer, summary, credit, contacts, airlineBookings, tourBookings, callReports, openTasks } = data;
+
+  return (
+    <div className="container mx-auto p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/customers">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Customers
+          </Link>
+        </Button>
+        <CustomerFormDialog
+          mode="edit"
+          customer={customer}
+          triggerButton={
+            <Button size="sm">
+              <Edit className="mr-2 h-4 w-4" /> Edit Customer
+            </Button>
+          }
+        />
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-semibold">{customer.company_name}</h1>
+        <p className="text-sm text-muted-foreground">Customer since {formatDate(customer.created_at.slice(0, 10))}</p>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        <MetricCard
+          label="Lifetime Revenue"
+          value={formatCurrency(summary.lifetimeRevenue, BASE_CURRENCY)}
+          note={
+            summary.unconvertedBookings > 0
+              ? `Excludes ${summary.unconvertedBookings} booking(s) with no exchange rate`
+              : undefined
+          }
+        />
+        <MetricCard label="Bookings" value={summary.bookingCount} />
+        <MetricCard
+          label="Cancellation Rate"
+          value={summary.cancellationRate === null ? '-' : `${summary.cancellationRate}%`}
+        />
+        <MetricCard label="Last Contact" value={summary.lastContactDate ? formatDate(summary.lastContactDate) : '-'} />
+      </div>
+
+      <CreditLimitWarning credit={credit} customerName={customer.company_name} />
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Billing & Credit Terms</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="font-medium text-muted-foreground">Tax ID</p>
+              <p>{customer.tax_id || '-'}</p>
+            </div>
+            <div>
+              <p className="font-medium text-muted-foreground">Payment Terms</p>
+              <p>{customer.payment_terms_days != null ? `${customer.payment_terms_days} days` : '-'}</p>
+            </div>
+            <div>
+              <p className="font-medium text-muted-foreground">Credit Limit</p>
+              <p>{credit.credit_limit !== null ? formatCurrency(credit.credit_limit, BASE_CURRENCY) : 'No limit'}</p>
+            </div>
+            <div>
+              <p className="font-medium text-muted-foreground">Outstanding</p>
+              <p className={credit.over_limit ? 'text-amber-700 font-medium' : undefined}>
+                {formatCurrency(credit.outstanding, BASE_CURRENCY)}
+              </p>
+            </div>
+            <div className="col-span-2">
+              <p className="font-medium text-muted-foreground">Billing Address</p>
+              <p className="whitespace-pre-line">{customer.billing_address || '-'}</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Contacts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CustomerContacts customerId={customer.id} contacts={contacts} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tour Bookings</CardTitle>
+          <CardDescription>Balances count verified payments only.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Booking</TableHead>
+                <TableHead>Package</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead>Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tourBookings.length > 0 ? (
+                tourBookings.map((booking) => (
+                  <TableRow key={booking.booking_id}>
+                    <TableCell>
+                      <Link href={`/tour-packages/${booking.booking_id}`} className="font-medium hover:underline">
+                        {booking.booking_id}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{booking.package_name ?? '-'}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={getStatusVariant(booking.current_status)}
+                        className={booking.current_status === 'Open' ? openStatusBadgeClass : undefined}
+                      >
+                        {booking.current_status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(booking.grand_total, booking.currency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(booking.paid_to_date, booking.currency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(booking.outstanding, booking.currency)}</TableCell>
+                    <TableCell><BalanceStatusBadge status={booking.balance_status} /></TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No tour bookings linked to this customer.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Airline Bookings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Sectors</TableHead>
+                <TableHead>First Travel</TableHead>
+                <TableHead className="text-right">Pax</TableHead>
+                <TableHead>Deadline</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {airlineBookings.length > 0 ? (
+                airlineBookings.map((booking) => (
+                  <TableRow key={booking.id}>
+                    <TableCell>
+                      <Link href={`/bookings/${booking.id}`} className="font-medium hover:underline">
+                        {booking.booking_reference}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{booking.booking_type}</TableCell>
+                    <TableCell>{formatRoute(booking)}</TableCell>
+                    <TableCell>{formatDate(booking.sectors[0]?.travel_date)}</TableCell>
+                    <TableCell className="text-right">{booking.num_pax}</TableCell>
+                    <TableCell>{formatDate(booking.deadline)}</TableCell>
+                    <TableCell>
+                      <Badge variant={booking.status === 'Cancelled' ? 'destructive' : 'secondary'}>{booking.status}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No airline bookings for this customer.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Call Reports</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {callReports.length > 0 ? (
+              callReports.map((report) => (
+                <div key={report.id} className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Link href={`/call-reports/${report.id}`} className="font-medium hover:underline">
+                      {report.topic}
+                    </Link>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      {formatDate(report.report_date)}
+                      <Badge variant="outline" className={getCallReportStatusStyles(report.status).badgeClass}>
+                        {report.status}
+                      </Badge>
+                    </div>
+                  </div>
+                  <CallReportProgressTimeline report={report} updates={report.updates} />
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No call reports for this customer.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Open Tasks</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {openTasks.length > 0 ? (
+              <ul className="space-y-3">
+                {openTasks.map((task) => (
+                  <li key={task.id} className="flex items-start justify-between gap-2 text-sm">
+                    <div>
+                      <Link href={`/tasks/${task.id}/edit`} className="font-medium hover:underline">
+                        {task.description}
+                      </Link>
+                      {task.linked_tour_booking_id && (
+                        <p className="text-xs text-muted-foreground">Tour booking {task.linked_tour_booking_id}</p>
+                      )}
+                    </div>
+                    <div className="text-right whitespace-nowrap">
+                      <Badge variant="secondary">{task.status}</Badge>
+                      <p className="text-xs text-muted-foreground mt-1">Due {formatDate(task.due_date)}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No open tasks.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use server';
 
 import { createSimpleServerClient } from '@/lib/supabase/server';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
 import { revalidatePath } from 'next/cache';
 import { customerSchema } from '@/lib/schemas';
 
@@ -11,14 +12,33 @@ export type CustomerFormState = {
   message: string | null;
   errors?: {
     company_name?: string[];
+    billing_address?: string[];
+    tax_id?: string[];
+    payment_terms_days?: string[];
+    credit_limit?: string[];
   };
 };
 
+// Blank optional fields are stored as NULL (no terms / no credit limit), not as empty strings or 0
+function readCustomerForm(formData: FormData) {
+  const optional = (key: string) => {
+    const value = formData.get(key);
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+  };
+  return {
+    company_name: formData.get('company_name'),
+    billing_address: optional('billing_address'),
+    tax_id: optional('tax_id'),
+    payment_terms_days: optional('payment_terms_days'),
+    credit_limit: optional('credit_limit'),
+  };
+}
+
 // Server Action to add a new customer
 export async function addCustomer(prevState: CustomerFormState | undefined, formData: FormData): Promise<CustomerFormState> {
-  const validatedFields = customerSchema.safeParse({
-    company_name: formData.get('company_name'),
-  });
+  await requireUser();
+
+  const validatedFields = customerSchema.safeParse(readCustomerForm(formData));
 
   // If form validation fails, return errors
   if (!validatedFields.success) {
@@ -31,7 +51,7 @@ export async function addCustomer(prevState: CustomerFormState | undefined, form
   const supabase = createSimpleServerClient();
   const { error } = await supabase
     .from('customers')
-    .insert({ company_name: validatedFields.data.company_name });
+    .insert(validatedFields.data);
 
   if (error) {
     console.error('Supabase error adding customer:', error);
@@ -47,11 +67,11 @@ export async function addCustomer(prevState: CustomerFormState | undefined, form
 
 // Server Action to update an existing customer
 export async function updateCustomer(id: string, prevState: CustomerFormState | undefined, formData: FormData): Promise<CustomerFormState> {
+  await requireUser();
+
   if (!id) return { message: 'Error: Missing customer ID for update.' };
 
-  const validatedFields = customerSchema.safeParse({
-    company_name: formData.get('company_name'),
-  });
+  const validatedFields = customerSchema.safeParse(readCustomerForm(formData));
 
   if (!validatedFields.success) {
     return {
@@ -63,7 +83,7 @@ export async function updateCustomer(id: string, prevState: CustomerFormState |
   const supabase = createSimpleServerClient();
   const { error } = await supabase
     .from('customers')
-    .update({ company_name: validatedFields.data.company_name })
+    .update(validatedFields.data)
     .eq('id', id);
 
   if (error) {
@@ -72,13 +92,19 @@ export async function updateCustomer(id: string, prevState: CustomerFormState |
   }
 
   revalidatePath('/customers');
+  revalidatePath(`/customers/${id}`);
   return { message: 'Successfully updated customer' };
 }
 
 // Server Action to delete a customer
 export async function deleteCustomer(id: string): Promise<{ message: string | null }> {
+  await requireUser();
+
   if (!id) return { message: 'Error: Missing customer ID for delete.' };
 
+  const access = await checkPermission('customers.delete');
+  if (!access.allowed) return { message: access.message };
+
   const supabase = createSimpleServerClient();
   const { error } = await supabase
     .from('customers')
@@ -89,7 +115,7 @@ export async function deleteCustomer(id: string): Promise<{ message: string | nu
     console.error('Supabase error deleting customer:', error);
     // Check for foreign key constraint violation (if customer is linked to bookings)
     if (error.code === '23503') { // PostgreSQL foreign key violation code
-        return { message: `Database Error: Cannot delete customer because they are associated with existing bookings.` };
+        return { message: `Database Error: Cannot delete customer because they are associated with existing bookings or call reports. If this is a duplicate, merge it into the other customer instead.` };
     }
     return { message: `Database Error: Failed to delete customer. ${error.message}` };
   }
@@ -0,0 +1,28 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CustomerDuplicatesReview } from '@/components/customers/customer-duplicates-review';
+import { getDuplicateCustomers } from '@/lib/actions/customers';
+
+export default async function CustomerDuplicatesPage() {
+  const pairs = await getDuplicateCustomers();
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Duplicate Customers</h1>
+          <p className="text-sm text-muted-foreground">
+            Customers with near-identical names, ignoring case, punctuation and suffixes such as &quot;Co., Ltd&quot;.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/customers">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Customers
+          </Link>
+        </Button>
+      </div>
+      <CustomerDuplicatesReview pairs={pairs} />
+    </div>
+  );
+}
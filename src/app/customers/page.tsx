@@ -5,6 +5,7 @@ import {
     TableHeader,
     TableRow,
   } from "@/components/ui/table";
+  import Link from "next/link";
   import { Button } from "@/components/ui/button";
   import { createSimpleServerClient } from "@/lib/supabase/server";
   import type { Customer } from "@/types/database";
@@ -33,7 +34,7 @@ import {
     // Fetch customers
     const { data: customers, error } = await supabase
       .from('customers')
-      .select('id, company_name, created_at')
+      .select('id, company_name, billing_address, tax_id, payment_terms_days, credit_limit, created_at')
       .order('company_name', { ascending: true })
       .returns<Customer[]>();
 
@@ -41,10 +42,15 @@ import {
       <div>
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-2xl font-semibold">Customers</h1>
-          <CustomerFormDialog
-            mode="add"
-            triggerButton={<Button>Add New Customer</Button>}
-          />
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/customers/duplicates">Find Duplicates</Link>
+            </Button>
+            <CustomerFormDialog
+              mode="add"
+              triggerButton={<Button>Add New Customer</Button>}
+            />
+          </div>
         </div>
 
         {error && (
@@ -65,7 +71,11 @@ import {
               {customers && customers.length > 0 ? (
                 customers.map((customer) => (
                   <TableRow key={customer.id}>
-                    <TableCell>{customer.company_name}</TableCell>
+                    <TableCell>
+                      <Link href={`/customers/${customer.id}`} className="font-medium hover:underline">
+                        {customer.company_name}
+                      </Link>
+                    </TableCell>
                     <TableCell>{formatDate(customer.created_at)}</TableCell>
                     <TableCell className="text-right">
                       <CustomerTableActions customer={customer} />
@@ -92,7 +102,9 @@ import {
               {customers.map((customer) => (
                 <ResponsiveCard key={customer.id}>
                   <div className="flex justify-between items-start mb-2">
-                    <div className="font-medium">{customer.company_name}</div>
+                    <Link href={`/customers/${customer.id}`} className="font-medium hover:underline">
+                      {customer.company_name}
+                    </Link>
                   </div>
 
                   <div className="grid grid-cols-1 gap-2">
@@ -2,25 +2,53 @@ import { ArrowUpRight, Calendar, Package, CreditCard, BarChart3 } from 'lucide-r
 import Link from 'next/link';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DashboardFilterBar } from '@/components/common/dashboard-filter-bar';
+import { KpiChange } from '@/components/tasks/kpi-change';
 import { StatsSummary } from '@/components/tasks/stats-summary';
 import { TopSellingPackages } from '@/components/tasks/top-selling-packages';
-import { getTourBookingsStats, getTourPackagesStats, getPaymentsStats } from '@/lib/actions/dashboard-stats';
+import {
+  getDashboardFilterOptions,
+  getTourBookingsStats,
+  getTourPackagesStats,
+  getPaymentsStats,
+} from '@/lib/actions/dashboard-stats';
+import { businessDateKey, dashboardFiltersToQuery, hasActiveFilters, parseDashboardFilters } from '@/lib/dashboard-filters';
+import { COMPARISON_PERIOD_LABELS, ComparisonPeriodEnum, DEFAULT_COMPARISON_PERIOD } from '@/lib/types/kpi';
+import { TourPackageStatusEnum } from '@/lib/types/tours';
 
 // Optional: Revalidate this page periodically or on demand
 // export const revalidate = 60; // Revalidate every 60 seconds
 // export const dynamic = 'force-dynamic'; // Force dynamic rendering
 
-export default async function DashboardPage() {
+export default async function DashboardPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+  const params = await searchParams;
+  const parsedPeriod = ComparisonPeriodEnum.safeParse(params.compare);
+  const period = parsedPeriod.success ? parsedPeriod.data : DEFAULT_COMPARISON_PERIOD;
+  const filters = parseDashboardFilters(params, {
+    statuses: TourPackageStatusEnum.options,
+    today: businessDateKey(),
+  });
+
   // Fetch real data from database
-  const tourBookingsStats = await getTourBookingsStats();
-  const tourPackagesStats = await getTourPackagesStats();
-  const paymentsStats = await getPaymentsStats();
+  const tourBookingsStats = await getTourBookingsStats(filters, period);
+  const tourPackagesStats = await getTourPackagesStats(filters, period);
+  const paymentsStats = await getPaymentsStats(filters, period);
+  const filterOptions = await getDashboardFilterOptions();
 
   return (
     <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
       <div className="flex items-center justify-between space-y-2">
         <h2 className="text-3xl font-bold tracking-tight">Dashboard</h2>
         <div className="flex items-center space-x-2">
+          {ComparisonPeriodEnum.options.map((option) => (
+            <Button key={option} variant={option === period ? 'secondary' : 'outline'} size="sm" asChild>
+              <Link href={`/dashboard?${dashboardFiltersToQuery(filters, { compare: option })}`}>{COMPARISON_PERIOD_LABELS[option]}</Link>
+            </Button>
+          ))}
           <Button asChild size="sm">
             <Link href="/tour-packages/new">
               <BarChart3 className="mr-2 h-4 w-4" />
@@ -30,8 +58,20 @@ export default async function DashboardPage() {
         </div>
       </div>
 
+      <DashboardFilterBar
+        filters={filters}
+        customers={filterOptions.customers}
+        tourProducts={filterOptions.tourProducts}
+        statuses={TourPackageStatusEnum.options}
+      />
+      {hasActiveFilters(filters) && (
+        <p className="text-xs text-muted-foreground">
+          Changes are only shown for the unfiltered dashboard; the daily snapshots hold totals for all bookings.
+        </p>
+      )}
+
       {/* Stats Summary */}
-      <StatsSummary />
+      <StatsSummary filters={filters} period={period} />
 
       {/* Main Dashboard Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -44,9 +84,7 @@ export default async function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{tourBookingsStats.total}</div>
-              <p className="text-xs text-muted-foreground">
-                <span className="text-green-600">{tourBookingsStats.change}</span> from last month
-              </p>
+              <KpiChange change={tourBookingsStats.change} period={period} />
               <div className="flex justify-between items-center mt-4">
                 <div className="space-y-1">
                   <div className="flex items-center gap-2">
@@ -83,9 +121,7 @@ export default async function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{tourPackagesStats.total}</div>
-              <p className="text-xs text-muted-foreground">
-                <span className="text-green-600">{tourPackagesStats.change}</span> from last month
-              </p>
+              <KpiChange change={tourPackagesStats.change} period={period} />
               <div className="flex justify-between items-center mt-4">
                 <div className="space-y-1">
                   <div className="flex items-center gap-2">
@@ -122,9 +158,12 @@ export default async function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{paymentsStats.total}</div>
-              <p className="text-xs text-muted-foreground">
-                <span className="text-green-600">{paymentsStats.change}</span> from last month
-              </p>
+              <KpiChange change={paymentsStats.change} period={period} />
+              {paymentsStats.unconvertedBookings > 0 && (
+                <p className="text-xs text-amber-600 mt-1">
+                  Excludes {paymentsStats.unconvertedBookings} booking(s) with no exchange rate
+                </p>
+              )}
               <div className="flex justify-between items-center mt-4">
                 <div className="space-y-1">
                   <div className="flex items-center gap-2">
@@ -155,7 +194,7 @@ export default async function DashboardPage() {
       
       {/* Top Selling Packages - Full width */}
       <div className="grid gap-4">
-        <TopSellingPackages />
+        <TopSellingPackages filters={filters} />
       </div>
     </div>
   );
@@ -0,0 +1,109 @@
+import {
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import {
+  ResponsiveTable,
+  ResponsiveCard,
+  ResponsiveCardItem,
+  ResponsiveCardContainer
+} from "@/components/ui/responsive-table";
+import { ExchangeRateToolbar } from "@/components/exchange-rates/exchange-rate-toolbar";
+import { ExchangeRateDeleteButton } from "@/components/exchange-rates/exchange-rate-delete-button";
+import { getExchangeRates } from "@/lib/actions/exchange-rates";
+import { BASE_CURRENCY, CURRENCY_LABELS } from "@/lib/types/currency";
+import { formatDate, formatTimestamp } from "@/lib/utils/formatting";
+
+const formatRate = (rate: number): string =>
+  rate.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 });
+
+export default async function ExchangeRatesPage() {
+  const rates = await getExchangeRates();
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Exchange Rates</h1>
+          <p className="text-sm text-muted-foreground">
+            {BASE_CURRENCY} value of one unit of each currency. Reports use the latest rate on or before the payment date.
+          </p>
+        </div>
+        <ExchangeRateToolbar />
+      </div>
+
+      {/* Desktop Table View */}
+      <div className="hidden md:block">
+        <ResponsiveTable caption="Locally maintained exchange rates.">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Currency</TableHead>
+              <TableHead>Effective Date</TableHead>
+              <TableHead className="text-right">Rate ({BASE_CURRENCY})</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Last Updated</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.length > 0 ? (
+              rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell className="font-medium">
+                    {rate.currency}
+                    <span className="ml-2 text-xs text-muted-foreground">{CURRENCY_LABELS[rate.currency]}</span>
+                  </TableCell>
+                  <TableCell>{formatDate(rate.rate_date)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatRate(rate.rate)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="font-normal uppercase">{rate.source}</Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {formatTimestamp(rate.updated_at)}
+                    {rate.created_by_email && <div className="text-xs">{rate.created_by_email}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ExchangeRateDeleteButton id={rate.id} />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  No exchange rates yet. Add one or import a CSV to convert foreign-currency bookings.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </ResponsiveTable>
+      </div>
+
+      {/* Mobile Card View */}
+      <div className="md:hidden">
+        {rates.length === 0 ? (
+          <div className="text-center py-4">No exchange rates yet.</div>
+        ) : (
+          <ResponsiveCardContainer>
+            {rates.map((rate) => (
+              <ResponsiveCard key={rate.id}>
+                <div className="flex justify-between items-start mb-3">
+                  <div className="text-lg font-medium">{rate.currency}</div>
+                  <ExchangeRateDeleteButton id={rate.id} />
+                </div>
+                <div className="grid grid-cols-1 gap-2">
+                  <ResponsiveCardItem label="Effective Date" value={formatDate(rate.rate_date)} />
+                  <ResponsiveCardItem label={`Rate (${BASE_CURRENCY})`} value={formatRate(rate.rate)} />
+                  <ResponsiveCardItem label="Source" value={rate.source.toUpperCase()} />
+                </div>
+              </ResponsiveCard>
+            ))}
+          </ResponsiveCardContainer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { revalidatePath } from 'next/cache';
 import { createSimpleServerClient } from '@/lib/supabase/server';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
 import { fareClassSchema } from '@/lib/schemas';
 
 // Type for the form state used by useFormState
@@ -19,6 +20,8 @@ export async function addFareClass(
   prevState: FareClassFormState | undefined, 
   formData: FormData
 ): Promise<FareClassFormState> {
+  await requireUser();
+
   const validatedFields = fareClassSchema.safeParse({
     name: formData.get('name'),
     description: formData.get('description'), // Zod handles optional/nullable
@@ -90,6 +93,8 @@ export async function updateFareClass(
   prevState: FareClassFormState | undefined, 
   formData: FormData
 ): Promise<FareClassFormState> {
+  await requireUser();
+
   if (!id) return { message: 'Error: Missing fare class ID for update.' };
 
   const validatedFields = fareClassSchema.safeParse({
@@ -154,8 +159,13 @@ export async function updateFareClass(
 
 // --- Delete Fare Class ---
 export async function deleteFareClass(id: string): Promise<{ message: string | null }> {
+  await requireUser();
+
   if (!id) return { message: 'Error: Missing fare class ID for delete.' };
 
+  const access = await checkPermission('fare-classes.delete');
+  if (!access.allowed) return { message: access.message };
+
   const supabase = createSimpleServerClient();
   const { error } = await supabase
     .from('fare_classes')
@@ -19,6 +19,9 @@ import {
   ResponsiveCardItem,
   ResponsiveCardContainer 
 } from "@/components/ui/responsive-table";
+import { AddDeadlineRuleButton, DeadlineRuleActions } from "@/components/fares/deadline-rule-actions";
+import { getDeadlineRules } from "@/lib/actions/booking-deadlines";
+import { describeDeadlineRule } from "@/lib/deadline-rules";
 
 // Helper to format date
 function formatDate(dateString: string | null | undefined): string {
@@ -38,6 +41,7 @@ export default async function FaresPage() {
     .select('id, name, description, created_at, updated_at')
     .order('name', { ascending: true })
     .returns<FareClass[]>();
+  const deadlineRules = await getDeadlineRules();
 
   if (error) {
     const errorMessage = (error as PostgrestError).message ?? 'Unknown error';
@@ -134,6 +138,73 @@ export default async function FaresPage() {
           </ResponsiveCardContainer>
         )}
       </div>
+
+      {/* Deadline Rules Section */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mt-10 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Deadline Rules</h2>
+          <p className="text-sm text-muted-foreground">
+            Generate the deposit, name list, ticketing and payment deadlines of each booking when it is saved.
+          </p>
+        </div>
+        <AddDeadlineRuleButton fareClasses={fareClasses ?? []} />
+      </div>
+
+      {/* Desktop Table View */}
+      <div className="hidden md:block">
+        <ResponsiveTable caption="Airline time limits applied to bookings.">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Last Updated</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deadlineRules.length > 0 ? (
+              deadlineRules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{describeDeadlineRule(rule)}</TableCell>
+                  <TableCell className="text-muted-foreground">{rule.description || '-'}</TableCell>
+                  <TableCell className="text-muted-foreground">{formatDate(rule.updated_at)}</TableCell>
+                  <TableCell className="text-right">
+                    <DeadlineRuleActions rule={rule} fareClasses={fareClasses ?? []} />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                  No deadline rules yet. Bookings only get deadlines entered by hand.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </ResponsiveTable>
+      </div>
+
+      {/* Mobile Card View */}
+      <div className="md:hidden">
+        {deadlineRules.length === 0 ? (
+          <div className="text-center py-4">No deadline rules yet.</div>
+        ) : (
+          <ResponsiveCardContainer>
+            {deadlineRules.map((rule) => (
+              <ResponsiveCard key={rule.id}>
+                <div className="text-base font-medium mb-3">{describeDeadlineRule(rule)}</div>
+                <div className="grid grid-cols-1 gap-2">
+                  <ResponsiveCardItem label="Description" value={rule.description || '-'} />
+                  <ResponsiveCardItem label="Last Updated" value={formatDate(rule.updated_at)} />
+                </div>
+                <div className="flex justify-end mt-4">
+                  <DeadlineRuleActions rule={rule} fareClasses={fareClasses ?? []} />
+                </div>
+              </ResponsiveCard>
+            ))}
+          </ResponsiveCardContainer>
+        )}
+      </div>
     </div>
   );
 } 
\ No newline at end of file
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { MainLayout } from "@/components/layout/main-layout";
+import { PermissionsProvider } from "@/components/auth/permissions-provider";
 
 const inter = Inter({
   subsets: ["latin", "latin-ext"],
@@ -31,7 +32,9 @@ export default function RootLayout({
         className={`${inter.variable} font-sans antialiased`}
         style={{ fontFamily: "'Inter', 'Noto Sans Thai', sans-serif" }}
       >
-        <MainLayout>{children}</MainLayout>
+        <PermissionsProvider>
+          <MainLayout>{children}</MainLayout>
+        </PermissionsProvider>
       </body>
     </html>
   );
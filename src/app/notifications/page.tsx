@@ -0,0 +1,24 @@
+import { NotificationList } from "@/components/notifications/notification-list";
+import { NotificationPreferencesForm } from "@/components/notifications/notification-preferences-form";
+import { getMyNotificationPreferences, getMyNotifications } from "@/lib/actions/notifications";
+
+export default async function NotificationsPage() {
+  const [notifications, preferences] = await Promise.all([
+    getMyNotifications(),
+    getMyNotificationPreferences(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Notifications</h1>
+        <p className="text-sm text-muted-foreground">
+          Reminders for booking deadlines, tasks and call report follow-ups, created by the daily reminder job.
+        </p>
+      </div>
+
+      <NotificationList notifications={notifications} />
+      <NotificationPreferencesForm preferences={preferences} />
+    </div>
+  );
+}
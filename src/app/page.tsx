@@ -17,7 +17,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { 
   Clock, 
   FileSpreadsheet,
@@ -28,6 +28,21 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { DashboardCard, MetricItem } from "@/components/ui/dashboard-card";
+import { getDueInstallments } from "@/lib/actions/installments";
+import { formatCurrency } from "@/lib/utils/formatting";
+import { getDueBookingDeadlines } from "@/lib/actions/booking-deadlines";
+import { DEADLINE_TYPE_LABELS, type DueBookingDeadline } from "@/lib/types/deadlines";
+import { DashboardFilterBar } from "@/components/common/dashboard-filter-bar";
+import {
+  AIRLINE_FILTER_COLUMNS,
+  applyDashboardFilters,
+  bookingTrendBuckets,
+  businessDateKey,
+  countByBucket,
+  hasActiveFilters,
+  parseDashboardFilters,
+} from "@/lib/dashboard-filters";
+import { bookingStatuses } from "@/lib/schemas";
 
 // Helper function to format dates (optional, adjust as needed)
 function formatDate(date: string | null): string {
@@ -82,15 +97,33 @@ interface BookingData {
   booking_sectors: BookingSector[];
 }
 
+interface DashboardPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }> | undefined;
+}
+
 // The page component is now async to allow data fetching
-export default async function DashboardPage() {
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
   const supabase = createSimpleServerClient();
+  const todayKey = businessDateKey();
+  // Airline bookings have no tour package, so only the date range, customer and status apply
+  const filters = parseDashboardFilters((await searchParams) ?? {}, {
+    statuses: bookingStatuses,
+    today: todayKey,
+    withTourProduct: false,
+  });
 
   // Fetch total bookings and count by status
   console.log('Attempting to fetch bookings...');
-  const { data: bookings, error: bookingsError } = await supabase
-    .from('bookings')
-    .select('id, booking_reference, status, deadline, customer_id, created_at, customers(company_name)');
+  const [{ data: bookings, error: bookingsError }, { data: customerOptions }] = await Promise.all([
+    applyDashboardFilters(
+      supabase
+        .from('bookings')
+        .select('id, booking_reference, status, deadline, customer_id, created_at, customers(company_name)'),
+      filters,
+      AIRLINE_FILTER_COLUMNS
+    ),
+    supabase.from('customers').select('id, company_name').order('company_name', { ascending: true }),
+  ]);
 
   if (bookingsError) {
     console.error('Error fetching bookings:', {
@@ -145,29 +178,19 @@ export default async function DashboardPage() {
     return acc;
   }, {});
 
-  // Get dates for last 7 days and count bookings per day
-  const last7Days = Array.from({ length: 7 }, (_, i) => {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    return format(date, 'yyyy-MM-dd');
-  }).reverse();
-
-  const dailyBookings = last7Days.map(day => {
-    const count = bookingsData.filter(b => {
-      const bookingDate = b.created_at ? new Date(b.created_at).toISOString().split('T')[0] : null;
-      return bookingDate === day;
-    }).length || 0;
-    
-    return {
-      date: format(new Date(day), 'MMM d'),
-      count,
-    };
-  });
+  // Bookings created per day across the selected range (the last 7 days when it has no start),
+  // or per month for longer ranges
+  const trend = bookingTrendBuckets(filters, todayKey);
+  const trendCounts = countByBucket(bookingsData.map(b => b.created_at), trend.buckets);
+  const dailyBookings = trend.buckets.map((bucket, index) => ({
+    date: trend.unit === 'day' ? format(parseISO(bucket.key), 'MMM d') : format(parseISO(`${bucket.key}-01`), 'MMM yyyy'),
+    count: trendCounts[index],
+  }));
 
   // Calculate percentages for progress indicators
   const maxDailyBooking = Math.max(...dailyBookings.map(d => d.count), 1);
 
-  // 1. Bookings with deadlines today, tomorrow, or past deadlines
+  // 1. Booking deadlines (deposit, name list, ticketing, payment) due today, tomorrow, or already passed
   // Format dates for database queries
   const today = new Date();
   const tomorrow = new Date(today);
@@ -176,55 +199,13 @@ export default async function DashboardPage() {
   const todayFormatted = today.toISOString().split('T')[0];
   const tomorrowFormatted = tomorrow.toISOString().split('T')[0];
   
-  console.log(`Fetching deadlines including today (${todayFormatted}), tomorrow (${tomorrowFormatted}), and past deadlines`);
-  
-  // Define the proper return type for the query
-  type DeadlineQueryResult = {
-    id: string;
-    booking_reference: string | null;
-    deadline: string | null;
-    customer_id: string;
-    status: string;
-    booking_type: string;
-    customers: {
-      company_name: string;
-    } | null;
-    booking_sectors: {
-      id: string;
-      travel_date: string | null;
-    }[];
-  };
-  
-  const { data: approachingDeadlines, error: deadlineError } = await supabase
-    .from("bookings")
-    .select(`
-      id, 
-      booking_reference, 
-      deadline, 
-      customer_id, 
-      status, 
-      booking_type,
-      customers(company_name),
-      booking_sectors(id, travel_date)
-    `)
-    .not('deadline', 'is', null)
-    .not('status', 'eq', 'Cancelled') // Exclude cancelled bookings
-    .in('status', ['Confirmed', 'Waiting List']) // Only include these statuses
-    .lte('deadline', tomorrowFormatted) // Get deadlines up to and including tomorrow
-    .order("deadline", { ascending: true })
-    .returns<DeadlineQueryResult[]>();
-    
-  if (deadlineError) {
-    console.error("Supabase query error details:", {
-      message: deadlineError.message,
-      code: deadlineError.code,
-      details: deadlineError.details,
-      hint: deadlineError.hint
-    });
-  } else {
-    console.log(`Found ${approachingDeadlines?.length || 0} deadlines (today, tomorrow, and past)`);
-    console.log("First deadline item:", approachingDeadlines?.[0]);
-  }
+  // One row per open deadline, so a booking can appear once for each time limit.
+  // Deadlines are picked by due date, so of the filters only the customer applies.
+  const dueDeadlines = await getDueBookingDeadlines(tomorrowFormatted, filters.customerId);
+
+  // Unpaid tour package installments due by tomorrow sit in the same list as airline deadlines
+  const dueInstallments = await getDueInstallments(tomorrowFormatted, filters.customerId);
+  const deadlineRowCount = dueDeadlines.length + dueInstallments.length;
 
   // Helper function to check if a deadline is today
   const isToday = (dateString: string | null | undefined): boolean => {
@@ -269,53 +250,35 @@ export default async function DashboardPage() {
     return { text: formatDate(deadline), style: 'bg-gray-100 text-gray-800' };
   };
 
-  // Helper to format travel dates
-  const formatTravelDates = (booking: DeadlineQueryResult): string => {
-    if (!booking.booking_sectors || booking.booking_sectors.length === 0) {
-      return "N/A";
-    }
-
-    // Sort sectors by travel date
-    const sortedSectors = [...booking.booking_sectors]
-      .filter(sector => sector.travel_date)
-      .sort((a, b) => {
-        if (!a.travel_date) return 1;
-        if (!b.travel_date) return -1;
-        return new Date(a.travel_date).getTime() - new Date(b.travel_date).getTime();
-      });
-
-    if (sortedSectors.length === 0) {
+  // Helper to format travel dates: first to last date, whatever the number of sectors
+  const formatTravelDates = (deadline: DueBookingDeadline): string => {
+    const { earliest_travel_date: earliest, latest_travel_date: latest } = deadline;
+    if (!earliest || !latest) {
       return "N/A";
     }
-    
-    // For one-way bookings (or only one date)
-    if (booking.booking_type === 'One-Way' || sortedSectors.length === 1) {
-      return formatShortDate(sortedSectors[0].travel_date);
-    }
-    
-    // For return bookings
-    if (booking.booking_type === 'Return' && sortedSectors.length >= 2) {
-      const departDate = formatShortDate(sortedSectors[0].travel_date);
-      const returnDate = formatShortDate(sortedSectors[1].travel_date);
-      
-      if (departDate !== "N/A" && returnDate !== "N/A") {
-        return `${departDate}-${returnDate}`;
-      }
+    if (earliest === latest) {
+      return formatShortDate(earliest);
     }
-    
-    // Fallback for other cases
-    return sortedSectors.map(s => formatShortDate(s.travel_date)).join(", ");
+    return `${formatShortDate(earliest)}-${formatShortDate(latest)}`;
   };
 
   // Count urgent deadlines
-  const urgentDeadlinesCount = (approachingDeadlines || []).filter(
-    booking => isPastDeadline(booking.deadline) || isToday(booking.deadline)
+  const urgentDeadlinesCount = dueDeadlines.filter(
+    deadline => isPastDeadline(deadline.due_date) || isToday(deadline.due_date)
+  ).length + dueInstallments.filter(
+    installment => isPastDeadline(installment.due_date) || isToday(installment.due_date)
   ).length;
 
   // --- Render Dashboard --- 
   return (
     <div className="container mx-auto p-4 space-y-6">
       <h1 className="text-3xl font-bold mb-6">Dashboard</h1>
+
+      <DashboardFilterBar
+        filters={filters}
+        customers={(customerOptions ?? []).map((customer) => ({ id: customer.id, name: customer.company_name }))}
+        statuses={bookingStatuses}
+      />
       
       {/* First Row: Key Metrics */}
       <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 md:grid-cols-4">
@@ -342,7 +305,7 @@ export default async function DashboardPage() {
           title="Confirmed Bookings"
           value={statusCounts['Confirmed'] || 0}
           icon={<Star className="h-4 w-4 text-amber-500" />}
-          description={`${Math.round(((statusCounts['Confirmed'] || 0) / totalBookings) * 100)}% of total`}
+          description={`${totalBookings ? Math.round(((statusCounts['Confirmed'] || 0) / totalBookings) * 100) : 0}% of total`}
         />
       </div>
       
@@ -383,6 +346,9 @@ export default async function DashboardPage() {
           <Clock className="mr-2 h-5 w-5 text-red-500" /> 
           Approaching & Passed Deadlines
         </h2>
+        {hasActiveFilters(filters) && (
+          <p className="text-xs text-muted-foreground -mt-2 mb-4">Deadlines follow the customer filter only.</p>
+        )}
         
         {/* Desktop view (table) */}
         <div className="hidden md:block overflow-x-auto">
@@ -401,44 +367,78 @@ export default async function DashboardPage() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {approachingDeadlines && approachingDeadlines.length > 0 ? (
-                    approachingDeadlines.map((booking) => {
-                      const deadlineStatus = getDeadlineStatus(booking.deadline);
+                  {deadlineRowCount > 0 ? (
+                    <>
+                      {dueDeadlines.map((booking) => {
+                        const deadlineStatus = getDeadlineStatus(booking.due_date);
                       
-                      return (
-                        <TableRow key={booking.id} className={isPastDeadline(booking.deadline) ? 'bg-red-50' : ''}>
-                          <TableCell className="font-medium">
-                            {booking.booking_reference || 'No Ref'}
-                          </TableCell>
-                          <TableCell>{booking.customers?.company_name || 'Unknown Co.'}</TableCell>
-                          <TableCell>{formatTravelDates(booking)}</TableCell>
-                          <TableCell>{formatDate(booking.deadline)}</TableCell>
-                          <TableCell>
-                            <Badge
-                              className={cn({
-                                  'bg-green-100 text-green-800': booking.status === 'Ticketed',
-                                  'bg-red-100 text-red-800': booking.status === 'Cancelled',
-                                  'bg-blue-100 text-blue-800': booking.status === 'Confirmed',
-                                  'bg-amber-100 text-amber-800': booking.status === 'Waiting List',
-                                  'bg-gray-100 text-gray-800': !booking.status || ['Pending', 'Unconfirmed'].includes(booking.status)
-                              })}
-                            >
-                              {booking.status}
-                            </Badge>
-                          </TableCell>
-                          <TableCell>
-                            <span className={`px-2 py-1 rounded-full text-xs ${deadlineStatus.style}`}>
-                              {deadlineStatus.text}
-                            </span>
-                          </TableCell>
-                          <TableCell className="text-right">
-                            <Link href={`/bookings/${booking.id}`} className="text-blue-600 hover:text-blue-800 hover:underline inline-flex items-center">
-                              View<ArrowUpRight className="ml-1 h-3 w-3" />
-                            </Link>
-                          </TableCell>
-                        </TableRow>
-                      );
-                    })
+                        return (
+                          <TableRow key={booking.id} className={isPastDeadline(booking.due_date) ? 'bg-red-50' : ''}>
+                            <TableCell className="font-medium">
+                              {booking.booking_reference || 'No Ref'}
+                            </TableCell>
+                            <TableCell>{booking.customer_name || 'Unknown Co.'}</TableCell>
+                            <TableCell>{formatTravelDates(booking)}</TableCell>
+                            <TableCell>
+                              <span className="text-muted-foreground">{DEADLINE_TYPE_LABELS[booking.deadline_type]}:</span>{' '}
+                              {formatDate(booking.due_date)}
+                            </TableCell>
+                            <TableCell>
+                              <Badge
+                                className={cn({
+                                    'bg-green-100 text-green-800': booking.status === 'Ticketed',
+                                    'bg-red-100 text-red-800': booking.status === 'Cancelled',
+                                    'bg-blue-100 text-blue-800': booking.status === 'Confirmed',
+                                    'bg-amber-100 text-amber-800': booking.status === 'Waiting List',
+                                    'bg-gray-100 text-gray-800': !booking.status || ['Pending', 'Unconfirmed'].includes(booking.status)
+                                })}
+                              >
+                                {booking.status}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <span className={`px-2 py-1 rounded-full text-xs ${deadlineStatus.style}`}>
+                                {deadlineStatus.text}
+                              </span>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Link href={`/bookings/${booking.booking_id}`} className="text-blue-600 hover:text-blue-800 hover:underline inline-flex items-center">
+                                View<ArrowUpRight className="ml-1 h-3 w-3" />
+                              </Link>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                      {dueInstallments.map((installment) => {
+                        const deadlineStatus = getDeadlineStatus(installment.due_date);
+
+                        return (
+                          <TableRow key={installment.id} className={isPastDeadline(installment.due_date) ? 'bg-red-50' : ''}>
+                            <TableCell className="font-medium font-mono">
+                              {installment.tour_package_booking_id}
+                            </TableCell>
+                            <TableCell>{installment.customer_name || 'Unknown'}</TableCell>
+                            <TableCell>{formatShortDate(installment.travel_start_date)}</TableCell>
+                            <TableCell>{formatDate(installment.due_date)}</TableCell>
+                            <TableCell>
+                              <Badge className="bg-purple-100 text-purple-800">
+                                {installment.label} · {formatCurrency(installment.outstanding, installment.currency)}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <span className={`px-2 py-1 rounded-full text-xs ${deadlineStatus.style}`}>
+                                {deadlineStatus.text}
+                              </span>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Link href={`/tour-packages/${installment.tour_package_booking_id}`} className="text-blue-600 hover:text-blue-800 hover:underline inline-flex items-center">
+                                View<ArrowUpRight className="ml-1 h-3 w-3" />
+                              </Link>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </>
                   ) : (
                     <TableRow>
                       <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
@@ -448,11 +448,7 @@ export default async function DashboardPage() {
                   )}
                 </TableBody>
                 <TableCaption>
-                  {deadlineError ? (
-                    <p className="text-red-500">Error loading deadlines: {deadlineError.message}</p>
-                  ) : (
-                    `Showing ${approachingDeadlines?.length || 0} booking(s) with upcoming or passed deadlines`
-                  )}
+                  {`Showing ${dueDeadlines.length} booking deadline(s) and ${dueInstallments.length} installment(s) due by tomorrow or passed`}
                 </TableCaption>
               </Table>
             </CardContent>
@@ -461,13 +457,13 @@ export default async function DashboardPage() {
         
         {/* Mobile view (cards) */}
         <div className="md:hidden">
-          {approachingDeadlines && approachingDeadlines.length > 0 ? (
+          {deadlineRowCount > 0 ? (
             <div className="space-y-4">
-              {approachingDeadlines.map((booking) => {
-                const deadlineStatus = getDeadlineStatus(booking.deadline);
+              {dueDeadlines.map((booking) => {
+                const deadlineStatus = getDeadlineStatus(booking.due_date);
                 
                 return (
-                  <Card key={booking.id} className={isPastDeadline(booking.deadline) ? 'bg-red-50' : ''}>
+                  <Card key={booking.id} className={isPastDeadline(booking.due_date) ? 'bg-red-50' : ''}>
                     <CardContent className="p-4">
                       <div className="flex justify-between items-start mb-3">
                         <div className="font-medium">{booking.booking_reference || 'No Ref'}</div>
@@ -487,7 +483,7 @@ export default async function DashboardPage() {
                       <div className="grid gap-2 mb-3">
                         <div className="flex justify-between">
                           <span className="text-sm text-muted-foreground">Customer:</span>
-                          <span className="text-sm font-medium">{booking.customers?.company_name || 'Unknown Co.'}</span>
+                          <span className="text-sm font-medium">{booking.customer_name || 'Unknown Co.'}</span>
                         </div>
                         
                         <div className="flex justify-between">
@@ -496,8 +492,8 @@ export default async function DashboardPage() {
                         </div>
                         
                         <div className="flex justify-between">
-                          <span className="text-sm text-muted-foreground">Deadline:</span>
-                          <span className="text-sm font-medium">{formatDate(booking.deadline)}</span>
+                          <span className="text-sm text-muted-foreground">{DEADLINE_TYPE_LABELS[booking.deadline_type]} Deadline:</span>
+                          <span className="text-sm font-medium">{formatDate(booking.due_date)}</span>
                         </div>
                         
                         <div className="flex justify-between items-center">
@@ -510,7 +506,7 @@ export default async function DashboardPage() {
                       
                       <div className="flex justify-end">
                         <Link 
-                          href={`/bookings/${booking.id}`} 
+                          href={`/bookings/${booking.booking_id}`} 
                           className="text-blue-600 hover:text-blue-800 hover:underline inline-flex items-center"
                         >
                           View Booking<ArrowUpRight className="ml-1 h-3 w-3" />
@@ -520,6 +516,53 @@ export default async function DashboardPage() {
                   </Card>
                 );
               })}
+              {dueInstallments.map((installment) => {
+                const deadlineStatus = getDeadlineStatus(installment.due_date);
+
+                return (
+                  <Card key={installment.id} className={isPastDeadline(installment.due_date) ? 'bg-red-50' : ''}>
+                    <CardContent className="p-4">
+                      <div className="flex justify-between items-start mb-3">
+                        <div className="font-medium font-mono">{installment.tour_package_booking_id}</div>
+                        <Badge className="bg-purple-100 text-purple-800">{installment.label}</Badge>
+                      </div>
+
+                      <div className="grid gap-2 mb-3">
+                        <div className="flex justify-between">
+                          <span className="text-sm text-muted-foreground">Customer:</span>
+                          <span className="text-sm font-medium">{installment.customer_name || 'Unknown'}</span>
+                        </div>
+
+                        <div className="flex justify-between">
+                          <span className="text-sm text-muted-foreground">Outstanding:</span>
+                          <span className="text-sm font-medium">{formatCurrency(installment.outstanding, installment.currency)}</span>
+                        </div>
+
+                        <div className="flex justify-between">
+                          <span className="text-sm text-muted-foreground">Due Date:</span>
+                          <span className="text-sm font-medium">{formatDate(installment.due_date)}</span>
+                        </div>
+
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-muted-foreground">Urgency:</span>
+                          <span className={`px-2 py-1 rounded-full text-xs ${deadlineStatus.style}`}>
+                            {deadlineStatus.text}
+                          </span>
+                        </div>
+                      </div>
+
+                      <div className="flex justify-end">
+                        <Link
+                          href={`/tour-packages/${installment.tour_package_booking_id}`}
+                          className="text-blue-600 hover:text-blue-800 hover:underline inline-flex items-center"
+                        >
+                          View Tour Booking<ArrowUpRight className="ml-1 h-3 w-3" />
+                        </Link>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
           ) : (
             <Card>
@@ -529,27 +572,25 @@ export default async function DashboardPage() {
             </Card>
           )}
           
-          {deadlineError && (
-            <p className="text-red-500 mt-2 text-sm">Error loading deadlines: {deadlineError.message}</p>
-          )}
-          
-          {!deadlineError && approachingDeadlines && (
-            <p className="text-sm text-muted-foreground mt-2 text-center">
-              Showing {approachingDeadlines.length} booking(s) with upcoming or passed deadlines
-            </p>
-          )}
+          <p className="text-sm text-muted-foreground mt-2 text-center">
+            Showing {dueDeadlines.length} booking deadline(s) and {dueInstallments.length} installment(s) due by tomorrow or passed
+          </p>
         </div>
       </div>
 
-      {/* Weekly Booking Trends */}
+      {/* Booking Trends */}
       <div className="hidden md:grid grid-cols-1">
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center">
               <BarChart className="mr-2 h-5 w-5 text-blue-500" />
-              Weekly Booking Trends
+              Booking Trends
             </CardTitle>
-            <CardDescription>Booking activity over the last 7 days</CardDescription>
+            <CardDescription>
+              {filters.from
+                ? `Bookings created per ${trend.unit} in the selected range`
+                : 'Booking activity over the last 7 days'}
+            </CardDescription>
           </CardHeader>
           <CardContent className="h-72">
             <div className="flex h-full items-end gap-2 justify-between px-6">
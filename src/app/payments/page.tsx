@@ -1,4 +1,5 @@
 import { getAllPaymentRecords } from "@/lib/actions/tour-package-bookings";
+import { getReconciliationOverview } from "@/lib/actions/reconciliation";
 import { PaymentLedgerItem } from "@/lib/types/tours";
 import Link from "next/link";
 import {
@@ -11,6 +12,8 @@ import {
 } from "@/components/ui/table";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { PaymentActions } from "@/components/tour-packages/payment-actions";
+import { ReconciliationFlagList, ReconciliationTable } from "@/components/tour-packages/reconciliation-summary";
+import { DuplicatePaymentNotice } from "@/components/tour-packages/duplicate-payment-notice";
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle, AlertCircle, CircleDollarSign, CalendarDays, Clock } from 'lucide-react';
 import { 
@@ -24,11 +27,26 @@ import {
 export const dynamic = 'force-dynamic';
 
 export default async function PaymentsLedgerPage() {
-  const payments = await getAllPaymentRecords();
+  const [payments, reconciliations] = await Promise.all([
+    getAllPaymentRecords(),
+    getReconciliationOverview(),
+  ]);
+  const paymentFlags = new Map(
+    reconciliations.flatMap((item) => item.payments).map((payment) => [payment.payment_id, payment.flags])
+  );
 
   return (
     <div className="container mx-auto p-4 space-y-4">
       <h1 className="text-2xl font-semibold">Payments Ledger</h1>
+      <Card>
+        <CardHeader>
+          <CardTitle>Reconciliation</CardTitle>
+          <CardDescription>Verified slip amounts compared with each booking&apos;s grand total.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReconciliationTable items={reconciliations} />
+        </CardContent>
+      </Card>
       <Card>
         <CardHeader>
           <CardTitle>Payment History</CardTitle>
@@ -69,7 +87,7 @@ export default async function PaymentsLedgerPage() {
                         <div className="flex flex-col text-xs" title="Payment slip verified successfully">
                           <div className="flex items-center text-green-600"><CheckCircle className="mr-1 h-3 w-3 flex-shrink-0" /> Verified</div>
                           {payment.verified_amount && (
-                              <div className="flex items-center text-muted-foreground"><CircleDollarSign className="mr-1 h-3 w-3 flex-shrink-0" /> {formatCurrency(payment.verified_amount)}</div>
+                              <div className="flex items-center text-muted-foreground"><CircleDollarSign className="mr-1 h-3 w-3 flex-shrink-0" /> {formatCurrency(payment.verified_amount, payment.currency)}</div>
                           )}
                           {payment.verified_payment_date && (
                               <div className="flex items-center text-muted-foreground">
@@ -91,6 +109,12 @@ export default async function PaymentsLedgerPage() {
                       ) : (
                         <div className="text-xs text-muted-foreground italic">Pending</div>
                       )}
+                      {payment.is_verified && (
+                        <div className="mt-1">
+                          <ReconciliationFlagList flags={paymentFlags.get(payment.id) ?? []} compact />
+                        </div>
+                      )}
+                      <DuplicatePaymentNotice payment={payment} duplicateOfBookingId={payment.duplicate_of_booking_id} />
                     </TableCell>
                     <TableCell className="text-right">
                       <PaymentActions payment={payment} />
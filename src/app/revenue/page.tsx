@@ -0,0 +1,123 @@
+import Link from 'next/link';
+import { ArrowLeft, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CashFlowForecastTable, RevenuePivotTable } from '@/components/tour-packages/revenue-report';
+import { getRevenueReport } from '@/lib/actions/revenue-report';
+import { BASE_CURRENCY } from '@/lib/types/currency';
+import {
+  REVENUE_DIMENSION_LABELS,
+  REVENUE_MEASURE_DESCRIPTIONS,
+  REVENUE_MEASURE_LABELS,
+  RevenueDimensionEnum,
+  RevenueMeasureEnum,
+  type RevenueDimension,
+  type RevenueMeasure,
+} from '@/lib/types/revenue';
+import { formatCurrency } from '@/lib/utils/formatting';
+
+export const dynamic = 'force-dynamic';
+
+interface RevenueReportPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }> | undefined;
+}
+
+export default async function RevenueReportPage({ searchParams }: RevenueReportPageProps) {
+  const params = (await searchParams) ?? {};
+  const currentYear = new Date().getFullYear();
+  const requestedYear = Number(params.year);
+  const year = Number.isInteger(requestedYear) && requestedYear > 2000 ? requestedYear : currentYear;
+  const parsedMeasure = RevenueMeasureEnum.safeParse(params.measure);
+  const measure: RevenueMeasure = parsedMeasure.success ? parsedMeasure.data : 'recognised';
+  const parsedDimension = RevenueDimensionEnum.safeParse(params.by);
+  const dimension: RevenueDimension = parsedDimension.success ? parsedDimension.data : 'tour_product';
+
+  const report = await getRevenueReport(year);
+  const hrefFor = (changes: { year?: number; measure?: RevenueMeasure; by?: RevenueDimension }) =>
+    `/revenue?year=${changes.year ?? year}&measure=${changes.measure ?? measure}&by=${changes.by ?? dimension}`;
+
+  return (
+    <div className="container mx-auto p-4 space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Revenue &amp; Cash Flow</h1>
+          <p className="text-sm text-muted-foreground">Tour bookings in {BASE_CURRENCY}, converted at the date each amount is reported under.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href={hrefFor({ year: year - 1 })} aria-label="Previous year"><ChevronLeft className="h-4 w-4" /></Link>
+          </Button>
+          <span className="self-center text-sm font-medium">{year}</span>
+          <Button variant="outline" size="sm" asChild>
+            <Link href={hrefFor({ year: year + 1 })} aria-label="Next year"><ChevronRight className="h-4 w-4" /></Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/payments">
+              <ArrowLeft className="mr-2 h-4 w-4" /> Back to Payments
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {RevenueMeasureEnum.options.map((option) => (
+          <Card key={option}>
+            <CardHeader className="pb-2">
+              <CardDescription>{REVENUE_MEASURE_LABELS[option]} in {year}</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(report.totals[option], BASE_CURRENCY)}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground">{REVENUE_MEASURE_DESCRIPTIONS[option]}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {(report.exclusions.missingExchangeRate > 0 || report.exclusions.missingTravelDates > 0) && (
+        <div className="text-xs text-amber-600 space-y-1">
+          {report.exclusions.missingExchangeRate > 0 && (
+            <p>Excludes {report.exclusions.missingExchangeRate} amount(s) with no exchange rate.</p>
+          )}
+          {report.exclusions.missingTravelDates > 0 && (
+            <p>{report.exclusions.missingTravelDates} booking(s) have no travel start date and are not in recognised revenue.</p>
+          )}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Monthly {REVENUE_MEASURE_LABELS[measure]}</CardTitle>
+          <CardDescription>{REVENUE_MEASURE_DESCRIPTIONS[measure]}</CardDescription>
+          <div className="flex flex-wrap gap-2 pt-2">
+            {RevenueMeasureEnum.options.map((option) => (
+              <Button key={option} variant={option === measure ? 'secondary' : 'outline'} size="sm" asChild>
+                <Link href={hrefFor({ measure: option })}>{REVENUE_MEASURE_LABELS[option]}</Link>
+              </Button>
+            ))}
+            <span className="mx-1 border-l" />
+            {RevenueDimensionEnum.options.map((option) => (
+              <Button key={option} variant={option === dimension ? 'secondary' : 'outline'} size="sm" asChild>
+                <Link href={hrefFor({ by: option })}>By {REVENUE_DIMENSION_LABELS[option].toLowerCase()}</Link>
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <RevenuePivotTable pivot={report.pivots[measure][dimension]} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cash-flow Forecast</CardTitle>
+          <CardDescription>
+            Unpaid installments on open bookings by the month they fall due, after matching the verified payments already received.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CashFlowForecastTable forecast={report.forecast} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use server';
 
 import { createSimpleServerClient } from '@/lib/supabase/server';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
 import { revalidatePath } from 'next/cache';
 import { predefinedSectorSchema } from '@/lib/schemas';
 
@@ -14,6 +15,8 @@ export type SectorFormState = {
 };
 
 export async function addSector(prevState: SectorFormState | undefined, formData: FormData): Promise<SectorFormState> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   const validatedFields = predefinedSectorSchema.safeParse({
@@ -50,6 +53,8 @@ export async function addSector(prevState: SectorFormState | undefined, formData
 }
 
 export async function updateSector(id: string, prevState: SectorFormState | undefined, formData: FormData): Promise<SectorFormState> {
+  await requireUser();
+
   if (!id) return { message: 'Error: Missing sector ID for update.' };
 
   const supabase = createSimpleServerClient();
@@ -89,8 +94,13 @@ export async function updateSector(id: string, prevState: SectorFormState | unde
 }
 
 export async function deleteSector(id: string): Promise<{ message: string | null }> {
+  await requireUser();
+
   if (!id) return { message: 'Error: Missing sector ID for delete.' };
 
+  const access = await checkPermission('sectors.delete');
+  if (!access.allowed) return { message: access.message };
+
   const supabase = createSimpleServerClient();
 
   const { error } = await supabase
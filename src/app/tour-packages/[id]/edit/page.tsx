@@ -1,5 +1,7 @@
 import { getTourPackageBookingById } from "@/lib/actions/tour-package-bookings";
 import { getTourProducts } from "@/lib/actions/tour-products";
+import { getCustomersForSelect } from "@/lib/actions/call-reports";
+import type { CustomerSelectItem } from "@/lib/types/call-reports";
 import { TourPackageBookingForm } from "../../components/tour-package-booking-form";
 import { notFound } from 'next/navigation';
 import Link from "next/link";
@@ -31,18 +33,21 @@ export default async function EditTourPackageBookingPage({ params }: EditTourPac
   let products: TourProduct[];
   let bookingReferences: BookingReference[];
   let payments: PaymentRecord[];
+  let customers: CustomerSelectItem[];
   let fetchError: string | null = null;
   try {
-      const [bookingResult, productsResult, referencesResult, paymentsResult] = await Promise.all([
+      const [bookingResult, productsResult, referencesResult, paymentsResult, customersResult] = await Promise.all([
         getTourPackageBookingById(id),
         getTourProducts(),
         getBookingReferences(),
-        getPaymentsForBooking(id)
+        getPaymentsForBooking(id),
+        getCustomersForSelect()
       ]);
       booking = bookingResult;
       products = productsResult;
       bookingReferences = referencesResult;
       payments = paymentsResult;
+      customers = customersResult;
   } catch (error) {
       console.error("Error fetching data for edit page:", error);
       fetchError = error instanceof Error ? error.message : "Failed to load booking data.";
@@ -51,6 +56,7 @@ export default async function EditTourPackageBookingPage({ params }: EditTourPac
       products = []; 
       bookingReferences = [];
       payments = [];
+      customers = [];
   }
 
   // Handle general fetch error
@@ -91,6 +97,7 @@ export default async function EditTourPackageBookingPage({ params }: EditTourPac
       <TourPackageBookingForm 
         initialBooking={booking} 
         products={products ?? []} // Ensure products is always an array
+        customers={customers}
       />
     </div>
   );
@@ -17,6 +17,21 @@ import {
     TableRow 
 } from "@/components/ui/table";
 import { PaymentActions } from '@/components/tour-packages/payment-actions';
+import { AuditHistoryTimeline } from '@/components/audit/audit-history-timeline';
+import { getAuditHistory } from '@/lib/actions/audit-log';
+import { getBookingReconciliation } from '@/lib/actions/reconciliation';
+import { getInstallmentSchedule } from '@/lib/actions/installments';
+import { InstallmentSchedule } from '@/components/tour-packages/installment-schedule';
+import { getBookingDocuments } from '@/lib/actions/booking-documents';
+import { BookingDocuments, IssueReceiptButton } from '@/components/tour-packages/booking-documents';
+import { ReconciliationFlagList, ReconciliationSummary } from '@/components/tour-packages/reconciliation-summary';
+import { DuplicatePaymentNotice } from '@/components/tour-packages/duplicate-payment-notice';
+import { CreditLimitWarning } from '@/components/customers/credit-limit-warning';
+import { getCustomerCreditStatus } from '@/lib/actions/customers';
+import type { BookingReconciliation } from '@/lib/types/reconciliation';
+import type { InstallmentWithMatch } from '@/lib/types/installments';
+import type { BookingDocument } from '@/lib/types/booking-documents';
+import type { AuditLogEntry } from '@/lib/types/audit-log';
 import { 
     formatDate, 
     formatTimestamp, 
@@ -78,12 +93,20 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
   // Fetch booking and payments concurrently
   let booking: TourPackageBookingWithProduct | null = null;
   let payments: PaymentRecord[] = [];
+  let history: AuditLogEntry[] = [];
+  let reconciliation: BookingReconciliation | null = null;
+  let installments: InstallmentWithMatch[] = [];
+  let documents: BookingDocument[] = [];
   let fetchError: string | null = null;
 
   try {
-      [booking, payments] = await Promise.all([
+      [booking, payments, history, reconciliation, installments, documents] = await Promise.all([
           getTourPackageBookingById(id),
-          getPaymentsForBooking(id)
+          getPaymentsForBooking(id),
+          getAuditHistory('tour_package_booking', id),
+          getBookingReconciliation(id),
+          getInstallmentSchedule(id),
+          getBookingDocuments(id)
       ]);
   } catch (error) {
       console.error(`Error fetching details/payments for ${id}:`, error);
@@ -110,6 +133,8 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
     notFound(); // Use Next.js standard 404 page
   }
 
+  const customerCredit = booking.customer_id ? await getCustomerCreditStatus(booking.customer_id) : null;
+
   return (
     <div className="container mx-auto p-4 space-y-4">
       {/* Header with Back and Edit buttons */}
@@ -128,10 +153,13 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
           </Button>
       </div>
 
+      <CreditLimitWarning credit={customerCredit} customerName={booking.customer_name} />
+
       <Tabs defaultValue="details">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="details">Booking Details</TabsTrigger>
           <TabsTrigger value="payments">Payments</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
         
         {/* Details Tab Content */}
@@ -145,7 +173,12 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
               <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
                  {/* Left Column */}
                  <div>
-                     <DetailItem label="Customer Name" value={booking.customer_name} />
+                     <DetailItem
+                       label="Customer Name"
+                       value={booking.customer_id ? (
+                         <Link href={`/customers/${booking.customer_id}`} className="hover:underline">{booking.customer_name}</Link>
+                       ) : booking.customer_name}
+                     />
                      <DetailItem label="Tour Package" value={booking.tour_products?.name} />
                      <DetailItem label="Booking Date" value={formatDate(booking.booking_date)} />
                      <DetailItem label="Status" value={
@@ -190,16 +223,16 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
                  </div>
                  {/* Right Column */}
                  <div>
-                     <DetailItem label="Base Price per PAX" value={formatCurrency(booking.base_price_per_pax)} />
+                     <DetailItem label="Base Price per PAX" value={formatCurrency(booking.base_price_per_pax, booking.currency)} />
                      <DetailItem label="PAX" value={booking.pax} />
-                     <DetailItem label="Base Subtotal" value={formatCurrency((booking.base_price_per_pax || 0) * booking.pax)} />
+                     <DetailItem label="Base Subtotal" value={formatCurrency((booking.base_price_per_pax || 0) * booking.pax, booking.currency)} />
                      {booking.addons && Array.isArray(booking.addons) && booking.addons.length > 0 && (
                        <DetailItem 
                          label="Additional Costs (Fixed)" 
-                         value={formatCurrency(booking.addons.reduce((sum, addon) => sum + (addon.amount || 0), 0))} 
+                         value={formatCurrency(booking.addons.reduce((sum, addon) => sum + (addon.amount || 0), 0), booking.currency)} 
                        />
                      )}
-                     <DetailItem label="Grand Total" value={formatCurrency(booking.grand_total)} />
+                     <DetailItem label="Grand Total" value={formatCurrency(booking.grand_total, booking.currency)} />
                      <DetailItem label="Travel Period" value={formatTravelPeriod(booking.travel_start_date, booking.travel_end_date)} />
                  </div>
                  {/* Addons Section (Full Width if it exists, or below notes) */}
@@ -210,7 +243,7 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
                             {booking.addons.map((addon) => (
                                 <li key={addon.id} className="flex justify-between">
                                     <span>{addon.name}</span>
-                                    <span>{formatCurrency(addon.amount)}</span>
+                                    <span>{formatCurrency(addon.amount, booking.currency)}</span>
                                 </li>
                             ))}
                         </ul>
@@ -226,7 +259,45 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
         </TabsContent>
 
         {/* Updated Payments Tab Content */}
-        <TabsContent value="payments">
+        <TabsContent value="payments" className="space-y-4">
+          {reconciliation && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Reconciliation</CardTitle>
+                <CardDescription>Verified payments compared with the grand total.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ReconciliationSummary reconciliation={reconciliation} />
+              </CardContent>
+            </Card>
+          )}
+          <Card>
+            <CardHeader>
+              <CardTitle>Installment Schedule</CardTitle>
+              <CardDescription>Scheduled installments with verified payments matched in due order.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <InstallmentSchedule
+                bookingId={booking.id}
+                installments={installments}
+                currency={booking.currency}
+                canSchedule={Boolean(booking.grand_total && booking.travel_start_date)}
+              />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Invoices &amp; Receipts</CardTitle>
+              <CardDescription>Numbered PDF documents issued for this booking.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BookingDocuments
+                bookingId={booking.id}
+                documents={documents}
+                canInvoice={Boolean(booking.grand_total)}
+              />
+            </CardContent>
+          </Card>
           <Card>
             <CardHeader>
               <CardTitle>Payment History</CardTitle>
@@ -260,7 +331,7 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
                             <div className="flex flex-col text-xs" title="Payment slip verified successfully">
                               <div className="flex items-center text-green-600"><CheckCircle className="mr-1 h-3 w-3 flex-shrink-0" /> Verified</div>
                               {payment.verified_amount && (
-                                  <div className="flex items-center text-muted-foreground"><CircleDollarSign className="mr-1 h-3 w-3 flex-shrink-0" /> {formatCurrency(payment.verified_amount)}</div>
+                                  <div className="flex items-center text-muted-foreground"><CircleDollarSign className="mr-1 h-3 w-3 flex-shrink-0" /> {formatCurrency(payment.verified_amount, payment.currency)}</div>
                               )}
                               {payment.verified_payment_date && (
                                   <div className="flex items-center text-muted-foreground">
@@ -282,10 +353,27 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
                           ) : (
                             <div className="text-xs text-muted-foreground italic">Pending</div>
                           )}
+                          {payment.is_verified && (
+                            <div className="mt-1">
+                              <ReconciliationFlagList
+                                flags={reconciliation?.payments.find((item) => item.payment_id === payment.id)?.flags ?? []}
+                                compact
+                              />
+                            </div>
+                          )}
+                          <DuplicatePaymentNotice payment={payment} />
                         </TableCell>
 
                         <TableCell className="text-right">
-                          <PaymentActions payment={payment} />
+                          <div className="flex items-center justify-end gap-2">
+                            <PaymentActions payment={payment} />
+                            {payment.is_verified && (
+                              <IssueReceiptButton
+                                paymentId={payment.id}
+                                receipt={documents.find((document) => document.payment_id === payment.id)}
+                              />
+                            )}
+                          </div>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -295,6 +383,19 @@ export default async function TourPackageDetailPage({ params }: TourPackageDetai
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* History Tab Content */}
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Change History</CardTitle>
+              <CardDescription>Who changed this booking&apos;s status, price or add-ons, and when.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AuditHistoryTimeline entries={history} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
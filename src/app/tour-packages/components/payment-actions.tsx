@@ -16,6 +16,7 @@ import {
 } from '@/components/ui/alert-dialog'; // Assuming Shadcn Alert Dialog is installed
 import { deletePaymentRecord, createPaymentSlipSignedUrl } from '@/lib/actions/tour-package-bookings';
 import { toast } from 'sonner';
+import { usePermissions } from '@/components/auth/permissions-provider';
 
 interface PaymentActionsProps {
   paymentId: string;
@@ -26,6 +27,7 @@ export function PaymentActions({ paymentId, slipPath }: PaymentActionsProps) {
   const [isDeletePending, startDeleteTransition] = useTransition();
   const [isUrlLoading, startUrlTransition] = useTransition(); // <-- Transition for URL loading
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { can } = usePermissions();
 
   const handleDelete = () => {
     startDeleteTransition(async () => {
@@ -72,38 +74,40 @@ export function PaymentActions({ paymentId, slipPath }: PaymentActionsProps) {
         )}
       </Button>
 
-      {/* Delete Button with Confirmation Dialog */}
-      <AlertDialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <AlertDialogTrigger asChild>
-          <Button 
-            variant="destructive" 
-            size="icon" 
-            title="Delete Payment" 
-            disabled={isDeletePending} // Disable trigger if delete is pending
-            >
-            <Trash2 className="h-4 w-4" />
-          </Button>
-        </AlertDialogTrigger>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the payment 
-              record and the associated payment slip file from storage.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel disabled={isDeletePending}>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleDelete} disabled={isDeletePending}>
-              {isDeletePending ? (
-                <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Deleting...</>
-              ) : (
-                'Delete'
-              )}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {/* Delete Button with Confirmation Dialog (managers and admins only) */}
+      {can('payments.delete') && (
+        <AlertDialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <AlertDialogTrigger asChild>
+            <Button 
+              variant="destructive" 
+              size="icon" 
+              title="Delete Payment" 
+              disabled={isDeletePending} // Disable trigger if delete is pending
+              >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This action cannot be undone. This will permanently delete the payment 
+                record and the associated payment slip file from storage.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeletePending}>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} disabled={isDeletePending}>
+                {isDeletePending ? (
+                  <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Deleting...</>
+                ) : (
+                  'Delete'
+                )}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
     </div>
   );
 } 
\ No newline at end of file
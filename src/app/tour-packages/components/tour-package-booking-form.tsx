@@ -30,16 +30,17 @@ import { cn } from '@/lib/utils'
 import { formatTimestamp } from '@/lib/utils/formatting'
 import {
   TourProduct,
-  TourPackageStatusEnum,
   TourPackageBookingSchema,
   type TourPackageStatus,
   type PaymentRecord,
+  type PaymentDuplicateMatch,
   type TourPackageBooking as TourPackageBookingDbType
 } from '@/lib/types/tours'
 import {
   createTourPackageBooking,
   updateTourPackageBooking,
   addPaymentRecord,
+  findDuplicatePaymentSlips,
   createPaymentSlipSignedUrl,
   getPaymentsForBooking,
   deletePaymentRecord,
@@ -53,16 +54,27 @@ import { z } from 'zod'
 import {
     Form,
     FormControl,
+    FormDescription,
     FormField,
     FormItem,
     FormLabel,
     FormMessage,
 } from "@/components/ui/form";
 import { createClient } from "@/lib/supabase/client";
+import { selectableTourStatuses } from "@/lib/tour-status";
 import { Label } from "@/components/ui/label";
 import { LinkedBookingSelectionModal } from "@/components/tour-packages/linked-booking-selection-modal";
 import type { LinkedBookingSelectItem, getBookingReferenceById as fetchBookingRefById } from "@/app/bookings/actions";
 import type { LinkedBookingInfo } from "@/lib/types/tours";
+import { usePermissions } from "@/components/auth/permissions-provider";
+import { BASE_CURRENCY, CURRENCY_LABELS, CurrencyCodeEnum, type CurrencyCode } from "@/lib/types/currency";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DuplicatePaymentNotice } from "@/components/tour-packages/duplicate-payment-notice";
+import { CustomerPicker } from "@/components/customers/customer-picker";
+import { CreditLimitWarning } from "@/components/customers/credit-limit-warning";
+import { getCustomerCreditStatus } from "@/lib/actions/customers";
+import type { CustomerCreditStatus } from "@/lib/types/customers";
+import type { CustomerSelectItem } from "@/lib/types/call-reports";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -78,6 +90,7 @@ import {
 interface TourPackageBookingFormProps {
   initialBooking: TourPackageBookingDbType | null
   products: TourProduct[]
+  customers: CustomerSelectItem[]
   onSuccess?: () => void
 }
 
@@ -96,7 +109,7 @@ function SubmitButton({ isEditing }: { isEditing: boolean }) {
 type TourPackageBookingFormValues = z.infer<typeof TourPackageBookingSchema>;
 
 // Helper for currency formatting
-const formatCurrency = (amount: number | null | undefined): string => {
+const formatCurrency = (amount: number | null | undefined, currency: CurrencyCode = BASE_CURRENCY): string => {
   if (amount === null || amount === undefined || isNaN(amount)) {
     return '-'; // Return a placeholder for invalid/null amounts
   }
@@ -104,18 +117,21 @@ const formatCurrency = (amount: number | null | undefined): string => {
   const roundedAmount = Math.round(amount * 100) / 100;
   return new Intl.NumberFormat('en-US', { 
     style: 'currency', 
-    currency: 'THB', // Keep THB or make dynamic if needed
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
  }).format(roundedAmount);
 };
 
-export function TourPackageBookingForm({ initialBooking, products, onSuccess }: TourPackageBookingFormProps) {
+export function TourPackageBookingForm({ initialBooking, products, customers, onSuccess }: TourPackageBookingFormProps) {
   const router = useRouter();
   const supabase = createClient();
   const isEditing = !!initialBooking?.id;
   const [isUploading, setIsUploading] = React.useState(false);
   const [selectedFiles, setSelectedFiles] = React.useState<File[]>([]);
+  // Earlier payments each selected file duplicates, and the files the user chose to upload anyway
+  const [slipDuplicates, setSlipDuplicates] = React.useState<Map<File, PaymentDuplicateMatch[]>>(new Map());
+  const [acceptedDuplicateFiles, setAcceptedDuplicateFiles] = React.useState<Set<File>>(new Set());
   const fileInputRef = React.useRef<HTMLInputElement>(null);
   const [isViewUrlLoading, startViewUrlTransition] = React.useTransition();
   const [newAddon, setNewAddon] = React.useState({ name: '', amount: '' });
@@ -131,6 +147,7 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
 
   // State for delete confirmation dialog
   const [paymentIdForAlertDialog, setPaymentIdForAlertDialog] = React.useState<string | null>(null);
+  const { can } = usePermissions();
 
   // Callback to fetch payments
   const doFetchBookingPayments = React.useCallback(async () => {
@@ -186,11 +203,12 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
   const form = useForm<TourPackageBookingFormValues>({
     resolver: zodResolver(TourPackageBookingSchema),
     defaultValues: {
-      customer_name: initialBooking?.customer_name ?? '',
+      customer_id: initialBooking?.customer_id ?? '',
       tour_product_id: initialBooking?.tour_product_id ?? (products.length > 0 ? products[0].id : ''),
       base_price_per_pax: initialBooking?.base_price_per_pax ?? undefined,
       pax: initialBooking?.pax ?? 1,
       status: initialBooking?.status ?? 'Open',
+      currency: initialBooking?.currency ?? BASE_CURRENCY,
       booking_date: initialBooking?.booking_date ? new Date(initialBooking.booking_date) : new Date(),
       travel_start_date: initialBooking?.travel_start_date ? new Date(initialBooking.travel_start_date) : undefined,
       travel_end_date: initialBooking?.travel_end_date ? new Date(initialBooking.travel_end_date) : undefined,
@@ -200,6 +218,21 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
     },
   });
 
+  // Warn, without blocking the save, when the picked customer is already over their credit limit
+  const selectedCustomerId = form.watch('customer_id');
+  const [customerCredit, setCustomerCredit] = React.useState<CustomerCreditStatus | null>(null);
+  React.useEffect(() => {
+    let cancelled = false;
+    setCustomerCredit(null);
+    if (!selectedCustomerId) return;
+    getCustomerCreditStatus(selectedCustomerId).then((credit) => {
+      if (!cancelled) setCustomerCredit(credit);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCustomerId]);
+
   const { fields: addonFields, append: appendAddon, remove: removeAddon } = useFieldArray({
     control: form.control,
     name: "addons",
@@ -232,6 +265,7 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
   const watchedPax = form.watch("pax");
   const watchedAddons = form.watch("addons");
   const watchedStatus = form.watch("status");
+  const watchedCurrency = form.watch("currency");
   const watchedLinkedBookingId = form.watch("linked_booking_id");
 
   const { baseSubtotal, addonsTotal, grandTotal } = React.useMemo(() => {
@@ -277,11 +311,31 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
       }
       
       setSelectedFiles(validFiles);
+      void checkSlipDuplicates(validFiles);
     } else {
       setSelectedFiles([]);
     }
   };
 
+  // Hash each selected slip in the browser and ask the server whether it was uploaded before.
+  // The server re-hashes the stored file on upload, so this is only for the early warning.
+  const checkSlipDuplicates = async (files: File[]) => {
+    setAcceptedDuplicateFiles(new Set());
+    try {
+      const results = await Promise.all(
+        files.map(async (file) => {
+          const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+          const hash = Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+          return [file, await findDuplicatePaymentSlips(hash)] as const;
+        })
+      );
+      setSlipDuplicates(new Map(results.filter(([, matches]) => matches.length > 0)));
+    } catch (error) {
+      console.error('Duplicate slip check failed:', error);
+      setSlipDuplicates(new Map());
+    }
+  };
+
   const onSubmit = async (values: TourPackageBookingFormValues) => {
     setIsUploading(true);
 
@@ -329,6 +383,12 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
           let successfulUploads = 0;
           
           for (const file of selectedFiles) {
+            const acceptDuplicate = acceptedDuplicateFiles.has(file);
+            if ((slipDuplicates.get(file)?.length ?? 0) > 0 && !acceptDuplicate) {
+              toast.warning(`Skipped ${file.name}: it was already uploaded. Tick "Upload anyway" to keep it.`);
+              continue;
+            }
+
             // Use Date.now() for uniqueness instead of uuidv4()
             const uniquePart = Date.now() + Math.random().toString(36).substring(2, 8);
             const fileName = `${bookingIdToUse}/${uniquePart}-${file.name.replace(/[^a-zA-Z0-9._-]/g, '')}`;
@@ -347,7 +407,8 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
               const paymentResult = await addPaymentRecord(
                 bookingIdToUse,
                 values.status, // Current status from the form
-                uploadData.path
+                uploadData.path,
+                { acceptDuplicate }
               );
 
               if (paymentResult.success) {
@@ -361,6 +422,8 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
           if (successfulUploads > 0) {
             toast.success(`Successfully uploaded ${successfulUploads} payment slip${successfulUploads !== 1 ? 's' : ''}`);
             setSelectedFiles([]); // Clear selected files state
+            setSlipDuplicates(new Map());
+            setAcceptedDuplicateFiles(new Set());
             if (fileInputRef.current) {
               fileInputRef.current.value = ""; // Clear file input
             }
@@ -385,6 +448,8 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
         if (mainActionResult.errors) {
             const fieldErrors = Object.values(mainActionResult.errors).flat().join(', ');
             errorMessage += `: ${fieldErrors}`;
+            const statusError = mainActionResult.errors.status?.[0];
+            if (statusError) form.setError('status', { type: 'server', message: statusError });
         }
         toast.error(errorMessage);
         // Re-populate form fields if server provides them (e.g., after validation fail on create)
@@ -525,16 +590,28 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
               </CardDescription>
             </CardHeader>
             <CardContent className="grid gap-6 md:grid-cols-2">
-              {/* Customer Name */}
+              {/* Customer */}
               <FormField
                 control={form.control}
-                name="customer_name"
+                name="customer_id"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Customer Name</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter customer name" {...field} />
-                    </FormControl>
+                    <FormLabel>Customer</FormLabel>
+                    <CustomerPicker
+                      customers={customers}
+                      value={field.value || undefined}
+                      onChange={(customer) => field.onChange(customer.id)}
+                      initialNewCustomerName={initialBooking?.customer_id ? undefined : initialBooking?.customer_name}
+                    />
+                    {initialBooking && !initialBooking.customer_id && (
+                      <FormDescription>
+                        Entered as &quot;{initialBooking.customer_name}&quot;. Pick the matching customer or add it.
+                      </FormDescription>
+                    )}
+                    <CreditLimitWarning
+                      credit={customerCredit}
+                      customerName={customers.find((c) => c.id === field.value)?.company_name}
+                    />
                     <FormMessage />
                   </FormItem>
                 )}
@@ -700,7 +777,31 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
               {/* Pricing Section (Base + Addons) */}
               <div className="md:col-span-2 space-y-4 border-t pt-6">
                 <h3 className="text-lg font-medium mb-2">Pricing Details</h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <FormField
+                    control={form.control}
+                    name="currency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Currency</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select currency" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CurrencyCodeEnum.options.map((currency) => (
+                              <SelectItem key={currency} value={currency}>
+                                {currency} – {CURRENCY_LABELS[currency]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={form.control}
                     name="base_price_per_pax"
@@ -720,7 +821,7 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                                 field.onChange(value === '' ? null : parseFloat(value));
                               }}
                             />
-                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">THB</span>
+                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">{watchedCurrency}</span>
                           </div>
                         </FormControl>
                         <FormMessage />
@@ -843,7 +944,7 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                     <Input
                       readOnly
                       disabled
-                      value={formatCurrency(baseSubtotal)}
+                      value={formatCurrency(baseSubtotal, watchedCurrency)}
                       className="disabled:cursor-default disabled:opacity-100 bg-muted/50 text-lg font-semibold"
                     />
                   </FormItem>
@@ -853,7 +954,7 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                     <Input
                       readOnly
                       disabled
-                      value={formatCurrency(addonsTotal)}
+                      value={formatCurrency(addonsTotal, watchedCurrency)}
                       className="disabled:cursor-default disabled:opacity-100 bg-muted/50 text-lg font-semibold"
                     />
                   </FormItem>
@@ -862,7 +963,7 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                 <div>
                   <Label className="text-lg font-semibold">Grand Total</Label>
                   <p className="text-3xl font-bold mt-2">
-                    {formatCurrency(grandTotal)}
+                    {formatCurrency(grandTotal, watchedCurrency)}
                   </p>
                 </div>
               </div>
@@ -887,11 +988,14 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {TourPackageStatusEnum.options.map((statusValue) => (
+                          {selectableTourStatuses(initialBooking?.status ?? null).map((statusValue) => (
                             <SelectItem key={statusValue} value={statusValue}>{statusValue}</SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
+                      <FormDescription>
+                        Full payment needs verified payments covering the grand total; Complete needs travel to have ended.
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -977,7 +1081,7 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                               </p>
                               {payment.is_verified && payment.verified_amount != null && (
                                 <p className="text-xs text-green-600 dark:text-green-400">
-                                  Verified Amount: {formatCurrency(payment.verified_amount)}
+                                  Verified Amount: {formatCurrency(payment.verified_amount, payment.currency)}
                                 </p>
                               )}
                               {payment.is_verified === false && payment.verification_error && (
@@ -985,6 +1089,7 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                                   Verification Error (hover to see)
                                 </p>
                               )}
+                              <DuplicatePaymentNotice payment={payment} />
                             </div>
                             <div className="flex items-center space-x-2 mt-2 sm:mt-0 flex-shrink-0">
                               <Button
@@ -996,43 +1101,45 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                               >
                                 <Eye className="h-4 w-4" />
                               </Button>
-                              <AlertDialog open={paymentIdForAlertDialog === payment.id} onOpenChange={(isOpen) => { if(!isOpen) setPaymentIdForAlertDialog(null);}}>
-                                <AlertDialogTrigger asChild>
-                                  <Button
-                                    variant="destructive"
-                                    size="sm"
-                                    disabled={isDeletingPaymentId === payment.id || isViewUrlLoading}
-                                    aria-label="Delete payment record"
-                                    onClickCapture={(e) => { 
-                                      e.stopPropagation();
-                                      setPaymentIdForAlertDialog(payment.id);
-                                    }}
-                                  >
-                                    {isDeletingPaymentId === payment.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
-                                  </Button>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>Confirm Payment Deletion</AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      Are you sure you want to delete this payment record and its associated slip ({payment.payment_slip_path.split('/').pop()})? This action cannot be undone.
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel onClick={() => setPaymentIdForAlertDialog(null)} disabled={isDeletingPaymentId === payment.id}>
-                                      Cancel
-                                    </AlertDialogCancel>
-                                    <AlertDialogAction 
-                                      onClick={executeDeletePayment} 
-                                      disabled={isDeletingPaymentId === payment.id}
-                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              {can('payments.delete') && (
+                                <AlertDialog open={paymentIdForAlertDialog === payment.id} onOpenChange={(isOpen) => { if(!isOpen) setPaymentIdForAlertDialog(null);}}>
+                                  <AlertDialogTrigger asChild>
+                                    <Button
+                                      variant="destructive"
+                                      size="sm"
+                                      disabled={isDeletingPaymentId === payment.id || isViewUrlLoading}
+                                      aria-label="Delete payment record"
+                                      onClickCapture={(e) => { 
+                                        e.stopPropagation();
+                                        setPaymentIdForAlertDialog(payment.id);
+                                      }}
                                     >
-                                      {isDeletingPaymentId === payment.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-                                      Delete Payment
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
+                                      {isDeletingPaymentId === payment.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Confirm Payment Deletion</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Are you sure you want to delete this payment record and its associated slip ({payment.payment_slip_path.split('/').pop()})? This action cannot be undone.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel onClick={() => setPaymentIdForAlertDialog(null)} disabled={isDeletingPaymentId === payment.id}>
+                                        Cancel
+                                      </AlertDialogCancel>
+                                      <AlertDialogAction 
+                                        onClick={executeDeletePayment} 
+                                        disabled={isDeletingPaymentId === payment.id}
+                                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                      >
+                                        {isDeletingPaymentId === payment.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                        Delete Payment
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
                             </div>
                           </li>
                         ))}
@@ -1063,6 +1170,8 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                   {selectedFiles.length > 0 && (
                     <Button variant="ghost" size="icon" onClick={() => {
                       setSelectedFiles([]);
+                      setSlipDuplicates(new Map());
+                      setAcceptedDuplicateFiles(new Set());
                       if (fileInputRef.current) fileInputRef.current.value = "";
                     }} aria-label="Clear selected files" disabled={isUploading}>
                       <XCircleIcon className="h-5 w-5 text-muted-foreground" />
@@ -1082,6 +1191,29 @@ export function TourPackageBookingForm({ initialBooking, products, onSuccess }:
                             <p className="text-xs text-muted-foreground">
                               {(file.size / 1024 / 1024).toFixed(2)} MB
                             </p>
+                            {slipDuplicates.get(file)?.map((match) => (
+                              <p key={match.payment_id} className="text-xs text-amber-600">
+                                Already uploaded for booking {match.tour_package_booking_id}
+                                {match.customer_name ? ` (${match.customer_name})` : ''} on {formatTimestamp(match.uploaded_at)}
+                              </p>
+                            ))}
+                            {slipDuplicates.has(file) && (
+                              <div className="flex items-center space-x-2 mt-1">
+                                <Checkbox
+                                  id={`accept-duplicate-${index}`}
+                                  checked={acceptedDuplicateFiles.has(file)}
+                                  onCheckedChange={(checkedState) => {
+                                    const next = new Set(acceptedDuplicateFiles);
+                                    if (checkedState) next.add(file); else next.delete(file);
+                                    setAcceptedDuplicateFiles(next);
+                                  }}
+                                  disabled={isUploading}
+                                />
+                                <Label htmlFor={`accept-duplicate-${index}`} className="text-xs">
+                                  Upload anyway (recorded as an accepted duplicate)
+                                </Label>
+                              </div>
+                            )}
                           </div>
                           <Button
                             type="button"
@@ -37,6 +37,7 @@ import { Badge } from "@/components/ui/badge";
 
 import { type TourPackageBookingWithProduct, type TourPackageStatus } from "@/lib/types/tours";
 import { deleteTourPackageBooking } from "@/lib/actions/tour-package-bookings";
+import { usePermissions } from "@/components/auth/permissions-provider";
 import { formatDate, formatTimestamp, formatCurrency } from "@/lib/utils/formatting";
 
 // --- Helper Functions ---
@@ -131,6 +132,7 @@ const DeleteConfirmationDialog = ({
 const ActionsCell = ({ booking }: { booking: TourPackageBookingWithProduct }) => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
   const [isDeleting, setIsDeleting] = React.useState(false);
+  const { can } = usePermissions();
 
   const handleDelete = async () => {
     setIsDeleting(true);
@@ -166,15 +168,19 @@ const ActionsCell = ({ booking }: { booking: TourPackageBookingWithProduct }) =>
               Edit
             </Link>
           </DropdownMenuItem>
-          <DropdownMenuSeparator />
-          <DropdownMenuItem 
-            onClick={() => setIsDeleteDialogOpen(true)} 
-            className="text-destructive focus:text-destructive focus:bg-destructive/10"
-            disabled={isDeleting}
-          >
-              <Trash2 className="mr-2 h-4 w-4" />
-            Delete
-          </DropdownMenuItem>
+          {can('tour-bookings.delete') && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem 
+                onClick={() => setIsDeleteDialogOpen(true)} 
+                className="text-destructive focus:text-destructive focus:bg-destructive/10"
+                disabled={isDeleting}
+              >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
       <DeleteConfirmationDialog
@@ -243,7 +249,8 @@ export function TourPackageBookingsTable({ data }: TourPackageBookingsTableProps
                       {formatCurrency(
                         // Calculate grand total using new pricing model
                         ((booking.base_price_per_pax || 0) * booking.pax) + 
-                        (booking.addons?.reduce((sum, addon) => sum + (addon.amount || 0), 0) || 0)
+                        (booking.addons?.reduce((sum, addon) => sum + (addon.amount || 0), 0) || 0),
+                        booking.currency
                       )}
                     </TableCell>
                     <TableCell className="text-center">{booking.pax}</TableCell>
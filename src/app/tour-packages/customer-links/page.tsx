@@ -0,0 +1,29 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CustomerLinkReview } from '@/components/tour-packages/customer-link-review';
+import { getUnlinkedTourBookings } from '@/lib/actions/customer-links';
+import { getCustomersForSelect } from '@/lib/actions/call-reports';
+
+export default async function CustomerLinksPage() {
+  const [bookings, customers] = await Promise.all([getUnlinkedTourBookings(), getCustomersForSelect()]);
+
+  return (
+    <div className="container mx-auto py-10">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Link Bookings to Customers</h1>
+          <p className="text-sm text-muted-foreground">
+            Bookings entered with a free-text customer name. Pick the matching customer or create one.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/tour-packages">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Bookings
+          </Link>
+        </Button>
+      </div>
+      <CustomerLinkReview bookings={bookings} customers={customers} />
+    </div>
+  );
+}
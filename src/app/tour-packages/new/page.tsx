@@ -2,6 +2,7 @@ import * as React from 'react';
 import Link from 'next/link';
 import { Button } from "@/components/ui/button";
 import { getTourProducts } from "@/lib/actions/tour-products"; // Action to fetch products
+import { getCustomersForSelect } from "@/lib/actions/call-reports";
 import { TourPackageBookingForm } from "../components/tour-package-booking-form"; // Corrected import path
 import type { TourProduct } from "@/lib/types/tours"; // Import the type
 import {
@@ -18,8 +19,9 @@ import { ArrowLeft } from 'lucide-react';
 
 export default async function NewTourPackageBookingPage() {
   // Fetch products and booking references concurrently
-  const [products] = await Promise.all([
+  const [products, customers] = await Promise.all([
     getTourProducts(),
+    getCustomersForSelect(),
   ]);
 
   // Handle error fetching products
@@ -64,6 +66,7 @@ export default async function NewTourPackageBookingPage() {
       <TourPackageBookingForm 
         initialBooking={null} 
         products={products} 
+        customers={customers}
       />
     </div>
   );
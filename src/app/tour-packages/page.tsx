@@ -2,7 +2,7 @@ import { Suspense } from 'react';
 import { getTourPackageBookingsExcludingStatuses } from '@/lib/actions/tour-package-bookings';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
-import { PlusCircle } from 'lucide-react';
+import { Link2, PlusCircle } from 'lucide-react';
 import { TourPackageBookingsTable } from './components/tour-package-bookings-table'; // We will create this next
 import { DataTableSkeleton } from '@/components/data-table-skeleton';
 import type { TourPackageBookingWithProduct } from '@/lib/types/tours';
@@ -15,11 +15,18 @@ export default async function TourPackageBookingsPage() {
     <div className="container mx-auto py-10">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Tour Bookings</h1>
-        <Button asChild>
-          <Link href="/tour-packages/new">
-            <PlusCircle className="mr-2 h-4 w-4" /> Create New Booking
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/tour-packages/customer-links">
+              <Link2 className="mr-2 h-4 w-4" /> Link Customers
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/tour-packages/new">
+              <PlusCircle className="mr-2 h-4 w-4" /> Create New Booking
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <Suspense fallback={<DataTableSkeleton columnCount={6} />}> {/* Adjust column count */} 
@@ -35,6 +35,7 @@ import {
 import { type TourProduct } from "@/lib/types/tours";
 import { deleteTourProduct } from "@/lib/actions/tour-products";
 import { TourPackageFormDialog } from './tour-package-form-dialog';
+import { usePermissions } from '@/components/auth/permissions-provider';
 
 // --- Helper Functions ---
 const formatDate = (dateString: string | null | undefined): string => {
@@ -88,6 +89,7 @@ const ActionsCell = ({
 }) => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
   const [isDeleting, setIsDeleting] = React.useState(false);
+  const { can } = usePermissions();
 
   const handleDelete = async () => {
     setIsDeleting(true);
@@ -129,15 +131,19 @@ const ActionsCell = ({
               </DropdownMenuItem>
             }
           />
-          <DropdownMenuSeparator />
-          <DropdownMenuItem 
-            onClick={() => setIsDeleteDialogOpen(true)} 
-            className="text-destructive focus:text-destructive focus:bg-destructive/10"
-            disabled={isDeleting}
-          >
-              <Trash2 className="mr-2 h-4 w-4" />
-            Delete
-          </DropdownMenuItem>
+          {can('tour-products.delete') && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem 
+                onClick={() => setIsDeleteDialogOpen(true)} 
+                className="text-destructive focus:text-destructive focus:bg-destructive/10"
+                disabled={isDeleting}
+              >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
       <DeleteConfirmationDialog
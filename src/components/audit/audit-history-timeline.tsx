@@ -0,0 +1,104 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { formatTimestamp } from '@/lib/utils/formatting';
+import {
+  AUDITED_FIELDS,
+  type AuditAction,
+  type AuditLogEntry,
+  type AuditValue,
+} from '@/lib/types/audit-log';
+
+interface AuditHistoryTimelineProps {
+  entries: AuditLogEntry[];
+}
+
+const ACTION_STYLES: Record<AuditAction, { label: string; dotClass: string; badgeClass: string }> = {
+  created: {
+    label: 'Created',
+    dotClass: 'bg-emerald-600 border-emerald-600',
+    badgeClass: 'border-emerald-200 bg-emerald-50 text-emerald-800',
+  },
+  updated: {
+    label: 'Updated',
+    dotClass: 'bg-blue-600 border-blue-600',
+    badgeClass: 'border-blue-200 bg-blue-50 text-blue-800',
+  },
+  deleted: {
+    label: 'Deleted',
+    dotClass: 'bg-red-600 border-red-600',
+    badgeClass: 'border-red-200 bg-red-50 text-red-800',
+  },
+};
+
+function formatAuditValue(value: AuditValue): string {
+  if (value === null || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'None';
+    return value
+      .map((item) =>
+        item && typeof item === 'object' && !Array.isArray(item) && 'name' in item
+          ? `${item.name} (${item.amount ?? '-'})`
+          : formatAuditValue(item)
+      )
+      .join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+}
+
+export function AuditHistoryTimeline({ entries }: AuditHistoryTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground italic">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-0">
+      {entries.map((entry, index) => {
+        const styles = ACTION_STYLES[entry.action] ?? ACTION_STYLES.updated;
+        const labels = AUDITED_FIELDS[entry.entity_type] ?? {};
+        const isLast = index === entries.length - 1;
+
+        return (
+          <li key={entry.id} className="relative flex gap-4 pb-8 last:pb-0">
+            <div className="flex flex-col items-center shrink-0 w-6">
+              <span
+                className={cn(
+                  'relative z-10 flex h-4 w-4 shrink-0 items-center justify-center rounded-full border-2',
+                  styles.dotClass
+                )}
+                aria-hidden
+              >
+                <span className="h-1.5 w-1.5 rounded-full bg-white" />
+              </span>
+              {!isLast && <span className="mt-1 w-0.5 flex-1 min-h-[2rem] bg-border" aria-hidden />}
+            </div>
+
+            <div className="flex-1 px-3 py-1 -ml-1">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <Badge variant="outline" className={cn('text-xs font-normal', styles.badgeClass)}>
+                  {styles.label}
+                </Badge>
+                <span className="text-sm font-medium">{entry.actor_email || 'Unknown user'}</span>
+              </div>
+              <p className="text-xs text-muted-foreground mb-2">{formatTimestamp(entry.created_at)}</p>
+
+              {entry.action === 'updated' && entry.changes.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {entry.changes.map((change) => (
+                    <li key={change.field} className="flex flex-wrap gap-x-2">
+                      <span className="text-muted-foreground">{labels[change.field] ?? change.field}:</span>
+                      <span className="line-through text-muted-foreground">{formatAuditValue(change.before)}</span>
+                      <span aria-hidden>→</span>
+                      <span className="font-medium">{formatAuditValue(change.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import { usePathname } from 'next/navigation';
+import { getMyProfile } from '@/lib/actions/profiles';
+import { hasPermission, type Permission, type UserProfile } from '@/lib/types/profiles';
+
+interface PermissionsContextValue {
+  profile: UserProfile | null;
+  isLoading: boolean;
+  can: (permission: Permission) => boolean;
+}
+
+const PermissionsContext = createContext<PermissionsContextValue>({
+  profile: null,
+  isLoading: true,
+  can: () => false,
+});
+
+// Loads the signed-in user's role once for the whole layout so table rows
+// can hide actions the server would reject anyway.
+export function PermissionsProvider({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const isLoginPage = pathname === '/login';
+
+  useEffect(() => {
+    if (isLoginPage) return;
+    let isCancelled = false;
+    getMyProfile()
+      .then((result) => {
+        if (!isCancelled) setProfile(result);
+      })
+      .catch((error) => console.error('Error loading profile:', error))
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isLoginPage]);
+
+  const can = (permission: Permission) => hasPermission(profile?.role, permission);
+
+  return (
+    <PermissionsContext.Provider value={{ profile, isLoading, can }}>
+      {children}
+    </PermissionsContext.Provider>
+  );
+}
+
+export function usePermissions(): PermissionsContextValue {
+  return useContext(PermissionsContext);
+}
@@ -94,8 +94,12 @@ export function BookingReferenceSelector({
     const customerName = booking.customer_name || 'Unknown Customer';
     const pnr = booking.booking_reference || 'No PNR';
     const travelDate = booking.earliest_travel_date ? formatDate(booking.earliest_travel_date) : 'No Date';
+    const returnDate =
+      booking.latest_travel_date && booking.latest_travel_date !== booking.earliest_travel_date
+        ? ` to ${formatDate(booking.latest_travel_date)}`
+        : '';
     const status = booking.status || 'No Status';
-    const description = `${customerName} (${pnr}) - Travel: ${travelDate} - Status: ${status}`;
+    const description = `${customerName} (${pnr}) - Travel: ${travelDate}${returnDate} - Status: ${status}`;
 
     setSelectedBookingDescription(description);
     onSelectBooking(booking.id, description);
@@ -156,7 +160,12 @@ export function BookingReferenceSelector({
                           <TableCell className="font-mono text-xs">{booking.id.substring(0,8)}...</TableCell>
                           <TableCell>{booking.customer_name || '-'}</TableCell>
                           <TableCell>{booking.booking_reference || '-'}</TableCell>
-                          <TableCell>{formatDate(booking.earliest_travel_date)}</TableCell>
+                          <TableCell>
+                            {formatDate(booking.earliest_travel_date)}
+                            {booking.latest_travel_date && booking.latest_travel_date !== booking.earliest_travel_date && (
+                              <> &ndash; {formatDate(booking.latest_travel_date)}</>
+                            )}
+                          </TableCell>
                           <TableCell>{booking.status || '-'}</TableCell>
                           <TableCell className="text-right">
                             <Button 
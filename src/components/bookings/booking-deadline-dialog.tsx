@@ -0,0 +1,163 @@
+'use client';
+
+import { useState, useEffect, useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle, DialogTrigger, DialogClose
+} from "@/components/ui/dialog";
+import {
+  Form, FormControl, FormDescription, FormField, FormItem,
+  FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { saveBookingDeadline, type BookingDeadlineFormState } from '@/lib/actions/booking-deadlines';
+import {
+  BookingDeadlineSchema,
+  DEADLINE_CONSEQUENCES,
+  DEADLINE_TYPES,
+  DEADLINE_TYPE_LABELS,
+  type BookingDeadline,
+  type BookingDeadlineFormData,
+  type BookingDeadlineFormInput,
+} from '@/lib/types/deadlines';
+
+interface BookingDeadlineDialogProps {
+  bookingId: string;
+  deadline?: BookingDeadline | null; // edit when set, add otherwise
+  triggerButton: React.ReactNode;
+  onSaved: () => void;
+}
+
+function SubmitButton({ isEdit }: { isEdit: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? 'Saving...' : isEdit ? 'Save Changes' : 'Add Deadline'}
+    </Button>
+  );
+}
+
+export function BookingDeadlineDialog({ bookingId, deadline, triggerButton, onSaved }: BookingDeadlineDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const action = saveBookingDeadline.bind(null, bookingId, deadline?.id ?? null);
+  const [state, formAction] = useActionState<BookingDeadlineFormState, FormData>(action, { message: null });
+
+  // Read on every open: after a save the parent reloads and passes the updated deadline
+  const currentValues = (): BookingDeadlineFormInput => ({
+    deadline_type: deadline?.deadline_type ?? 'ticketing',
+    due_date: deadline?.due_date ?? '',
+    note: deadline?.note ?? '',
+  });
+
+  const form = useForm<BookingDeadlineFormInput, unknown, BookingDeadlineFormData>({
+    resolver: zodResolver(BookingDeadlineSchema),
+    defaultValues: currentValues(),
+  });
+
+  useEffect(() => {
+    if (state?.message?.toLowerCase().includes('success')) {
+      setIsOpen(false);
+      form.reset();
+      onSaved();
+    }
+    if (state?.errors) {
+      const errors = state.errors;
+      (Object.keys(errors) as (keyof typeof errors)[]).forEach((field) => {
+        const message = errors[field]?.[0];
+        if (message) form.setError(field, { type: 'server', message });
+      });
+    }
+  }, [state, form, setIsOpen, onSaved]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    form.reset(open ? currentValues() : undefined);
+  };
+
+  const selectedType = form.watch('deadline_type');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {triggerButton}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{deadline ? 'Edit Deadline' : 'Add Deadline'}</DialogTitle>
+          <DialogDescription>
+            Dates set here are kept when the deadline rules are applied again.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form action={formAction} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="deadline_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <input type="hidden" name={field.name} value={field.value} />
+                  <Select value={field.value} onValueChange={field.onChange} disabled={Boolean(deadline)}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {DEADLINE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{DEADLINE_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedType && <FormDescription>{DEADLINE_CONSEQUENCES[selectedType]}</FormDescription>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="due_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Due date *</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Extended by the airline" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {state?.message && !state.message.toLowerCase().includes('success') && !state.errors && (
+              <p className="text-sm font-medium text-red-600">{state.message}</p>
+            )}
+
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <SubmitButton isEdit={Boolean(deadline)} />
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useCallback, useEffect, useState, useTransition } from 'react';
+import { Check, Loader2, Pencil, PlusCircle, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import {
+  applyBookingDeadlineRules,
+  deleteBookingDeadline,
+  getBookingDeadlines,
+  setBookingDeadlineCompleted,
+} from '@/lib/actions/booking-deadlines';
+import { DEADLINE_CONSEQUENCES, DEADLINE_TYPE_LABELS, type BookingDeadline } from '@/lib/types/deadlines';
+import { formatDate } from '@/lib/utils/formatting';
+import { BookingDeadlineDialog } from './booking-deadline-dialog';
+
+function urgency(deadline: BookingDeadline, today: string): { text: string; style: string } | null {
+  if (deadline.completed_at) return { text: 'Done', style: 'bg-green-100 text-green-800' };
+  if (deadline.due_date < today) return { text: 'Overdue', style: 'bg-red-100 text-red-800' };
+  if (deadline.due_date === today) return { text: 'Due today', style: 'bg-red-100 text-red-800' };
+  return null;
+}
+
+interface BookingDeadlinesProps {
+  bookingId: string;
+  // Called with the earliest open due date after every load, which is what bookings.deadline holds
+  onNextDeadlineChange?: (deadline: string | null) => void;
+}
+
+// Typed time limits of a booking: generated from the deadline rules, or set by hand
+export function BookingDeadlines({ bookingId, onNextDeadlineChange }: BookingDeadlinesProps) {
+  const [deadlines, setDeadlines] = useState<BookingDeadline[] | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const reload = useCallback(async () => {
+    const result = await getBookingDeadlines(bookingId);
+    setDeadlines(result);
+    onNextDeadlineChange?.(result.find((deadline) => !deadline.completed_at)?.due_date ?? null);
+  }, [bookingId, onNextDeadlineChange]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const runAction = (action: () => Promise<{ message: string }>) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.message.toLowerCase().includes('success')) {
+        toast.success(result.message);
+        await reload();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Deadlines</CardTitle>
+          <CardDescription>Airline time limits for this booking.</CardDescription>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isPending}
+            onClick={() => runAction(() => applyBookingDeadlineRules(bookingId))}
+          >
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Apply Rules
+          </Button>
+          <BookingDeadlineDialog
+            bookingId={bookingId}
+            onSaved={reload}
+            triggerButton={
+              <Button size="sm">
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Deadline
+              </Button>
+            }
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {deadlines === null ? (
+          <p className="text-sm text-muted-foreground">Loading deadlines...</p>
+        ) : deadlines.length > 0 ? (
+          <ul className="divide-y text-sm">
+            {deadlines.map((deadline) => {
+              const status = urgency(deadline, today);
+              return (
+                <li key={deadline.id} className="flex flex-wrap items-start justify-between gap-2 py-2">
+                  <div className={cn('space-y-0.5', { 'text-muted-foreground': deadline.completed_at })}>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{DEADLINE_TYPE_LABELS[deadline.deadline_type]}</span>
+                      <span>{formatDate(deadline.due_date)}</span>
+                      {status && <Badge className={status.style}>{status.text}</Badge>}
+                      <Badge variant="outline" className="font-normal">{deadline.is_manual ? 'Manual' : 'Rule'}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {deadline.note || DEADLINE_CONSEQUENCES[deadline.deadline_type]}
+                    </p>
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isPending}
+                      onClick={() => runAction(() => setBookingDeadlineCompleted(deadline.id, !deadline.completed_at))}
+                      aria-label={deadline.completed_at ? 'Reopen deadline' : 'Mark deadline as done'}
+                    >
+                      {deadline.completed_at ? <RotateCcw className="h-4 w-4" /> : <Check className="h-4 w-4 text-green-600" />}
+                    </Button>
+                    <BookingDeadlineDialog
+                      bookingId={bookingId}
+                      deadline={deadline}
+                      onSaved={reload}
+                      triggerButton={
+                        <Button variant="ghost" size="sm" aria-label="Edit deadline">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isPending}
+                      onClick={() => runAction(() => deleteBookingDeadline(deadline.id))}
+                      aria-label="Delete deadline"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No deadlines yet. Apply the rules or add one by hand.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
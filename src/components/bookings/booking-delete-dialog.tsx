@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { Button } from "@/components/ui/button";
 import { deleteBooking } from '@/app/bookings/actions';
 import type { Booking } from '@/types/database';
+import { usePermissions } from '@/components/auth/permissions-provider';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -32,6 +33,7 @@ export function BookingDeleteDialog({
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [deleteMessage, setDeleteMessage] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
+  const { can } = usePermissions();
 
   const handleDelete = () => {
     setDeleteMessage(null); // Clear previous message
@@ -57,6 +59,9 @@ export function BookingDeleteDialog({
     });
   };
 
+  // Only managers and admins may delete bookings
+  if (!can('bookings.delete')) return null;
+
   return (
     <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
       <AlertDialogTrigger asChild>
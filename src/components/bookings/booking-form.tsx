@@ -5,10 +5,11 @@ import { useForm, useFieldArray, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useRouter } from 'next/navigation'; // For potential navigation
 import { format } from "date-fns";
-import { Calendar as CalendarIcon, Trash2, PlusCircle, CheckCircle2 } from "lucide-react";
+import { AlertTriangle, Calendar as CalendarIcon, Trash2, PlusCircle, CheckCircle2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
@@ -24,9 +25,14 @@ import {
   DialogTitle 
 } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils"; // For merging classNames
+import { findItineraryGaps } from '@/lib/itinerary';
+import { deriveBookingStatus } from '@/lib/booking-status';
+import type { BookingStatusField } from '@/lib/types/booking-status';
 import { bookingFormSchema, BookingFormData } from '@/lib/schemas';
 import { addBooking, updateBooking, type BookingActionState } from '@/app/bookings/actions'; // Use addBooking directly
 import type { Customer, PredefinedSector, BookingStatus, FareClass } from '@/types/database';
+import type { pnrToBookingFormValues } from '@/lib/pnr-import';
+import { PnrImportDialog } from './pnr-import-dialog';
 
 // Add mode and initialData props
 interface BookingFormProps {
@@ -65,8 +71,17 @@ export function BookingForm({
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   // State specifically for the booking status dropdown in edit mode
   const [currentStatus, setCurrentStatus] = useState<BookingStatus | undefined>(initialData?.status);
+  // Captured when the booking is moved to Ticketed or Cancelled
+  const [ticketNumbers, setTicketNumbers] = useState('');
+  const [cancellationReason, setCancellationReason] = useState('');
+  const [statusErrors, setStatusErrors] = useState<Partial<Record<BookingStatusField, string>>>({});
+  // Ticketed and Cancelled are chosen on the booking and applied to every sector
+  const isTicketing = currentStatus === 'Ticketed' && initialData?.status !== 'Ticketed';
+  const isCancelling = currentStatus === 'Cancelled' && initialData?.status !== 'Cancelled';
   // State to track if the automatic second sector for Return has been added
   const [secondSectorAdded, setSecondSectorAdded] = useState(false);
+  // Bumped after an itinerary import so the uncontrolled selects and radios pick up the new values
+  const [importVersion, setImportVersion] = useState(0);
 
   const form = useForm<BookingFormData>({
     resolver: zodResolver(bookingFormSchema), 
@@ -75,7 +90,6 @@ export function BookingForm({
       ? { 
           customer_id: initialData?.customer_id || '',
           booking_reference: initialData?.booking_reference || '',
-          deadline: initialData?.deadline ? new Date(initialData.deadline) : null,
           booking_type: initialData?.booking_type, 
           sectors: initialData?.sectors || [], 
         }
@@ -83,7 +97,6 @@ export function BookingForm({
           customer_id: '',
           booking_type: undefined,
           booking_reference: '',
-          deadline: null,
           sectors: [
             { 
               predefined_sector_id: '', 
@@ -100,6 +113,7 @@ export function BookingForm({
   const handleFormSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setStatusMessage(null);
+    setStatusErrors({});
     
     // Validate the form first
     form.handleSubmit(() => {
@@ -116,13 +130,12 @@ export function BookingForm({
     // Append common fields validated by bookingFormSchema
     formData.append('customer_id', data.customer_id);
     formData.append('booking_reference', data.booking_reference || '');
-    if (data.deadline) {
-      formData.append('deadline', format(data.deadline, 'yyyy-MM-dd'));
-    }
 
     // Manually append status ONLY for update actions
     if ((mode === 'edit' || mode === 'edit-simple') && currentStatus) {
       formData.append('status', currentStatus);
+      if (isTicketing) formData.append('ticket_numbers', ticketNumbers);
+      if (isCancelling) formData.append('cancellation_reason', cancellationReason);
     }
 
     // Append fields specific to 'add' or 'edit' mode
@@ -162,7 +175,9 @@ export function BookingForm({
           setStatusMessage(result.message || 'Validation failed');
           result.errors.forEach(issue => {
             const path = issue.path.join('.');
-            if (path) {
+            if (path === 'status' || path === 'ticket_numbers' || path === 'cancellation_reason') {
+              setStatusErrors(current => ({ ...current, [path]: issue.message }));
+            } else if (path) {
               form.setError(path as keyof BookingFormData, { type: 'server', message: issue.message });
             }
           });
@@ -190,6 +205,8 @@ export function BookingForm({
   // Watch bookingType only if relevant (add or edit mode)
   const bookingType = useWatch({ control: form.control, name: "booking_type" });
   const currentSectors = useWatch({ control: form.control, name: "sectors" });
+  // Status the sectors imply, shown next to the status dropdown
+  const derivedStatus = deriveBookingStatus((currentSectors ?? []).map(sector => sector.status));
 
   // Use useEffect to handle the side effect of adding the second sector
   useEffect(() => {
@@ -224,8 +241,18 @@ export function BookingForm({
       (mode === 'add' || mode === 'edit') && 
       (bookingType === 'Return' && currentSectors?.length < 2 || 
        bookingType === 'One-Way' && currentSectors?.length < 1 || 
+       bookingType === 'Multi-City' || // Any number of sectors
        !bookingType); // Allow adding if type not selected yet in add mode
 
+  // Open jaws are allowed, but flagged in case a sector was picked by mistake
+  const itineraryGaps = findItineraryGaps(
+    (currentSectors ?? []).flatMap((sector) => {
+      const route = predefinedSectors.find((s) => s.id === sector.predefined_sector_id);
+      return route ? [route] : [];
+    })
+  );
+  const hasUnpickedRoute = (currentSectors ?? []).some((sector) => !sector.predefined_sector_id);
+
   const addSectorRow = () => {
     if (!canAddSector) return;
     append({ 
@@ -244,6 +271,15 @@ export function BookingForm({
     } 
   };
 
+  const applyItinerary = (values: ReturnType<typeof pnrToBookingFormValues>) => {
+    form.reset({ ...form.getValues(), ...values });
+    // The imported sectors replace the auto-added Return sector
+    setSecondSectorAdded(values.sectors.length === 2);
+    setImportVersion((version) => version + 1);
+    // Surface unmatched routes straight away rather than on save
+    void form.trigger('sectors');
+  };
+
   return (
     <>
       <Form {...form}>
@@ -255,7 +291,13 @@ export function BookingForm({
             </div>
           )}
 
-          <div className="space-y-6">
+          {(mode === 'add' || mode === 'edit') && (
+            <div className="flex justify-end">
+              <PnrImportDialog predefinedSectors={predefinedSectors} fareClasses={fareClasses} onApply={applyItinerary} />
+            </div>
+          )}
+
+          <div key={importVersion} className="space-y-6">
             {/* Section 1: Booking Details (No changes needed) */}
             <Card>
                 <CardHeader><CardTitle>1. Booking Details</CardTitle></CardHeader>
@@ -326,6 +368,17 @@ export function BookingForm({
                                               Return
                                             </label>
                                         </FormItem>
+                                        <FormItem className="flex items-center space-x-2 space-y-0">
+                                            <FormControl>
+                                            <RadioGroupItem value="Multi-City" id="booking-type-multi-city" />
+                                            </FormControl>
+                                            <label 
+                                              htmlFor="booking-type-multi-city" 
+                                              className="text-sm font-normal cursor-pointer"
+                                            >
+                                              Multi-City
+                                            </label>
+                                        </FormItem>
                                         </RadioGroup>
                                     </FormControl>
                                     <FormMessage />
@@ -395,36 +448,40 @@ export function BookingForm({
                                       <FormField control={form.control} name={`sectors.${index}.status`} render={({ field: sf }) => ( 
                                         <FormItem className="space-y-2">
                                           <FormLabel>Status *</FormLabel>
-                                          <FormControl>
-                                            <RadioGroup 
-                                              onValueChange={sf.onChange} 
-                                              defaultValue={sf.value} 
-                                              className="flex space-x-4"
-                                            >
-                                              <FormItem className="flex items-center space-x-2 space-y-0">
-                                                <FormControl>
-                                                  <RadioGroupItem value="Confirmed" id={`status-confirmed-${index}`} />
-                                                </FormControl>
-                                                <label 
-                                                  htmlFor={`status-confirmed-${index}`} 
-                                                  className="text-sm font-normal cursor-pointer"
-                                                >
-                                                  Confirmed
-                                                </label>
-                                              </FormItem>
-                                              <FormItem className="flex items-center space-x-2 space-y-0">
-                                                <FormControl>
-                                                  <RadioGroupItem value="Waiting List" id={`status-waiting-${index}`} />
-                                                </FormControl>
-                                                <label 
-                                                  htmlFor={`status-waiting-${index}`} 
-                                                  className="text-sm font-normal cursor-pointer"
-                                                >
-                                                  Waiting List
-                                                </label>
-                                              </FormItem>
-                                            </RadioGroup>
-                                          </FormControl>
+                                          {sf.value === 'Ticketed' || sf.value === 'Cancelled' ? (
+                                            <p className="text-sm">{sf.value} <span className="text-muted-foreground">(set from the booking status)</span></p>
+                                          ) : (
+                                            <FormControl>
+                                              <RadioGroup 
+                                                onValueChange={sf.onChange} 
+                                                defaultValue={sf.value} 
+                                                className="flex space-x-4"
+                                              >
+                                                <FormItem className="flex items-center space-x-2 space-y-0">
+                                                  <FormControl>
+                                                    <RadioGroupItem value="Confirmed" id={`status-confirmed-${index}`} />
+                                                  </FormControl>
+                                                  <label 
+                                                    htmlFor={`status-confirmed-${index}`} 
+                                                    className="text-sm font-normal cursor-pointer"
+                                                  >
+                                                    Confirmed
+                                                  </label>
+                                                </FormItem>
+                                                <FormItem className="flex items-center space-x-2 space-y-0">
+                                                  <FormControl>
+                                                    <RadioGroupItem value="Waiting List" id={`status-waiting-${index}`} />
+                                                  </FormControl>
+                                                  <label 
+                                                    htmlFor={`status-waiting-${index}`} 
+                                                    className="text-sm font-normal cursor-pointer"
+                                                  >
+                                                    Waiting List
+                                                  </label>
+                                                </FormItem>
+                                              </RadioGroup>
+                                            </FormControl>
+                                          )}
                                           <FormMessage />
                                         </FormItem> 
                                       )}/>
@@ -434,6 +491,19 @@ export function BookingForm({
                           <Button type="button" variant="outline" size="sm" onClick={addSectorRow} disabled={!canAddSector} className="mt-2">
                               <PlusCircle className="mr-2 h-4 w-4" /> Add Sector
                           </Button>
+                          {/* Open-jaw warning; only meaningful once every route is picked */}
+                          {!hasUnpickedRoute && itineraryGaps.length > 0 && (
+                            <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                              <ul className="space-y-1">
+                                {itineraryGaps.map((gap) => (
+                                  <li key={gap.sectorIndex}>
+                                    Open jaw: sector {gap.sectorIndex} arrives at {gap.arrivedAt} but sector {gap.sectorIndex + 1} departs from {gap.departsFrom}.
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
                           {/* Sectors array validation errors */}
                           {form.formState.errors.sectors?.root?.message && ( <p className="text-sm font-medium text-destructive">{form.formState.errors.sectors.root.message}</p> )}
                           {typeof form.formState.errors.sectors === 'string' && ( <p className="text-sm font-medium text-destructive">{form.formState.errors.sectors}</p> )}
@@ -470,7 +540,7 @@ export function BookingForm({
                                     <SelectTrigger><SelectValue placeholder="Select status" /></SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                    {[currentStatus, 'Ticketed', 'Cancelled']
+                                    {[initialData?.status, ...(initialData?.status === 'Cancelled' ? [] : ['Ticketed', 'Cancelled'])]
                                       .filter((value, index, self): value is BookingStatus => 
                                           !!value && self.indexOf(value) === index
                                       )
@@ -481,32 +551,43 @@ export function BookingForm({
                                       ))}
                                 </SelectContent>
                             </Select>
+                            {mode === 'edit' && derivedStatus && !isTicketing && !isCancelling && (
+                                <p className="text-sm text-muted-foreground">
+                                    Follows the sectors: this booking will be saved as {derivedStatus}.
+                                </p>
+                            )}
+                            {statusErrors.status && <p className="text-sm font-medium text-destructive">{statusErrors.status}</p>}
                         </FormItem>
                     )}
-                    {/* Deadline */}
-                    <FormField
-                        control={form.control}
-                        name="deadline"
-                        render={({ field }) => (
-                             <FormItem className="flex flex-col">
-                                <FormLabel>Deadline</FormLabel>
-                                <Popover>
-                                <PopoverTrigger asChild>
-                                    <FormControl>
-                                    <Button variant={"outline"} className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")} >
-                                        {field.value ? format(field.value, "PPP") : <span>Pick a deadline date</span>}
-                                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                                    </Button>
-                                    </FormControl>
-                                </PopoverTrigger>
-                                <PopoverContent className="w-auto p-0" align="start">
-                                    <Calendar mode="single" selected={field.value ?? undefined} onSelect={field.onChange} initialFocus />
-                                </PopoverContent>
-                                </Popover>
-                                <FormMessage />
-                            </FormItem>
-                        )}
-                        />
+                    {isTicketing && (
+                        <FormItem>
+                            <FormLabel>Ticket Numbers *</FormLabel>
+                            <Textarea
+                                placeholder="e.g., 217-1234567890, one per line"
+                                value={ticketNumbers}
+                                onChange={(event) => setTicketNumbers(event.target.value)}
+                            />
+                            <p className="text-sm text-muted-foreground">Every confirmed sector is marked Ticketed.</p>
+                            {statusErrors.ticket_numbers && <p className="text-sm font-medium text-destructive">{statusErrors.ticket_numbers}</p>}
+                        </FormItem>
+                    )}
+                    {isCancelling && (
+                        <FormItem>
+                            <FormLabel>Cancellation Reason *</FormLabel>
+                            <Textarea
+                                placeholder="Why is this booking being cancelled?"
+                                value={cancellationReason}
+                                onChange={(event) => setCancellationReason(event.target.value)}
+                            />
+                            <p className="text-sm text-muted-foreground">Every sector is marked Cancelled.</p>
+                            {statusErrors.cancellation_reason && <p className="text-sm font-medium text-destructive">{statusErrors.cancellation_reason}</p>}
+                        </FormItem>
+                    )}
+                    {/* Deadlines are typed and rule-generated, so they are managed on the booking page */}
+                    <p className="text-sm text-muted-foreground">
+                        Deposit, name list, ticketing and payment deadlines are generated from the deadline rules
+                        when the booking is saved, and can be adjusted on the booking page.
+                    </p>
                 </CardContent>
             </Card>
           </div>
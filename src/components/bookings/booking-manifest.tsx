@@ -0,0 +1,241 @@
+'use client';
+
+import { useCallback, useEffect, useState, useTransition } from 'react';
+import { AlertTriangle, Download, FileSpreadsheet, Loader2, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { deletePassenger, getBookingManifest } from '@/lib/actions/booking-passengers';
+import {
+  countManifestSectors,
+  findManifestMismatches,
+  formatPassengerName,
+  passengersToCsv,
+} from '@/lib/passenger-manifest';
+import { passengersToXlsx } from '@/lib/passenger-manifest-xlsx';
+import type { BookingManifest as Manifest, BookingPassenger } from '@/lib/types/passengers';
+import { formatDate } from '@/lib/utils/formatting';
+import { PassengerDialog } from './passenger-dialog';
+import { PassengerImportDialog } from './passenger-import-dialog';
+
+function DeletePassengerButton({ passenger, onDeleted }: { passenger: BookingPassenger; onDeleted: () => void }) {
+  const [isDeleting, startDeleteTransition] = useTransition();
+
+  const handleDelete = () => {
+    startDeleteTransition(async () => {
+      const result = await deletePassenger(passenger.id);
+      if (result.message.toLowerCase().includes('success')) {
+        toast.success(result.message);
+        onDeleted();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={handleDelete}
+      disabled={isDeleting}
+      aria-label={`Delete ${formatPassengerName(passenger)}`}
+    >
+      {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4 text-red-600" />}
+    </Button>
+  );
+}
+
+function downloadCsv(filename: string, csv: string) {
+  // The byte order mark makes Excel open the file as UTF-8
+  downloadBlob(filename, new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+}
+
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Passenger names per booking, with per-sector assignment checked against each sector's num_pax
+export function BookingManifest({ bookingId, bookingReference }: { bookingId: string; bookingReference: string | null }) {
+  const [manifest, setManifest] = useState<Manifest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setManifest(await getBookingManifest(bookingId));
+    setIsLoading(false);
+  }, [bookingId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading passengers...</p>;
+  }
+  if (!manifest) {
+    return <p className="text-sm text-red-500">Failed to load the passenger manifest.</p>;
+  }
+
+  const { passengers, sectors, nameChanges, deadline } = manifest;
+  const mismatches = findManifestMismatches(countManifestSectors(sectors, passengers));
+  const deadlinePassed = !!deadline && deadline < new Date().toISOString().slice(0, 10);
+  const sectorNumber = new Map(sectors.map((sector, index) => [sector.id, index + 1]));
+
+  const handleExportXlsx = async () => {
+    try {
+      downloadBlob(`manifest-${bookingReference || bookingId}.xlsx`, await passengersToXlsx(passengers, sectors));
+    } catch (error) {
+      console.error('Error exporting manifest to Excel:', error);
+      toast.error('Could not create the Excel file.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Passengers</CardTitle>
+            <CardDescription>{passengers.length} name(s) on the manifest.</CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <PassengerImportDialog bookingId={bookingId} onImported={reload} />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={passengers.length === 0}
+              onClick={() => downloadCsv(`manifest-${bookingReference || bookingId}.csv`, passengersToCsv(passengers, sectors))}
+            >
+              <Download className="mr-2 h-4 w-4" /> Export CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={passengers.length === 0}
+              onClick={handleExportXlsx}
+            >
+              <FileSpreadsheet className="mr-2 h-4 w-4" /> Export Excel
+            </Button>
+            <PassengerDialog
+              bookingId={bookingId}
+              sectors={sectors}
+              onSaved={reload}
+              triggerButton={
+                <Button size="sm">
+                  <PlusCircle className="mr-2 h-4 w-4" /> Add Passenger
+                </Button>
+              }
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {mismatches.length > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              <ul className="space-y-1">
+                {mismatches.map((sector) => (
+                  <li key={sector.id}>
+                    Sector {sectorNumber.get(sector.id)} ({sector.label}) has {sector.assigned} name(s) for {sector.num_pax}{' '}
+                    booked seat(s).
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {passengers.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Passport</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead>Date of Birth</TableHead>
+                    <TableHead>Nationality</TableHead>
+                    <TableHead>Sectors</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {passengers.map((passenger) => (
+                    <TableRow key={passenger.id}>
+                      <TableCell className="font-medium">{formatPassengerName(passenger)}</TableCell>
+                      <TableCell>{passenger.passport_number || '-'}</TableCell>
+                      <TableCell>{passenger.passport_expiry ? formatDate(passenger.passport_expiry) : '-'}</TableCell>
+                      <TableCell>{passenger.date_of_birth ? formatDate(passenger.date_of_birth) : '-'}</TableCell>
+                      <TableCell>{passenger.nationality || '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {sectors
+                            .filter((sector) => passenger.sector_ids.includes(sector.id))
+                            .map((sector) => (
+                              <Badge key={sector.id} variant="outline">{sector.label}</Badge>
+                            ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <PassengerDialog
+                          bookingId={bookingId}
+                          sectors={sectors}
+                          passenger={passenger}
+                          deadlinePassed={deadlinePassed}
+                          onSaved={reload}
+                          triggerButton={
+                            <Button variant="ghost" size="sm" aria-label={`Edit ${formatPassengerName(passenger)}`}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          }
+                        />
+                        <DeletePassengerButton passenger={passenger} onDeleted={reload} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No passengers yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Name Changes</CardTitle>
+          <CardDescription>Changes made after the deadline may be charged by the airline.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {nameChanges.length > 0 ? (
+            <ul className="divide-y text-sm">
+              {nameChanges.map((change) => (
+                <li key={change.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                  <span>
+                    <span className="text-muted-foreground line-through">{change.previous_name}</span> → {change.new_name}
+                    {change.after_deadline && (
+                      <Badge className="ml-2 bg-red-100 text-red-800">After deadline</Badge>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatDate(change.changed_at.slice(0, 10))}
+                    {change.changed_by_email && ` · ${change.changed_by_email}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No name changes.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
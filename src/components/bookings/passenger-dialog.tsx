@@ -0,0 +1,261 @@
+'use client';
+
+import { useState, useEffect, useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle, DialogTrigger, DialogClose
+} from "@/components/ui/dialog";
+import {
+  Form, FormControl, FormField, FormItem,
+  FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { savePassenger, type PassengerFormState } from '@/lib/actions/booking-passengers';
+import {
+  PASSENGER_TITLES,
+  PassengerSchema,
+  type BookingPassenger,
+  type ManifestSector,
+  type PassengerFormData,
+  type PassengerFormInput,
+} from '@/lib/types/passengers';
+
+const NO_TITLE = 'none';
+
+interface PassengerDialogProps {
+  bookingId: string;
+  sectors: ManifestSector[];
+  passenger?: BookingPassenger | null; // edit when set, add otherwise
+  deadlinePassed?: boolean;
+  triggerButton: React.ReactNode;
+  onSaved: () => void;
+}
+
+function SubmitButton({ isEdit }: { isEdit: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? 'Saving...' : isEdit ? 'Save Changes' : 'Add Passenger'}
+    </Button>
+  );
+}
+
+export function PassengerDialog({ bookingId, sectors, passenger, deadlinePassed, triggerButton, onSaved }: PassengerDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const action = savePassenger.bind(null, bookingId, passenger?.id ?? null);
+  const [state, formAction] = useActionState<PassengerFormState, FormData>(action, { message: null });
+
+  // Read on every open: after a save the parent reloads and passes the updated passenger
+  const currentValues = (): PassengerFormInput => ({
+    title: passenger?.title ?? null,
+    first_name: passenger?.first_name ?? '',
+    last_name: passenger?.last_name ?? '',
+    passport_number: passenger?.passport_number ?? '',
+    passport_expiry: passenger?.passport_expiry ?? '',
+    date_of_birth: passenger?.date_of_birth ?? '',
+    nationality: passenger?.nationality ?? '',
+    // New passengers fly every sector unless told otherwise
+    sector_ids: passenger?.sector_ids ?? sectors.map((sector) => sector.id),
+  });
+
+  const form = useForm<PassengerFormInput, unknown, PassengerFormData>({
+    resolver: zodResolver(PassengerSchema),
+    defaultValues: currentValues(),
+  });
+
+  useEffect(() => {
+    if (state?.message?.toLowerCase().includes('success')) {
+      setIsOpen(false);
+      form.reset();
+      onSaved();
+    }
+    if (state?.errors) {
+      const errors = state.errors;
+      (Object.keys(errors) as (keyof typeof errors)[]).forEach((field) => {
+        const message = errors[field]?.[0];
+        if (message) form.setError(field, { type: 'server', message });
+      });
+    }
+  }, [state, form, setIsOpen, onSaved]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    form.reset(open ? currentValues() : undefined);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {triggerButton}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>{passenger ? 'Edit Passenger' : 'Add Passenger'}</DialogTitle>
+          <DialogDescription>
+            Enter the name exactly as in the passport.
+            {passenger && deadlinePassed && ' The deadline has passed, so the airline may charge for a name change.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form action={formAction} className="space-y-4">
+            <div className="grid grid-cols-[6rem_1fr_1fr] gap-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <input type="hidden" name={field.name} value={field.value ?? ''} />
+                    <Select
+                      value={field.value ?? NO_TITLE}
+                      onValueChange={(value) => field.onChange(value === NO_TITLE ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_TITLE}>—</SelectItem>
+                        {PASSENGER_TITLES.map((title) => (
+                          <SelectItem key={title} value={title}>{title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="first_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>First name *</FormLabel>
+                    <FormControl>
+                      <Input className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="last_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Last name *</FormLabel>
+                    <FormControl>
+                      <Input className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="passport_number"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Passport number</FormLabel>
+                    <FormControl>
+                      <Input className="uppercase" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="passport_expiry"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Passport expiry</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date_of_birth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date of birth</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="nationality"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nationality</FormLabel>
+                    <FormControl>
+                      <Input className="uppercase" placeholder="e.g., TH" maxLength={3} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="sector_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sectors</FormLabel>
+                  {field.value.map((id) => (
+                    <input key={id} type="hidden" name={field.name} value={id} />
+                  ))}
+                  <div className="flex flex-wrap gap-4">
+                    {sectors.map((sector, index) => (
+                      <label key={sector.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(sector.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked === true
+                                ? [...field.value, sector.id]
+                                : field.value.filter((id) => id !== sector.id)
+                            )
+                          }
+                        />
+                        {index + 1}. {sector.label}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {state?.message && !state.message.toLowerCase().includes('success') && (
+              <p className="text-sm font-medium text-red-600">{state.message}</p>
+            )}
+
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <SubmitButton isEdit={Boolean(passenger)} />
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
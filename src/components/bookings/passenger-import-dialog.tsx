@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { FileUp, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle, DialogTrigger, DialogClose
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { importPassengersCsv } from '@/lib/actions/booking-passengers';
+import { rowsToCsv } from '@/lib/passenger-manifest';
+import { readPassengerSheet, XLSX_MIME_TYPE } from '@/lib/passenger-manifest-xlsx';
+
+const CSV_EXAMPLE =
+  'title,first_name,last_name,passport_number,passport_expiry,date_of_birth,nationality,sectors\n' +
+  'MR,JOHN,SMITH,AA1234567,2030-01-31,1985-08-15,TH,1;2';
+
+interface PassengerImportDialogProps {
+  bookingId: string;
+  onImported: () => void;
+}
+
+export function PassengerImportDialog({ bookingId, onImported }: PassengerImportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isImporting, startImportTransition] = useTransition();
+
+  // Excel sheets are turned into CSV here, so the rows can be checked before importing
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setErrors([]);
+    if (!file.name.toLowerCase().endsWith('.xlsx')) {
+      setCsvText(await file.text());
+      return;
+    }
+    try {
+      setCsvText(rowsToCsv(await readPassengerSheet(await file.arrayBuffer())));
+    } catch (error) {
+      console.error('Error reading passenger sheet:', error);
+      setCsvText('');
+      toast.error('Could not read the Excel file. Save it as .xlsx or CSV and try again.');
+    }
+  };
+
+  const handleImport = () => {
+    startImportTransition(async () => {
+      const result = await importPassengersCsv(bookingId, csvText);
+      setErrors(result.errors ?? []);
+      if (result.success) {
+        toast.success(result.message);
+        setIsOpen(false);
+        setCsvText('');
+        onImported();
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setCsvText('');
+      setErrors([]);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileUp className="mr-2 h-4 w-4" /> Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[625px]">
+        <DialogHeader>
+          <DialogTitle>Import Passengers</DialogTitle>
+          <DialogDescription>
+            CSV or Excel (.xlsx) sheet with a header row naming at least first and last name. Sectors are listed by number (1;2) or route
+            (BKK-HND); leave blank for every sector. Passengers are added to the current manifest.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="passenger-file">CSV or Excel file</Label>
+            <Input
+              id="passenger-file"
+              type="file"
+              accept={`.csv,text/csv,.xlsx,${XLSX_MIME_TYPE}`}
+              onChange={handleFileChange}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="passenger-csv">Or paste the rows</Label>
+            <Textarea
+              id="passenger-csv"
+              rows={8}
+              className="font-mono text-xs"
+              placeholder={CSV_EXAMPLE}
+              value={csvText}
+              onChange={(event) => setCsvText(event.target.value)}
+            />
+          </div>
+          {errors.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto space-y-1 text-sm text-red-600">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleImport} disabled={isImporting || !csvText.trim()}>
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
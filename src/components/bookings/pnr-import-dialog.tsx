@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ClipboardPaste } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { isImportableSegment, parsePnr, pnrToBookingFormValues } from '@/lib/pnr-import';
+import type { PnrImport } from '@/lib/types/pnr-import';
+import { formatDate } from '@/lib/utils/formatting';
+import type { FareClass, PredefinedSector } from '@/types/database';
+
+interface PnrImportDialogProps {
+  predefinedSectors: PredefinedSector[];
+  fareClasses: FareClass[];
+  onApply: (values: ReturnType<typeof pnrToBookingFormValues>) => void;
+}
+
+const UNMATCHED_CELL = 'bg-amber-50 text-amber-800 font-medium';
+
+// Paste an Amadeus/Sabre itinerary, review what was read, then fill the booking form with it
+export function PnrImportDialog({ predefinedSectors, fareClasses, onApply }: PnrImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<PnrImport | null>(null);
+
+  const importableCount = preview?.segments.filter(isImportableSegment).length ?? 0;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setText('');
+      setPreview(null);
+    }
+  };
+
+  const handleApply = () => {
+    if (!preview) return;
+    onApply(pnrToBookingFormValues(preview));
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <ClipboardPaste className="mr-2 h-4 w-4" /> Paste Itinerary
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Itinerary</DialogTitle>
+          <DialogDescription>
+            Paste the PNR display from Amadeus or Sabre. Check the preview before applying it to the booking.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="pnr-text">PNR text</Label>
+            <Textarea
+              id="pnr-text"
+              rows={8}
+              className="font-mono text-xs"
+              placeholder={'RP/BKKTG08AA/...   XK7P2Q\n  1.SMITH/JOHN MR\n  2  TG 628 Y 15MAR 6 BKKHND HK1  2235 0630+1'}
+              value={text}
+              onChange={(event) => {
+                setText(event.target.value);
+                setPreview(null);
+              }}
+            />
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                Booking reference: <span className="font-medium">{preview.booking_reference ?? '—'}</span>
+                {preview.booking_type && <Badge variant="secondary" className="ml-2">{preview.booking_type}</Badge>}
+                {preview.passenger_names.length > 0 && (
+                  <span className="block text-muted-foreground">Passengers: {preview.passenger_names.join(', ')}</span>
+                )}
+              </p>
+
+              {preview.segments.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Flight</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Route</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Pax</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.segments.map((segment) => (
+                      <TableRow
+                        key={`${segment.line}-${segment.flight_number}`}
+                        className={cn(!isImportableSegment(segment) && 'text-muted-foreground line-through')}
+                      >
+                        <TableCell>{segment.line}</TableCell>
+                        <TableCell>{segment.flight_number}</TableCell>
+                        <TableCell>{formatDate(segment.travel_date)}</TableCell>
+                        <TableCell className={cn(!segment.predefined_sector_id && UNMATCHED_CELL)}>
+                          {segment.origin_code}-{segment.destination_code}
+                        </TableCell>
+                        <TableCell className={cn(!segment.fare_class_id && UNMATCHED_CELL)}>{segment.booking_class}</TableCell>
+                        <TableCell>
+                          {segment.status_code}
+                          {segment.status && <span className="text-muted-foreground"> ({segment.status})</span>}
+                        </TableCell>
+                        <TableCell className="text-right">{segment.num_pax}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {preview.warnings.length > 0 && (
+                <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                  <ul className="space-y-1">
+                    {preview.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button type="button" onClick={handleApply} disabled={importableCount === 0}>
+              Apply {importableCount} Sector(s)
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={() => setPreview(parsePnr(text, { predefinedSectors, fareClasses }))}
+              disabled={!text.trim()}
+            >
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect, useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle, DialogTrigger, DialogClose
+} from "@/components/ui/dialog";
+import {
+  Form, FormControl, FormField, FormItem,
+  FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { recordSeatChange, type SeatChangeFormState } from '@/lib/actions/seat-inventory';
+import {
+  RECORDABLE_SEAT_CHANGES,
+  SEAT_CHANGE_LABELS,
+  SeatChangeSchema,
+  type SeatChangeFormData,
+  type SeatChangeFormInput,
+  type SectorInventorySummary,
+} from '@/lib/types/seat-inventory';
+
+interface SeatChangeDialogProps {
+  sector: SectorInventorySummary;
+  triggerButton: React.ReactNode;
+  onSaved: () => void;
+}
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? 'Saving...' : 'Record Change'}
+    </Button>
+  );
+}
+
+export function SeatChangeDialog({ sector, triggerButton, onSaved }: SeatChangeDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const action = recordSeatChange.bind(null, sector.id);
+  const [state, formAction] = useActionState<SeatChangeFormState, FormData>(action, { message: null });
+
+  const form = useForm<SeatChangeFormInput, unknown, SeatChangeFormData>({
+    resolver: zodResolver(SeatChangeSchema),
+    defaultValues: { change_type: 'released', seats: 1, note: '' },
+  });
+
+  useEffect(() => {
+    if (state?.message?.toLowerCase().includes('success')) {
+      setIsOpen(false);
+      form.reset();
+      onSaved();
+    }
+    if (state?.errors) {
+      const errors = state.errors;
+      (Object.keys(errors) as (keyof typeof errors)[]).forEach((field) => {
+        const message = errors[field]?.[0];
+        if (message) form.setError(field, { type: 'server', message });
+      });
+    }
+  }, [state, form, setIsOpen, onSaved]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); form.reset(); }}>
+      <DialogTrigger asChild>
+        {triggerButton}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Seat Change: {sector.label}</DialogTitle>
+          <DialogDescription>
+            {sector.held} held, {sector.named} named, {sector.ticketed} ticketed. Released seats go back to the airline.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form action={formAction} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="change_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Change</FormLabel>
+                    <input type="hidden" name={field.name} value={field.value} />
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RECORDABLE_SEAT_CHANGES.map((type) => (
+                          <SelectItem key={type} value={type}>{SEAT_CHANGE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="seats"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Seats *</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={999}
+                        {...field}
+                        value={typeof field.value === 'number' || typeof field.value === 'string' ? field.value : ''}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="e.g., Released per airline request" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {state?.message && !state.message.toLowerCase().includes('success') && !state.errors && (
+              <p className="text-sm font-medium text-red-600">{state.message}</p>
+            )}
+
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <SubmitButton />
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowLeftRight } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { getBookingSeatInventory } from '@/lib/actions/seat-inventory';
+import { formatUtilisation, summarizeSectorInventory, totalInventory } from '@/lib/seat-inventory';
+import {
+  SEAT_CHANGE_LABELS,
+  type BookingSeatInventory,
+  type SectorHold,
+} from '@/lib/types/seat-inventory';
+import { formatDate } from '@/lib/utils/formatting';
+import { SeatChangeDialog } from './seat-change-dialog';
+
+const utilisationClass = (utilisation: number | null) =>
+  cn({
+    'text-green-700': utilisation !== null && utilisation >= 0.9,
+    'text-amber-700': utilisation !== null && utilisation >= 0.5 && utilisation < 0.9,
+    'text-red-700': utilisation !== null && utilisation < 0.5,
+  });
+
+interface SeatInventoryPanelProps {
+  bookingId: string;
+  // Called with each sector's held seats after every load, so the page can show the new num_pax
+  onHoldsChange?: (holds: SectorHold[]) => void;
+}
+
+// Seats held, named, ticketed and released per sector of a block, with the timeline of changes
+export function SeatInventoryPanel({ bookingId, onHoldsChange }: SeatInventoryPanelProps) {
+  const [inventory, setInventory] = useState<BookingSeatInventory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    const result = await getBookingSeatInventory(bookingId);
+    setInventory(result);
+    setIsLoading(false);
+    if (result) onHoldsChange?.(result.sectors.map((sector) => ({ id: sector.id, num_pax: sector.held })));
+  }, [bookingId, onHoldsChange]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading seat inventory...</p>;
+  }
+  if (!inventory) {
+    return <p className="text-sm text-red-500">Failed to load the seat inventory.</p>;
+  }
+
+  const sectors = inventory.sectors.map(summarizeSectorInventory);
+  const totals = totalInventory(inventory.sectors);
+  const sectorLabel = new Map(sectors.map((sector, index) => [sector.id, `${index + 1}. ${sector.label}`]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          Seat Inventory
+          <span className={cn('ml-3 text-base', utilisationClass(totals.utilisation))}>
+            {formatUtilisation(totals.utilisation)} used
+          </span>
+        </CardTitle>
+        <CardDescription>
+          {totals.held} held, {totals.named} named, {totals.ticketed} ticketed, {totals.released} released.
+          A seat counts as used once it is named or ticketed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sectors.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sector</TableHead>
+                  <TableHead>Travel Date</TableHead>
+                  <TableHead className="text-right">Held</TableHead>
+                  <TableHead className="text-right">Named</TableHead>
+                  <TableHead className="text-right">Ticketed</TableHead>
+                  <TableHead className="text-right">Released</TableHead>
+                  <TableHead className="text-right">Unused</TableHead>
+                  <TableHead className="text-right">Utilisation</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sectors.map((sector) => (
+                  <TableRow key={sector.id}>
+                    <TableCell className="font-medium">{sectorLabel.get(sector.id)}</TableCell>
+                    <TableCell>{sector.travel_date ? formatDate(sector.travel_date) : '-'}</TableCell>
+                    <TableCell className="text-right">{sector.held}</TableCell>
+                    <TableCell className={cn('text-right', { 'text-amber-700': sector.named > sector.held })}>
+                      {sector.named}
+                    </TableCell>
+                    <TableCell className="text-right">{sector.ticketed}</TableCell>
+                    <TableCell className="text-right">{sector.released}</TableCell>
+                    <TableCell className="text-right">{sector.unused}</TableCell>
+                    <TableCell className={cn('text-right font-medium', utilisationClass(sector.utilisation))}>
+                      {formatUtilisation(sector.utilisation)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <SeatChangeDialog
+                        sector={sector}
+                        onSaved={reload}
+                        triggerButton={
+                          <Button variant="ghost" size="sm" aria-label={`Record seat change for ${sector.label}`}>
+                            <ArrowLeftRight className="h-4 w-4" />
+                          </Button>
+                        }
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No sectors on this booking.</p>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Timeline</h3>
+          {inventory.changes.length > 0 ? (
+            <ul className="divide-y text-sm">
+              {inventory.changes.map((change) => (
+                <li key={change.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                  <span>
+                    <span className="font-medium">{SEAT_CHANGE_LABELS[change.change_type]}</span>{' '}
+                    {change.change_type === 'ticketed'
+                      ? change.seats
+                      : `${change.seats > 0 ? '+' : ''}${change.seats}`}{' '}
+                    on {sectorLabel.get(change.booking_sector_id) ?? 'a removed sector'}
+                    <span className="text-muted-foreground"> · {change.seats_held_after} held</span>
+                    {change.note && <span className="block text-muted-foreground">{change.note}</span>}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatDate(change.changed_at.slice(0, 10))}
+                    {change.changed_by_email && ` · ${change.changed_by_email}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No seat changes recorded.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
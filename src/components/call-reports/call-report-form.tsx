@@ -1,10 +1,10 @@
 'use client';
 
-import * as React from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useFormStatus } from 'react-dom';
 import { format } from 'date-fns';
-import { CalendarIcon, Loader2, Plus } from 'lucide-react';
+import { CalendarIcon, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -15,21 +15,15 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { CustomerPicker } from '@/components/customers/customer-picker';
 import {
-  addCustomerInline,
   createCallReport,
   updateCallReport,
 } from '@/lib/actions/call-reports';
+import { getCustomerContacts } from '@/lib/actions/customers';
+import type { CustomerContact } from '@/lib/types/customers';
 import {
   CallReportSchema,
   CallReportStatusEnum,
@@ -60,25 +54,22 @@ function SubmitButton({ isEditing }: { isEditing: boolean }) {
   );
 }
 
+const NO_CONTACT = 'none';
+
 function parseDateField(value: string | null | undefined): Date | undefined {
   if (!value) return undefined;
   return new Date(`${value}T00:00:00`);
 }
 
-export function CallReportForm({ initialReport, customers: initialCustomers }: CallReportFormProps) {
+export function CallReportForm({ initialReport, customers }: CallReportFormProps) {
   const router = useRouter();
   const isEditing = !!initialReport?.id;
 
-  const [customers, setCustomers] = React.useState<CustomerSelectItem[]>(initialCustomers);
-  const [isAddCustomerOpen, setIsAddCustomerOpen] = React.useState(false);
-  const [newCustomerName, setNewCustomerName] = React.useState('');
-  const [addCustomerError, setAddCustomerError] = React.useState<string | null>(null);
-  const [isAddingCustomer, startAddCustomer] = React.useTransition();
-
   const form = useForm<CallReportFormData>({
     resolver: zodResolver(CallReportSchema),
     defaultValues: {
       customer_id: initialReport?.customer_id ?? '',
+      contact_id: initialReport?.contact_id ?? null,
       contact_person: initialReport?.contact_person ?? '',
       report_date: parseDateField(initialReport?.report_date) ?? new Date(),
       topic: initialReport?.topic ?? '',
@@ -90,6 +81,30 @@ export function CallReportForm({ initialReport, customers: initialCustomers }: C
     },
   });
 
+  const customerId = form.watch('customer_id');
+  const [contacts, setContacts] = useState<CustomerContact[]>([]);
+
+  // Load the selected customer's contacts; a contact from another customer can't stay selected
+  useEffect(() => {
+    let cancelled = false;
+    if (!customerId) {
+      setContacts([]);
+      return;
+    }
+    getCustomerContacts(customerId).then((result) => {
+      if (cancelled) return;
+      setContacts(result);
+      const selected = form.getValues('contact_id');
+      if (selected && !result.some((contact) => contact.id === selected)) {
+        form.setValue('contact_id', null);
+        form.setValue('contact_person', '');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId, form]);
+
   const onSubmit = async (values: CallReportFormData) => {
     const formData = new FormData();
     Object.entries(values).forEach(([key, value]) => {
@@ -97,7 +112,7 @@ export function CallReportForm({ initialReport, customers: initialCustomers }: C
         formData.append(key, format(value, 'yyyy-MM-dd'));
       } else if (value !== null && value !== undefined && value !== '') {
         formData.append(key, String(value));
-      } else if (key === 'next_follow_up_date' || key === 'contact_person') {
+      } else if (key === 'next_follow_up_date' || key === 'contact_person' || key === 'contact_id') {
         formData.append(key, '');
       }
     });
@@ -133,25 +148,6 @@ export function CallReportForm({ initialReport, customers: initialCustomers }: C
     }
   };
 
-  const handleAddCustomer = () => {
-    setAddCustomerError(null);
-    startAddCustomer(async () => {
-      const result = await addCustomerInline(newCustomerName);
-      if (result.error || !result.customer) {
-        setAddCustomerError(result.error ?? 'Failed to add customer.');
-        return;
-      }
-      const created = result.customer;
-      setCustomers((prev) =>
-        [...prev, created].sort((a, b) => a.company_name.localeCompare(b.company_name))
-      );
-      form.setValue('customer_id', created.id, { shouldValidate: true, shouldDirty: true });
-      setNewCustomerName('');
-      setIsAddCustomerOpen(false);
-      toast.success(`Added customer "${created.company_name}"`);
-    });
-  };
-
   const dateField = (
     name: 'report_date' | 'next_follow_up_date',
     label: string,
@@ -194,7 +190,6 @@ export function CallReportForm({ initialReport, customers: initialCustomers }: C
   );
 
   return (
-    <>
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
         <Card>
@@ -212,47 +207,50 @@ export function CallReportForm({ initialReport, customers: initialCustomers }: C
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Customer</FormLabel>
-                    <div className="flex items-center gap-2">
-                      <Select onValueChange={field.onChange} value={field.value}>
-                        <FormControl>
-                          <SelectTrigger className="flex-1">
-                            <SelectValue placeholder="Select customer..." />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {customers.map((c) => (
-                            <SelectItem key={c.id} value={c.id}>
-                              {c.company_name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="icon"
-                        title="Add new customer"
-                        onClick={() => {
-                          setAddCustomerError(null);
-                          setIsAddCustomerOpen(true);
-                        }}
-                      >
-                        <Plus className="h-4 w-4" />
-                      </Button>
-                    </div>
+                    <CustomerPicker
+                      customers={customers}
+                      value={field.value}
+                      onChange={(customer) => field.onChange(customer.id)}
+                    />
                     <FormMessage />
                   </FormItem>
                 )}
               />
               <FormField
                 control={form.control}
-                name="contact_person"
+                name="contact_id"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Contact person (optional)</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Name or role" {...field} value={field.value ?? ''} />
-                    </FormControl>
+                    <Select
+                      value={field.value ?? NO_CONTACT}
+                      onValueChange={(value) => {
+                        const contact = contacts.find((c) => c.id === value);
+                        field.onChange(contact ? contact.id : null);
+                        form.setValue('contact_person', contact ? contact.name : '');
+                      }}
+                      disabled={!customerId}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select contact..." />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_CONTACT}>No contact</SelectItem>
+                        {contacts.map((contact) => (
+                          <SelectItem key={contact.id} value={contact.id}>
+                            {contact.name}
+                            {contact.role ? ` (${contact.role})` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {!field.value && form.getValues('contact_person') ? (
+                      <FormDescription>Entered as &quot;{form.getValues('contact_person')}&quot;.</FormDescription>
+                    ) : customerId && contacts.length === 0 ? (
+                      <FormDescription>Add contacts on the customer&apos;s page.</FormDescription>
+                    ) : null}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -351,49 +349,5 @@ export function CallReportForm({ initialReport, customers: initialCustomers }: C
         </Card>
       </form>
     </Form>
-
-    <Dialog open={isAddCustomerOpen} onOpenChange={setIsAddCustomerOpen}>
-      <DialogContent className="sm:max-w-[425px]">
-        <DialogHeader>
-          <DialogTitle>Add New Customer</DialogTitle>
-          <DialogDescription>Enter the company name to add it to the list.</DialogDescription>
-        </DialogHeader>
-        <div className="space-y-2">
-          <Input
-            placeholder="Enter company name"
-            value={newCustomerName}
-            onChange={(e) => setNewCustomerName(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                e.preventDefault();
-                handleAddCustomer();
-              }
-            }}
-            disabled={isAddingCustomer}
-            autoFocus
-          />
-          {addCustomerError && <p className="text-sm text-red-600">{addCustomerError}</p>}
-        </div>
-        <DialogFooter>
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => setIsAddCustomerOpen(false)}
-            disabled={isAddingCustomer}
-          >
-            Cancel
-          </Button>
-          <Button
-            type="button"
-            onClick={handleAddCustomer}
-            disabled={isAddingCustomer || !newCustomerName.trim()}
-          >
-            {isAddingCustomer ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-            {isAddingCustomer ? 'Adding...' : 'Add Customer'}
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
-    </>
   );
 }
@@ -0,0 +1,129 @@
+'use client';
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { dashboardFiltersToQuery, hasActiveFilters } from '@/lib/dashboard-filters';
+import {
+  DASHBOARD_FILTER_PARAMS,
+  DATE_RANGE_PRESET_LABELS,
+  DateRangePresetEnum,
+  EMPTY_DASHBOARD_FILTERS,
+  type DashboardFilterOption,
+  type DashboardFilters,
+  type DateRangePreset,
+} from '@/lib/types/dashboard-filters';
+
+// Radix Select items cannot have an empty value
+const ALL = 'all';
+
+interface DashboardFilterBarProps {
+  filters: DashboardFilters;
+  customers: DashboardFilterOption[];
+  tourProducts?: DashboardFilterOption[]; // omitted on dashboards without tour packages
+  statuses: readonly string[];
+}
+
+// Filters live in the URL so a filtered dashboard can be shared; the page applies them server-side
+export function DashboardFilterBar({ filters, customers, tourProducts, statuses }: DashboardFilterBarProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const applyFilters = (next: DashboardFilters) => {
+    // Keep params that belong to the page itself, such as the comparison period
+    const params = new URLSearchParams(searchParams.toString());
+    Object.values(DASHBOARD_FILTER_PARAMS).forEach((key) => params.delete(key));
+    new URLSearchParams(dashboardFiltersToQuery(next)).forEach((value, key) => params.set(key, value));
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  // Switching to a custom range starts from the dates the previous preset covered
+  const handlePresetChange = (preset: string) =>
+    applyFilters({ ...filters, preset: preset as DateRangePreset });
+
+  const optionValue = (value: string | null) => value ?? ALL;
+  const fromOption = (value: string) => (value === ALL ? null : value);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={filters.preset} onValueChange={handlePresetChange}>
+        <SelectTrigger className="h-9 w-[150px]" aria-label="Date range">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DateRangePresetEnum.options.map((preset) => (
+            <SelectItem key={preset} value={preset}>{DATE_RANGE_PRESET_LABELS[preset]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {filters.preset === 'custom' && (
+        <>
+          <Input
+            type="date"
+            className="h-9 w-[150px]"
+            aria-label="From"
+            value={filters.from ?? ''}
+            onChange={(event) => applyFilters({ ...filters, from: event.target.value || null })}
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="date"
+            className="h-9 w-[150px]"
+            aria-label="To"
+            value={filters.to ?? ''}
+            onChange={(event) => applyFilters({ ...filters, to: event.target.value || null })}
+          />
+        </>
+      )}
+
+      <Select value={optionValue(filters.customerId)} onValueChange={(value) => applyFilters({ ...filters, customerId: fromOption(value) })}>
+        <SelectTrigger className="h-9 w-[180px]" aria-label="Customer">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All customers</SelectItem>
+          {customers.map((customer) => (
+            <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {tourProducts && (
+        <Select value={optionValue(filters.tourProductId)} onValueChange={(value) => applyFilters({ ...filters, tourProductId: fromOption(value) })}>
+          <SelectTrigger className="h-9 w-[180px]" aria-label="Tour package">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All tour packages</SelectItem>
+            {tourProducts.map((product) => (
+              <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Select value={optionValue(filters.status)} onValueChange={(value) => applyFilters({ ...filters, status: fromOption(value) })}>
+        <SelectTrigger className="h-9 w-[170px]" aria-label="Status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All statuses</SelectItem>
+          {statuses.map((status) => (
+            <SelectItem key={status} value={status}>{status}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {hasActiveFilters(filters) && (
+        <Button variant="ghost" size="sm" onClick={() => applyFilters(EMPTY_DASHBOARD_FILTERS)}>
+          <X className="mr-1 h-4 w-4" /> Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { AlertTriangle } from 'lucide-react';
+import { BASE_CURRENCY } from '@/lib/types/currency';
+import type { CustomerCreditStatus } from '@/lib/types/customers';
+import { formatCurrency } from '@/lib/utils/formatting';
+
+// Amber notice shown on bookings and the customer page when outstanding balances exceed the credit limit
+export function CreditLimitWarning({ credit, customerName }: { credit: CustomerCreditStatus | null; customerName?: string }) {
+  if (!credit?.over_limit || credit.credit_limit === null) return null;
+
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+      <p>
+        {customerName ?? 'This customer'} is over their credit limit: {formatCurrency(credit.outstanding, BASE_CURRENCY)} outstanding
+        against a limit of {formatCurrency(credit.credit_limit, BASE_CURRENCY)}.
+        {credit.unconvertedBookings > 0 && ` ${credit.unconvertedBookings} balance(s) without an exchange rate are not included.`}
+      </p>
+    </div>
+  );
+}
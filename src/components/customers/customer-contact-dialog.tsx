@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect, useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle, DialogTrigger, DialogClose
+} from "@/components/ui/dialog";
+import {
+  Form, FormControl, FormField, FormItem,
+  FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { saveCustomerContact, type CustomerContactFormState } from '@/lib/actions/customers';
+import {
+  CustomerContactSchema,
+  type CustomerContact,
+  type CustomerContactFormData,
+} from '@/lib/types/customers';
+
+interface CustomerContactDialogProps {
+  customerId: string;
+  contact?: CustomerContact | null; // edit when set, add otherwise
+  triggerButton: React.ReactNode;
+}
+
+function SubmitButton({ isEdit }: { isEdit: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? 'Saving...' : isEdit ? 'Save Changes' : 'Add Contact'}
+    </Button>
+  );
+}
+
+export function CustomerContactDialog({ customerId, contact, triggerButton }: CustomerContactDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const action = saveCustomerContact.bind(null, customerId, contact?.id ?? null);
+  const [state, formAction] = useActionState<CustomerContactFormState, FormData>(action, { message: null });
+
+  const form = useForm<CustomerContactFormData>({
+    resolver: zodResolver(CustomerContactSchema),
+    defaultValues: {
+      name: contact?.name ?? '',
+      role: contact?.role ?? '',
+      email: contact?.email ?? '',
+      phone: contact?.phone ?? '',
+      is_primary: contact?.is_primary ?? false,
+    },
+  });
+
+  useEffect(() => {
+    if (state?.message?.toLowerCase().includes('success')) {
+      setIsOpen(false);
+      form.reset();
+    }
+    if (state?.errors) {
+      const errors = state.errors;
+      (Object.keys(errors) as (keyof typeof errors)[]).forEach((field) => {
+        const message = errors[field]?.[0];
+        if (message) form.setError(field, { type: 'server', message });
+      });
+    }
+  }, [state, form, setIsOpen]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) form.reset();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {triggerButton}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{contact ? 'Edit Contact' : 'Add Contact'}</DialogTitle>
+          <DialogDescription>
+            Contacts can be picked on call reports. The primary contact is shown first.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form action={formAction} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Contact name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Travel Manager" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="is_primary"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox name={field.name} checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Primary contact</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {state?.message && !state.message.toLowerCase().includes('success') && (
+              <p className="text-sm font-medium text-red-600">{state.message}</p>
+            )}
+
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <SubmitButton isEdit={Boolean(contact)} />
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useTransition } from 'react';
+import { Loader2, Mail, Pencil, Phone, PlusCircle, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { deleteCustomerContact } from '@/lib/actions/customers';
+import type { CustomerContact } from '@/lib/types/customers';
+import { CustomerContactDialog } from './customer-contact-dialog';
+
+function DeleteContactButton({ contact }: { contact: CustomerContact }) {
+  const [isDeleting, startDeleteTransition] = useTransition();
+
+  const handleDelete = () => {
+    startDeleteTransition(async () => {
+      const result = await deleteCustomerContact(contact.id);
+      if (result.message.toLowerCase().includes('success')) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleDelete} disabled={isDeleting} aria-label={`Delete ${contact.name}`}>
+      {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4 text-red-600" />}
+    </Button>
+  );
+}
+
+export function CustomerContacts({ customerId, contacts }: { customerId: string; contacts: CustomerContact[] }) {
+  return (
+    <div className="space-y-3">
+      {contacts.length > 0 ? (
+        <ul className="divide-y">
+          {contacts.map((contact) => (
+            <li key={contact.id} className="flex items-start justify-between gap-2 py-2 text-sm">
+              <div className="space-y-1">
+                <div className="font-medium">
+                  {contact.name}
+                  {contact.is_primary && <Badge variant="secondary" className="ml-2">Primary</Badge>}
+                </div>
+                {contact.role && <p className="text-muted-foreground">{contact.role}</p>}
+                <div className="flex flex-wrap gap-x-4 text-muted-foreground">
+                  {contact.email && (
+                    <a href={`mailto:${contact.email}`} className="inline-flex items-center hover:underline">
+                      <Mail className="mr-1 h-3 w-3" /> {contact.email}
+                    </a>
+                  )}
+                  {contact.phone && (
+                    <a href={`tel:${contact.phone}`} className="inline-flex items-center hover:underline">
+                      <Phone className="mr-1 h-3 w-3" /> {contact.phone}
+                    </a>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center">
+                <CustomerContactDialog
+                  customerId={customerId}
+                  contact={contact}
+                  triggerButton={
+                    <Button variant="ghost" size="sm" aria-label={`Edit ${contact.name}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  }
+                />
+                <DeleteContactButton contact={contact} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No contacts yet.</p>
+      )}
+      <CustomerContactDialog
+        customerId={customerId}
+        triggerButton={
+          <Button variant="outline" size="sm">
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Contact
+          </Button>
+        }
+      />
+    </div>
+  );
+}
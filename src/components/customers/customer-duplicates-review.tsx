@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { usePermissions } from '@/components/auth/permissions-provider';
+import { mergeCustomers } from '@/lib/actions/customers';
+import type { DuplicateCustomerCandidate, DuplicateCustomerPair } from '@/lib/types/customer-matching';
+import { formatDate } from '@/lib/utils/formatting';
+
+const usageCount = (customer: DuplicateCustomerCandidate): number =>
+  customer.booking_count + customer.tour_booking_count + customer.call_report_count;
+
+function DuplicatePairCard({ pair, canMerge }: { pair: DuplicateCustomerPair<DuplicateCustomerCandidate>; canMerge: boolean }) {
+  // Default to keeping the record with the most history attached
+  const [first, second] = pair.customers;
+  const [survivorId, setSurvivorId] = useState(usageCount(second) > usageCount(first) ? second.id : first.id);
+  const [isMerging, startMerge] = useTransition();
+
+  const survivor = pair.customers.find((c) => c.id === survivorId) ?? first;
+  const duplicate = pair.customers.find((c) => c.id !== survivorId) ?? second;
+
+  const handleMerge = () => {
+    startMerge(async () => {
+      const result = await mergeCustomers(survivor.id, duplicate.id);
+      if (result.success) toast.success(result.message);
+      else toast.error(result.message);
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-base">Possible duplicate</CardTitle>
+        <Badge variant="secondary">{Math.round(pair.score * 100)}% similar</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RadioGroup value={survivorId} onValueChange={setSurvivorId} disabled={!canMerge || isMerging}>
+          {pair.customers.map((customer) => (
+            <div key={customer.id} className="flex items-start gap-3 rounded-md border p-3">
+              <RadioGroupItem value={customer.id} id={`keep-${customer.id}`} className="mt-1" />
+              <Label htmlFor={`keep-${customer.id}`} className="flex-1 cursor-pointer font-normal">
+                <Link href={`/customers/${customer.id}`} className="font-medium hover:underline">
+                  {customer.company_name}
+                </Link>
+                <span className="block text-xs text-muted-foreground">
+                  Created {formatDate(customer.created_at.slice(0, 10))} · {customer.booking_count} booking(s) ·{' '}
+                  {customer.tour_booking_count} tour booking(s) · {customer.call_report_count} call report(s)
+                </span>
+              </Label>
+              {customer.id === survivorId && <Badge variant="outline">Keep</Badge>}
+            </div>
+          ))}
+        </RadioGroup>
+
+        {canMerge && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={isMerging}>
+                {isMerging ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitMerge className="mr-2 h-4 w-4" />}
+                Merge into {survivor.company_name}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Merge customers?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  All bookings, tour bookings, call reports and contacts of &quot;{duplicate.company_name}&quot; will move
+                  to &quot;{survivor.company_name}&quot;, and &quot;{duplicate.company_name}&quot; will be deleted. This cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleMerge}>Merge</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function CustomerDuplicatesReview({ pairs }: { pairs: DuplicateCustomerPair<DuplicateCustomerCandidate>[] }) {
+  const { can } = usePermissions();
+  const canMerge = can('customers.merge');
+
+  if (pairs.length === 0) {
+    return <p className="text-sm text-muted-foreground">No likely duplicate customers found.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {!canMerge && (
+        <p className="text-sm text-muted-foreground">Ask a manager to merge these customers.</p>
+      )}
+      <div className="grid gap-4 lg:grid-cols-2">
+        {pairs.map((pair) => (
+          <DuplicatePairCard key={pair.customers.map((c) => c.id).join(':')} pair={pair} canMerge={canMerge} />
+        ))}
+      </div>
+    </div>
+  );
+}
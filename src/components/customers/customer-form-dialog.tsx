@@ -16,6 +16,7 @@ import {
     FormLabel, FormMessage
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { addCustomer, updateCustomer } from '@/app/customers/actions';
 import { customerSchema } from '@/lib/schemas';
 import type { Customer } from '@/types/database';
@@ -50,6 +51,10 @@ export function CustomerFormDialog({ mode, customer, triggerButton }: CustomerFo
     resolver: zodResolver(customerSchema),
     defaultValues: {
       company_name: mode === 'edit' && customer ? customer.company_name : '',
+      billing_address: customer?.billing_address ?? '',
+      tax_id: customer?.tax_id ?? '',
+      payment_terms_days: customer?.payment_terms_days ?? undefined,
+      credit_limit: customer?.credit_limit ?? undefined,
     },
     // Use the state from useFormState to display errors
     errors: state?.errors ? { company_name: { type: 'server', message: state.errors.company_name?.[0] } } : {},
@@ -67,7 +72,11 @@ export function CustomerFormDialog({ mode, customer, triggerButton }: CustomerFo
     }
     // Re-populate errors if they come back from the server action
      if (state?.errors) {
-        form.setError("company_name", { type: 'server', message: state.errors.company_name?.[0] });
+        const errors = state.errors;
+        (Object.keys(errors) as (keyof typeof errors)[]).forEach((field) => {
+          const message = errors[field]?.[0];
+          if (message) form.setError(field, { type: 'server', message });
+        });
      }
   }, [state, form, setIsOpen]);
 
@@ -85,7 +94,7 @@ export function CustomerFormDialog({ mode, customer, triggerButton }: CustomerFo
       <DialogTrigger asChild>
         {triggerButton}
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
           <DialogTitle>{mode === 'add' ? 'Add New Customer' : 'Edit Customer'}</DialogTitle>
           <DialogDescription>
@@ -108,6 +117,60 @@ export function CustomerFormDialog({ mode, customer, triggerButton }: CustomerFo
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="tax_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tax ID</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Printed on invoices" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="billing_address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Billing Address</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="payment_terms_days"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payment Terms (days)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="1" placeholder="e.g., 30" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="credit_limit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Credit Limit (THB)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="any" placeholder="No limit" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
             {/* Display general form submission messages */}
             {state?.message && !state.errors && (
@@ -0,0 +1,138 @@
+'use client';
+
+import * as React from 'react';
+import { Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FormControl } from '@/components/ui/form';
+import { addCustomerInline } from '@/lib/actions/call-reports';
+import type { CustomerSelectItem } from '@/lib/types/call-reports';
+
+interface CustomerPickerProps {
+  customers: CustomerSelectItem[];
+  value: string | undefined;
+  onChange: (customer: CustomerSelectItem) => void;
+  name?: string;
+  initialNewCustomerName?: string; // prefilled in the add dialog, e.g. an unlinked booking's free-text name
+}
+
+// Customer select with an inline "add customer" dialog; use inside a FormField
+export function CustomerPicker({ customers: initialCustomers, value, onChange, name, initialNewCustomerName }: CustomerPickerProps) {
+  const [customers, setCustomers] = React.useState<CustomerSelectItem[]>(initialCustomers);
+  const [isAddCustomerOpen, setIsAddCustomerOpen] = React.useState(false);
+  const [newCustomerName, setNewCustomerName] = React.useState('');
+  const [addCustomerError, setAddCustomerError] = React.useState<string | null>(null);
+  const [isAddingCustomer, startAddCustomer] = React.useTransition();
+
+  const handleSelect = (customerId: string) => {
+    const selected = customers.find((customer) => customer.id === customerId);
+    if (selected) onChange(selected);
+  };
+
+  const handleAddCustomer = () => {
+    setAddCustomerError(null);
+    startAddCustomer(async () => {
+      const result = await addCustomerInline(newCustomerName);
+      if (result.error || !result.customer) {
+        setAddCustomerError(result.error ?? 'Failed to add customer.');
+        return;
+      }
+      const created = result.customer;
+      setCustomers((prev) =>
+        [...prev, created].sort((a, b) => a.company_name.localeCompare(b.company_name))
+      );
+      onChange(created);
+      setNewCustomerName('');
+      setIsAddCustomerOpen(false);
+      toast.success(`Added customer "${created.company_name}"`);
+    });
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <Select onValueChange={handleSelect} value={value} name={name}>
+          <FormControl>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select customer..." />
+            </SelectTrigger>
+          </FormControl>
+          <SelectContent>
+            {customers.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.company_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          title="Add new customer"
+          onClick={() => {
+            setAddCustomerError(null);
+            setNewCustomerName(initialNewCustomerName ?? '');
+            setIsAddCustomerOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog open={isAddCustomerOpen} onOpenChange={setIsAddCustomerOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Add New Customer</DialogTitle>
+            <DialogDescription>Enter the company name to add it to the list.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Input
+              placeholder="Enter company name"
+              value={newCustomerName}
+              onChange={(e) => setNewCustomerName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAddCustomer();
+                }
+              }}
+              disabled={isAddingCustomer}
+              autoFocus
+            />
+            {addCustomerError && <p className="text-sm text-red-600">{addCustomerError}</p>}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsAddCustomerOpen(false)}
+              disabled={isAddingCustomer}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleAddCustomer}
+              disabled={isAddingCustomer || !newCustomerName.trim()}
+            >
+              {isAddingCustomer ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              {isAddingCustomer ? 'Adding...' : 'Add Customer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { CustomerFormDialog } from './customer-form-dialog'; // Import the dialog
 import { deleteCustomer } from '@/app/customers/actions';
 import type { Customer } from '@/types/database';
+import { usePermissions } from '@/components/auth/permissions-provider';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,6 +26,7 @@ export function CustomerTableActions({ customer }: CustomerTableActionsProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [deleteMessage, setDeleteMessage] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
+  const { can } = usePermissions();
 
   const handleDelete = () => {
     startTransition(async () => {
@@ -50,32 +52,34 @@ export function CustomerTableActions({ customer }: CustomerTableActionsProps) {
         triggerButton={<Button variant="outline" size="sm">Edit</Button>}
       />
 
-      {/* Delete Button with Confirmation Dialog */}
-      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
-        <AlertDialogTrigger asChild>
-          <Button variant="destructive" size="sm">Delete</Button>
-        </AlertDialogTrigger>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This action cannot be undone. This will remove the customer and all associated data.
-              If you&apos;re unsure, consider inactivating the customer instead.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          {deleteMessage && (
-             <p className={`text-sm ${deleteMessage.toLowerCase().includes('error') ? 'text-red-600' : 'text-green-600'}`}>
-                {deleteMessage}
-            </p>
-          )}
-          <AlertDialogFooter>
-            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleDelete} disabled={isPending}>
-              {isPending ? 'Deleting...' : 'Continue'}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {/* Delete Button with Confirmation Dialog (managers and admins only) */}
+      {can('customers.delete') && (
+        <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm">Delete</Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This action cannot be undone. This will remove the customer and all associated data.
+                If you&apos;re unsure, consider inactivating the customer instead.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {deleteMessage && (
+               <p className={`text-sm ${deleteMessage.toLowerCase().includes('error') ? 'text-red-600' : 'text-green-600'}`}>
+                  {deleteMessage}
+              </p>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} disabled={isPending}>
+                {isPending ? 'Deleting...' : 'Continue'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,33 @@
+'use client';
+
+import { useTransition } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from "@/components/ui/button";
+import { deleteExchangeRate } from '@/lib/actions/exchange-rates';
+import { usePermissions } from '@/components/auth/permissions-provider';
+
+export function ExchangeRateDeleteButton({ id }: { id: string }) {
+  const [isDeleting, startDeleteTransition] = useTransition();
+  const { can } = usePermissions();
+
+  if (!can('exchange-rates.manage')) return null;
+
+  const handleDelete = () => {
+    startDeleteTransition(async () => {
+      const result = await deleteExchangeRate(id);
+      if (result.message?.toLowerCase().includes('success')) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message ?? 'An unknown error occurred.');
+      }
+    });
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleDelete} disabled={isDeleting} aria-label="Delete exchange rate">
+      {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4 text-red-600" />}
+    </Button>
+  );
+}
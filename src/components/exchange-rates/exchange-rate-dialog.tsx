@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle, DialogTrigger, DialogClose
+} from "@/components/ui/dialog";
+import {
+  Form, FormControl, FormField, FormItem,
+  FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { saveExchangeRate, type ExchangeRateFormState } from '@/lib/actions/exchange-rates';
+import {
+  BASE_CURRENCY,
+  CURRENCY_LABELS,
+  CurrencyCodeEnum,
+  ExchangeRateFormSchema,
+} from '@/lib/types/currency';
+
+interface ExchangeRateDialogProps {
+  triggerButton: React.ReactNode;
+}
+
+type ExchangeRateFormValues = z.infer<typeof ExchangeRateFormSchema>;
+
+const FOREIGN_CURRENCIES = CurrencyCodeEnum.options.filter((currency) => currency !== BASE_CURRENCY);
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? 'Saving...' : 'Save Rate'}
+    </Button>
+  );
+}
+
+export function ExchangeRateDialog({ triggerButton }: ExchangeRateDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [state, formAction] = useActionState<ExchangeRateFormState, FormData>(saveExchangeRate, { message: null });
+
+  const form = useForm<ExchangeRateFormValues>({
+    resolver: zodResolver(ExchangeRateFormSchema),
+    defaultValues: {
+      currency: 'USD',
+      rate_date: new Date().toISOString().slice(0, 10),
+      rate: undefined,
+    },
+  });
+
+  useEffect(() => {
+    if (state?.message?.toLowerCase().includes('success')) {
+      setIsOpen(false);
+      form.reset();
+    }
+    if (state?.errors) {
+      if (state.errors.currency) form.setError('currency', { type: 'server', message: state.errors.currency[0] });
+      if (state.errors.rate_date) form.setError('rate_date', { type: 'server', message: state.errors.rate_date[0] });
+      if (state.errors.rate) form.setError('rate', { type: 'server', message: state.errors.rate[0] });
+    }
+  }, [state, form, setIsOpen]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) form.reset();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {triggerButton}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Add Exchange Rate</DialogTitle>
+          <DialogDescription>
+            Value of one unit of the currency in {BASE_CURRENCY}, effective from the given date.
+            An existing rate for the same currency and date is replaced.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form action={formAction} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Currency *</FormLabel>
+                  <Select name={field.name} value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select a currency" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {FOREIGN_CURRENCIES.map((currency) => (
+                        <SelectItem key={currency} value={currency}>
+                          {currency} – {CURRENCY_LABELS[currency]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="rate_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Effective Date *</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="rate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rate ({BASE_CURRENCY}) *</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="any"
+                      min="0"
+                      placeholder="e.g., 36.25"
+                      {...field}
+                      value={field.value ?? ''}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        field.onChange(value === '' ? undefined : parseFloat(value));
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {state?.message && (
+              <p className={`text-sm font-medium ${state.message.toLowerCase().includes('success') ? 'text-green-600' : 'text-red-600'}`}>
+                {state.message}
+              </p>
+            )}
+
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <SubmitButton />
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
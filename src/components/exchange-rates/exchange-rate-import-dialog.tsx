@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle, DialogTrigger, DialogClose
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { importExchangeRatesCsv } from '@/lib/actions/exchange-rates';
+import { BASE_CURRENCY } from '@/lib/types/currency';
+
+const CSV_EXAMPLE = 'currency,date,rate\nUSD,2026-07-01,36.25\nEUR,2026-07-01,39.80';
+
+interface ExchangeRateImportDialogProps {
+  triggerButton: React.ReactNode;
+}
+
+export function ExchangeRateImportDialog({ triggerButton }: ExchangeRateImportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isImporting, startImportTransition] = useTransition();
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setCsvText(await file.text());
+    setErrors([]);
+  };
+
+  const handleImport = () => {
+    startImportTransition(async () => {
+      const result = await importExchangeRatesCsv(csvText);
+      setErrors(result.errors ?? []);
+      if (result.success) {
+        toast.success(result.message);
+        setIsOpen(false);
+        setCsvText('');
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setCsvText('');
+      setErrors([]);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {triggerButton}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>Import Exchange Rates</DialogTitle>
+          <DialogDescription>
+            CSV with a header row naming currency, date (YYYY-MM-DD) and rate in {BASE_CURRENCY}.
+            Rates for a currency and date that already exist are replaced.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="exchange-rate-file">CSV file</Label>
+            <Input id="exchange-rate-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exchange-rate-csv">Or paste the rows</Label>
+            <Textarea
+              id="exchange-rate-csv"
+              rows={8}
+              className="font-mono text-xs"
+              placeholder={CSV_EXAMPLE}
+              value={csvText}
+              onChange={(event) => setCsvText(event.target.value)}
+            />
+          </div>
+          {errors.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto space-y-1 text-sm text-red-600">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleImport} disabled={isImporting || !csvText.trim()}>
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { FileUp, PlusCircle } from 'lucide-react';
+
+import { Button } from "@/components/ui/button";
+import { usePermissions } from '@/components/auth/permissions-provider';
+import { ExchangeRateDialog } from './exchange-rate-dialog';
+import { ExchangeRateImportDialog } from './exchange-rate-import-dialog';
+
+// Add / import buttons (managers and admins only)
+export function ExchangeRateToolbar() {
+  const { can } = usePermissions();
+  if (!can('exchange-rates.manage')) return null;
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+      <ExchangeRateImportDialog
+        triggerButton={
+          <Button variant="outline" className="w-full sm:w-auto">
+            <FileUp className="mr-2 h-4 w-4" /> Import CSV
+          </Button>
+        }
+      />
+      <ExchangeRateDialog
+        triggerButton={
+          <Button className="w-full sm:w-auto">
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Rate
+          </Button>
+        }
+      />
+    </div>
+  );
+}
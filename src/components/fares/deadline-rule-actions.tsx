@@ -0,0 +1,66 @@
+'use client';
+
+import { useTransition } from 'react';
+import { Edit, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from "@/components/ui/button";
+import { usePermissions } from '@/components/auth/permissions-provider';
+import { deleteDeadlineRule } from '@/lib/actions/booking-deadlines';
+import type { DeadlineRule } from '@/lib/types/deadlines';
+import type { FareClass } from '@/types/database';
+import { DeadlineRuleDialog } from './deadline-rule-dialog';
+
+type FareClassOption = Pick<FareClass, 'id' | 'name'>;
+
+// Add button for the deadline rules section (managers and admins only)
+export function AddDeadlineRuleButton({ fareClasses }: { fareClasses: FareClassOption[] }) {
+  const { can } = usePermissions();
+  if (!can('deadline-rules.manage')) return null;
+
+  return (
+    <DeadlineRuleDialog
+      fareClasses={fareClasses}
+      triggerButton={
+        <Button variant="outline" className="w-full sm:w-auto">
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Rule
+        </Button>
+      }
+    />
+  );
+}
+
+export function DeadlineRuleActions({ rule, fareClasses }: { rule: DeadlineRule; fareClasses: FareClassOption[] }) {
+  const [isDeleting, startDeleteTransition] = useTransition();
+  const { can } = usePermissions();
+
+  if (!can('deadline-rules.manage')) return null;
+
+  const handleDelete = () => {
+    startDeleteTransition(async () => {
+      const result = await deleteDeadlineRule(rule.id);
+      if (result.message?.toLowerCase().includes('success')) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message ?? 'An unknown error occurred.');
+      }
+    });
+  };
+
+  return (
+    <div className="flex justify-end space-x-2">
+      <DeadlineRuleDialog
+        rule={rule}
+        fareClasses={fareClasses}
+        triggerButton={
+          <Button variant="outline" size="sm">
+            <Edit className="mr-1 h-3 w-3" /> Edit
+          </Button>
+        }
+      />
+      <Button variant="ghost" size="sm" onClick={handleDelete} disabled={isDeleting} aria-label="Delete deadline rule">
+        {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4 text-red-600" />}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect, useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle, DialogTrigger, DialogClose
+} from "@/components/ui/dialog";
+import {
+  Form, FormControl, FormDescription, FormField, FormItem,
+  FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { saveDeadlineRule, type DeadlineRuleFormState } from '@/lib/actions/booking-deadlines';
+import {
+  DEADLINE_ANCHORS,
+  DEADLINE_ANCHOR_LABELS,
+  DEADLINE_TYPES,
+  DEADLINE_TYPE_LABELS,
+  DeadlineRuleSchema,
+  type DeadlineRule,
+  type DeadlineRuleFormData,
+  type DeadlineRuleFormInput,
+} from '@/lib/types/deadlines';
+import type { FareClass } from '@/types/database';
+
+// Radix Select items can't have an empty value
+const ANY_FARE_CLASS = 'any';
+
+interface DeadlineRuleDialogProps {
+  rule?: DeadlineRule | null; // edit when set, add otherwise
+  fareClasses: Pick<FareClass, 'id' | 'name'>[];
+  triggerButton: React.ReactNode;
+}
+
+function SubmitButton({ isEdit }: { isEdit: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? 'Saving...' : isEdit ? 'Save Changes' : 'Add Rule'}
+    </Button>
+  );
+}
+
+export function DeadlineRuleDialog({ rule, fareClasses, triggerButton }: DeadlineRuleDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const action = saveDeadlineRule.bind(null, rule?.id ?? null);
+  const [state, formAction] = useActionState<DeadlineRuleFormState, FormData>(action, { message: null });
+
+  const currentValues = (): DeadlineRuleFormInput => ({
+    airline_code: rule?.airline_code ?? '',
+    fare_class_id: rule?.fare_class_id ?? null,
+    deadline_type: rule?.deadline_type ?? 'ticketing',
+    anchor: rule?.anchor ?? 'before_travel',
+    days: rule?.days ?? 21,
+    description: rule?.description ?? '',
+  });
+
+  const form = useForm<DeadlineRuleFormInput, unknown, DeadlineRuleFormData>({
+    resolver: zodResolver(DeadlineRuleSchema),
+    defaultValues: currentValues(),
+  });
+
+  useEffect(() => {
+    if (state?.message?.toLowerCase().includes('success')) {
+      setIsOpen(false);
+      form.reset();
+    }
+    if (state?.errors) {
+      const errors = state.errors;
+      (Object.keys(errors) as (keyof typeof errors)[]).forEach((field) => {
+        const message = errors[field]?.[0];
+        if (message) form.setError(field, { type: 'server', message });
+      });
+    }
+  }, [state, form, setIsOpen]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    form.reset(open ? currentValues() : undefined);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {triggerButton}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Deadline Rule' : 'Add Deadline Rule'}</DialogTitle>
+          <DialogDescription>
+            The most specific matching rule sets each deadline: airline first, then fare class, then rules for any booking.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form action={formAction} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="airline_code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Airline</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Any, or e.g. TG" maxLength={2} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fare_class_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fare Class</FormLabel>
+                    <input type="hidden" name={field.name} value={field.value ?? ''} />
+                    <Select
+                      value={field.value ?? ANY_FARE_CLASS}
+                      onValueChange={(value) => field.onChange(value === ANY_FARE_CLASS ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY_FARE_CLASS}>Any fare class</SelectItem>
+                        {fareClasses.map((fareClass) => (
+                          <SelectItem key={fareClass.id} value={fareClass.id}>{fareClass.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="deadline_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Deadline *</FormLabel>
+                  <input type="hidden" name={field.name} value={field.value} />
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {DEADLINE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{DEADLINE_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="days"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Days *</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="365"
+                        step="1"
+                        {...field}
+                        value={field.value === undefined || field.value === null ? '' : String(field.value)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="anchor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Counted *</FormLabel>
+                    <input type="hidden" name={field.name} value={field.value} />
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DEADLINE_ANCHORS.map((anchor) => (
+                          <SelectItem key={anchor} value={anchor}>{DEADLINE_ANCHOR_LABELS[anchor]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., TG group desk policy" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormDescription>Departure-based rules are skipped until the booking has a travel date.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {state?.message && !state.message.toLowerCase().includes('success') && !state.errors && (
+              <p className="text-sm font-medium text-red-600">{state.message}</p>
+            )}
+
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <SubmitButton isEdit={Boolean(rule)} />
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,12 +5,15 @@ import { FareClassDialog } from "./fare-class-dialog";
 import { FareClassDeleteDialog } from "./fare-class-delete-dialog";
 import type { FareClass } from "@/types/database";
 import { Edit, Trash2 } from 'lucide-react'; // Use specific icons
+import { usePermissions } from '@/components/auth/permissions-provider';
 
 interface FareTableActionsProps {
   fareClass: FareClass;
 }
 
 export function FareTableActions({ fareClass }: FareTableActionsProps) {
+  const { can } = usePermissions();
+
   return (
     <div className="flex justify-end space-x-2">
       {/* Edit Button Trigger */}
@@ -23,15 +26,17 @@ export function FareTableActions({ fareClass }: FareTableActionsProps) {
           </Button>
         }
       />
-      {/* Delete Button Trigger */}
-      <FareClassDeleteDialog
-        fareClass={fareClass}
-        triggerButton={
-          <Button variant="destructive" size="sm">
-            <Trash2 className="mr-1 h-3 w-3" /> Delete
-          </Button>
-        }
-      />
+      {/* Delete Button Trigger (managers and admins only) */}
+      {can('fare-classes.delete') && (
+        <FareClassDeleteDialog
+          fareClass={fareClass}
+          triggerButton={
+            <Button variant="destructive" size="sm">
+              <Trash2 className="mr-1 h-3 w-3" /> Delete
+            </Button>
+          }
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
@@ -19,10 +19,14 @@ import {
   CreditCard,
   ListTodo,
   NotebookPen,
+  Coins,
+  Bell,
+  TrendingUp,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Separator } from "@/components/ui/separator";
 import { createClient } from '@/lib/supabase/client';
+import { getUnreadNotificationCount } from '@/lib/actions/notifications';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -33,6 +37,22 @@ export function MainLayout({ children }: MainLayoutProps) {
   const pathname = usePathname();
   const router = useRouter();
   const supabase = createClient();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const isLoginPage = pathname === '/login';
+
+  // Refreshed on every navigation so reading notifications clears the badge
+  useEffect(() => {
+    if (isLoginPage) return;
+    let isCancelled = false;
+    getUnreadNotificationCount()
+      .then((count) => {
+        if (!isCancelled) setUnreadCount(count);
+      })
+      .catch((error) => console.error('Error loading notification count:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [pathname, isLoginPage]);
 
   const toggleMobileMenu = () => {
     setIsMobileMenuOpen(!isMobileMenuOpen);
@@ -67,8 +87,18 @@ export function MainLayout({ children }: MainLayoutProps) {
     icon: <NotebookPen className="h-4 w-4" />,
   };
 
-  // Payment Navigation item
-  const paymentNavItem = { path: '/payments', label: 'Payments', icon: <CreditCard className="h-4 w-4" /> };
+  const notificationsNavItem = {
+    path: '/notifications',
+    label: 'Notifications',
+    icon: <Bell className="h-4 w-4" />,
+  };
+
+  // Payment Navigation items
+  const paymentNavItems = [
+    { path: '/payments', label: 'Payments', icon: <CreditCard className="h-4 w-4" /> },
+    { path: '/revenue', label: 'Revenue', icon: <TrendingUp className="h-4 w-4" /> },
+    { path: '/exchange-rates', label: 'Exchange Rates', icon: <Coins className="h-4 w-4" /> },
+  ];
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
@@ -170,9 +200,8 @@ export function MainLayout({ children }: MainLayoutProps) {
             );
           })}
 
-          {/* Payments Link */}
-          {(() => { // IIFE to reuse logic easily
-            const item = paymentNavItem;
+          {/* Payments Links */}
+          {paymentNavItems.map((item) => {
             const isActive = pathname === item.path || pathname.startsWith(`${item.path}/`);
             return (
               <Button 
@@ -191,7 +220,7 @@ export function MainLayout({ children }: MainLayoutProps) {
                 </Link>
               </Button>
             );
-          })()}
+          })}
 
           <Separator className="my-4" />
 
@@ -216,6 +245,33 @@ export function MainLayout({ children }: MainLayoutProps) {
               </Button>
             );
           })()}
+
+          {(() => {
+            const item = notificationsNavItem;
+            const isActive = pathname === item.path;
+            return (
+              <Button
+                key={item.path}
+                variant={isActive ? 'secondary' : 'ghost'}
+                className={cn(
+                  'w-full justify-start mb-1',
+                  isActive && 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                )}
+                asChild
+              >
+                <Link href={item.path} className="flex items-center" onClick={closeMobileMenu}>
+                  <span className="mr-2">{item.icon}</span>
+                  <span>{item.label}</span>
+                  {unreadCount > 0 && (
+                    <span className="ml-auto rounded-full bg-red-600 px-2 py-0.5 text-xs font-medium text-white">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
+                  {isActive && unreadCount === 0 && <ChevronRight className="ml-auto h-4 w-4" />}
+                </Link>
+              </Button>
+            );
+          })()}
         </nav>
         
         <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700 text-xs text-muted-foreground">
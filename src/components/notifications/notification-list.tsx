@@ -0,0 +1,105 @@
+'use client';
+
+import { useTransition } from 'react';
+import Link from 'next/link';
+import { ArrowUpRight, CheckCheck, Loader2, Play } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { usePermissions } from '@/components/auth/permissions-provider';
+import { cn } from '@/lib/utils';
+import { markNotificationsRead, runRemindersNow } from '@/lib/actions/notifications';
+import { REMINDER_KIND_LABELS, type AppNotification } from '@/lib/types/notifications';
+import { formatDate, formatTimestamp } from '@/lib/utils/formatting';
+
+export function NotificationList({ notifications }: { notifications: AppNotification[] }) {
+  const [isPending, startTransition] = useTransition();
+  const { can } = usePermissions();
+  const hasUnread = notifications.some((notification) => !notification.read_at);
+
+  const runAction = (action: () => Promise<{ message: string }>, { quiet = false } = {}) => {
+    startTransition(async () => {
+      const result = await action();
+      if (!result.message.toLowerCase().includes('success')) {
+        toast.error(result.message);
+      } else if (!quiet) {
+        toast.success(result.message);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-end gap-2">
+        {can('reminders.run') && (
+          <Button variant="outline" disabled={isPending} onClick={() => runAction(runRemindersNow)}>
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Run Reminders Now
+          </Button>
+        )}
+        <Button variant="outline" disabled={isPending || !hasUnread} onClick={() => runAction(() => markNotificationsRead())}>
+          <CheckCheck className="mr-2 h-4 w-4" /> Mark All Read
+        </Button>
+      </div>
+
+      {notifications.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            No notifications yet. Reminders appear here when deadlines, tasks and follow-ups come due.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <ul className="divide-y">
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={cn('flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-4', {
+                    'bg-blue-50/60 dark:bg-blue-900/10': !notification.read_at,
+                  })}
+                >
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" className="font-normal">{REMINDER_KIND_LABELS[notification.kind]}</Badge>
+                      <span className={cn('text-sm', { 'font-medium': !notification.read_at })}>{notification.title}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {notification.body} · due {formatDate(notification.due_date)} · {formatTimestamp(notification.created_at)}
+                      {notification.emailed_at && ' · emailed'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {!notification.read_at && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isPending}
+                        onClick={() => runAction(() => markNotificationsRead(notification.id), { quiet: true })}
+                      >
+                        Mark read
+                      </Button>
+                    )}
+                    {notification.link && (
+                      <Link
+                        href={notification.link}
+                        onClick={() => {
+                          if (!notification.read_at) runAction(() => markNotificationsRead(notification.id), { quiet: true });
+                        }}
+                        className="text-sm text-blue-600 hover:text-blue-800 hover:underline inline-flex items-center"
+                      >
+                        Open<ArrowUpRight className="ml-1 h-3 w-3" />
+                      </Link>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { toast } from 'sonner';
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form, FormControl, FormDescription, FormField, FormItem,
+  FormLabel, FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { saveNotificationPreferences, type NotificationPreferencesFormState } from '@/lib/actions/notifications';
+import {
+  LEAD_DAYS_FIELD,
+  NotificationPreferencesSchema,
+  REMINDER_KINDS,
+  REMINDER_KIND_LABELS,
+  type NotificationPreferences,
+  type NotificationPreferencesFormInput,
+} from '@/lib/types/notifications';
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? 'Saving...' : 'Save Settings'}
+    </Button>
+  );
+}
+
+export function NotificationPreferencesForm({ preferences }: { preferences: NotificationPreferences }) {
+  const [state, formAction] = useActionState<NotificationPreferencesFormState, FormData>(
+    saveNotificationPreferences,
+    { message: null }
+  );
+
+  const form = useForm<NotificationPreferencesFormInput, unknown, NotificationPreferences>({
+    resolver: zodResolver(NotificationPreferencesSchema),
+    defaultValues: preferences,
+  });
+
+  useEffect(() => {
+    if (state?.message?.toLowerCase().includes('success')) {
+      toast.success(state.message);
+    } else if (state?.message && !state.errors) {
+      toast.error(state.message);
+    }
+    if (state?.errors) {
+      const errors = state.errors;
+      (Object.keys(errors) as (keyof typeof errors)[]).forEach((field) => {
+        const message = errors[field]?.[0];
+        if (message) form.setError(field, { type: 'server', message });
+      });
+    }
+  }, [state, form]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reminder Settings</CardTitle>
+        <CardDescription>
+          How many days before the due date you are reminded. Overdue items are reminded once more after they pass.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form action={formAction} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {REMINDER_KINDS.map((kind) => (
+                <FormField
+                  key={kind}
+                  control={form.control}
+                  name={LEAD_DAYS_FIELD[kind]}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{REMINDER_KIND_LABELS[kind]}s (days ahead)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="30"
+                          step="1"
+                          {...field}
+                          value={field.value === undefined || field.value === null ? '' : String(field.value)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <FormField
+              control={form.control}
+              name="email_enabled"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start gap-3 space-y-0">
+                  <input type="hidden" name={field.name} value={String(field.value)} />
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Email me a daily digest</FormLabel>
+                    <FormDescription>
+                      One email a day listing the reminders not yet emailed. In-app notifications are always created.
+                    </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end">
+              <SubmitButton />
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
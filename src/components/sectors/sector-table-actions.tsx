@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { SectorFormDialog } from './sector-form-dialog';
 import { deleteSector } from '@/app/sectors/actions';
 import type { PredefinedSector } from '@/types/database';
+import { usePermissions } from '@/components/auth/permissions-provider';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,6 +26,7 @@ export function SectorTableActions({ sector }: SectorTableActionsProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [deleteMessage, setDeleteMessage] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
+  const { can } = usePermissions();
 
   const handleDelete = () => {
     setDeleteMessage(null); // Clear previous message
@@ -44,31 +46,33 @@ export function SectorTableActions({ sector }: SectorTableActionsProps) {
         sector={sector}
         triggerButton={<Button variant="outline" size="sm">Edit</Button>}
       />
-      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
-        <AlertDialogTrigger asChild>
-          <Button variant="destructive" size="sm">Delete</Button>
-        </AlertDialogTrigger>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This action cannot be undone. This will remove the sector and all associated data (booking sectors).
-              If you&apos;re unsure, consider keeping the sector.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          {deleteMessage && (
-             <p className={`text-sm font-medium ${deleteMessage.toLowerCase().includes('error') ? 'text-red-600' : 'text-green-600'}`}>
-                {deleteMessage}
-            </p>
-          )}
-          <AlertDialogFooter>
-            <AlertDialogCancel disabled={isPending} onClick={() => setDeleteMessage(null)}>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleDelete} disabled={isPending}>
-              {isPending ? 'Deleting...' : 'Continue'}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {can('sectors.delete') && (
+        <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm">Delete</Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This action cannot be undone. This will remove the sector and all associated data (booking sectors).
+                If you&apos;re unsure, consider keeping the sector.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {deleteMessage && (
+               <p className={`text-sm font-medium ${deleteMessage.toLowerCase().includes('error') ? 'text-red-600' : 'text-green-600'}`}>
+                  {deleteMessage}
+              </p>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isPending} onClick={() => setDeleteMessage(null)}>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} disabled={isPending}>
+                {isPending ? 'Deleting...' : 'Continue'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { COMPARISON_PERIOD_PHRASES, type ComparisonPeriod } from '@/lib/types/kpi';
+
+// "+12.5% from last month", coloured by direction. "n/a" means no snapshot for the period yet.
+export function KpiChange({ change, period }: { change: string; period: ComparisonPeriod }) {
+  const colour = change.startsWith('+')
+    ? 'text-green-600'
+    : change.startsWith('-')
+      ? 'text-red-600'
+      : 'text-muted-foreground';
+
+  return (
+    <p className="text-xs text-muted-foreground">
+      <span className={colour}>{change}</span> {COMPARISON_PERIOD_PHRASES[period]}
+    </p>
+  );
+}
@@ -1,10 +1,13 @@
 import { DollarSign, Calendar, Users, CheckCircle } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { KpiChange } from "@/components/tasks/kpi-change";
 import { getDashboardStats } from "@/lib/actions/dashboard-stats";
+import type { DashboardFilters } from "@/lib/types/dashboard-filters";
+import type { ComparisonPeriod } from "@/lib/types/kpi";
 
-export async function StatsSummary() {
+export async function StatsSummary({ filters, period }: { filters: DashboardFilters; period: ComparisonPeriod }) {
   // Fetch real data from database
-  const stats = await getDashboardStats();
+  const stats = await getDashboardStats(filters, period);
 
   // Format revenue for display
   const formatRevenue = (revenue: number): string => {
@@ -26,10 +29,13 @@ export async function StatsSummary() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">{formatRevenue(stats.totalRevenue)}</div>
-          <p className="text-xs text-muted-foreground">
-            <span className="text-green-600">{stats.revenueChange}</span> from last month
-          </p>
-          <p className="text-xs text-muted-foreground mt-1">Monthly revenue growth</p>
+          <KpiChange change={stats.revenueChange} period={period} />
+          <p className="text-xs text-muted-foreground mt-1">Revenue across all tour bookings</p>
+          {stats.unconvertedBookings > 0 && (
+            <p className="text-xs text-amber-600 mt-1">
+              Excludes {stats.unconvertedBookings} booking(s) with no exchange rate
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -40,9 +46,7 @@ export async function StatsSummary() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">{stats.activeBookings}</div>
-          <p className="text-xs text-muted-foreground">
-            <span className="text-green-600">{stats.bookingsChange}</span> from last month
-          </p>
+          <KpiChange change={stats.bookingsChange} period={period} />
           <p className="text-xs text-muted-foreground mt-1">Currently active bookings</p>
         </CardContent>
       </Card>
@@ -54,9 +58,7 @@ export async function StatsSummary() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">{stats.totalCustomers.toLocaleString()}</div>
-          <p className="text-xs text-muted-foreground">
-            <span className="text-green-600">{stats.customersChange}</span> from last month
-          </p>
+          <KpiChange change={stats.customersChange} period={period} />
           <p className="text-xs text-muted-foreground mt-1">Registered customers</p>
         </CardContent>
       </Card>
@@ -68,9 +70,7 @@ export async function StatsSummary() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">{stats.completionRate}%</div>
-          <p className="text-xs text-muted-foreground">
-            <span className="text-green-600">{stats.completionChange}</span> from last month
-          </p>
+          <KpiChange change={stats.completionChange} period={period} />
           <p className="text-xs text-muted-foreground mt-1">Tour completion rate</p>
         </CardContent>
       </Card>
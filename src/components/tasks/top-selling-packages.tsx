@@ -2,10 +2,11 @@ import { TrendingUp, MapPin, Crown, Trophy } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { getTopSellingPackages, type TopSellingPackage, type TopSellingStats } from "@/lib/actions/tour-products";
+import type { DashboardFilters } from "@/lib/types/dashboard-filters";
 
-export async function TopSellingPackages() {
+export async function TopSellingPackages({ filters }: { filters: DashboardFilters }) {
   // Fetch real data from database
-  const { packages: topPackages, stats: salesStats } = await getTopSellingPackages();
+  const { packages: topPackages, stats: salesStats } = await getTopSellingPackages(filters);
 
   // Format revenue for display
   const formatRevenue = (revenue: number): string => {
@@ -59,6 +60,11 @@ export async function TopSellingPackages() {
                 <div className="text-xs text-muted-foreground mt-1">Growth</div>
               </div>
             </div>
+            {salesStats.unconvertedBookings > 0 && (
+              <p className="text-xs text-amber-600">
+                Revenue excludes {salesStats.unconvertedBookings} booking(s) with no exchange rate
+              </p>
+            )}
 
             {/* Top Packages List */}
             <div className="space-y-3">
@@ -0,0 +1,145 @@
+'use client';
+
+import { useTransition } from 'react';
+import { FileText, Loader2, ReceiptText } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import {
+  createBookingDocumentSignedUrl,
+  issueInvoice,
+  issueReceipt,
+} from '@/lib/actions/booking-documents';
+import { BOOKING_DOCUMENT_LABELS, type BookingDocument } from '@/lib/types/booking-documents';
+import { formatCurrency, formatTimestamp } from '@/lib/utils/formatting';
+
+interface BookingDocumentsProps {
+  bookingId: string;
+  documents: BookingDocument[];
+  canInvoice: boolean; // booking has a grand total
+}
+
+async function openDocument(documentId: string) {
+  const result = await createBookingDocumentSignedUrl(documentId);
+  if (result.success && result.url) {
+    window.open(result.url, '_blank');
+  } else {
+    toast.error(`Failed to open document: ${result.message}`);
+  }
+}
+
+function OpenDocumentButton({ document }: { document: BookingDocument }) {
+  const [isOpening, startTransition] = useTransition();
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => startTransition(() => openDocument(document.id))}
+      disabled={isOpening}
+      aria-label={`Open ${document.document_number}`}
+    >
+      {isOpening ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+      {document.storage_path ? 'Open PDF' : 'Render PDF'}
+    </Button>
+  );
+}
+
+// Issue (or reopen) the receipt for a verified payment
+export function IssueReceiptButton({ paymentId, receipt }: { paymentId: string; receipt?: BookingDocument }) {
+  const [isPending, startTransition] = useTransition();
+
+  const handleClick = () => {
+    startTransition(async () => {
+      if (receipt) {
+        await openDocument(receipt.id);
+        return;
+      }
+      const result = await issueReceipt(paymentId);
+      if (result.success && result.document) {
+        toast.success(result.message);
+        await openDocument(result.document.id);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleClick} disabled={isPending} aria-label="Payment receipt">
+      {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ReceiptText className="mr-2 h-4 w-4" />}
+      {receipt ? receipt.document_number : 'Receipt'}
+    </Button>
+  );
+}
+
+export function BookingDocuments({ bookingId, documents, canInvoice }: BookingDocumentsProps) {
+  const [isIssuing, startTransition] = useTransition();
+
+  const handleIssueInvoice = () => {
+    startTransition(async () => {
+      const result = await issueInvoice(bookingId);
+      if (result.success && result.document) {
+        toast.success(result.message);
+        await openDocument(result.document.id);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {canInvoice
+            ? 'Each invoice takes the next invoice number; receipts are issued from verified payments below.'
+            : 'Set a price on the booking to issue an invoice.'}
+        </p>
+        <Button size="sm" onClick={handleIssueInvoice} disabled={!canInvoice || isIssuing}>
+          {isIssuing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+          Issue Invoice
+        </Button>
+      </div>
+
+      {documents.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No invoices or receipts issued yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Number</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Issued</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {documents.map((document) => (
+              <TableRow key={document.id}>
+                <TableCell className="font-mono text-xs">{document.document_number}</TableCell>
+                <TableCell>
+                  <Badge variant={document.doc_type === 'invoice' ? 'secondary' : 'outline'}>
+                    {BOOKING_DOCUMENT_LABELS[document.doc_type]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(document.amount, document.currency)}</TableCell>
+                <TableCell>
+                  {formatTimestamp(document.issued_at)}
+                  {document.issued_by_email && <div className="text-xs text-muted-foreground">{document.issued_by_email}</div>}
+                </TableCell>
+                <TableCell className="text-right">
+                  <OpenDocumentButton document={document} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
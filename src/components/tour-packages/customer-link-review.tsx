@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { Link2, Loader2, UserPlus, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { usePermissions } from '@/components/auth/permissions-provider';
+import {
+  autoLinkConfidentMatches,
+  createCustomerFromBooking,
+  linkTourBookingCustomer,
+} from '@/lib/actions/customer-links';
+import type { CustomerSelectItem } from '@/lib/types/call-reports';
+import type { UnlinkedTourBooking } from '@/lib/types/customer-matching';
+import { formatDate } from '@/lib/utils/formatting';
+
+interface CustomerLinkReviewProps {
+  bookings: UnlinkedTourBooking[];
+  customers: CustomerSelectItem[];
+}
+
+function notify(result: { success: boolean; message: string }) {
+  if (result.success) toast.success(result.message);
+  else toast.error(result.message);
+}
+
+// Linking is limited to roles with tour-bookings.link-customers; others see the queue read-only
+function UnlinkedBookingRow({
+  booking,
+  customers,
+  canLink,
+}: {
+  booking: UnlinkedTourBooking;
+  customers: CustomerSelectItem[];
+  canLink: boolean;
+}) {
+  const [customerId, setCustomerId] = useState(booking.suggestions[0]?.customer.id ?? '');
+  const [isPending, startTransition] = useTransition();
+
+  const suggestedIds = new Set(booking.suggestions.map((s) => s.customer.id));
+  const otherCustomers = customers.filter((c) => !suggestedIds.has(c.id));
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Link href={`/tour-packages/${booking.id}`} className="font-medium hover:underline">
+          {booking.customer_name}
+        </Link>
+        <div className="text-xs text-muted-foreground">
+          {booking.package_name ?? 'No package'} · {booking.booking_date ? formatDate(booking.booking_date) : 'No date'}
+        </div>
+      </TableCell>
+      <TableCell>
+        {booking.suggestions.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {booking.suggestions.map((s) => (
+              <Badge key={s.customer.id} variant={booking.confident?.id === s.customer.id ? 'default' : 'secondary'}>
+                {s.customer.company_name} ({Math.round(s.score * 100)}%)
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <span className="text-sm text-muted-foreground">No similar customers</span>
+        )}
+      </TableCell>
+      <TableCell>
+        <Select value={customerId} onValueChange={setCustomerId} disabled={!canLink || isPending}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Select customer..." />
+          </SelectTrigger>
+          <SelectContent>
+            {booking.suggestions.map((s) => (
+              <SelectItem key={s.customer.id} value={s.customer.id}>
+                {s.customer.company_name}
+              </SelectItem>
+            ))}
+            {otherCustomers.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.company_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell className="text-right space-x-2 whitespace-nowrap">
+        <Button
+          size="sm"
+          disabled={!canLink || isPending || !customerId}
+          onClick={() => startTransition(async () => notify(await linkTourBookingCustomer(booking.id, customerId)))}
+        >
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+          Link
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!canLink || isPending}
+          title={`Create customer "${booking.customer_name}" and link all bookings with this name`}
+          onClick={() => startTransition(async () => notify(await createCustomerFromBooking(booking.id)))}
+        >
+          <UserPlus className="mr-2 h-4 w-4" /> New Customer
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+// Review queue for bookings created before tour bookings referenced a customer record
+export function CustomerLinkReview({ bookings, customers }: CustomerLinkReviewProps) {
+  const { can } = usePermissions();
+  const [isAutoLinking, startAutoLink] = useTransition();
+  const confidentCount = bookings.filter((b) => b.confident).length;
+
+  if (bookings.length === 0) {
+    return <p className="text-sm text-muted-foreground">Every tour booking is linked to a customer.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {bookings.length} booking(s) to review, {confidentCount} with a confident match.
+        </p>
+        {can('tour-bookings.link-customers') && confidentCount > 0 && (
+          <Button
+            variant="outline"
+            disabled={isAutoLinking}
+            onClick={() => startAutoLink(async () => notify(await autoLinkConfidentMatches()))}
+          >
+            {isAutoLinking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+            Link {confidentCount} confident match(es)
+          </Button>
+        )}
+      </div>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Booking name</TableHead>
+              <TableHead>Suggestions</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bookings.map((booking) => (
+              <UnlinkedBookingRow
+                key={booking.id}
+                booking={booking}
+                customers={customers}
+                canLink={can('tour-bookings.link-customers')}
+              />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
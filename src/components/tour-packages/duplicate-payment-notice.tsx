@@ -0,0 +1,34 @@
+import { Copy } from 'lucide-react';
+import { formatTimestamp } from '@/lib/utils/formatting';
+import { DUPLICATE_REASON_LABELS, isSuspectedDuplicate } from '@/lib/payment-duplicates';
+import type { PaymentRecord } from '@/lib/types/tours';
+
+interface DuplicatePaymentNoticeProps {
+  payment: PaymentRecord;
+  duplicateOfBookingId?: string | null;
+}
+
+// Inline note for payments flagged as duplicates, open or accepted
+export function DuplicatePaymentNotice({ payment, duplicateOfBookingId }: DuplicatePaymentNoticeProps) {
+  if (!payment.duplicate_of_payment_id) return null;
+  const reason = payment.duplicate_reason ? DUPLICATE_REASON_LABELS[payment.duplicate_reason] : 'Duplicate';
+  const target = duplicateOfBookingId ? ` (booking ${duplicateOfBookingId})` : '';
+
+  if (isSuspectedDuplicate(payment)) {
+    return (
+      <div className="flex items-center text-xs text-amber-600 mt-1" title={`${reason}${target}`}>
+        <Copy className="mr-1 h-3 w-3 flex-shrink-0" /> Possible duplicate{target}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="flex items-center text-xs text-muted-foreground mt-1"
+      title={`${reason}${target}. Accepted ${formatTimestamp(payment.duplicate_accepted_at)}`}
+    >
+      <Copy className="mr-1 h-3 w-3 flex-shrink-0" />
+      Duplicate accepted by {payment.duplicate_accepted_by_email || 'unknown user'}
+    </div>
+  );
+}
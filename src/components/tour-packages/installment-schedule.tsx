@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { CalendarClock, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { deleteInstallmentSchedule, generateInstallmentSchedule } from '@/lib/actions/installments';
+import {
+  DEFAULT_INSTALLMENT_SETTINGS,
+  INSTALLMENT_STATUS_LABELS,
+  type InstallmentScheduleFormValues,
+  type InstallmentStatus,
+  type InstallmentWithMatch,
+} from '@/lib/types/installments';
+import { cn } from '@/lib/utils';
+import type { CurrencyCode } from '@/lib/types/currency';
+import { formatCurrency, formatDate } from '@/lib/utils/formatting';
+
+const INSTALLMENT_STATUS_CLASSES: Record<InstallmentStatus, string> = {
+  upcoming: 'border-gray-200 bg-gray-50 text-gray-700',
+  partial: 'border-blue-200 bg-blue-50 text-blue-800',
+  paid: 'border-emerald-200 bg-emerald-50 text-emerald-800',
+  overdue: 'border-red-200 bg-red-50 text-red-800',
+};
+
+interface InstallmentScheduleProps {
+  bookingId: string;
+  installments: InstallmentWithMatch[];
+  currency: CurrencyCode;
+  canSchedule: boolean; // booking has a grand total and a travel start date
+}
+
+export function InstallmentStatusBadge({ status }: { status: InstallmentStatus }) {
+  return (
+    <Badge variant="outline" className={cn('font-normal', INSTALLMENT_STATUS_CLASSES[status])}>
+      {INSTALLMENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+export function InstallmentSchedule({ bookingId, installments, currency, canSchedule }: InstallmentScheduleProps) {
+  const [settings, setSettings] = useState<InstallmentScheduleFormValues>(DEFAULT_INSTALLMENT_SETTINGS);
+  const [errors, setErrors] = useState<Record<string, string[]>>({});
+  const [isSaving, startSaveTransition] = useTransition();
+  const [isDeleting, startDeleteTransition] = useTransition();
+
+  const total = installments.reduce((sum, installment) => sum + installment.amount, 0);
+  const paid = installments.reduce((sum, installment) => sum + installment.paid_amount, 0);
+
+  const updateSetting = (field: keyof InstallmentScheduleFormValues, value: string) => {
+    setSettings((current) => ({ ...current, [field]: Number(value) }));
+  };
+
+  const handleGenerate = () => {
+    startSaveTransition(async () => {
+      const result = await generateInstallmentSchedule(bookingId, settings);
+      setErrors(result.errors ?? {});
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    startDeleteTransition(async () => {
+      const result = await deleteInstallmentSchedule(bookingId);
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {installments.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No installment schedule yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Installment</TableHead>
+              <TableHead>Due Date</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Paid</TableHead>
+              <TableHead className="text-right">Outstanding</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {installments.map((installment) => (
+              <TableRow key={installment.sequence} className={installment.status === 'overdue' ? 'bg-red-50' : ''}>
+                <TableCell className="font-medium">{installment.label}</TableCell>
+                <TableCell>{formatDate(installment.due_date)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(installment.amount, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(installment.paid_amount, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(installment.outstanding, currency)}</TableCell>
+                <TableCell>
+                  <div className="flex flex-col gap-1">
+                    <InstallmentStatusBadge status={installment.status} />
+                    {installment.paid_on && (
+                      <span className="text-xs text-muted-foreground">Paid {formatDate(installment.paid_on)}</span>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={2}>Total</TableCell>
+              <TableCell className="text-right">{formatCurrency(total, currency)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(paid, currency)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(Math.max(total - paid, 0), currency)}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableFooter>
+        </Table>
+      )}
+
+      {canSchedule ? (
+        <div className="rounded-md border p-4 space-y-3">
+          <p className="text-sm font-medium">
+            {installments.length === 0 ? 'Create a schedule' : 'Rebuild the schedule'}
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="deposit_percent">Deposit (%)</Label>
+              <Input
+                id="deposit_percent"
+                type="number"
+                min={1}
+                max={99}
+                value={settings.deposit_percent}
+                onChange={(event) => updateSetting('deposit_percent', event.target.value)}
+              />
+              {errors.deposit_percent && <p className="text-xs text-red-600">{errors.deposit_percent[0]}</p>}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="balance_due_days_before_travel">Balance due (days before travel)</Label>
+              <Input
+                id="balance_due_days_before_travel"
+                type="number"
+                min={0}
+                value={settings.balance_due_days_before_travel}
+                onChange={(event) => updateSetting('balance_due_days_before_travel', event.target.value)}
+              />
+              {errors.balance_due_days_before_travel && (
+                <p className="text-xs text-red-600">{errors.balance_due_days_before_travel[0]}</p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="installment_count">Number of installments</Label>
+              <Input
+                id="installment_count"
+                type="number"
+                min={2}
+                max={12}
+                value={settings.installment_count}
+                onChange={(event) => updateSetting('installment_count', event.target.value)}
+              />
+              {errors.installment_count && <p className="text-xs text-red-600">{errors.installment_count[0]}</p>}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={handleGenerate} disabled={isSaving || isDeleting}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarClock className="mr-2 h-4 w-4" />}
+              {installments.length === 0 ? 'Create Schedule' : 'Rebuild Schedule'}
+            </Button>
+            {installments.length > 0 && (
+              <Button size="sm" variant="outline" onClick={handleDelete} disabled={isSaving || isDeleting}>
+                {isDeleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                Remove Schedule
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Add a grand total and a travel start date to the booking to schedule installments.
+        </p>
+      )}
+    </div>
+  );
+}
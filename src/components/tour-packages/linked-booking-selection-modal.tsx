@@ -279,6 +279,9 @@ export function LinkedBookingSelectionModal({
                       {booking.earliest_travel_date
                         ? format(new Date(booking.earliest_travel_date), 'MMM d, yyyy')
                         : 'N/A'}
+                      {booking.latest_travel_date && booking.latest_travel_date !== booking.earliest_travel_date && (
+                        <> &ndash; {format(new Date(booking.latest_travel_date), 'MMM d, yyyy')}</>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge variant={booking.status === 'Cancelled' ? 'destructive' : 'outline'}>
@@ -1,16 +1,19 @@
 'use client';
 
 import { useState, useTransition } from 'react';
-import { Eye, CheckCircle, AlertCircle, Loader2, UploadCloud, RefreshCcw } from 'lucide-react';
+import { Eye, AlertCircle, Loader2, UploadCloud, RefreshCcw, CopyCheck } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
 import { 
+    acceptDuplicatePayment,
     createPaymentSlipSignedUrl,
     verifyPaymentSlip
 } from '@/lib/actions/tour-package-bookings';
+import { isSuspectedDuplicate } from '@/lib/payment-duplicates';
 import { type PaymentRecord } from '@/lib/types/tours'; // Import the full PaymentRecord
 import { cn } from '@/lib/utils'; // For conditional classes
+import { usePermissions } from '@/components/auth/permissions-provider';
 
 interface PaymentActionsProps {
     payment: PaymentRecord; // Pass the whole payment record
@@ -21,6 +24,8 @@ export const PaymentActions = ({ payment }: PaymentActionsProps) => {
     const [isVerifying, startVerifyTransition] = useTransition();
     const [verificationError, setVerificationError] = useState<string | null>(payment.verification_error || null);
     const [isVerified, setIsVerified] = useState<boolean>(payment.is_verified || false);
+    const [isAccepting, startAcceptTransition] = useTransition();
+    const { can } = usePermissions();
 
     const handleViewSlip = async () => {
         startViewTransition(async () => {
@@ -47,7 +52,13 @@ export const PaymentActions = ({ payment }: PaymentActionsProps) => {
         startVerifyTransition(async () => {
             try {
                 const result = await verifyPaymentSlip(payment.id);
-                if (result.success) {
+                if (result.success && result.duplicateOf) {
+                    toast.warning('Payment verified, but it looks like a duplicate.', {
+                        description: result.message,
+                    });
+                    setIsVerified(true);
+                    setVerificationError(null);
+                } else if (result.success) {
                     toast.success(isVerified ? 'Payment re-verified successfully!' : 'Payment verified successfully!', { // Adjusted message
                         description: `Amount: ${result.verificationData?.payment_amount ?? 'N/A'}, Date: ${result.verificationData?.payment_date ?? 'N/A'}`,
                     });
@@ -68,6 +79,17 @@ export const PaymentActions = ({ payment }: PaymentActionsProps) => {
         });
     };
 
+    const handleAcceptDuplicate = () => {
+        startAcceptTransition(async () => {
+            const result = await acceptDuplicatePayment(payment.id);
+            if (result.success) {
+                toast.success(result.message);
+            } else {
+                toast.error(result.message);
+            }
+        });
+    };
+
     // Button is disabled only while actively verifying
     const disableVerifyButton = isVerifying;
 
@@ -89,23 +111,44 @@ export const PaymentActions = ({ payment }: PaymentActionsProps) => {
                 View
             </Button>
 
-            {/* Verify / Re-verify Button - Always shown */}
-            <Button 
-                variant={isVerified ? "outline" : "secondary"} // Change variant slightly when verified
-                size="sm"
-                onClick={handleVerify}
-                disabled={disableVerifyButton} 
-                aria-label={isVerified ? "Re-verify payment slip" : "Verify payment slip"}
-            >
-                {isVerifying ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                ) : isVerified ? (
-                    <RefreshCcw className="mr-2 h-4 w-4" /> // Use RefreshCcw for re-verify
-                ) : (
-                    <UploadCloud className="mr-2 h-4 w-4" />
-                )}
-                {isVerified ? 'Re-verify' : 'Verify'}
-            </Button>
+            {/* Verify / Re-verify Button - managers and admins only */}
+            {can('payments.verify') && (
+                <Button 
+                    variant={isVerified ? "outline" : "secondary"} // Change variant slightly when verified
+                    size="sm"
+                    onClick={handleVerify}
+                    disabled={disableVerifyButton} 
+                    aria-label={isVerified ? "Re-verify payment slip" : "Verify payment slip"}
+                >
+                    {isVerifying ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : isVerified ? (
+                        <RefreshCcw className="mr-2 h-4 w-4" /> // Use RefreshCcw for re-verify
+                    ) : (
+                        <UploadCloud className="mr-2 h-4 w-4" />
+                    )}
+                    {isVerified ? 'Re-verify' : 'Verify'}
+                </Button>
+            )}
+
+            {/* Accept a flagged duplicate; records who accepted it */}
+            {isSuspectedDuplicate(payment) && (
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleAcceptDuplicate}
+                    disabled={isAccepting}
+                    aria-label="Accept duplicate payment"
+                    title="This slip matches an earlier payment. Accept it as a genuine separate payment."
+                >
+                    {isAccepting ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                        <CopyCheck className="mr-2 h-4 w-4" />
+                    )}
+                    Accept duplicate
+                </Button>
+            )}
 
             {/* Show Verification Error (only if there's an error and it's not currently verified) */}
             {verificationError && !isVerified && (
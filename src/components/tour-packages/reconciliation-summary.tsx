@@ -0,0 +1,161 @@
+import Link from 'next/link';
+import { AlertCircle, AlertTriangle, ArrowRight, Info } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { formatCurrency, getStatusVariant } from '@/lib/utils/formatting';
+import {
+  BALANCE_STATUS_LABELS,
+  RECONCILIATION_FLAG_LABELS,
+  type BalanceStatus,
+  type BookingReconciliation,
+  type ReconciliationFlag,
+  type ReconciliationSeverity,
+} from '@/lib/types/reconciliation';
+
+const BALANCE_STATUS_CLASSES: Record<BalanceStatus, string> = {
+  no_total: 'border-gray-200 bg-gray-50 text-gray-700',
+  unpaid: 'border-yellow-200 bg-yellow-50 text-yellow-800',
+  partial: 'border-blue-200 bg-blue-50 text-blue-800',
+  settled: 'border-emerald-200 bg-emerald-50 text-emerald-800',
+  overpaid: 'border-red-200 bg-red-50 text-red-800',
+};
+
+const SEVERITY_STYLES: Record<ReconciliationSeverity, { icon: typeof Info; className: string }> = {
+  info: { icon: Info, className: 'text-muted-foreground' },
+  warning: { icon: AlertTriangle, className: 'text-amber-600' },
+  error: { icon: AlertCircle, className: 'text-red-600' },
+};
+
+export function BalanceStatusBadge({ status }: { status: BalanceStatus }) {
+  return (
+    <Badge variant="outline" className={cn('font-normal', BALANCE_STATUS_CLASSES[status])}>
+      {BALANCE_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+export function ReconciliationFlagList({ flags, compact = false }: { flags: ReconciliationFlag[]; compact?: boolean }) {
+  if (flags.length === 0) return null;
+  return (
+    <ul className={cn('space-y-1', compact ? 'text-xs' : 'text-sm')}>
+      {flags.map((flag, index) => {
+        const { icon: Icon, className } = SEVERITY_STYLES[flag.severity];
+        return (
+          <li key={`${flag.code}-${flag.payment_id ?? 'booking'}-${index}`} className={cn('flex items-start gap-1', className)}>
+            <Icon className="mt-0.5 h-3 w-3 flex-shrink-0" />
+            <span title={flag.message}>
+              {compact ? RECONCILIATION_FLAG_LABELS[flag.code] : flag.message}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function SummaryFigure({ label, value, className }: { label: string; value: React.ReactNode; className?: string }) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-muted-foreground">{label}</p>
+      <div className={cn('text-lg font-semibold', className)}>{value}</div>
+    </div>
+  );
+}
+
+// Balance overview for a single tour booking (booking detail page)
+export function ReconciliationSummary({ reconciliation }: { reconciliation: BookingReconciliation }) {
+  const { over_under: overUnder } = reconciliation;
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <SummaryFigure label="Grand Total" value={formatCurrency(reconciliation.grand_total, reconciliation.currency)} />
+        <SummaryFigure label="Paid to Date" value={formatCurrency(reconciliation.paid_to_date, reconciliation.currency)} />
+        <SummaryFigure label="Outstanding" value={formatCurrency(reconciliation.outstanding, reconciliation.currency)} />
+        <SummaryFigure
+          label="Over / Under"
+          value={overUnder === null ? '-' : `${overUnder > 0 ? '+' : ''}${formatCurrency(overUnder, reconciliation.currency)}`}
+          className={cn(overUnder !== null && overUnder > 0 && 'text-red-600', overUnder !== null && overUnder < 0 && 'text-amber-600')}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <BalanceStatusBadge status={reconciliation.balance_status} />
+        {reconciliation.suggested_status && (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            Suggested status:
+            <Badge variant={getStatusVariant(reconciliation.current_status)}>{reconciliation.current_status}</Badge>
+            <ArrowRight className="h-3 w-3" />
+            <Badge variant={getStatusVariant(reconciliation.suggested_status)}>{reconciliation.suggested_status}</Badge>
+          </span>
+        )}
+      </div>
+
+      {reconciliation.flags.length > 0 ? (
+        <ReconciliationFlagList flags={reconciliation.flags} />
+      ) : (
+        <p className="text-sm text-muted-foreground italic">No reconciliation issues found.</p>
+      )}
+    </div>
+  );
+}
+
+// One row per booking (payments ledger)
+export function ReconciliationTable({ items }: { items: BookingReconciliation[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Booking ID</TableHead>
+          <TableHead>Customer</TableHead>
+          <TableHead className="text-right">Grand Total</TableHead>
+          <TableHead className="text-right">Paid to Date</TableHead>
+          <TableHead className="text-right">Outstanding</TableHead>
+          <TableHead>Balance</TableHead>
+          <TableHead>Suggested Status</TableHead>
+          <TableHead>Flags</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={8} className="h-24 text-center"><span className="italic text-muted-foreground">No bookings to reconcile.</span></TableCell>
+          </TableRow>
+        ) : (
+          items.map((item) => (
+            <TableRow key={item.booking_id}>
+              <TableCell>
+                <Link href={`/tour-packages/${item.booking_id}`} className="font-mono text-xs text-blue-600 hover:underline">
+                  {item.booking_id}
+                </Link>
+              </TableCell>
+              <TableCell>
+                <div>{item.customer_name || '-'}</div>
+                {item.package_name && <div className="text-xs text-muted-foreground">{item.package_name}</div>}
+              </TableCell>
+              <TableCell className="text-right">{formatCurrency(item.grand_total, item.currency)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(item.paid_to_date, item.currency)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(item.outstanding, item.currency)}</TableCell>
+              <TableCell><BalanceStatusBadge status={item.balance_status} /></TableCell>
+              <TableCell>
+                {item.suggested_status ? (
+                  <Badge variant={getStatusVariant(item.suggested_status)}>{item.suggested_status}</Badge>
+                ) : (
+                  <span className="text-xs text-muted-foreground">-</span>
+                )}
+              </TableCell>
+              <TableCell><ReconciliationFlagList flags={item.flags} compact /></TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
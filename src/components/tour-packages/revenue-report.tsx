@@ -0,0 +1,121 @@
+import { format, parseISO } from 'date-fns';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrency } from '@/lib/utils/formatting';
+import { BASE_CURRENCY } from '@/lib/types/currency';
+import {
+  REVENUE_DIMENSION_LABELS,
+  type CashFlowForecast,
+  type RevenuePivot,
+} from '@/lib/types/revenue';
+
+const formatMonth = (month: string, pattern = 'MMM'): string => format(parseISO(`${month}-01`), pattern);
+
+// Pivot cells are whole units of BASE_CURRENCY; blanks keep sparse months readable
+const formatCell = (amount: number | undefined): string =>
+  amount ? Math.round(amount).toLocaleString('en-US') : '';
+
+export function RevenuePivotTable({ pivot }: { pivot: RevenuePivot }) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-[180px]">{REVENUE_DIMENSION_LABELS[pivot.dimension]}</TableHead>
+            {pivot.months.map((month) => (
+              <TableHead key={month} className="text-right">{formatMonth(month)}</TableHead>
+            ))}
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pivot.rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={pivot.months.length + 2} className="h-24 text-center">
+                <span className="italic text-muted-foreground">Nothing recorded for this year.</span>
+              </TableCell>
+            </TableRow>
+          ) : (
+            pivot.rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                {pivot.months.map((month) => (
+                  <TableCell key={month} className="text-right text-xs tabular-nums">{formatCell(row.months[month])}</TableCell>
+                ))}
+                <TableCell className="text-right font-medium tabular-nums">{formatCell(row.total)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+        {pivot.rows.length > 0 && (
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total</TableCell>
+              {pivot.months.map((month) => (
+                <TableCell key={month} className="text-right text-xs tabular-nums">{formatCell(pivot.monthTotals[month])}</TableCell>
+              ))}
+              <TableCell className="text-right tabular-nums">{formatCell(pivot.total)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        )}
+      </Table>
+    </div>
+  );
+}
+
+export function CashFlowForecastTable({ forecast }: { forecast: CashFlowForecast }) {
+  const isEmpty = forecast.months.length === 0 && forecast.overdueInstallments === 0;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Due</TableHead>
+          <TableHead className="text-right">Installments</TableHead>
+          <TableHead className="text-right">Expected</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {isEmpty ? (
+          <TableRow>
+            <TableCell colSpan={3} className="h-24 text-center">
+              <span className="italic text-muted-foreground">No unpaid installments on open bookings.</span>
+            </TableCell>
+          </TableRow>
+        ) : (
+          <>
+            {forecast.overdueInstallments > 0 && (
+              <TableRow>
+                <TableCell className="text-red-600">Overdue</TableCell>
+                <TableCell className="text-right">{forecast.overdueInstallments}</TableCell>
+                <TableCell className="text-right text-red-600">{formatCurrency(forecast.overdue, BASE_CURRENCY)}</TableCell>
+              </TableRow>
+            )}
+            {forecast.months.map((month) => (
+              <TableRow key={month.month}>
+                <TableCell>{formatMonth(month.month, 'MMMM yyyy')}</TableCell>
+                <TableCell className="text-right">{month.installments}</TableCell>
+                <TableCell className="text-right">{formatCurrency(month.expected, BASE_CURRENCY)}</TableCell>
+              </TableRow>
+            ))}
+          </>
+        )}
+      </TableBody>
+      {!isEmpty && (
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={2}>Total expected</TableCell>
+            <TableCell className="text-right">{formatCurrency(forecast.total, BASE_CURRENCY)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      )}
+    </Table>
+  );
+}
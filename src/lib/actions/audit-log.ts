@@ -0,0 +1,27 @@
+'use server';
+
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
+import type { AuditEntityType, AuditLogEntry } from '@/lib/types/audit-log';
+
+export async function getAuditHistory(
+  entityType: AuditEntityType,
+  entityId: string
+): Promise<AuditLogEntry[]> {
+  await requireUser();
+
+  if (!entityId) return [];
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error(`Supabase error fetching audit history for ${entityType} ${entityId}:`, error);
+    return [];
+  }
+  return (data as AuditLogEntry[]) ?? [];
+}
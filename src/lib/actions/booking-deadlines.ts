@@ -0,0 +1,345 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
+import { airlineCodeFromFlight, generateBookingDeadlines } from '@/lib/deadline-rules';
+import { getTravelDateRange } from '@/lib/itinerary';
+import {
+  BookingDeadlineSchema,
+  DEADLINE_TYPE_LABELS,
+  DeadlineRuleSchema,
+  type BookingDeadline,
+  type DeadlineRule,
+  type DeadlineType,
+  type DueBookingDeadline,
+} from '@/lib/types/deadlines';
+
+export type DeadlineRuleFormState = {
+  message: string | null;
+  errors?: {
+    airline_code?: string[];
+    fare_class_id?: string[];
+    deadline_type?: string[];
+    anchor?: string[];
+    days?: string[];
+    description?: string[];
+  };
+};
+
+export type BookingDeadlineFormState = {
+  message: string | null;
+  errors?: {
+    deadline_type?: string[];
+    due_date?: string[];
+    note?: string[];
+  };
+};
+
+interface RuleContextRow {
+  id: string;
+  created_at: string;
+  booking_sectors: { travel_date: string | null; flight_number: string | null; fare_class_id: string | null }[] | null;
+}
+
+interface DueDeadlineRow {
+  id: string;
+  booking_id: string;
+  deadline_type: DeadlineType;
+  due_date: string;
+  bookings: {
+    booking_reference: string | null;
+    status: string | null;
+    customers: { company_name: string } | null;
+    booking_sectors: { travel_date: string | null }[] | null;
+  } | null;
+}
+
+const RULE_COLUMNS = 'id, airline_code, fare_class_id, deadline_type, anchor, days, description, created_at, updated_at, fare_classes ( name )';
+const DEADLINE_COLUMNS = 'id, booking_id, deadline_type, due_date, rule_id, is_manual, completed_at, note, created_at, updated_at';
+
+// Bookings whose time limits still matter on the dashboard
+const OPEN_BOOKING_STATUSES = ['Confirmed', 'Waiting List'];
+
+export async function getDeadlineRules(): Promise<DeadlineRule[]> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('deadline_rules')
+    .select(RULE_COLUMNS)
+    .order('deadline_type', { ascending: true })
+    .order('airline_code', { ascending: true, nullsFirst: true })
+    .returns<DeadlineRule[]>();
+
+  if (error) {
+    console.error('Supabase error fetching deadline rules:', error);
+    return [];
+  }
+  return data ?? [];
+}
+
+export async function saveDeadlineRule(
+  ruleId: string | null,
+  prevState: DeadlineRuleFormState | undefined,
+  formData: FormData
+): Promise<DeadlineRuleFormState> {
+  await requireUser();
+
+  const access = await checkPermission('deadline-rules.manage');
+  if (!access.allowed) return { message: access.message };
+
+  const optional = (key: string) => {
+    const value = formData.get(key);
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+  };
+  const validatedFields = DeadlineRuleSchema.safeParse({
+    airline_code: optional('airline_code'),
+    fare_class_id: optional('fare_class_id'),
+    deadline_type: formData.get('deadline_type'),
+    anchor: formData.get('anchor'),
+    days: formData.get('days'),
+    description: optional('description'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      message: 'Validation failed',
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  const supabase = createSimpleServerClient();
+  const { error } = ruleId
+    ? await supabase.from('deadline_rules').update(validatedFields.data).eq('id', ruleId)
+    : await supabase.from('deadline_rules').insert(validatedFields.data);
+
+  if (error) {
+    if (error.code === '23505') {
+      return {
+        message: 'Validation failed',
+        errors: { deadline_type: ['A rule of this type already exists for this airline and fare class.'] },
+      };
+    }
+    console.error('Supabase error saving deadline rule:', error);
+    return { message: `Database Error: Failed to save deadline rule. ${error.message}` };
+  }
+
+  revalidatePath('/fares');
+  return { message: ruleId ? 'Successfully updated deadline rule' : 'Successfully added deadline rule' };
+}
+
+export async function deleteDeadlineRule(ruleId: string): Promise<{ message: string }> {
+  await requireUser();
+
+  if (!ruleId) return { message: 'Error: Missing deadline rule ID for delete.' };
+
+  const access = await checkPermission('deadline-rules.manage');
+  if (!access.allowed) return { message: access.message };
+
+  const supabase = createSimpleServerClient();
+  const { error } = await supabase.from('deadline_rules').delete().eq('id', ruleId);
+
+  if (error) {
+    console.error('Supabase error deleting deadline rule:', error);
+    return { message: `Database Error: Failed to delete deadline rule. ${error.message}` };
+  }
+
+  revalidatePath('/fares');
+  return { message: 'Successfully deleted deadline rule' };
+}
+
+export async function getBookingDeadlines(bookingId: string): Promise<BookingDeadline[]> {
+  await requireUser();
+
+  if (!bookingId) return [];
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('booking_deadlines')
+    .select(DEADLINE_COLUMNS)
+    .eq('booking_id', bookingId)
+    .order('due_date', { ascending: true })
+    .returns<BookingDeadline[]>();
+
+  if (error) {
+    console.error(`Supabase error fetching deadlines for booking ${bookingId}:`, error);
+    return [];
+  }
+  return data ?? [];
+}
+
+// Re-generates the booking's deadlines from the rules (see apply_booking_deadline_rules).
+// Called after every booking save, since sectors, dates and fare classes drive the rules.
+export async function applyBookingDeadlineRules(bookingId: string): Promise<{ success: boolean; message: string }> {
+  await requireUser();
+
+  if (!bookingId) return { success: false, message: 'Error: Missing booking ID for deadlines.' };
+
+  const supabase = createSimpleServerClient();
+  const [bookingResult, rulesResult] = await Promise.all([
+    supabase
+      .from('bookings')
+      .select('id, created_at, booking_sectors ( travel_date, flight_number, fare_class_id )')
+      .eq('id', bookingId)
+      .maybeSingle<RuleContextRow>(),
+    supabase.from('deadline_rules').select(RULE_COLUMNS).returns<DeadlineRule[]>(),
+  ]);
+
+  const error = bookingResult.error || rulesResult.error;
+  if (error) {
+    console.error(`Supabase error loading deadline rules for booking ${bookingId}:`, error);
+    return { success: false, message: `Database Error: Failed to load deadline rules. ${error.message}` };
+  }
+  if (!bookingResult.data) return { success: false, message: 'Error: Booking not found.' };
+
+  const sectors = bookingResult.data.booking_sectors ?? [];
+  const deadlines = generateBookingDeadlines(rulesResult.data ?? [], {
+    bookingDate: bookingResult.data.created_at.slice(0, 10),
+    travelDate: getTravelDateRange(sectors).earliest,
+    airlineCodes: sectors.map((sector) => airlineCodeFromFlight(sector.flight_number)).filter((code): code is string => !!code),
+    fareClassIds: sectors.map((sector) => sector.fare_class_id).filter((id): id is string => !!id),
+  });
+
+  const { error: applyError } = await supabase.rpc('apply_booking_deadline_rules', {
+    p_booking_id: bookingId,
+    p_deadlines: deadlines,
+  });
+  if (applyError) {
+    console.error(`Supabase error applying deadline rules to booking ${bookingId}:`, applyError);
+    return { success: false, message: `Database Error: Failed to apply deadline rules. ${applyError.message}` };
+  }
+
+  revalidatePath(`/bookings/${bookingId}`);
+  return { success: true, message: `Successfully applied ${deadlines.length} deadline rule(s).` };
+}
+
+// Dates entered here are manual: re-applying the rules leaves them alone
+export async function saveBookingDeadline(
+  bookingId: string,
+  deadlineId: string | null,
+  prevState: BookingDeadlineFormState | undefined,
+  formData: FormData
+): Promise<BookingDeadlineFormState> {
+  await requireUser();
+
+  if (!bookingId) return { message: 'Error: Missing booking ID for deadline.' };
+
+  const validatedFields = BookingDeadlineSchema.safeParse({
+    deadline_type: formData.get('deadline_type'),
+    due_date: formData.get('due_date'),
+    note: formData.get('note') || null,
+  });
+
+  if (!validatedFields.success) {
+    return {
+      message: 'Validation failed',
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  const row = { ...validatedFields.data, booking_id: bookingId, is_manual: true, rule_id: null };
+  const supabase = createSimpleServerClient();
+  const { error } = deadlineId
+    ? await supabase.from('booking_deadlines').update(row).eq('id', deadlineId).eq('booking_id', bookingId)
+    : await supabase.from('booking_deadlines').insert(row);
+
+  if (error) {
+    if (error.code === '23505') {
+      return {
+        message: 'Validation failed',
+        errors: {
+          deadline_type: [`This booking already has a ${DEADLINE_TYPE_LABELS[validatedFields.data.deadline_type]} deadline.`],
+        },
+      };
+    }
+    console.error(`Supabase error saving deadline for booking ${bookingId}:`, error);
+    return { message: `Database Error: Failed to save deadline. ${error.message}` };
+  }
+
+  revalidatePath(`/bookings/${bookingId}`);
+  revalidatePath('/');
+  return { message: deadlineId ? 'Successfully updated deadline' : 'Successfully added deadline' };
+}
+
+export async function setBookingDeadlineCompleted(
+  deadlineId: string,
+  completed: boolean
+): Promise<{ message: string }> {
+  await requireUser();
+
+  if (!deadlineId) return { message: 'Error: Missing deadline ID.' };
+
+  const supabase = createSimpleServerClient();
+  const { error } = await supabase
+    .from('booking_deadlines')
+    .update({ completed_at: completed ? new Date().toISOString() : null })
+    .eq('id', deadlineId);
+
+  if (error) {
+    console.error('Supabase error updating deadline:', error);
+    return { message: `Database Error: Failed to update deadline. ${error.message}` };
+  }
+
+  revalidatePath('/');
+  return { message: completed ? 'Successfully marked deadline as done' : 'Successfully reopened deadline' };
+}
+
+export async function deleteBookingDeadline(deadlineId: string): Promise<{ message: string }> {
+  await requireUser();
+
+  if (!deadlineId) return { message: 'Error: Missing deadline ID for delete.' };
+
+  const supabase = createSimpleServerClient();
+  const { error } = await supabase.from('booking_deadlines').delete().eq('id', deadlineId);
+
+  if (error) {
+    console.error('Supabase error deleting deadline:', error);
+    return { message: `Database Error: Failed to delete deadline. ${error.message}` };
+  }
+
+  revalidatePath('/');
+  return { message: 'Successfully deleted deadline' };
+}
+
+// Open time limits of active bookings due on or before the given date, soonest first,
+// optionally for a single customer
+export async function getDueBookingDeadlines(throughDate: string, customerId: string | null = null): Promise<DueBookingDeadline[]> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  let query = supabase
+    .from('booking_deadlines')
+    .select(`
+      id, booking_id, deadline_type, due_date,
+      bookings!inner ( booking_reference, status, customers ( company_name ), booking_sectors ( travel_date ) )
+    `)
+    .is('completed_at', null)
+    .lte('due_date', throughDate)
+    .in('bookings.status', OPEN_BOOKING_STATUSES);
+  if (customerId) query = query.eq('bookings.customer_id', customerId);
+
+  const { data, error } = await query
+    .order('due_date', { ascending: true })
+    .returns<DueDeadlineRow[]>();
+
+  if (error) {
+    console.error('Supabase error fetching due booking deadlines:', error);
+    return [];
+  }
+
+  return (data ?? []).map((deadline) => {
+    const { earliest, latest } = getTravelDateRange(deadline.bookings?.booking_sectors ?? []);
+    return {
+      id: deadline.id,
+      booking_id: deadline.booking_id,
+      booking_reference: deadline.bookings?.booking_reference ?? null,
+      customer_name: deadline.bookings?.customers?.company_name ?? null,
+      status: deadline.bookings?.status ?? null,
+      deadline_type: deadline.deadline_type,
+      due_date: deadline.due_date,
+      earliest_travel_date: earliest,
+      latest_travel_date: latest,
+    };
+  });
+}
@@ -0,0 +1,238 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
+import { getBookingReconciliation } from '@/lib/actions/reconciliation';
+import { getTourPackageBookingById } from '@/lib/actions/tour-package-bookings';
+import { buildInvoiceContent, buildReceiptContent } from '@/lib/booking-documents';
+import { renderBookingDocumentPdf } from '@/lib/pdf/booking-document-pdf';
+import {
+  BOOKING_DOCUMENTS_BUCKET,
+  type BookingDocument,
+  type BookingDocumentType,
+  type DocumentCustomerDetails,
+} from '@/lib/types/booking-documents';
+import type { PaymentRecord } from '@/lib/types/tours';
+
+type DocumentActionState = {
+  success: boolean;
+  message: string;
+  document?: BookingDocument;
+};
+
+const DOCUMENT_COLUMNS =
+  'id, doc_type, document_number, tour_package_booking_id, payment_id, amount, currency, storage_path, issued_by_email, issued_at';
+
+const ISSUER_NAME = process.env.DOCUMENT_ISSUER_NAME || 'Booking Tracker';
+
+function createStorageAdminClient(): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  );
+}
+
+// Render the PDF for an issued document from the booking as it stands now and upload it.
+// Returns the storage path, or an error message; the document row keeps its number either way.
+async function renderAndStoreDocument(document: BookingDocument): Promise<{ path?: string; error?: string }> {
+  const [booking, reconciliation] = await Promise.all([
+    getTourPackageBookingById(document.tour_package_booking_id),
+    getBookingReconciliation(document.tour_package_booking_id),
+  ]);
+  if (!booking || !reconciliation) return { error: 'Booking could not be loaded.' };
+
+  const supabase = createSimpleServerClient();
+  let customer: DocumentCustomerDetails = null;
+  if (booking.customer_id) {
+    const { data } = await supabase
+      .from('customers')
+      .select('tax_id, billing_address, payment_terms_days')
+      .eq('id', booking.customer_id)
+      .maybeSingle();
+    customer = data;
+  }
+
+  let content;
+  if (document.doc_type === 'receipt') {
+    const { data: payment, error } = await supabase
+      .from('payments')
+      .select('id, verified_amount, currency')
+      .eq('id', document.payment_id as string)
+      .maybeSingle();
+    if (error || !payment) return { error: 'Payment could not be loaded.' };
+    content = buildReceiptContent(booking, reconciliation, payment as Pick<PaymentRecord, 'id' | 'verified_amount' | 'currency'>, document, customer);
+  } else {
+    content = buildInvoiceContent(booking, reconciliation, document, customer);
+  }
+
+  const pdfBytes = await renderBookingDocumentPdf(content, ISSUER_NAME);
+  const path = `${document.tour_package_booking_id}/${document.document_number}.pdf`;
+
+  const supabaseAdmin = createStorageAdminClient();
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from(BOOKING_DOCUMENTS_BUCKET)
+    .upload(path, pdfBytes, { contentType: 'application/pdf', upsert: true });
+  if (uploadError) {
+    console.error(`Storage error uploading ${document.document_number}:`, uploadError);
+    return { error: uploadError.message };
+  }
+
+  const { error: updateError } = await supabase
+    .from('booking_documents')
+    .update({ storage_path: path })
+    .eq('id', document.id);
+  if (updateError) {
+    console.error(`Supabase error saving storage path for ${document.document_number}:`, updateError);
+    return { error: updateError.message };
+  }
+  return { path };
+}
+
+async function issueDocument(
+  docType: BookingDocumentType,
+  bookingId: string,
+  paymentId: string | null,
+  amount: number,
+  currency: string,
+  actor: { id: string; email: string | null }
+): Promise<DocumentActionState> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase.rpc('issue_booking_document', {
+    p_doc_type: docType,
+    p_booking_id: bookingId,
+    p_payment_id: paymentId,
+    p_amount: amount,
+    p_currency: currency,
+    p_issued_by: actor.id,
+    p_issued_by_email: actor.email,
+  });
+
+  if (error || !data) {
+    console.error(`Supabase error issuing ${docType} for ${bookingId}:`, error);
+    return { success: false, message: `Database Error: ${error?.message ?? 'No document was issued.'}` };
+  }
+
+  const document = data as BookingDocument;
+  revalidatePath(`/tour-packages/${bookingId}`);
+  if (document.storage_path) {
+    return { success: true, message: `${document.document_number} was already issued.`, document };
+  }
+
+  const stored = await renderAndStoreDocument(document);
+  if (stored.error) {
+    return {
+      success: false,
+      message: `Error: ${document.document_number} was issued but its PDF could not be saved (${stored.error}). Open it to retry.`,
+      document,
+    };
+  }
+  return { success: true, message: `${document.document_number} issued successfully.`, document: { ...document, storage_path: stored.path ?? null } };
+}
+
+export async function getBookingDocuments(bookingId: string): Promise<BookingDocument[]> {
+  await requireUser();
+
+  if (!bookingId) return [];
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('booking_documents')
+    .select(DOCUMENT_COLUMNS)
+    .eq('tour_package_booking_id', bookingId)
+    .order('issued_at', { ascending: false });
+
+  if (error) {
+    console.error(`Supabase error fetching documents for ${bookingId}:`, error);
+    return [];
+  }
+  return (data as BookingDocument[]) ?? [];
+}
+
+// Quotation / invoice for the booking's current price breakdown and payments
+export async function issueInvoice(bookingId: string): Promise<DocumentActionState> {
+  const user = await requireUser();
+
+  const booking = await getTourPackageBookingById(bookingId);
+  if (!booking) return { success: false, message: 'Error: Booking not found.' };
+  if (!booking.grand_total) {
+    return { success: false, message: 'Error: Set a price on the booking before issuing an invoice.' };
+  }
+
+  return issueDocument('invoice', booking.id, null, booking.grand_total, booking.currency, {
+    id: user.id,
+    email: user.email ?? null,
+  });
+}
+
+// Receipt for one verified payment; issuing again returns the existing receipt
+export async function issueReceipt(paymentId: string): Promise<DocumentActionState> {
+  const user = await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const { data: payment, error } = await supabase
+    .from('payments')
+    .select('id, tour_package_booking_id, is_verified')
+    .eq('id', paymentId)
+    .maybeSingle();
+
+  if (error || !payment) {
+    console.error(`Supabase error fetching payment ${paymentId} for receipt:`, error);
+    return { success: false, message: 'Error: Payment not found.' };
+  }
+  if (!payment.is_verified) {
+    return { success: false, message: 'Error: Only verified payments can be receipted.' };
+  }
+
+  const reconciliation = await getBookingReconciliation(payment.tour_package_booking_id);
+  const matched = reconciliation?.payments.find((item) => item.payment_id === paymentId);
+  if (!reconciliation || !matched?.counted || matched.amount === null) {
+    return { success: false, message: 'Error: The payment amount could not be determined (check the slip amount and exchange rate).' };
+  }
+
+  return issueDocument('receipt', payment.tour_package_booking_id, paymentId, matched.amount, reconciliation.currency, {
+    id: user.id,
+    email: user.email ?? null,
+  });
+}
+
+// Short-lived link to a document's PDF, rendering it first if an earlier upload failed
+export async function createBookingDocumentSignedUrl(
+  documentId: string
+): Promise<{ success: boolean; url?: string; message: string }> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('booking_documents')
+    .select(DOCUMENT_COLUMNS)
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error(`Supabase error fetching document ${documentId}:`, error);
+    return { success: false, message: 'Error: Document not found.' };
+  }
+
+  const document = data as BookingDocument;
+  let path = document.storage_path;
+  if (!path) {
+    const stored = await renderAndStoreDocument(document);
+    if (stored.error || !stored.path) {
+      return { success: false, message: `Storage Error: Could not save the PDF. ${stored.error ?? ''}`.trim() };
+    }
+    path = stored.path;
+    revalidatePath(`/tour-packages/${document.tour_package_booking_id}`);
+  }
+
+  const { data: signed, error: signError } = await createStorageAdminClient().storage
+    .from(BOOKING_DOCUMENTS_BUCKET)
+    .createSignedUrl(path, 60);
+
+  if (signError || !signed?.signedUrl) {
+    console.error('Supabase Create Signed URL Error:', signError);
+    return { success: false, message: `Storage Error: Could not create signed URL. ${signError?.message ?? ''}`.trim() };
+  }
+  return { success: true, url: signed.signedUrl, message: 'Signed URL created successfully.' };
+}
@@ -0,0 +1,216 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
+import { parsePassengerCsv } from '@/lib/passenger-manifest';
+import {
+  PassengerSchema,
+  type BookingManifest,
+  type BookingPassenger,
+  type ManifestSector,
+  type PassengerFormData,
+  type PassengerNameChange,
+} from '@/lib/types/passengers';
+
+export type PassengerFormState = {
+  message: string | null;
+  errors?: {
+    title?: string[];
+    first_name?: string[];
+    last_name?: string[];
+    passport_number?: string[];
+    passport_expiry?: string[];
+    date_of_birth?: string[];
+    nationality?: string[];
+    sector_ids?: string[];
+  };
+};
+
+interface PassengerRow extends Omit<BookingPassenger, 'sector_ids'> {
+  booking_passenger_sectors: { booking_sector_id: string }[] | null;
+}
+
+interface SectorRow {
+  id: string;
+  num_pax: number | null;
+  predefined_sectors: { origin_code: string; destination_code: string } | null;
+}
+
+const PASSENGER_COLUMNS = `
+  id, booking_id, title, first_name, last_name, passport_number, passport_expiry, date_of_birth, nationality,
+  created_at, updated_at,
+  booking_passenger_sectors ( booking_sector_id )
+`;
+const NAME_CHANGE_COLUMNS = 'id, passenger_id, booking_id, previous_name, new_name, after_deadline, changed_by_email, changed_at';
+
+// Writes passengers and their sector assignments atomically (see save_booking_passengers)
+async function savePassengers(
+  bookingId: string,
+  passengers: (PassengerFormData & { id?: string })[],
+  actor: { id: string; email: string | null }
+): Promise<string | null> {
+  const supabase = createSimpleServerClient();
+  const { error } = await supabase.rpc('save_booking_passengers', {
+    p_booking_id: bookingId,
+    p_passengers: passengers,
+    p_actor_id: actor.id,
+    p_actor_email: actor.email,
+  });
+  if (error) {
+    console.error(`Supabase error saving passengers for booking ${bookingId}:`, error);
+    return error.message;
+  }
+  return null;
+}
+
+export async function getBookingManifest(bookingId: string): Promise<BookingManifest | null> {
+  await requireUser();
+
+  if (!bookingId) return null;
+
+  const supabase = createSimpleServerClient();
+  const [bookingResult, sectorsResult, passengersResult, changesResult] = await Promise.all([
+    supabase.from('bookings').select('id, deadline').eq('id', bookingId).maybeSingle(),
+    supabase
+      .from('booking_sectors')
+      .select('id, num_pax, predefined_sectors ( origin_code, destination_code )')
+      .eq('booking_id', bookingId)
+      .order('sector_order', { ascending: true })
+      .order('created_at', { ascending: true })
+      .returns<SectorRow[]>(),
+    supabase
+      .from('booking_passengers')
+      .select(PASSENGER_COLUMNS)
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true })
+      .returns<PassengerRow[]>(),
+    supabase
+      .from('booking_passenger_name_changes')
+      .select(NAME_CHANGE_COLUMNS)
+      .eq('booking_id', bookingId)
+      .order('changed_at', { ascending: false })
+      .returns<PassengerNameChange[]>(),
+  ]);
+
+  const error = bookingResult.error || sectorsResult.error || passengersResult.error || changesResult.error;
+  if (error) {
+    console.error(`Supabase error fetching manifest for booking ${bookingId}:`, error);
+    return null;
+  }
+  if (!bookingResult.data) return null;
+
+  const sectors: ManifestSector[] = (sectorsResult.data ?? []).map((sector) => ({
+    id: sector.id,
+    label: `${sector.predefined_sectors?.origin_code ?? '?'}-${sector.predefined_sectors?.destination_code ?? '?'}`,
+    num_pax: sector.num_pax ?? 0,
+  }));
+  const passengers: BookingPassenger[] = (passengersResult.data ?? []).map(({ booking_passenger_sectors, ...passenger }) => ({
+    ...passenger,
+    sector_ids: (booking_passenger_sectors ?? []).map((assignment) => assignment.booking_sector_id),
+  }));
+
+  return {
+    passengers,
+    sectors,
+    nameChanges: changesResult.data ?? [],
+    deadline: bookingResult.data.deadline ?? null,
+  };
+}
+
+export async function savePassenger(
+  bookingId: string,
+  passengerId: string | null,
+  prevState: PassengerFormState | undefined,
+  formData: FormData
+): Promise<PassengerFormState> {
+  const user = await requireUser();
+
+  if (!bookingId) return { message: 'Error: Missing booking ID for passenger.' };
+
+  const optional = (key: string) => {
+    const value = formData.get(key);
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+  };
+  const validatedFields = PassengerSchema.safeParse({
+    title: optional('title'),
+    first_name: formData.get('first_name') ?? '',
+    last_name: formData.get('last_name') ?? '',
+    passport_number: optional('passport_number'),
+    passport_expiry: optional('passport_expiry'),
+    date_of_birth: optional('date_of_birth'),
+    nationality: optional('nationality'),
+    sector_ids: formData.getAll('sector_ids').filter((value): value is string => typeof value === 'string'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      message: 'Validation failed',
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  const saveError = await savePassengers(
+    bookingId,
+    [{ ...validatedFields.data, ...(passengerId ? { id: passengerId } : {}) }],
+    { id: user.id, email: user.email ?? null }
+  );
+  if (saveError) {
+    return { message: `Database Error: Failed to save passenger. ${saveError}` };
+  }
+
+  revalidatePath(`/bookings/${bookingId}`);
+  return { message: passengerId ? 'Successfully updated passenger' : 'Successfully added passenger' };
+}
+
+// Import a manifest sheet (see parsePassengerCsv for the format) as new passengers.
+// Nothing is saved if any line is invalid.
+export async function importPassengersCsv(
+  bookingId: string,
+  csvText: string
+): Promise<{ success: boolean; message: string; errors?: string[] }> {
+  const user = await requireUser();
+
+  if (!bookingId) return { success: false, message: 'Error: Missing booking ID for import.' };
+
+  const manifest = await getBookingManifest(bookingId);
+  if (!manifest) return { success: false, message: 'Error: Booking not found.' };
+
+  const { passengers, errors } = parsePassengerCsv(csvText ?? '', manifest.sectors);
+  if (errors.length > 0) {
+    return { success: false, message: 'Validation Error: The manifest has invalid lines.', errors };
+  }
+  if (passengers.length === 0) {
+    return { success: false, message: 'Error: The manifest has no passengers.' };
+  }
+
+  const saveError = await savePassengers(bookingId, passengers, { id: user.id, email: user.email ?? null });
+  if (saveError) {
+    return { success: false, message: `Database Error: Failed to import passengers. ${saveError}` };
+  }
+
+  revalidatePath(`/bookings/${bookingId}`);
+  return { success: true, message: `Imported ${passengers.length} passenger(s).` };
+}
+
+export async function deletePassenger(passengerId: string): Promise<{ message: string }> {
+  await requireUser();
+
+  if (!passengerId) return { message: 'Error: Missing passenger ID for delete.' };
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('booking_passengers')
+    .delete()
+    .eq('id', passengerId)
+    .select('booking_id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error deleting passenger:', error);
+    return { message: `Database Error: Failed to delete passenger. ${error.message}` };
+  }
+
+  if (data?.booking_id) revalidatePath(`/bookings/${data.booking_id}`);
+  return { message: 'Successfully deleted passenger' };
+}
@@ -2,6 +2,7 @@
 
 import { revalidatePath } from 'next/cache';
 import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
 import {
   CallReportSchema,
   CallReportStatusEnum,
@@ -34,6 +35,7 @@ function processFormEntries(formData: FormData) {
   const raw = Object.fromEntries(formData.entries());
   return {
     ...raw,
+    contact_id: raw.contact_id || null,
     contact_person: raw.contact_person || null,
     summary: raw.summary || null,
     customer_feedback: raw.customer_feedback || null,
@@ -44,9 +46,31 @@ function processFormEntries(formData: FormData) {
   };
 }
 
+// A picked contact must belong to the report's customer; its name becomes the printed contact_person
+async function resolveContactPerson(
+  customerId: string,
+  contactId: string | null | undefined,
+  fallback: string | null | undefined
+): Promise<{ contact_id: string | null; contact_person: string | null } | null> {
+  if (!contactId) return { contact_id: null, contact_person: fallback ?? null };
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('customer_contacts')
+    .select('id, name')
+    .eq('id', contactId)
+    .eq('customer_id', customerId)
+    .maybeSingle();
+
+  if (error) console.error(`Supabase error fetching contact ${contactId}:`, error);
+  return data ? { contact_id: data.id, contact_person: data.name } : null;
+}
+
 export async function addCustomerInline(
   companyName: string
 ): Promise<{ customer?: CustomerSelectItem; error?: string }> {
+  await requireUser();
+
   const name = companyName?.trim();
   if (!name) return { error: 'Company name is required.' };
 
@@ -67,6 +91,8 @@ export async function addCustomerInline(
 }
 
 export async function getCustomersForSelect(): Promise<CustomerSelectItem[]> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   const { data, error } = await supabase
     .from('customers')
@@ -81,6 +107,8 @@ export async function getCustomersForSelect(): Promise<CustomerSelectItem[]> {
 }
 
 export async function getCallReports(): Promise<CallReportWithCustomer[]> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   const { data, error } = await supabase
     .from('call_reports')
@@ -99,6 +127,8 @@ export async function getCallReports(): Promise<CallReportWithCustomer[]> {
 }
 
 export async function getCallReportUpdates(callReportId: string): Promise<CallReportUpdate[]> {
+  await requireUser();
+
   if (!callReportId) return [];
   const supabase = createSimpleServerClient();
   const { data, error } = await supabase
@@ -115,6 +145,8 @@ export async function getCallReportUpdates(callReportId: string): Promise<CallRe
 }
 
 export async function getCallReportById(id: string): Promise<CallReportWithCustomer | null> {
+  await requireUser();
+
   if (!id) return null;
   const supabase = createSimpleServerClient();
   const { data, error } = await supabase
@@ -137,6 +169,8 @@ export async function createCallReport(
   _prevState: CallReportActionState | undefined,
   formData: FormData
 ): Promise<CallReportActionState> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   const processedData = processFormEntries(formData);
 
@@ -153,6 +187,7 @@ export async function createCallReport(
 
   const {
     customer_id,
+    contact_id,
     contact_person,
     report_date,
     topic,
@@ -163,9 +198,17 @@ export async function createCallReport(
     next_follow_up_date,
   } = validatedFields.data;
 
+  const contact = await resolveContactPerson(customer_id, contact_id, contact_person);
+  if (!contact) {
+    return {
+      message: 'Validation failed. Please check the fields.',
+      errors: { contact_id: ['Selected contact does not belong to this customer.'] },
+    };
+  }
+
   const dataToInsert = {
     customer_id,
-    contact_person: contact_person ?? null,
+    ...contact,
     report_date: formatDateForDb(report_date)!,
     topic,
     summary: summary ?? null,
@@ -206,6 +249,8 @@ export async function updateCallReport(
   callReportId: string,
   formData: FormData
 ): Promise<CallReportActionState> {
+  await requireUser();
+
   if (!callReportId) {
     return { message: 'Error: Missing Call Report ID for update.' };
   }
@@ -226,6 +271,7 @@ export async function updateCallReport(
 
   const {
     customer_id,
+    contact_id,
     contact_person,
     report_date,
     topic,
@@ -236,9 +282,17 @@ export async function updateCallReport(
     next_follow_up_date,
   } = validatedFields.data;
 
+  const contact = await resolveContactPerson(customer_id, contact_id, contact_person);
+  if (!contact) {
+    return {
+      message: 'Validation failed. Please check the fields.',
+      errors: { contact_id: ['Selected contact does not belong to this customer.'] },
+    };
+  }
+
   const dataToUpdate = {
     customer_id,
-    contact_person: contact_person ?? null,
+    ...contact,
     report_date: formatDateForDb(report_date)!,
     topic,
     summary: summary ?? null,
@@ -283,6 +337,8 @@ export async function addCallReportUpdate(
   callReportId: string,
   formData: FormData
 ): Promise<CallReportUpdateActionState> {
+  await requireUser();
+
   if (!callReportId) {
     return { message: 'Error: Missing Call Report ID.' };
   }
@@ -336,6 +392,8 @@ export async function addCallReportUpdate(
 }
 
 export async function deleteCallReport(callReportId: string): Promise<{ message: string }> {
+  await requireUser();
+
   if (!callReportId) {
     return { message: 'Error: Missing Call Report ID for deletion.' };
   }
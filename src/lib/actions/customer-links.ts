@@ -0,0 +1,225 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
+import { recordAuditEntry } from '@/lib/audit-log';
+import { matchCustomerName, normalizeCustomerName } from '@/lib/customer-matching';
+import type { CustomerSelectItem } from '@/lib/types/call-reports';
+import type { UnlinkedTourBooking } from '@/lib/types/customer-matching';
+import type { TourPackageStatus } from '@/lib/types/tours';
+
+interface CustomerLinkActionState {
+  success: boolean;
+  message: string;
+}
+
+interface UnlinkedBookingRow {
+  id: string;
+  customer_name: string;
+  status: TourPackageStatus;
+  booking_date: string | null;
+  tour_products: { name: string } | null;
+}
+
+async function fetchCustomers(): Promise<CustomerSelectItem[]> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('customers')
+    .select('id, company_name')
+    .order('company_name', { ascending: true });
+
+  if (error) {
+    console.error('Supabase error fetching customers for matching:', error);
+    return [];
+  }
+  return (data as CustomerSelectItem[]) ?? [];
+}
+
+async function fetchUnlinkedBookings(): Promise<UnlinkedBookingRow[]> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('tour_package_bookings')
+    .select('id, customer_name, status, booking_date, tour_products ( name )')
+    .is('customer_id', null)
+    .order('customer_name', { ascending: true });
+
+  if (error) {
+    console.error('Supabase error fetching unlinked tour bookings:', error);
+    return [];
+  }
+  return (data as unknown as UnlinkedBookingRow[]) ?? [];
+}
+
+// Links the bookings to the customer and refreshes their printed name; returns the number linked
+async function linkBookings(bookingIds: string[], customer: CustomerSelectItem): Promise<number> {
+  if (bookingIds.length === 0) return 0;
+
+  const supabase = createSimpleServerClient();
+  // The free-text names being replaced, for the audit trail
+  const { data: current, error: currentError } = await supabase
+    .from('tour_package_bookings')
+    .select('id, customer_name')
+    .in('id', bookingIds)
+    .is('customer_id', null);
+
+  if (currentError) {
+    console.error(`Supabase error fetching bookings to link to customer ${customer.id}:`, currentError);
+    return 0;
+  }
+  const previousNames = new Map(
+    ((current as { id: string; customer_name: string | null }[]) ?? []).map((row) => [row.id, row.customer_name])
+  );
+
+  const { data, error } = await supabase
+    .from('tour_package_bookings')
+    .update({ customer_id: customer.id, customer_name: customer.company_name, updated_at: new Date().toISOString() })
+    .in('id', bookingIds)
+    .is('customer_id', null) // never overwrite a link made in the meantime
+    .select('id');
+
+  if (error) {
+    console.error(`Supabase error linking bookings to customer ${customer.id}:`, error);
+    return 0;
+  }
+
+  const linked = (data as { id: string }[]) ?? [];
+  await Promise.all(
+    linked.map((row) =>
+      recordAuditEntry({
+        entityType: 'tour_package_booking',
+        entityId: row.id,
+        action: 'updated',
+        before: { customer_id: null, customer_name: previousNames.get(row.id) ?? null },
+        after: { customer_id: customer.id, customer_name: customer.company_name },
+      })
+    )
+  );
+  return linked.length;
+}
+
+function revalidateCustomerLinks() {
+  revalidatePath('/tour-packages/customer-links');
+  revalidatePath('/tour-packages');
+}
+
+// Bookings still identified only by a free-text name, with suggested customers for review
+export async function getUnlinkedTourBookings(): Promise<UnlinkedTourBooking[]> {
+  await requireUser();
+
+  const [bookings, customers] = await Promise.all([fetchUnlinkedBookings(), fetchCustomers()]);
+  return bookings.map((booking) => ({
+    id: booking.id,
+    customer_name: booking.customer_name,
+    package_name: booking.tour_products?.name ?? null,
+    status: booking.status,
+    booking_date: booking.booking_date,
+    ...matchCustomerName(booking.customer_name, customers),
+  }));
+}
+
+export async function linkTourBookingCustomer(
+  bookingId: string,
+  customerId: string
+): Promise<CustomerLinkActionState> {
+  await requireUser();
+
+  const access = await checkPermission('tour-bookings.link-customers');
+  if (!access.allowed) return { success: false, message: access.message };
+
+  if (!bookingId || !customerId) {
+    return { success: false, message: 'Error: Booking and customer are required.' };
+  }
+
+  const supabase = createSimpleServerClient();
+  const { data: customer, error } = await supabase
+    .from('customers')
+    .select('id, company_name')
+    .eq('id', customerId)
+    .maybeSingle();
+
+  if (error || !customer) {
+    return { success: false, message: 'Error: Selected customer was not found.' };
+  }
+
+  const linked = await linkBookings([bookingId], customer as CustomerSelectItem);
+  if (linked === 0) {
+    return { success: false, message: 'Error: Booking was not linked. It may already have a customer.' };
+  }
+
+  revalidateCustomerLinks();
+  revalidatePath(`/tour-packages/${bookingId}`);
+  return { success: true, message: `Successfully linked booking to ${customer.company_name}.` };
+}
+
+// Create a customer from the booking's free-text name and link every unlinked booking
+// spelled the same way (ignoring case, punctuation and legal suffixes)
+export async function createCustomerFromBooking(bookingId: string): Promise<CustomerLinkActionState> {
+  await requireUser();
+
+  const access = await checkPermission('tour-bookings.link-customers');
+  if (!access.allowed) return { success: false, message: access.message };
+
+  const bookings = await fetchUnlinkedBookings();
+  const source = bookings.find((booking) => booking.id === bookingId);
+  if (!source) {
+    return { success: false, message: 'Error: Booking not found or already linked.' };
+  }
+
+  const companyName = source.customer_name.trim();
+  if (!companyName) {
+    return { success: false, message: 'Error: Booking has no customer name to create a customer from.' };
+  }
+
+  const supabase = createSimpleServerClient();
+  const { data: customer, error } = await supabase
+    .from('customers')
+    .insert({ company_name: companyName })
+    .select('id, company_name')
+    .single();
+
+  if (error || !customer) {
+    console.error('Supabase error creating customer from booking:', error);
+    return { success: false, message: `Database Error: Failed to create customer. ${error?.message ?? ''}`.trim() };
+  }
+
+  const normalized = normalizeCustomerName(companyName);
+  const sameName = bookings
+    .filter((booking) => normalizeCustomerName(booking.customer_name) === normalized)
+    .map((booking) => booking.id);
+  const linked = await linkBookings(sameName, customer as CustomerSelectItem);
+
+  revalidateCustomerLinks();
+  revalidatePath('/customers');
+  return { success: true, message: `Successfully created ${customer.company_name} and linked ${linked} booking(s).` };
+}
+
+// Link every booking whose best suggestion is a confident match; the rest stay queued for review
+export async function autoLinkConfidentMatches(): Promise<CustomerLinkActionState> {
+  await requireUser();
+
+  const access = await checkPermission('tour-bookings.link-customers');
+  if (!access.allowed) return { success: false, message: access.message };
+
+  const [bookings, customers] = await Promise.all([fetchUnlinkedBookings(), fetchCustomers()]);
+
+  const byCustomer = new Map<string, { customer: CustomerSelectItem; bookingIds: string[] }>();
+  bookings.forEach((booking) => {
+    const { confident } = matchCustomerName(booking.customer_name, customers);
+    if (!confident) return;
+    const group = byCustomer.get(confident.id) ?? { customer: confident, bookingIds: [] };
+    group.bookingIds.push(booking.id);
+    byCustomer.set(confident.id, group);
+  });
+
+  let linked = 0;
+  for (const { customer, bookingIds } of byCustomer.values()) {
+    linked += await linkBookings(bookingIds, customer);
+  }
+
+  revalidateCustomerLinks();
+  return {
+    success: true,
+    message: `Successfully linked ${linked} booking(s). ${bookings.length - linked} left for review.`,
+  };
+}
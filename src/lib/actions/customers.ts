@@ -0,0 +1,426 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
+import { recordAuditEntry } from '@/lib/audit-log';
+import { getExchangeRates } from '@/lib/actions/exchange-rates';
+import { summarizeCustomer, summarizeCustomerCredit } from '@/lib/customer-summary';
+import { findDuplicateCustomers } from '@/lib/customer-matching';
+import { reconcileTourBooking, type ReconciliationPaymentInput } from '@/lib/reconciliation';
+import type { Customer } from '@/types/database';
+import type { CallReportUpdate, CallReportWithCustomer } from '@/lib/types/call-reports';
+import type { CurrencyCode, ExchangeRate } from '@/lib/types/currency';
+import {
+  CustomerContactSchema,
+  type Customer360,
+  type CustomerAirlineBooking,
+  type CustomerAirlineSector,
+  type CustomerContact,
+  type CustomerCreditStatus,
+  type CustomerOpenTask,
+} from '@/lib/types/customers';
+import type { DuplicateCustomerCandidate, DuplicateCustomerPair } from '@/lib/types/customer-matching';
+import type { TourPackageStatus } from '@/lib/types/tours';
+
+interface AirlineBookingRow extends Omit<CustomerAirlineBooking, 'sectors'> {
+  booking_sectors: (Omit<CustomerAirlineSector, 'origin_code' | 'destination_code'> & {
+    predefined_sectors: { origin_code: string; destination_code: string } | null;
+  })[] | null;
+}
+
+interface TourBookingRow {
+  id: string;
+  customer_name: string | null;
+  status: TourPackageStatus;
+  booking_date: string | null;
+  created_at: string;
+  grand_total: number | null;
+  currency: CurrencyCode;
+  tour_products: { name: string } | null;
+  payments: ReconciliationPaymentInput[] | null;
+}
+
+export type CustomerContactFormState = {
+  message: string | null;
+  errors?: {
+    name?: string[];
+    role?: string[];
+    email?: string[];
+    phone?: string[];
+    is_primary?: string[];
+  };
+};
+
+const TOUR_PAYMENT_COLUMNS =
+  'id, status_at_payment, uploaded_at, is_verified, verified_amount, verified_payment_date, verification_error, currency, duplicate_of_payment_id, duplicate_accepted_at';
+
+const CUSTOMER_COLUMNS = 'id, company_name, billing_address, tax_id, payment_terms_days, credit_limit, created_at';
+const CONTACT_COLUMNS = 'id, customer_id, name, role, email, phone, is_primary, created_at, updated_at';
+
+const TOUR_BOOKING_COLUMNS = `
+  id, customer_name, status, booking_date, created_at, grand_total, currency,
+  tour_products ( name ),
+  payments!fk_tour_package_booking ( ${TOUR_PAYMENT_COLUMNS} )
+`;
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+function toAirlineBooking({ booking_sectors, ...booking }: AirlineBookingRow): CustomerAirlineBooking {
+  return {
+    ...booking,
+    sectors: (booking_sectors ?? [])
+      .map(({ predefined_sectors, ...sector }) => ({
+        ...sector,
+        origin_code: predefined_sectors?.origin_code ?? null,
+        destination_code: predefined_sectors?.destination_code ?? null,
+      }))
+      .sort((a, b) => (a.travel_date ?? '').localeCompare(b.travel_date ?? '')),
+  };
+}
+
+function reconcileTourRows(rows: TourBookingRow[], rates: ExchangeRate[]) {
+  return rows.map((row) =>
+    reconcileTourBooking(
+      {
+        id: row.id,
+        customer_name: row.customer_name,
+        package_name: row.tour_products?.name ?? null,
+        status: row.status,
+        booking_date: row.booking_date,
+        grand_total: row.grand_total,
+        currency: row.currency,
+      },
+      row.payments ?? [],
+      rates
+    )
+  );
+}
+
+async function fetchContacts(customerId: string): Promise<CustomerContact[]> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('customer_contacts')
+    .select(CONTACT_COLUMNS)
+    .eq('customer_id', customerId)
+    .order('is_primary', { ascending: false })
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error(`Supabase error fetching contacts for customer ${customerId}:`, error);
+    return [];
+  }
+  return (data as CustomerContact[]) ?? [];
+}
+
+export async function getCustomer360(customerId: string): Promise<Customer360 | null> {
+  await requireUser();
+
+  if (!customerId) return null;
+  const supabase = createSimpleServerClient();
+
+  const { data: customer, error: customerError } = await supabase
+    .from('customers')
+    .select(CUSTOMER_COLUMNS)
+    .eq('id', customerId)
+    .maybeSingle();
+
+  if (customerError) {
+    console.error(`Supabase error fetching customer ${customerId}:`, customerError);
+    return null;
+  }
+  if (!customer) return null;
+
+  const [airlineResult, tourResult, callReportsResult, rates] = await Promise.all([
+    supabase
+      .from('bookings')
+      .select(`
+        id, booking_reference, booking_type, status, num_pax, deadline, created_at,
+        booking_sectors ( id, status, travel_date, flight_number, num_pax, predefined_sectors ( origin_code, destination_code ) )
+      `)
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('tour_package_bookings')
+      .select(TOUR_BOOKING_COLUMNS)
+      .eq('customer_id', customerId)
+      .order('booking_date', { ascending: false }),
+    supabase
+      .from('call_reports')
+      .select('*')
+      .eq('customer_id', customerId)
+      .order('report_date', { ascending: false })
+      .order('created_at', { ascending: false }),
+    getExchangeRates(),
+  ]);
+
+  if (airlineResult.error) console.error(`Supabase error fetching bookings for customer ${customerId}:`, airlineResult.error);
+  if (tourResult.error) console.error(`Supabase error fetching tour bookings for customer ${customerId}:`, tourResult.error);
+  if (callReportsResult.error) console.error(`Supabase error fetching call reports for customer ${customerId}:`, callReportsResult.error);
+
+  const airlineBookings = ((airlineResult.data as unknown as AirlineBookingRow[]) ?? []).map(toAirlineBooking);
+  const tourRows = (tourResult.data as unknown as TourBookingRow[]) ?? [];
+  const callReportRows = (callReportsResult.data as CallReportWithCustomer[]) ?? [];
+
+  const callReportIds = callReportRows.map((report) => report.id);
+  const tourBookingIds = tourRows.map((booking) => booking.id);
+  const [updatesResult, tasksResult, contacts] = await Promise.all([
+    callReportIds.length > 0
+      ? supabase
+          .from('call_report_updates')
+          .select('*')
+          .in('call_report_id', callReportIds)
+          .order('created_at', { ascending: false })
+      : Promise.resolve({ data: [], error: null }),
+    tourBookingIds.length > 0
+      ? supabase
+          .from('tasks')
+          .select('id, description, due_date, status, linked_tour_booking_id')
+          .in('linked_tour_booking_id', tourBookingIds)
+          .neq('status', 'Completed')
+          .order('due_date', { ascending: true, nullsFirst: false })
+      : Promise.resolve({ data: [], error: null }),
+    fetchContacts(customerId),
+  ]);
+
+  if (updatesResult.error) console.error(`Supabase error fetching call report updates for customer ${customerId}:`, updatesResult.error);
+  if (tasksResult.error) console.error(`Supabase error fetching tasks for customer ${customerId}:`, tasksResult.error);
+
+  const updates = (updatesResult.data as CallReportUpdate[]) ?? [];
+  const callReports = callReportRows.map((report) => ({
+    ...report,
+    updates: updates.filter((update) => update.call_report_id === report.id),
+  }));
+
+  const tourBookings = reconcileTourRows(tourRows, rates);
+
+  return {
+    customer: customer as Customer,
+    summary: summarizeCustomer({ airlineBookings, tourBookings: tourRows, callReports }, rates),
+    credit: summarizeCustomerCredit(customer.credit_limit, tourBookings, rates, today()),
+    contacts,
+    airlineBookings,
+    tourBookings,
+    callReports,
+    openTasks: (tasksResult.data as CustomerOpenTask[]) ?? [],
+  };
+}
+
+// Outstanding tour balances against the customer's credit limit, for booking warnings
+export async function getCustomerCreditStatus(customerId: string): Promise<CustomerCreditStatus | null> {
+  await requireUser();
+
+  if (!customerId) return null;
+  const supabase = createSimpleServerClient();
+  const [customerResult, bookingsResult, rates] = await Promise.all([
+    supabase.from('customers').select('credit_limit').eq('id', customerId).maybeSingle(),
+    supabase.from('tour_package_bookings').select(TOUR_BOOKING_COLUMNS).eq('customer_id', customerId),
+    getExchangeRates(),
+  ]);
+
+  if (customerResult.error || bookingsResult.error) {
+    console.error(`Supabase error fetching credit status for customer ${customerId}:`, customerResult.error ?? bookingsResult.error);
+    return null;
+  }
+  if (!customerResult.data) return null;
+
+  const balances = reconcileTourRows((bookingsResult.data as unknown as TourBookingRow[]) ?? [], rates);
+  return summarizeCustomerCredit(customerResult.data.credit_limit, balances, rates, today());
+}
+
+export async function getCustomerContacts(customerId: string): Promise<CustomerContact[]> {
+  await requireUser();
+
+  if (!customerId) return [];
+  return fetchContacts(customerId);
+}
+
+// Add (contactId null) or update a contact. Marking a contact primary demotes the previous one.
+export async function saveCustomerContact(
+  customerId: string,
+  contactId: string | null,
+  prevState: CustomerContactFormState | undefined,
+  formData: FormData
+): Promise<CustomerContactFormState> {
+  await requireUser();
+
+  if (!customerId) return { message: 'Error: Missing customer ID for contact.' };
+
+  const optional = (key: string) => {
+    const value = formData.get(key);
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+  };
+  const validatedFields = CustomerContactSchema.safeParse({
+    name: formData.get('name') ?? '',
+    role: optional('role'),
+    email: optional('email'),
+    phone: optional('phone'),
+    is_primary: formData.get('is_primary') === 'on' || formData.get('is_primary') === 'true',
+  });
+
+  if (!validatedFields.success) {
+    return {
+      message: 'Validation failed',
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  const supabase = createSimpleServerClient();
+  if (validatedFields.data.is_primary) {
+    let demote = supabase
+      .from('customer_contacts')
+      .update({ is_primary: false })
+      .eq('customer_id', customerId)
+      .eq('is_primary', true);
+    if (contactId) demote = demote.neq('id', contactId);
+    const { error: demoteError } = await demote;
+    if (demoteError) {
+      console.error('Supabase error clearing primary contact:', demoteError);
+      return { message: `Database Error: Failed to save contact. ${demoteError.message}` };
+    }
+  }
+
+  const { error } = contactId
+    ? await supabase
+        .from('customer_contacts')
+        .update(validatedFields.data)
+        .eq('id', contactId)
+        .eq('customer_id', customerId)
+    : await supabase
+        .from('customer_contacts')
+        .insert({ ...validatedFields.data, customer_id: customerId });
+
+  if (error) {
+    console.error('Supabase error saving customer contact:', error);
+    return { message: `Database Error: Failed to save contact. ${error.message}` };
+  }
+
+  revalidatePath(`/customers/${customerId}`);
+  return { message: contactId ? 'Successfully updated contact' : 'Successfully added contact' };
+}
+
+export async function deleteCustomerContact(contactId: string): Promise<{ message: string }> {
+  await requireUser();
+
+  if (!contactId) return { message: 'Error: Missing contact ID for delete.' };
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('customer_contacts')
+    .delete()
+    .eq('id', contactId)
+    .select('customer_id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error deleting customer contact:', error);
+    return { message: `Database Error: Failed to delete contact. ${error.message}` };
+  }
+
+  if (data?.customer_id) revalidatePath(`/customers/${data.customer_id}`);
+  return { message: 'Successfully deleted contact' };
+}
+
+function countByCustomer(rows: { customer_id: string | null }[] | null): Map<string, number> {
+  const counts = new Map<string, number>();
+  (rows ?? []).forEach((row) => {
+    if (row.customer_id) counts.set(row.customer_id, (counts.get(row.customer_id) ?? 0) + 1);
+  });
+  return counts;
+}
+
+// Likely duplicate customers by name similarity, with what merging each one would move
+export async function getDuplicateCustomers(): Promise<DuplicateCustomerPair<DuplicateCustomerCandidate>[]> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const [customersResult, bookingsResult, tourBookingsResult, callReportsResult] = await Promise.all([
+    supabase.from('customers').select('id, company_name, created_at').order('company_name', { ascending: true }),
+    supabase.from('bookings').select('customer_id'),
+    supabase.from('tour_package_bookings').select('customer_id').not('customer_id', 'is', null),
+    supabase.from('call_reports').select('customer_id'),
+  ]);
+
+  if (customersResult.error) {
+    console.error('Supabase error fetching customers for duplicate check:', customersResult.error);
+    return [];
+  }
+
+  const bookingCounts = countByCustomer(bookingsResult.data);
+  const tourBookingCounts = countByCustomer(tourBookingsResult.data);
+  const callReportCounts = countByCustomer(callReportsResult.data);
+
+  const candidates: DuplicateCustomerCandidate[] = (customersResult.data ?? []).map((customer) => ({
+    ...customer,
+    booking_count: bookingCounts.get(customer.id) ?? 0,
+    tour_booking_count: tourBookingCounts.get(customer.id) ?? 0,
+    call_report_count: callReportCounts.get(customer.id) ?? 0,
+  }));
+  return findDuplicateCustomers(candidates);
+}
+
+// Move everything from the duplicate onto the survivor and delete the duplicate (see merge_customers)
+export async function mergeCustomers(
+  survivorId: string,
+  duplicateId: string
+): Promise<{ success: boolean; message: string }> {
+  await requireUser();
+
+  const access = await checkPermission('customers.merge');
+  if (!access.allowed) return { success: false, message: access.message };
+
+  if (!survivorId || !duplicateId || survivorId === duplicateId) {
+    return { success: false, message: 'Error: Pick two different customers to merge.' };
+  }
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase.rpc('merge_customers', {
+    p_survivor_id: survivorId,
+    p_duplicate_id: duplicateId,
+  });
+
+  if (error) {
+    console.error(`Supabase error merging customer ${duplicateId} into ${survivorId}:`, error);
+    return { success: false, message: `Database Error: Failed to merge customers. ${error.message}` };
+  }
+
+  const moved = data as {
+    bookings: number;
+    tour_bookings: number;
+    call_reports: number;
+    moved_bookings: { id: string; customer_id: string | null }[];
+    moved_tour_bookings: { id: string; customer_name: string | null }[];
+    survivor_name: string;
+  } | null;
+  // The RPC re-points bookings in SQL, so their audit entries are written here
+  await Promise.all([
+    ...(moved?.moved_bookings ?? []).map((booking) =>
+      recordAuditEntry({
+        entityType: 'booking',
+        entityId: booking.id,
+        action: 'updated',
+        before: { customer_id: booking.customer_id },
+        after: { customer_id: survivorId },
+      })
+    ),
+    ...(moved?.moved_tour_bookings ?? []).map((booking) =>
+      recordAuditEntry({
+        entityType: 'tour_package_booking',
+        entityId: booking.id,
+        action: 'updated',
+        before: { customer_id: duplicateId, customer_name: booking.customer_name },
+        after: { customer_id: survivorId, customer_name: moved?.survivor_name ?? null },
+      })
+    ),
+  ]);
+
+  revalidatePath('/customers');
+  revalidatePath('/customers/duplicates');
+  revalidatePath(`/customers/${survivorId}`);
+  revalidatePath('/tour-packages');
+  revalidatePath('/bookings');
+  return {
+    success: true,
+    message: `Successfully merged customers. Moved ${moved?.bookings ?? 0} booking(s), ${moved?.tour_bookings ?? 0} tour booking(s) and ${moved?.call_reports ?? 0} call report(s).`,
+  };
+}
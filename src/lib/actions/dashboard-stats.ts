@@ -1,6 +1,21 @@
 'use server';
 
 import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
+import { getExchangeRates } from '@/lib/actions/exchange-rates';
+import { bookingTotalInBase } from '@/lib/currency';
+import { applyDashboardFilters, businessDateKey, hasActiveFilters } from '@/lib/dashboard-filters';
+import {
+  KPI_BOOKING_COLUMNS,
+  comparisonDate,
+  comparisonWindowStart,
+  computeBookingKpis,
+  formatKpiChange,
+  toKpiValues,
+} from '@/lib/kpi';
+import type { ExchangeRate } from '@/lib/types/currency';
+import { EMPTY_DASHBOARD_FILTERS, type DashboardFilterOption, type DashboardFilters } from '@/lib/types/dashboard-filters';
+import { DEFAULT_COMPARISON_PERIOD, type ComparisonPeriod, type KpiValues } from '@/lib/types/kpi';
 
 // --- Types for Dashboard Stats ---
 export interface DashboardStats {
@@ -12,6 +27,7 @@ export interface DashboardStats {
   customersChange: string;
   completionRate: number;
   completionChange: string;
+  unconvertedBookings: number; // foreign-currency bookings left out of totalRevenue for lack of a rate
 }
 
 export interface TourBookingsStats {
@@ -40,53 +56,93 @@ export interface PaymentsStats {
   completedAmount: number;
   pendingAmount: number;
   failedAmount: number;
+  unconvertedBookings: number;
+}
+
+// Attach each booking's grand total in BASE_CURRENCY (null when no rate covers it)
+function withBaseTotals<T extends Parameters<typeof bookingTotalInBase>[0]>(
+  bookings: T[] | null,
+  rates: ExchangeRate[]
+): (T & { baseTotal: number | null })[] {
+  return (bookings ?? []).map((booking) => ({ ...booking, baseTotal: bookingTotalInBase(booking, rates) }));
+}
+
+// KPI values from the latest snapshot at (or up to a week before) the comparison date.
+// Empty when the snapshot job hadn't run yet, so the changes show as "n/a". Snapshots hold
+// unfiltered totals, so filtered figures have nothing to compare against either.
+async function getComparisonValues(period: ComparisonPeriod, filters: DashboardFilters): Promise<Partial<KpiValues>> {
+  if (hasActiveFilters(filters)) return {};
+  const supabase = createSimpleServerClient();
+  const target = comparisonDate(businessDateKey(), period);
+
+  const { data: latest, error: latestError } = await supabase
+    .from('kpi_snapshots')
+    .select('snapshot_date')
+    .lte('snapshot_date', target)
+    .gte('snapshot_date', comparisonWindowStart(target))
+    .order('snapshot_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    console.error('Error fetching KPI snapshot date:', latestError);
+    return {};
+  }
+  if (!latest) return {};
+
+  const { data, error } = await supabase
+    .from('kpi_snapshots')
+    .select('metric, value')
+    .eq('snapshot_date', latest.snapshot_date);
+
+  if (error) {
+    console.error(`Error fetching KPI snapshot for ${latest.snapshot_date}:`, error);
+    return {};
+  }
+  return toKpiValues(data ?? []);
 }
 
 // --- GET DASHBOARD STATS ---
-export async function getDashboardStats(): Promise<DashboardStats> {
+export async function getDashboardStats(
+  filters: DashboardFilters = EMPTY_DASHBOARD_FILTERS,
+  period: ComparisonPeriod = DEFAULT_COMPARISON_PERIOD
+): Promise<DashboardStats> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   try {
     // Get tour package bookings for revenue and bookings stats
-    const { data: bookingsData, error: bookingsError } = await supabase
-      .from('tour_package_bookings')
-      .select('grand_total, status, customer_name, created_at');
+    const [{ data: bookingsRows, error: bookingsError }, rates, previous] = await Promise.all([
+      applyDashboardFilters(
+        supabase
+          .from('tour_package_bookings')
+          .select(KPI_BOOKING_COLUMNS),
+        filters
+      ),
+      getExchangeRates(),
+      getComparisonValues(period, filters),
+    ]);
 
     if (bookingsError) {
       console.error('Error fetching bookings data:', bookingsError);
     }
+    const bookingsData = withBaseTotals(bookingsRows, rates);
+    const unconvertedBookings = bookingsData.filter(b => b.baseTotal === null).length;
 
-    // Get unique customers count
-    const uniqueCustomers = new Set(bookingsData?.map(b => b.customer_name.toLowerCase().trim()) || []);
-    
-    // Calculate revenue
-    const totalRevenue = bookingsData?.reduce((sum, booking) => sum + (booking.grand_total || 0), 0) || 0;
-    
-    // Calculate active bookings (Open, Negotiating, Paid statuses)
-    const activeStatuses = ['Open', 'Negotiating', 'Paid (1st installment)', 'Paid (Full Payment)'];
-    const activeBookings = bookingsData?.filter(b => activeStatuses.includes(b.status)).length || 0;
-    
-    // Calculate completion rate (Complete status vs total)
-    const completedBookings = bookingsData?.filter(b => b.status === 'Complete').length || 0;
-    const totalBookings = bookingsData?.length || 0;
-    const completionRate = totalBookings > 0 ? (completedBookings / totalBookings) * 100 : 0;
-
-    // For now, set changes to 0% since we don't have historical data
-    // In the future, you can implement actual historical comparison
-    const revenueChange = "0%";
-    const bookingsChange = "0%";
-    const customersChange = "0%";
-    const completionChange = "0%";
+    // Same figures the daily snapshot stores, so the changes compare like with like
+    const kpis = computeBookingKpis(bookingsData);
 
     return {
-      totalRevenue,
-      revenueChange,
-      activeBookings,
-      bookingsChange,
-      totalCustomers: uniqueCustomers.size,
-      customersChange,
-      completionRate: Number(completionRate.toFixed(1)),
-      completionChange
+      totalRevenue: kpis.total_revenue,
+      revenueChange: formatKpiChange(kpis.total_revenue, previous.total_revenue),
+      activeBookings: kpis.active_bookings,
+      bookingsChange: formatKpiChange(kpis.active_bookings, previous.active_bookings),
+      totalCustomers: kpis.total_customers,
+      customersChange: formatKpiChange(kpis.total_customers, previous.total_customers),
+      completionRate: kpis.completion_rate,
+      completionChange: formatKpiChange(kpis.completion_rate, previous.completion_rate, 'points'),
+      unconvertedBookings
     };
 
   } catch (error) {
@@ -99,19 +155,31 @@ export async function getDashboardStats(): Promise<DashboardStats> {
       totalCustomers: 0,
       customersChange: "0%",
       completionRate: 0,
-      completionChange: "0%"
+      completionChange: "0%",
+      unconvertedBookings: 0
     };
   }
 }
 
 // --- GET TOUR BOOKINGS STATS ---
-export async function getTourBookingsStats(): Promise<TourBookingsStats> {
+export async function getTourBookingsStats(
+  filters: DashboardFilters = EMPTY_DASHBOARD_FILTERS,
+  period: ComparisonPeriod = DEFAULT_COMPARISON_PERIOD
+): Promise<TourBookingsStats> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   try {
-    const { data: bookingsData, error } = await supabase
-      .from('tour_package_bookings')
-      .select('status');
+    const [{ data: bookingsData, error }, previous] = await Promise.all([
+      applyDashboardFilters(
+        supabase
+          .from('tour_package_bookings')
+          .select('status'),
+        filters
+      ),
+      getComparisonValues(period, filters),
+    ]);
 
     if (error) {
       console.error('Error fetching tour bookings stats:', error);
@@ -132,7 +200,7 @@ export async function getTourBookingsStats(): Promise<TourBookingsStats> {
       confirmed,
       pending,
       cancelled,
-      change: "0%" // Set to 0% since we don't have historical data
+      change: formatKpiChange(total, previous.tour_bookings)
     };
 
   } catch (error) {
@@ -142,13 +210,24 @@ export async function getTourBookingsStats(): Promise<TourBookingsStats> {
 }
 
 // --- GET TOUR PACKAGES STATS ---
-export async function getTourPackagesStats(): Promise<TourPackagesStats> {
+export async function getTourPackagesStats(
+  filters: DashboardFilters = EMPTY_DASHBOARD_FILTERS,
+  period: ComparisonPeriod = DEFAULT_COMPARISON_PERIOD
+): Promise<TourPackagesStats> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   try {
-    const { data: productsData, error } = await supabase
+    let productsQuery = supabase
       .from('tour_products')
       .select('id, name, created_at');
+    if (filters.tourProductId) productsQuery = productsQuery.eq('id', filters.tourProductId);
+
+    const [{ data: productsData, error }, previous] = await Promise.all([
+      productsQuery,
+      getComparisonValues(period, filters),
+    ]);
 
     if (error) {
       console.error('Error fetching tour packages stats:', error);
@@ -157,10 +236,13 @@ export async function getTourPackagesStats(): Promise<TourPackagesStats> {
 
     const total = productsData?.length || 0;
     
-    // Check which products have bookings (active)
-    const { data: bookingsData } = await supabase
-      .from('tour_package_bookings')
-      .select('tour_product_id');
+    // Check which products have bookings (active) within the filters
+    const { data: bookingsData } = await applyDashboardFilters(
+      supabase
+        .from('tour_package_bookings')
+        .select('tour_product_id'),
+      filters
+    );
 
     const activeProductIds = new Set(bookingsData?.map(b => b.tour_product_id) || []);
     const active = productsData?.filter(p => activeProductIds.has(p.id)).length || 0;
@@ -174,7 +256,7 @@ export async function getTourPackagesStats(): Promise<TourPackagesStats> {
       active,
       draft,
       archived,
-      change: "0%" // Set to 0% since we don't have historical data
+      change: formatKpiChange(total, previous.tour_packages)
     };
 
   } catch (error) {
@@ -184,34 +266,41 @@ export async function getTourPackagesStats(): Promise<TourPackagesStats> {
 }
 
 // --- GET PAYMENTS STATS ---
-export async function getPaymentsStats(): Promise<PaymentsStats> {
+export async function getPaymentsStats(
+  filters: DashboardFilters = EMPTY_DASHBOARD_FILTERS,
+  period: ComparisonPeriod = DEFAULT_COMPARISON_PERIOD
+): Promise<PaymentsStats> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   try {
     // Get all tour package bookings with their payment status
-    const { data: bookingsData, error: bookingsError } = await supabase
-      .from('tour_package_bookings')
-      .select('grand_total, status');
+    const [{ data: bookingsRows, error: bookingsError }, rates, previous] = await Promise.all([
+      applyDashboardFilters(
+        supabase
+          .from('tour_package_bookings')
+          .select(KPI_BOOKING_COLUMNS),
+        filters
+      ),
+      getExchangeRates(),
+      getComparisonValues(period, filters),
+    ]);
 
     if (bookingsError) {
       console.error('Error fetching payments stats:', bookingsError);
     }
-
-    const totalAmount = bookingsData?.reduce((sum, booking) => sum + (booking.grand_total || 0), 0) || 0;
-    
-    // Calculate completed payments (bookings with Full Payment or Complete status)
-    const completedAmount = bookingsData?.filter(b => 
-      ['Paid (Full Payment)', 'Complete'].includes(b.status)
-    ).reduce((sum, booking) => sum + (booking.grand_total || 0), 0) || 0;
-
-    // Calculate pending payments (bookings with other statuses)
-    const pendingAmount = bookingsData?.filter(b => 
-      ['Open', 'Negotiating', 'Paid (1st installment)'].includes(b.status)
-    ).reduce((sum, booking) => sum + (booking.grand_total || 0), 0) || 0;
-
+    const bookingsData = withBaseTotals(bookingsRows, rates);
+    const unconvertedBookings = bookingsData.filter(b => b.baseTotal === null).length;
+    const kpis = computeBookingKpis(bookingsData);
+
+    const totalAmount = kpis.total_revenue;
+    // Completed payments: bookings paid in full or complete
+    const completedAmount = kpis.revenue_paid_full + kpis.revenue_complete;
+    // Pending payments: bookings still waiting on money
+    const pendingAmount = kpis.pending_amount;
     // Failed payments (closed bookings)
-    const failedAmount = bookingsData?.filter(b => b.status === 'Closed')
-      .reduce((sum, booking) => sum + (booking.grand_total || 0), 0) || 0;
+    const failedAmount = kpis.revenue_closed;
 
     // Format amounts
     const formatAmount = (amount: number): string => {
@@ -229,11 +318,12 @@ export async function getPaymentsStats(): Promise<PaymentsStats> {
       completed: formatAmount(completedAmount),
       pending: formatAmount(pendingAmount),
       failed: formatAmount(failedAmount),
-      change: "0%", // Set to 0% since we don't have historical data
+      change: formatKpiChange(totalAmount, previous.total_revenue),
       totalAmount,
       completedAmount,
       pendingAmount,
-      failedAmount
+      failedAmount,
+      unconvertedBookings
     };
 
   } catch (error) {
@@ -247,7 +337,30 @@ export async function getPaymentsStats(): Promise<PaymentsStats> {
       totalAmount: 0,
       completedAmount: 0,
       pendingAmount: 0,
-      failedAmount: 0
+      failedAmount: 0,
+      unconvertedBookings: 0
     };
   }
-} 
\ No newline at end of file
+}
+
+// Customers and tour packages offered by the dashboard filter bar
+export async function getDashboardFilterOptions(): Promise<{
+  customers: DashboardFilterOption[];
+  tourProducts: DashboardFilterOption[];
+}> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const [customersResult, productsResult] = await Promise.all([
+    supabase.from('customers').select('id, company_name').order('company_name', { ascending: true }),
+    supabase.from('tour_products').select('id, name').order('name', { ascending: true }),
+  ]);
+
+  if (customersResult.error || productsResult.error) {
+    console.error('Error fetching dashboard filter options:', customersResult.error ?? productsResult.error);
+  }
+  return {
+    customers: (customersResult.data ?? []).map((customer) => ({ id: customer.id, name: customer.company_name })),
+    tourProducts: (productsResult.data ?? []).map((product) => ({ id: product.id, name: product.name })),
+  };
+}
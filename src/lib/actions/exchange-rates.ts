@@ -0,0 +1,149 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
+import { parseExchangeRateCsv } from '@/lib/currency';
+import {
+  ExchangeRateFormSchema,
+  type ExchangeRate,
+  type ExchangeRateInput,
+  type ExchangeRateSource,
+} from '@/lib/types/currency';
+
+export type ExchangeRateFormState = {
+  message: string | null;
+  errors?: {
+    currency?: string[];
+    rate_date?: string[];
+    rate?: string[];
+  };
+};
+
+const EXCHANGE_RATE_COLUMNS = 'id, currency, rate_date, rate, source, created_by_email, created_at, updated_at';
+
+// Rows sharing a currency and date replace the earlier entry, so re-importing a sheet is safe
+async function upsertExchangeRates(
+  rates: ExchangeRateInput[],
+  source: ExchangeRateSource,
+  actor: { id: string; email: string | null }
+): Promise<string | null> {
+  const supabase = createSimpleServerClient();
+  const { error } = await supabase
+    .from('exchange_rates')
+    .upsert(
+      rates.map((rate) => ({
+        ...rate,
+        source,
+        created_by: actor.id,
+        created_by_email: actor.email,
+      })),
+      { onConflict: 'currency,rate_date' }
+    );
+
+  if (error) {
+    console.error('Supabase error saving exchange rates:', error);
+    return error.message;
+  }
+  return null;
+}
+
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select(EXCHANGE_RATE_COLUMNS)
+    .order('rate_date', { ascending: false })
+    .order('currency', { ascending: true });
+
+  if (error) {
+    console.error('Supabase error fetching exchange rates:', error);
+    return [];
+  }
+  return (data as ExchangeRate[]) ?? [];
+}
+
+export async function saveExchangeRate(
+  prevState: ExchangeRateFormState | undefined,
+  formData: FormData
+): Promise<ExchangeRateFormState> {
+  const user = await requireUser();
+
+  const access = await checkPermission('exchange-rates.manage');
+  if (!access.allowed) return { message: access.message };
+
+  const validatedFields = ExchangeRateFormSchema.safeParse({
+    currency: formData.get('currency'),
+    rate_date: formData.get('rate_date'),
+    rate: formData.get('rate'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      message: 'Validation failed',
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  const saveError = await upsertExchangeRates([validatedFields.data], 'manual', {
+    id: user.id,
+    email: user.email ?? null,
+  });
+  if (saveError) {
+    return { message: `Database Error: Failed to save exchange rate. ${saveError}` };
+  }
+
+  revalidatePath('/exchange-rates');
+  return { message: 'Successfully saved exchange rate' };
+}
+
+// Import a rate sheet (see parseExchangeRateCsv for the format). Nothing is saved if any line is invalid.
+export async function importExchangeRatesCsv(
+  csvText: string
+): Promise<{ success: boolean; message: string; errors?: string[] }> {
+  const user = await requireUser();
+
+  const access = await checkPermission('exchange-rates.manage');
+  if (!access.allowed) return { success: false, message: access.message };
+
+  const { rates, errors } = parseExchangeRateCsv(csvText ?? '');
+  if (errors.length > 0) {
+    return { success: false, message: 'Validation Error: The rate sheet has invalid lines.', errors };
+  }
+  if (rates.length === 0) {
+    return { success: false, message: 'Error: The rate sheet has no rates.' };
+  }
+
+  const saveError = await upsertExchangeRates(rates, 'csv', { id: user.id, email: user.email ?? null });
+  if (saveError) {
+    return { success: false, message: `Database Error: Failed to import exchange rates. ${saveError}` };
+  }
+
+  revalidatePath('/exchange-rates');
+  return { success: true, message: `Imported ${rates.length} exchange rate(s).` };
+}
+
+export async function deleteExchangeRate(id: string): Promise<{ message: string | null }> {
+  await requireUser();
+
+  if (!id) return { message: 'Error: Missing exchange rate ID for delete.' };
+
+  const access = await checkPermission('exchange-rates.manage');
+  if (!access.allowed) return { message: access.message };
+
+  const supabase = createSimpleServerClient();
+  const { error } = await supabase
+    .from('exchange_rates')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Supabase error deleting exchange rate:', error);
+    return { message: `Database Error: Failed to delete exchange rate. ${error.message}` };
+  }
+
+  revalidatePath('/exchange-rates');
+  return { message: 'Successfully deleted exchange rate' };
+}
@@ -0,0 +1,251 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
+import { getExchangeRates } from '@/lib/actions/exchange-rates';
+import { convertPaymentAmounts } from '@/lib/currency';
+import { buildInstallmentSchedule, matchPaymentsToInstallments } from '@/lib/installments';
+import type { ReconciliationPaymentInput } from '@/lib/reconciliation';
+import {
+  InstallmentScheduleFormSchema,
+  type DueInstallment,
+  type InstallmentScheduleFormValues,
+  type InstallmentWithMatch,
+  type PaymentInstallment,
+} from '@/lib/types/installments';
+import type { TourPackageStatus } from '@/lib/types/tours';
+import { BASE_CURRENCY, type CurrencyCode } from '@/lib/types/currency';
+
+const INSTALLMENT_COLUMNS = 'id, tour_package_booking_id, sequence, label, due_date, amount, created_at, updated_at';
+
+const PAYMENT_COLUMNS = `
+  id,
+  status_at_payment,
+  uploaded_at,
+  is_verified,
+  verified_amount,
+  verified_payment_date,
+  verification_error,
+  currency,
+  duplicate_of_payment_id,
+  duplicate_accepted_at
+`;
+
+// Bookings in these statuses no longer chase outstanding installments
+const SETTLED_STATUSES: TourPackageStatus[] = ['Complete', 'Closed'];
+
+interface ScheduleActionState {
+  success: boolean;
+  message: string;
+  errors?: Record<string, string[]>;
+}
+
+interface BookingWithInstallmentsRow {
+  id: string;
+  customer_name: string | null;
+  status: TourPackageStatus;
+  travel_start_date: string | null;
+  currency: CurrencyCode;
+  tour_products: { name: string } | null;
+  payment_installments: PaymentInstallment[] | null;
+  payments: ReconciliationPaymentInput[] | null;
+}
+
+const todayKey = (): string => new Date().toISOString().slice(0, 10);
+
+// Installment schedule for a booking with verified payments matched against it
+export async function getInstallmentSchedule(bookingId: string): Promise<InstallmentWithMatch[]> {
+  await requireUser();
+
+  if (!bookingId) return [];
+  const supabase = createSimpleServerClient();
+  const [installmentsResult, paymentsResult, bookingResult, rates] = await Promise.all([
+    supabase
+      .from('payment_installments')
+      .select(INSTALLMENT_COLUMNS)
+      .eq('tour_package_booking_id', bookingId)
+      .order('sequence', { ascending: true }),
+    supabase
+      .from('payments')
+      .select(PAYMENT_COLUMNS)
+      .eq('tour_package_booking_id', bookingId),
+    supabase
+      .from('tour_package_bookings')
+      .select('currency')
+      .eq('id', bookingId)
+      .maybeSingle(),
+    getExchangeRates(),
+  ]);
+
+  if (installmentsResult.error || paymentsResult.error) {
+    console.error(
+      `Supabase error fetching installment schedule for ${bookingId}:`,
+      installmentsResult.error ?? paymentsResult.error
+    );
+    return [];
+  }
+
+  return matchPaymentsToInstallments(
+    (installmentsResult.data as PaymentInstallment[]) ?? [],
+    convertPaymentAmounts(
+      (paymentsResult.data as ReconciliationPaymentInput[]) ?? [],
+      (bookingResult.data?.currency as CurrencyCode | undefined) ?? BASE_CURRENCY,
+      rates
+    ),
+    todayKey()
+  );
+}
+
+// Build a deposit + balance schedule from the booking's grand total and travel date, replacing any existing one
+export async function generateInstallmentSchedule(
+  bookingId: string,
+  settings: InstallmentScheduleFormValues
+): Promise<ScheduleActionState> {
+  await requireUser();
+
+  const validatedFields = InstallmentScheduleFormSchema.safeParse(settings);
+  if (!validatedFields.success) {
+    return {
+      success: false,
+      message: 'Validation Error: Please check the schedule settings.',
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  const supabase = createSimpleServerClient();
+  try {
+    const { data: booking, error: bookingError } = await supabase
+      .from('tour_package_bookings')
+      .select('id, grand_total, booking_date, travel_start_date')
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (bookingError) {
+      console.error(`Supabase error loading booking ${bookingId} for installments:`, bookingError);
+      return { success: false, message: `Database Error: ${bookingError.message}` };
+    }
+    if (!booking) {
+      return { success: false, message: 'Error: Booking not found.' };
+    }
+    if (!booking.grand_total || booking.grand_total <= 0) {
+      return { success: false, message: 'Error: Set a grand total on the booking before scheduling installments.' };
+    }
+    if (!booking.travel_start_date) {
+      return { success: false, message: 'Error: Set a travel start date on the booking before scheduling installments.' };
+    }
+
+    const schedule = buildInstallmentSchedule({
+      grandTotal: booking.grand_total,
+      depositPercent: validatedFields.data.deposit_percent,
+      balanceDueDaysBeforeTravel: validatedFields.data.balance_due_days_before_travel,
+      installmentCount: validatedFields.data.installment_count,
+      travelStartDate: booking.travel_start_date,
+      firstDueDate: booking.booking_date ?? todayKey(),
+    });
+
+    // Upsert by sequence first so a failure never leaves the booking without a schedule,
+    // then drop rows left over from a longer previous schedule
+    const { error: upsertError } = await supabase
+      .from('payment_installments')
+      .upsert(
+        schedule.map((installment) => ({ ...installment, tour_package_booking_id: bookingId })),
+        { onConflict: 'tour_package_booking_id,sequence' }
+      );
+    if (upsertError) {
+      console.error(`Supabase error saving installments for ${bookingId}:`, upsertError);
+      return { success: false, message: `Database Error: ${upsertError.message}` };
+    }
+
+    const { error: trimError } = await supabase
+      .from('payment_installments')
+      .delete()
+      .eq('tour_package_booking_id', bookingId)
+      .gt('sequence', schedule.length);
+    if (trimError) {
+      console.error(`Supabase error trimming installments for ${bookingId}:`, trimError);
+      return { success: false, message: `Database Error: ${trimError.message}` };
+    }
+
+    revalidatePath(`/tour-packages/${bookingId}`);
+    revalidatePath('/');
+    return { success: true, message: `Installment schedule saved (${schedule.length} installments).` };
+  } catch (error) {
+    console.error(`Unexpected error generating installments for ${bookingId}:`, error);
+    return { success: false, message: 'Error: An unexpected error occurred while saving the schedule.' };
+  }
+}
+
+export async function deleteInstallmentSchedule(bookingId: string): Promise<ScheduleActionState> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const { error } = await supabase
+    .from('payment_installments')
+    .delete()
+    .eq('tour_package_booking_id', bookingId);
+
+  if (error) {
+    console.error(`Supabase error deleting installments for ${bookingId}:`, error);
+    return { success: false, message: `Database Error: ${error.message}` };
+  }
+
+  revalidatePath(`/tour-packages/${bookingId}`);
+  revalidatePath('/');
+  return { success: true, message: 'Installment schedule removed.' };
+}
+
+// Unpaid installments due on or before the given date (yyyy-MM-dd) across open bookings,
+// optionally for a single customer
+export async function getDueInstallments(throughDate: string, customerId: string | null = null): Promise<DueInstallment[]> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  // Later installments are filtered out of the embed; payments fill installments in due order,
+  // so the ones that remain are matched exactly as they would be against the full schedule
+  let query = supabase
+    .from('tour_package_bookings')
+    .select(`
+      id, customer_name, status, travel_start_date, currency,
+      tour_products ( name ),
+      payment_installments!inner ( ${INSTALLMENT_COLUMNS} ),
+      payments!fk_tour_package_booking ( ${PAYMENT_COLUMNS} )
+    `)
+    .lte('payment_installments.due_date', throughDate);
+
+  SETTLED_STATUSES.forEach((status) => {
+    query = query.neq('status', status);
+  });
+  if (customerId) query = query.eq('customer_id', customerId);
+
+  const [{ data, error }, rates] = await Promise.all([query, getExchangeRates()]);
+  if (error) {
+    console.error('Supabase error fetching due installments:', error);
+    return [];
+  }
+
+  const today = todayKey();
+  return ((data as unknown as BookingWithInstallmentsRow[]) ?? [])
+    .flatMap((booking) =>
+      matchPaymentsToInstallments(
+        booking.payment_installments ?? [],
+        convertPaymentAmounts(booking.payments ?? [], booking.currency, rates),
+        today
+      )
+        .filter((installment) => installment.status !== 'paid')
+        .map((installment): DueInstallment => ({
+          id: installment.id as string,
+          tour_package_booking_id: booking.id,
+          customer_name: booking.customer_name,
+          package_name: booking.tour_products?.name ?? null,
+          travel_start_date: booking.travel_start_date,
+          label: installment.label,
+          due_date: installment.due_date,
+          currency: booking.currency,
+          amount: installment.amount,
+          outstanding: installment.outstanding,
+          status: installment.status,
+        }))
+    )
+    .sort((a, b) => a.due_date.localeCompare(b.due_date));
+}
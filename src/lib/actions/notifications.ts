@@ -0,0 +1,152 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
+import { runScheduledReminders } from '@/lib/reminders';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferencesSchema,
+  type AppNotification,
+  type NotificationPreferences,
+} from '@/lib/types/notifications';
+
+export type NotificationPreferencesFormState = {
+  message: string | null;
+  errors?: {
+    email_enabled?: string[];
+    booking_deadline_lead_days?: string[];
+    task_lead_days?: string[];
+    follow_up_lead_days?: string[];
+  };
+};
+
+const NOTIFICATION_COLUMNS = 'id, user_id, kind, source_id, due_date, title, body, link, dedupe_key, created_at, read_at, emailed_at';
+
+export async function getMyNotifications(limit = 100): Promise<AppNotification[]> {
+  const user = await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .order('due_date', { ascending: true })
+    .limit(limit)
+    .returns<AppNotification[]>();
+
+  if (error) {
+    console.error(`Supabase error fetching notifications for ${user.id}:`, error);
+    return [];
+  }
+  return data ?? [];
+}
+
+export async function getUnreadNotificationCount(): Promise<number> {
+  const user = await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+    .is('read_at', null);
+
+  if (error) {
+    console.error(`Supabase error counting notifications for ${user.id}:`, error);
+    return 0;
+  }
+  return count ?? 0;
+}
+
+// Marks one notification, or all of the user's unread ones when no id is given
+export async function markNotificationsRead(notificationId?: string): Promise<{ message: string }> {
+  const user = await requireUser();
+
+  const supabase = createSimpleServerClient();
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .is('read_at', null);
+  if (notificationId) query = query.eq('id', notificationId);
+  const { error } = await query;
+
+  if (error) {
+    console.error(`Supabase error marking notifications read for ${user.id}:`, error);
+    return { message: `Database Error: Failed to update notifications. ${error.message}` };
+  }
+
+  revalidatePath('/notifications');
+  return { message: notificationId ? 'Successfully marked notification as read' : 'Successfully marked all notifications as read' };
+}
+
+export async function getMyNotificationPreferences(): Promise<NotificationPreferences> {
+  const user = await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('email_enabled, booking_deadline_lead_days, task_lead_days, follow_up_lead_days')
+    .eq('user_id', user.id)
+    .maybeSingle<NotificationPreferences>();
+
+  if (error) {
+    console.error(`Supabase error fetching notification preferences for ${user.id}:`, error);
+  }
+  return data ?? DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+export async function saveNotificationPreferences(
+  prevState: NotificationPreferencesFormState | undefined,
+  formData: FormData
+): Promise<NotificationPreferencesFormState> {
+  const user = await requireUser();
+
+  const validatedFields = NotificationPreferencesSchema.safeParse({
+    email_enabled: formData.get('email_enabled') === 'true',
+    booking_deadline_lead_days: formData.get('booking_deadline_lead_days'),
+    task_lead_days: formData.get('task_lead_days'),
+    follow_up_lead_days: formData.get('follow_up_lead_days'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      message: 'Validation failed',
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  const supabase = createSimpleServerClient();
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: user.id, ...validatedFields.data }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error(`Supabase error saving notification preferences for ${user.id}:`, error);
+    return { message: `Database Error: Failed to save reminder settings. ${error.message}` };
+  }
+
+  revalidatePath('/notifications');
+  return { message: 'Successfully saved reminder settings' };
+}
+
+// Runs the scheduled job straight away, e.g. after changing the rules or lead times
+export async function runRemindersNow(): Promise<{ message: string }> {
+  await requireUser();
+
+  const access = await checkPermission('reminders.run');
+  if (!access.allowed) return { message: access.message };
+
+  try {
+    const summary = await runScheduledReminders();
+    revalidatePath('/notifications');
+    return {
+      message: `Successfully ran reminders: ${summary.notificationsCreated} new notification(s), ${summary.digestsSent} digest email(s) sent${summary.digestsFailed ? `, ${summary.digestsFailed} failed` : ''}.`,
+    };
+  } catch (error) {
+    console.error('[reminders] Manual run failed:', error);
+    return { message: `Error: Reminder run failed. ${error instanceof Error ? error.message : ''}`.trim() };
+  }
+}
@@ -0,0 +1,47 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@supabase/supabase-js';
+import { checkPermission, getCurrentProfile, requireUser } from '@/lib/supabase/current-user';
+import { UserRoleEnum, type UserProfile, type UserRole } from '@/lib/types/profiles';
+
+export async function getMyProfile(): Promise<UserProfile | null> {
+  await requireUser();
+
+  return getCurrentProfile();
+}
+
+export async function updateUserRole(
+  userId: string,
+  role: UserRole
+): Promise<{ message: string }> {
+  await requireUser();
+
+  const access = await checkPermission('profiles.manage');
+  if (!access.allowed) return { message: access.message };
+
+  const parsedRole = UserRoleEnum.safeParse(role);
+  if (!userId || !parsedRole.success) {
+    return { message: 'Error: Invalid user or role.' };
+  }
+
+  // Clients have no write access to profiles; the role is set with the service role
+  // once the caller has been checked as an admin above
+  const supabaseAdmin = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  );
+  const { error } = await supabaseAdmin
+    .from('profiles')
+    .update({ role: parsedRole.data })
+    .eq('id', userId);
+
+  if (error) {
+    console.error(`Supabase error updating role for ${userId}:`, error);
+    return { message: `Database Error: Failed to update role. ${error.message}` };
+  }
+
+  revalidatePath('/');
+  return { message: 'Successfully updated role.' };
+}
@@ -0,0 +1,104 @@
+'use server';
+
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
+import { getExchangeRates } from '@/lib/actions/exchange-rates';
+import { reconcileTourBooking, type ReconciliationPaymentInput } from '@/lib/reconciliation';
+import type { CurrencyCode, ExchangeRate } from '@/lib/types/currency';
+import type { BookingReconciliation } from '@/lib/types/reconciliation';
+import type { TourPackageStatus } from '@/lib/types/tours';
+
+const PAYMENT_COLUMNS = `
+  id,
+  status_at_payment,
+  uploaded_at,
+  is_verified,
+  verified_amount,
+  verified_payment_date,
+  verification_error,
+  currency,
+  duplicate_of_payment_id,
+  duplicate_accepted_at
+`;
+
+interface BookingWithPaymentsRow {
+  id: string;
+  customer_name: string | null;
+  status: TourPackageStatus;
+  booking_date: string | null;
+  grand_total: number | null;
+  currency: CurrencyCode;
+  tour_products: { name: string } | null;
+  payments: ReconciliationPaymentInput[] | null;
+}
+
+function toReconciliation(row: BookingWithPaymentsRow, rates: ExchangeRate[]): BookingReconciliation {
+  return reconcileTourBooking(
+    {
+      id: row.id,
+      customer_name: row.customer_name,
+      package_name: row.tour_products?.name ?? null,
+      status: row.status,
+      booking_date: row.booking_date,
+      grand_total: row.grand_total,
+      currency: row.currency,
+    },
+    row.payments ?? [],
+    rates
+  );
+}
+
+export async function getBookingReconciliation(bookingId: string): Promise<BookingReconciliation | null> {
+  await requireUser();
+
+  if (!bookingId) return null;
+  const supabase = createSimpleServerClient();
+  const [{ data, error }, rates] = await Promise.all([
+    supabase
+      .from('tour_package_bookings')
+      .select(`
+        id, customer_name, status, booking_date, grand_total, currency,
+        tour_products ( name ),
+        payments!fk_tour_package_booking ( ${PAYMENT_COLUMNS} )
+      `)
+      .eq('id', bookingId)
+      .maybeSingle(),
+    getExchangeRates(),
+  ]);
+
+  if (error) {
+    console.error(`Supabase error reconciling tour booking ${bookingId}:`, error);
+    return null;
+  }
+  return data ? toReconciliation(data as unknown as BookingWithPaymentsRow, rates) : null;
+}
+
+// Reconciliation for every open booking that has payments or is marked as paid
+export async function getReconciliationOverview(): Promise<BookingReconciliation[]> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const [{ data, error }, rates] = await Promise.all([
+    supabase
+      .from('tour_package_bookings')
+      .select(`
+        id, customer_name, status, booking_date, grand_total, currency,
+        tour_products ( name ),
+        payments!fk_tour_package_booking ( ${PAYMENT_COLUMNS} )
+      `)
+      .neq('status', 'Closed')
+      .order('booking_date', { ascending: false }),
+    getExchangeRates(),
+  ]);
+
+  if (error) {
+    console.error('Supabase error fetching reconciliation overview:', error);
+    return [];
+  }
+
+  return ((data as unknown as BookingWithPaymentsRow[]) ?? [])
+    .map((row) => toReconciliation(row, rates))
+    .filter((item) =>
+      item.payments.length > 0 || item.flags.some((flag) => flag.code === 'status_ahead_of_payments')
+    );
+}
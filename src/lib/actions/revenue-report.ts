@@ -0,0 +1,84 @@
+'use server';
+
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
+import { getExchangeRates } from '@/lib/actions/exchange-rates';
+import type { ReconciliationPaymentInput } from '@/lib/reconciliation';
+import { buildRevenueReport, type RevenueBookingInput } from '@/lib/revenue';
+import type { CurrencyCode } from '@/lib/types/currency';
+import type { PaymentInstallment } from '@/lib/types/installments';
+import type { RevenueReport } from '@/lib/types/revenue';
+import type { TourPackageStatus } from '@/lib/types/tours';
+
+const PAYMENT_COLUMNS = `
+  id,
+  status_at_payment,
+  uploaded_at,
+  is_verified,
+  verified_amount,
+  verified_payment_date,
+  verification_error,
+  currency,
+  duplicate_of_payment_id,
+  duplicate_accepted_at
+`;
+
+interface RevenueBookingRow {
+  id: string;
+  status: TourPackageStatus;
+  tour_product_id: string;
+  customer_id: string | null;
+  customer_name: string;
+  currency: CurrencyCode;
+  grand_total: number | null;
+  booking_date: string | null;
+  created_at: string;
+  travel_start_date: string | null;
+  travel_end_date: string | null;
+  tour_products: { name: string } | null;
+  payments: ReconciliationPaymentInput[] | null;
+  payment_installments: Pick<PaymentInstallment, 'id' | 'sequence' | 'label' | 'due_date' | 'amount'>[] | null;
+}
+
+// Booked value, cash received and recognised revenue for a calendar year, plus the forward
+// cash-flow forecast from unpaid installments
+export async function getRevenueReport(year: number): Promise<RevenueReport> {
+  await requireUser();
+
+  const supabase = createSimpleServerClient();
+  const [{ data, error }, rates] = await Promise.all([
+    supabase
+      .from('tour_package_bookings')
+      .select(`
+        id, status, tour_product_id, customer_id, customer_name, currency, grand_total,
+        booking_date, created_at, travel_start_date, travel_end_date,
+        tour_products ( name ),
+        payments!fk_tour_package_booking ( ${PAYMENT_COLUMNS} ),
+        payment_installments ( id, sequence, label, due_date, amount )
+      `),
+    getExchangeRates(),
+  ]);
+
+  if (error) {
+    console.error('Supabase error fetching bookings for the revenue report:', error);
+  }
+
+  const bookings = ((data as unknown as RevenueBookingRow[]) ?? []).map((row): RevenueBookingInput => ({
+    id: row.id,
+    status: row.status,
+    tour_product_id: row.tour_product_id,
+    package_name: row.tour_products?.name ?? null,
+    customer_id: row.customer_id,
+    customer_name: row.customer_name,
+    currency: row.currency,
+    grand_total: row.grand_total,
+    booking_date: row.booking_date,
+    created_at: row.created_at,
+    travel_start_date: row.travel_start_date,
+    travel_end_date: row.travel_end_date,
+    payments: row.payments ?? [],
+    installments: row.payment_installments ?? [],
+  }));
+
+  return buildRevenueReport(bookings, rates, year, new Date().toISOString().slice(0, 10));
+}
@@ -0,0 +1,180 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
+import { formatItineraryRoute } from '@/lib/itinerary';
+import { DEFAULT_UNDERUSED_BLOCK_OPTIONS, findUnderusedBlocks } from '@/lib/seat-inventory';
+import {
+  SeatChangeSchema,
+  type BookingSeatInventory,
+  type InventoryBlock,
+  type SeatInventoryChange,
+  type SectorInventory,
+  type UnderusedBlock,
+} from '@/lib/types/seat-inventory';
+
+export type SeatChangeFormState = {
+  message: string | null;
+  errors?: {
+    change_type?: string[];
+    seats?: string[];
+    note?: string[];
+  };
+};
+
+interface InventorySectorRow {
+  id: string;
+  travel_date: string | null;
+  num_pax: number | null;
+  seats_released: number | null;
+  seats_ticketed: number | null;
+  predefined_sectors: { origin_code: string; destination_code: string } | null;
+  booking_passenger_sectors: { count: number }[] | null;
+}
+
+interface InventoryBookingRow {
+  id: string;
+  booking_reference: string | null;
+  deadline: string | null;
+  customers: { company_name: string } | null;
+  booking_sectors: InventorySectorRow[] | null;
+}
+
+const INVENTORY_SECTOR_COLUMNS = `
+  id, travel_date, num_pax, seats_released, seats_ticketed,
+  predefined_sectors ( origin_code, destination_code ),
+  booking_passenger_sectors ( count )
+`;
+const CHANGE_COLUMNS =
+  'id, booking_sector_id, change_type, seats, seats_held_after, note, changed_by_email, changed_at';
+
+function toSectorInventory(sector: InventorySectorRow): SectorInventory {
+  return {
+    id: sector.id,
+    label: `${sector.predefined_sectors?.origin_code ?? '?'}-${sector.predefined_sectors?.destination_code ?? '?'}`,
+    travel_date: sector.travel_date?.slice(0, 10) ?? null,
+    held: sector.num_pax ?? 0,
+    named: sector.booking_passenger_sectors?.[0]?.count ?? 0,
+    released: sector.seats_released ?? 0,
+    ticketed: sector.seats_ticketed ?? 0,
+  };
+}
+
+export async function getBookingSeatInventory(bookingId: string): Promise<BookingSeatInventory | null> {
+  await requireUser();
+
+  if (!bookingId) return null;
+
+  const supabase = createSimpleServerClient();
+  const [bookingResult, sectorsResult, changesResult] = await Promise.all([
+    supabase.from('bookings').select('id, deadline').eq('id', bookingId).maybeSingle(),
+    supabase
+      .from('booking_sectors')
+      .select(INVENTORY_SECTOR_COLUMNS)
+      .eq('booking_id', bookingId)
+      .order('sector_order', { ascending: true })
+      .order('created_at', { ascending: true })
+      .returns<InventorySectorRow[]>(),
+    supabase
+      .from('booking_sector_inventory_changes')
+      .select(CHANGE_COLUMNS)
+      .eq('booking_id', bookingId)
+      .order('changed_at', { ascending: false })
+      .returns<SeatInventoryChange[]>(),
+  ]);
+
+  const error = bookingResult.error || sectorsResult.error || changesResult.error;
+  if (error) {
+    console.error(`Supabase error fetching seat inventory for booking ${bookingId}:`, error);
+    return null;
+  }
+  if (!bookingResult.data) return null;
+
+  return {
+    sectors: (sectorsResult.data ?? []).map(toSectorInventory),
+    changes: changesResult.data ?? [],
+    deadline: bookingResult.data.deadline ?? null,
+  };
+}
+
+// Adds, releases or tickets seats on one sector (see record_sector_inventory_change)
+export async function recordSeatChange(
+  bookingSectorId: string,
+  prevState: SeatChangeFormState | undefined,
+  formData: FormData
+): Promise<SeatChangeFormState> {
+  const user = await requireUser();
+
+  if (!bookingSectorId) return { message: 'Error: Missing sector ID for seat change.' };
+
+  const validatedFields = SeatChangeSchema.safeParse({
+    change_type: formData.get('change_type'),
+    seats: formData.get('seats'),
+    note: formData.get('note') || null,
+  });
+
+  if (!validatedFields.success) {
+    return {
+      message: 'Validation failed',
+      errors: validatedFields.error.flatten().fieldErrors,
+    };
+  }
+
+  const { change_type, seats, note } = validatedFields.data;
+  const supabase = createSimpleServerClient();
+  const { error } = await supabase.rpc('record_sector_inventory_change', {
+    p_booking_sector_id: bookingSectorId,
+    p_change_type: change_type,
+    p_seats: seats,
+    p_note: note ?? null,
+    p_actor_id: user.id,
+    p_actor_email: user.email ?? null,
+  });
+
+  if (error) {
+    console.error(`Supabase error recording seat change for sector ${bookingSectorId}:`, error);
+    if (error.hint === 'seats') return { message: 'Validation failed', errors: { seats: [error.message] } };
+    return { message: `Database Error: Failed to record seat change. ${error.message}` };
+  }
+
+  revalidatePath('/bookings/inventory');
+  return { message: 'Successfully recorded seat change' };
+}
+
+// Open blocks whose deadline is close and that still hold seats without names or tickets
+export async function getUnderusedBlocks(
+  withinDays: number = DEFAULT_UNDERUSED_BLOCK_OPTIONS.withinDays
+): Promise<UnderusedBlock[]> {
+  await requireUser();
+
+  const today = new Date().toISOString().slice(0, 10);
+  const until = new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('bookings')
+    .select(`id, booking_reference, deadline, customers ( company_name ), booking_sectors ( ${INVENTORY_SECTOR_COLUMNS} )`)
+    .gte('deadline', today)
+    .lte('deadline', until)
+    .not('status', 'in', '("Cancelled","Ticketed")')
+    .order('sector_order', { referencedTable: 'booking_sectors', ascending: true })
+    .order('created_at', { referencedTable: 'booking_sectors', ascending: true })
+    .returns<InventoryBookingRow[]>();
+
+  if (error) {
+    console.error('Supabase error fetching blocks for the inventory report:', error);
+    return [];
+  }
+
+  const blocks: InventoryBlock[] = (data ?? []).map((booking) => ({
+    booking_id: booking.id,
+    booking_reference: booking.booking_reference,
+    customer_name: booking.customers?.company_name ?? null,
+    deadline: booking.deadline,
+    route: formatItineraryRoute((booking.booking_sectors ?? []).map((sector) => sector.predefined_sectors)),
+    sectors: (booking.booking_sectors ?? []).map(toSectorInventory),
+  }));
+
+  return findUnderusedBlocks(blocks, today, { ...DEFAULT_UNDERUSED_BLOCK_OPTIONS, withinDays });
+}
@@ -2,6 +2,7 @@
 
 import { z } from 'zod';
 import { createSimpleServerClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/current-user';
 import { revalidatePath } from 'next/cache';
 import type { TourPackageStatus } from '@/lib/types/tours'; // Added direct import
 
@@ -34,6 +35,8 @@ export async function createTask(
   prevState: TaskActionState | undefined, // For potential useFormState, though direct call is often simpler
   formData: FormData
 ): Promise<TaskActionState> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   // 1. Prepare data for validation
@@ -116,6 +119,8 @@ export async function getTasks(options?: {
     sortBy?: string;
     ascending?: boolean;
 }): Promise<TaskWithBookingInfo[]> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   const { sortBy = 'due_date', ascending = true } = options || {};
 
@@ -153,6 +158,8 @@ export async function getTasks(options?: {
 
 // --- GET TASK BY ID --- (Fetch a single task for editing)
 export async function getTaskById(id: number): Promise<TaskWithBookingInfo | null> {
+  await requireUser();
+
   if (!id) return null;
   const supabase = createSimpleServerClient();
   const { data, error } = await supabase
@@ -181,6 +188,8 @@ export async function updateTask(
   taskId: number,
   formData: FormData
 ): Promise<TaskActionState> {
+  await requireUser();
+
   if (!taskId) {
     return { message: 'Error: Missing Task ID for update.' };
   }
@@ -254,6 +263,8 @@ export async function updateTask(
 
 // --- DELETE TASK ---
 export async function deleteTask(taskId: number): Promise<{ message: string }> {
+  await requireUser();
+
   if (!taskId) {
     return { message: "Error: Missing Task ID for deletion." };
   }
@@ -287,6 +298,8 @@ export async function getPaginatedTourBookingsForLinking(
   pageSize: number = 10,
   searchTerm?: string | null
 ): Promise<{ bookings: LinkedTourBookingSelectItem[]; totalCount: number; error?: string }> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   const offset = (page - 1) * pageSize;
 
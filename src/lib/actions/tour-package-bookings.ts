@@ -2,7 +2,7 @@
 
 import { revalidatePath } from 'next/cache';
 import { createSimpleServerClient } from '@/lib/supabase/server';
-import { createClient } from '@supabase/supabase-js'; // <-- Import base client creator
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'; // <-- Import base client creator
 import { 
   TourPackageBookingSchema, 
   type TourPackageBooking, 
@@ -11,12 +11,23 @@ import {
   type PaymentRecord, 
   TourPackageStatusEnum,
   type LinkedBookingInfo,
-  type TourPackageStatus 
+  type TourPackageStatus,
+  type PaymentDuplicateMatch
 } from '@/lib/types/tours';
 import crypto from 'crypto'; // Import crypto for random bytes
 import { z } from 'zod';
-import { Mistral } from '@mistralai/mistralai'; // <-- Import Mistral
-import path from 'path'; // Import path for getting extension
+import { recordAuditEntry } from '@/lib/audit-log';
+import { getOcrProvider, type OcrResult } from '@/lib/ocr';
+import { hashSlipContent, runPaymentSlipVerification, type PaymentVerificationStore } from '@/lib/ocr/verify-payment-slip';
+import { isSuspectedDuplicate, matchesVerifiedFields, verifiedFieldsSearchRange } from '@/lib/payment-duplicates';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
+import { BASE_CURRENCY } from '@/lib/types/currency';
+import { parseCurrencyCode } from '@/lib/currency';
+import { getTravelDateRange } from '@/lib/itinerary';
+import { checkTourStatusTransition } from '@/lib/tour-status';
+import { recordTourStatusAttempt } from '@/lib/tour-status-log';
+import type { TourStatusDecision } from '@/lib/types/tour-status';
+import { getBookingReconciliation } from '@/lib/actions/reconciliation';
 // import { toast } from 'react-hot-toast'; // <-- REMOVE: Cannot use client-side toast in server action
 // import type { FormState } from '@/app/tour-packages/components/tour-package-booking-form'; // REMOVED: Interface exists in file
 
@@ -42,10 +53,46 @@ function generateAlphanumericId(length: number): string {
   return result;
 }
 
+// --- Audit helper: current values of the audited columns ---
+const TOUR_BOOKING_AUDIT_COLUMNS = 'status, customer_id, customer_name, tour_product_id, base_price_per_pax, pax, addons, grand_total, currency, booking_date, travel_start_date, travel_end_date, notes';
+
+async function getTourBookingAuditSnapshot(id: string): Promise<Record<string, unknown> | null> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('tour_package_bookings')
+    .select(TOUR_BOOKING_AUDIT_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching audit snapshot for tour booking ${id}:`, error);
+    return null;
+  }
+  return data;
+}
+
+// Bookings keep the customer's company name as their printed name
+async function getCustomerCompanyName(customerId: string): Promise<string | null> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('customers')
+    .select('company_name')
+    .eq('id', customerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching customer ${customerId}:`, error);
+    return null;
+  }
+  return data?.company_name ?? null;
+}
+
 // --- CREATE ---
 export async function createTourPackageBooking(
   formData: FormData
 ): Promise<FormState> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   // 1. Prepare data for validation
@@ -86,6 +133,7 @@ export async function createTourPackageBooking(
       // Coerce numbers and dates
       base_price_per_pax: rawBasePrice === null || rawBasePrice === undefined || rawBasePrice === '' ? null : Number(rawBasePrice),
       pax: rawPax === null || rawPax === undefined || rawPax === '' ? null : Number(rawPax),
+      currency: otherRawData.currency || BASE_CURRENCY,
       booking_date: otherRawData.booking_date ? new Date(otherRawData.booking_date as string) : null,
       travel_start_date: otherRawData.travel_start_date ? new Date(otherRawData.travel_start_date as string) : null,
       travel_end_date: otherRawData.travel_end_date ? new Date(otherRawData.travel_end_date as string) : null,
@@ -107,11 +155,28 @@ export async function createTourPackageBooking(
 
   // Destructure validated data (including base_price_per_pax and addons)
   const { 
-    customer_name, tour_product_id, base_price_per_pax, addons, pax, status, 
+    customer_id, tour_product_id, base_price_per_pax, addons, pax, status, currency,
     booking_date, travel_start_date, travel_end_date, notes, 
     linked_booking_id
   } = validatedFields.data;
 
+  const customer_name = await getCustomerCompanyName(customer_id);
+  if (!customer_name) {
+    return { message: 'Validation failed. Please check the fields.', errors: { customer_id: ['Selected customer was not found.'] } };
+  }
+
+  // New bookings have nothing to record a refused attempt against, so only the check applies here
+  const initialStatus = checkTourStatusTransition(null, status, {
+    grandTotal: null,
+    currency,
+    verifiedPaidToDate: 0,
+    travelEndDate: null,
+    today: new Date().toISOString().slice(0, 10),
+  });
+  if (!initialStatus.allowed) {
+    return { message: 'Status change not allowed', errors: { status: [initialStatus.message] } };
+  }
+
   // --- Server-side Calculation --- 
   const addonsTotal = addons.reduce((sum, item) => sum + item.amount, 0);
   const baseSubtotal = (base_price_per_pax ?? 0) * pax;
@@ -138,11 +203,13 @@ export async function createTourPackageBooking(
   // 3. Prepare data for Supabase (including calculated totals and addons)
   const dataToInsert = {
       id: uniqueId,
+      customer_id,
       customer_name,
       tour_product_id,
       base_price_per_pax: base_price_per_pax ?? 0, // Default null base price to 0
       pax,
       status,
+      currency,
       addons, // Pass the parsed addons array
       total_per_pax: totalPerPax,
       grand_total: grandTotal,
@@ -168,6 +235,8 @@ export async function createTourPackageBooking(
     }
 
     console.log(`Tour booking ${uniqueId} created successfully.`);
+    await recordAuditEntry({ entityType: 'tour_package_booking', entityId: uniqueId, action: 'created', after: dataToInsert });
+    await recordTourStatusAttempt(uniqueId, null, status, initialStatus);
 
   } catch (error) {
     console.error('Unexpected Error:', error);
@@ -185,6 +254,8 @@ export async function updateTourPackageBooking(
   id: string,
   formData: FormData
 ): Promise<FormState> {
+  await requireUser();
+
   // Log the ID received by the function immediately
   console.log(`[updateTourPackageBooking] Received ID: ${id}, Type: ${typeof id}`); 
   if (!id || typeof id !== 'string') { // Add stricter check for ID
@@ -227,6 +298,7 @@ export async function updateTourPackageBooking(
       addons: parsedAddons,
       base_price_per_pax: rawBasePrice === null || rawBasePrice === undefined || rawBasePrice === '' ? null : Number(rawBasePrice),
       pax: rawPax === null || rawPax === undefined || rawPax === '' ? null : Number(rawPax),
+      currency: otherRawData.currency || BASE_CURRENCY,
       booking_date: otherRawData.booking_date ? new Date(otherRawData.booking_date as string) : null,
       travel_start_date: otherRawData.travel_start_date ? new Date(otherRawData.travel_start_date as string) : null,
       travel_end_date: otherRawData.travel_end_date ? new Date(otherRawData.travel_end_date as string) : null,
@@ -249,12 +321,13 @@ export async function updateTourPackageBooking(
   // Destructure validated data
   const { 
       // Restore all fields
-      customer_name, 
+      customer_id, 
       tour_product_id, 
       base_price_per_pax, 
       addons, 
       pax, 
       status, 
+      currency,
       booking_date, 
       travel_start_date, 
       travel_end_date, 
@@ -262,6 +335,11 @@ export async function updateTourPackageBooking(
       linked_booking_id
   } = validatedFields.data;
 
+  const customer_name = await getCustomerCompanyName(customer_id);
+  if (!customer_name) {
+    return { message: 'Validation failed. Please check the fields.', errors: { customer_id: ['Selected customer was not found.'] } };
+  }
+
   // --- Server-side Calculation (Restore) --- 
   const addonsTotal = addons.reduce((sum, item) => sum + item.amount, 0);
   const baseSubtotal = (base_price_per_pax ?? 0) * pax;
@@ -271,13 +349,35 @@ export async function updateTourPackageBooking(
   const totalPerPax = (base_price_per_pax ?? 0);
   // --- End Calculation ---
 
+  // Status changes must follow the transition graph and pass its guards; every attempt is logged
+  const before = await getTourBookingAuditSnapshot(id);
+  const currentStatus = (before?.status as TourPackageStatus | undefined) ?? null;
+  let statusDecision: TourStatusDecision | null = null;
+  if (currentStatus && currentStatus !== status) {
+    const reconciliation = await getBookingReconciliation(id);
+    statusDecision = checkTourStatusTransition(currentStatus, status, {
+      // Paid-to-date is in the saved currency, so a currency switch in this save compares against the saved total
+      grandTotal: !reconciliation || reconciliation.currency === currency ? grandTotal : reconciliation.grand_total,
+      currency: reconciliation?.currency ?? currency,
+      verifiedPaidToDate: reconciliation?.paid_to_date ?? 0,
+      travelEndDate: travel_end_date?.toISOString() ?? null,
+      today: new Date().toISOString().slice(0, 10),
+    });
+    if (!statusDecision.allowed) {
+      await recordTourStatusAttempt(id, currentStatus, status, statusDecision);
+      return { message: 'Status change not allowed', errors: { status: [statusDecision.message] } };
+    }
+  }
+
   // 2. Prepare data for Supabase update (Restore all fields)
   const dataToUpdate = {
+      customer_id,
       customer_name,
       tour_product_id,
       base_price_per_pax: base_price_per_pax ?? 0,
       pax,
       status,
+      currency,
       addons,
       total_per_pax: totalPerPax,
       grand_total: grandTotal,
@@ -309,6 +409,8 @@ export async function updateTourPackageBooking(
     // console.log(`Supabase update result for ${id}:`, updateResult);
     // Restore original success log
     console.log(`Tour booking ${id} updated successfully.`); 
+    await recordAuditEntry({ entityType: 'tour_package_booking', entityId: id, action: 'updated', before, after: dataToUpdate });
+    if (statusDecision) await recordTourStatusAttempt(id, currentStatus, status, statusDecision);
   } catch (error) {
     console.error('Unexpected Error:', error);
     return { message: 'Unexpected Error: Could not update tour booking.' };
@@ -328,12 +430,59 @@ const AddPaymentSchema = z.object({
     slipPath: z.string().min(1, { message: "Payment slip path cannot be empty." })
 });
 
+// Payment columns selected for duplicate lookups, with the booking's customer embedded
+type DuplicateCandidateRow = Pick<PaymentRecord, 'id' | 'tour_package_booking_id' | 'uploaded_at'> & {
+    tour_package_bookings: { customer_name: string | null } | null;
+};
+
+type VerifiedDuplicateCandidateRow = DuplicateCandidateRow &
+    Pick<PaymentRecord, 'verified_amount' | 'verified_payment_date' | 'verified_origin_bank'>;
+
+// Payments whose slip file has the given sha256 (service role: payments may sit behind RLS)
+async function findPaymentsBySlipHash(
+    supabaseAdmin: SupabaseClient,
+    slipHash: string
+): Promise<PaymentDuplicateMatch[]> {
+    const { data, error } = await supabaseAdmin
+        .from('payments')
+        .select('id, tour_package_booking_id, uploaded_at, tour_package_bookings!fk_tour_package_booking ( customer_name )')
+        .eq('slip_hash', slipHash)
+        .order('uploaded_at', { ascending: true });
+
+    if (error) {
+        console.error('[findPaymentsBySlipHash] Supabase error:', error);
+        return [];
+    }
+    return ((data as unknown as DuplicateCandidateRow[]) ?? []).map((row) => ({
+        payment_id: row.id,
+        tour_package_booking_id: row.tour_package_booking_id,
+        customer_name: row.tour_package_bookings?.customer_name ?? null,
+        uploaded_at: row.uploaded_at,
+        reason: 'content_hash' as const,
+    }));
+}
+
+// --- CHECK FOR DUPLICATE SLIPS (before upload) ---
+export async function findDuplicatePaymentSlips(slipHash: string): Promise<PaymentDuplicateMatch[]> {
+    await requireUser();
+
+    if (!/^[a-f0-9]{64}$/.test(slipHash)) return [];
+    const supabaseAdmin = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!,
+        { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+    return findPaymentsBySlipHash(supabaseAdmin, slipHash);
+}
+
 export async function addPaymentRecord(
     bookingId: string,
     status: string, 
-    slipPath: string
-): Promise<{ success: boolean; message: string; paymentId?: string }> {
-    
+    slipPath: string,
+    options: { acceptDuplicate?: boolean } = {}
+): Promise<{ success: boolean; message: string; paymentId?: string; duplicates?: PaymentDuplicateMatch[] }> {
+    const user = await requireUser();
+
     const validation = AddPaymentSchema.safeParse({ bookingId, status, slipPath });
 
     if (!validation.success) {
@@ -373,6 +522,30 @@ export async function addPaymentRecord(
         console.log(`[addPaymentRecord] Confirmed booking ${validation.data.bookingId} exists.`);
         // -------------------------------------------------------------
 
+        // Hash the stored file (not a client-supplied hash) and look for earlier uploads of it
+        const { data: slipBlob, error: downloadError } = await supabaseAdmin.storage
+            .from('payment-slips')
+            .download(validation.data.slipPath);
+
+        if (downloadError || !slipBlob) {
+            console.error('[addPaymentRecord] Could not read uploaded slip:', downloadError);
+            return { success: false, message: `Storage Error: Could not read uploaded slip. ${downloadError?.message ?? ''}` };
+        }
+
+        const slipHash = hashSlipContent(Buffer.from(await slipBlob.arrayBuffer()));
+        const duplicates = await findPaymentsBySlipHash(supabaseAdmin, slipHash);
+
+        if (duplicates.length > 0 && !options.acceptDuplicate) {
+            // Blocked: remove the file so the rejected upload doesn't linger in storage
+            await supabaseAdmin.storage.from('payment-slips').remove([validation.data.slipPath]);
+            const first = duplicates[0];
+            return {
+                success: false,
+                message: `Duplicate Error: This slip was already uploaded for booking ${first.tour_package_booking_id} on ${first.uploaded_at.slice(0, 10)}.`,
+                duplicates,
+            };
+        }
+
         // Use the admin client for the insert
         console.log('[addPaymentRecord] Attempting insert into payments...');
         const { data, error } = await supabaseAdmin
@@ -380,7 +553,15 @@ export async function addPaymentRecord(
             .insert({
                 tour_package_booking_id: validation.data.bookingId,
                 status_at_payment: validation.data.status,
-                payment_slip_path: validation.data.slipPath
+                payment_slip_path: validation.data.slipPath,
+                slip_hash: slipHash,
+                ...(duplicates.length > 0 && {
+                    duplicate_of_payment_id: duplicates[0].payment_id,
+                    duplicate_reason: 'content_hash',
+                    duplicate_accepted_by: user.id,
+                    duplicate_accepted_by_email: user.email ?? null,
+                    duplicate_accepted_at: new Date().toISOString(),
+                }),
             })
             .select('id')
             .single();
@@ -393,7 +574,14 @@ export async function addPaymentRecord(
 
         console.log(`Payment record ${data.id} added for booking ${bookingId}.`);
         revalidatePath(`/tour-packages/${bookingId}`);
-        return { success: true, message: 'Payment record added successfully.', paymentId: data.id };
+        revalidatePath('/payments');
+        return {
+            success: true,
+            message: duplicates.length > 0
+                ? 'Payment record added and marked as an accepted duplicate.'
+                : 'Payment record added successfully.',
+            paymentId: data.id,
+        };
 
     } catch (error) {
         console.error('Unexpected Add Payment Error:', error);
@@ -405,10 +593,17 @@ export async function addPaymentRecord(
 export async function deletePaymentRecord(
     paymentId: string
 ): Promise<{ success: boolean; message: string }> {
+    await requireUser();
+
     if (!paymentId) {
         return { success: false, message: 'Error: Missing payment ID for deletion.' };
     }
 
+    const access = await checkPermission('payments.delete');
+    if (!access.allowed) {
+        return { success: false, message: access.message };
+    }
+
     // Use service role client here too if needed, especially for storage operations
     const supabaseAdmin = createClient(
         process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -430,6 +625,16 @@ export async function deletePaymentRecord(
             return { success: false, message: `Database Error: Could not find payment record ${paymentId}. ${fetchError?.message ?? ''}` };
         }
 
+        // Receipted payments are kept: the receipt number must stay backed by its payment
+        const { data: receipt } = await supabaseAdmin
+            .from('booking_documents')
+            .select('document_number')
+            .eq('payment_id', paymentId)
+            .maybeSingle();
+        if (receipt) {
+            return { success: false, message: `Error: Payment has receipt ${receipt.document_number} and cannot be deleted.` };
+        }
+
         // 2. Delete the file from storage
         console.log(`Attempting to delete storage object: ${payment.payment_slip_path}`);
         // Use admin client
@@ -466,11 +671,17 @@ export async function deletePaymentRecord(
 
 // --- DELETE ---
 export async function deleteTourPackageBooking(id: string): Promise<{ message: string }> { // Changed back to string
+  await requireUser();
+
   if (!id) {
     return { message: "Error: Missing booking ID for deletion." };
   }
 
+  const access = await checkPermission('tour-bookings.delete');
+  if (!access.allowed) return { message: access.message };
+
   const supabase = createSimpleServerClient();
+  const before = await getTourBookingAuditSnapshot(id);
 
   try {
     const { error } = await supabase
@@ -482,12 +693,13 @@ export async function deleteTourPackageBooking(id: string): Promise<{ message: s
       console.error("Supabase Delete Error:", error);
       // Provide more specific error feedback if possible
       if (error.code === '23503') { // Foreign key violation
-          return { message: `Database Error: Cannot delete booking. It might be referenced elsewhere.` };
+          return { message: `Database Error: Cannot delete booking. It might be referenced elsewhere (e.g. by an issued invoice or receipt).` };
       }
       return { message: `Database Error: Failed to delete tour booking. ${error.message}` };
     }
 
     console.log(`Tour booking ${id} deleted successfully.`);
+    await recordAuditEntry({ entityType: 'tour_package_booking', entityId: id, action: 'deleted', before });
     
   } catch (error) {
     console.error("Unexpected Delete Error:", error);
@@ -518,15 +730,17 @@ export interface TourPackageBookingWithProduct extends TourPackageBooking {
 
 // Ensure the select includes the new fields and removes the old 'price'
 export async function getTourPackageBookings(): Promise<TourPackageBookingWithProduct[]> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   const { data, error } = await supabase
     .from('tour_package_bookings')
     .select(`
-      id, customer_name, tour_product_id, 
+      id, customer_id, customer_name, tour_product_id, 
       base_price_per_pax, 
       addons, 
       total_per_pax, 
-      grand_total, 
+      grand_total, currency,
       pax, status, booking_date, travel_start_date, travel_end_date, notes, created_at, updated_at, 
       linked_booking_id,
       tour_products ( name )
@@ -545,15 +759,17 @@ export async function getTourPackageBookings(): Promise<TourPackageBookingWithPr
 
 // Filtered fetch by one or more statuses
 export async function getTourPackageBookingsByStatuses(statuses: TourPackageStatus[]): Promise<TourPackageBookingWithProduct[]> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   let query = supabase
     .from('tour_package_bookings')
     .select(`
-      id, customer_name, tour_product_id,
+      id, customer_id, customer_name, tour_product_id,
       base_price_per_pax,
       addons,
       total_per_pax,
-      grand_total,
+      grand_total, currency,
       pax, status, booking_date, travel_start_date, travel_end_date, notes, created_at, updated_at,
       linked_booking_id,
       tour_products ( name )
@@ -575,15 +791,17 @@ export async function getTourPackageBookingsByStatuses(statuses: TourPackageStat
 
 // Fetch excluding one or more statuses
 export async function getTourPackageBookingsExcludingStatuses(statuses: TourPackageStatus[]): Promise<TourPackageBookingWithProduct[]> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   let query = supabase
     .from('tour_package_bookings')
     .select(`
-      id, customer_name, tour_product_id,
+      id, customer_id, customer_name, tour_product_id,
       base_price_per_pax,
       addons,
       total_per_pax,
-      grand_total,
+      grand_total, currency,
       pax, status, booking_date, travel_start_date, travel_end_date, notes, created_at, updated_at,
       linked_booking_id,
       tour_products ( name )
@@ -608,6 +826,8 @@ export async function getTourPackageBookingsExcludingStatuses(statuses: TourPack
 
 // Ensure the select includes the new fields and removes the old 'price'
 export async function getTourPackageBookingById(id: string): Promise<TourPackageBookingWithProduct | null> {
+  await requireUser();
+
   if (!id) return null;
   const supabase = createSimpleServerClient();
   
@@ -615,11 +835,11 @@ export async function getTourPackageBookingById(id: string): Promise<TourPackage
   const { data: bookingData, error: bookingError } = await supabase
     .from('tour_package_bookings')
     .select(`
-      id, customer_name, tour_product_id, 
+      id, customer_id, customer_name, tour_product_id, 
       base_price_per_pax, 
       addons, 
       total_per_pax, 
-      grand_total, 
+      grand_total, currency,
       pax, status, booking_date, travel_start_date, travel_end_date, notes, created_at, updated_at, 
       linked_booking_id,
       tour_products ( name )
@@ -675,6 +895,8 @@ export async function getTourPackageBookingById(id: string): Promise<TourPackage
 
 // --- NEW: READ Payments for a Booking ---
 export async function getPaymentsForBooking(bookingId: string): Promise<PaymentRecord[]> {
+    await requireUser();
+
     if (!bookingId) return [];
     const supabase = createSimpleServerClient();
     const { data, error } = await supabase
@@ -694,6 +916,8 @@ export async function getPaymentsForBooking(bookingId: string): Promise<PaymentR
 export async function createPaymentSlipSignedUrl(
     slipPath: string
 ): Promise<{ success: boolean; url?: string; message: string }> {
+    await requireUser();
+
     if (!slipPath) {
         return { success: false, message: 'Error: Missing payment slip path.' };
     }
@@ -734,6 +958,8 @@ export async function createPaymentSlipSignedUrl(
 import type { PaymentLedgerItem } from '@/lib/types/tours';
 
 export async function getAllPaymentRecords(): Promise<PaymentLedgerItem[]> {
+    await requireUser();
+
     // Check if environment variables are available
     if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
         // Return empty array silently - this is expected during development
@@ -757,11 +983,19 @@ export async function getAllPaymentRecords(): Promise<PaymentLedgerItem[]> {
             tour_package_booking_id,
             is_verified,
             verified_amount,
+            currency,
             verified_payment_date,
             verified_origin_bank,
             verified_dest_bank,
             verification_error,
             verified_at,
+            duplicate_of_payment_id,
+            duplicate_reason,
+            duplicate_accepted_by_email,
+            duplicate_accepted_at,
+            duplicate_of:duplicate_of_payment_id (
+                tour_package_booking_id
+            ),
             tour_package_bookings!fk_tour_package_booking (
                 customer_name,
                 tour_products (
@@ -787,212 +1021,228 @@ export async function getAllPaymentRecords(): Promise<PaymentLedgerItem[]> {
         package_name: item.tour_package_bookings?.tour_products?.name ?? null,
         is_verified: item.is_verified,
         verified_amount: item.verified_amount,
+        currency: item.currency,
         verified_payment_date: item.verified_payment_date,
         verified_origin_bank: item.verified_origin_bank,
         verified_dest_bank: item.verified_dest_bank,
         verification_error: item.verification_error,
         verified_at: item.verified_at,
+        duplicate_of_payment_id: item.duplicate_of_payment_id,
+        duplicate_reason: item.duplicate_reason,
+        duplicate_accepted_by_email: item.duplicate_accepted_by_email,
+        duplicate_accepted_at: item.duplicate_accepted_at,
+        is_suspected_duplicate: isSuspectedDuplicate(item),
+        duplicate_of_booking_id: item.duplicate_of?.tour_package_booking_id ?? null,
     }));
 
     return ledgerData;
 }
 
-// --- Helper to get Mime Type from Extension ---
-const getMimeType = (filePath: string): string | null => {
-    const ext = path.extname(filePath).toLowerCase();
-    switch (ext) {
-        case '.png': return 'image/png';
-        case '.jpg':
-        case '.jpeg': return 'image/jpeg';
-        case '.webp': return 'image/webp';
-        case '.gif': return 'image/gif'; // Assuming non-animated
-        default: return null; // Or a default like 'application/octet-stream'
-    }
-};
-
-// --- VERIFY PAYMENT SLIP (using Mistral Chat with Base64) ---
-
-// Helper function to parse the expected JSON structure from Mistral
-const OcrResultSchema = z.object({
-    payment_amount: z.number().positive().optional().nullable(),
-    // Use RegExp object directly for validation
-    payment_date: z.string().regex(new RegExp('^\\d{4}-\\d{2}-\\d{2}$'), "Expected YYYY-MM-DD format").optional().nullable(), 
-    origin_bank: z.string().optional().nullable(),
-    destination_bank: z.string().optional().nullable()
-}).passthrough();
+// --- VERIFY PAYMENT SLIP (OCR provider picked by OCR_PROVIDER, see src/lib/ocr) ---
 
-type OcrResult = z.infer<typeof OcrResultSchema>;
+// Supabase-backed persistence for the verify flow (service role: storage + payments)
+function createPaymentVerificationStore(
+    supabaseAdmin: SupabaseClient
+): PaymentVerificationStore {
+    return {
+        async getPayment(paymentId) {
+            const { data, error } = await supabaseAdmin
+                .from('payments')
+                .select('id, payment_slip_path, tour_package_booking_id')
+                .eq('id', paymentId)
+                .single();
+            if (error || !data) {
+                console.error('[verifyPaymentSlip] Fetch Payment Error:', error);
+                return null;
+            }
+            return data as Pick<PaymentRecord, 'id' | 'payment_slip_path' | 'tour_package_booking_id'>;
+        },
+        async downloadSlip(slipPath) {
+            const { data: blobData, error } = await supabaseAdmin.storage
+                .from('payment-slips')
+                .download(slipPath);
+            if (error || !blobData) {
+                console.error('[verifyPaymentSlip] Download Slip Error:', error);
+                throw new Error(`Failed to download payment slip from storage. ${error?.message ?? ''}`);
+            }
+            return Buffer.from(await blobData.arrayBuffer());
+        },
+        async markVerified(paymentId, result, slipHash) {
+            const { error } = await supabaseAdmin
+                .from('payments')
+                .update({
+                    slip_hash: slipHash,
+                    is_verified: true,
+                    verified_amount: result.payment_amount,
+                    currency: parseCurrencyCode(result.currency) ?? BASE_CURRENCY,
+                    verified_payment_date: result.payment_date ? new Date(result.payment_date + 'T00:00:00') : null,
+                    verified_origin_bank: result.origin_bank,
+                    verified_dest_bank: result.destination_bank,
+                    verification_error: null,
+                    verified_at: new Date().toISOString()
+                })
+                .eq('id', paymentId);
+            if (error) {
+                console.error('[verifyPaymentSlip] Update Payment Error:', error);
+                throw new Error(`Failed to update payment record after verification. ${error.message}`);
+            }
+        },
+        async markFailed(paymentId, errorMessage) {
+            await supabaseAdmin
+                .from('payments')
+                .update({
+                    is_verified: false,
+                    verification_error: errorMessage
+                })
+                .eq('id', paymentId);
+        },
+    };
+}
 
 export async function verifyPaymentSlip(
     paymentId: string
-): Promise<{ success: boolean; message: string; verificationData?: OcrResult }> {
+): Promise<{ success: boolean; message: string; verificationData?: OcrResult; duplicateOf?: PaymentDuplicateMatch }> {
+    await requireUser();
+
     if (!paymentId) {
         return { success: false, message: "Error: Missing payment ID for verification." };
     }
 
-    console.log(`[verifyPaymentSlip] Starting verification for payment ID: ${paymentId}`);
+    // Approving a slip is a manager decision; agents can only upload
+    const access = await checkPermission('payments.verify');
+    if (!access.allowed) {
+        return { success: false, message: access.message };
+    }
 
     const supabaseAdmin = createClient(
         process.env.NEXT_PUBLIC_SUPABASE_URL!,
         process.env.SUPABASE_SERVICE_ROLE_KEY!,
         { auth: { autoRefreshToken: false, persistSession: false } }
     );
+    const store = createPaymentVerificationStore(supabaseAdmin);
 
-    let paymentRecord: PaymentRecord | null = null;
-    let slipPath: string | null = null;
-
+    let ocr;
     try {
-        // 1. Fetch Payment Record
-        const { data, error } = await supabaseAdmin
-            .from('payments')
-            .select('*')
-            .eq('id', paymentId)
-            .single();
-        
-        if (error || !data) {
-            console.error('[verifyPaymentSlip] Fetch Payment Error:', error);
-            throw new Error(`Could not find payment record ${paymentId}.`);
-        }
-        paymentRecord = data as PaymentRecord;
-        slipPath = paymentRecord.payment_slip_path;
-        console.log(`[verifyPaymentSlip] Found payment record, slip path: ${slipPath}`);
+        ocr = getOcrProvider();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'OCR provider is not configured.';
+        await store.markFailed(paymentId, message);
+        return { success: false, message };
+    }
 
-        if (!slipPath) {
-             throw new Error("Payment record is missing the slip path.");
-        }
+    const outcome = await runPaymentSlipVerification(paymentId, { store, ocr });
+    if (!outcome.success) {
+        return { success: false, message: outcome.message };
+    }
 
-        // 2. Download Image from Storage and Encode to Base64
-        console.log(`[verifyPaymentSlip] Downloading slip from storage: ${slipPath}`);
-        const { data: blobData, error: downloadError } = await supabaseAdmin.storage
-            .from('payment-slips')
-            .download(slipPath);
+    console.log(`[verifyPaymentSlip] Verified payment ${paymentId} with ${ocr.name} provider`);
+    const duplicate = await flagVerifiedFieldDuplicate(supabaseAdmin, paymentId);
+    revalidatePath('/payments');
+    revalidatePath(`/tour-packages/${outcome.payment.tour_package_booking_id}`);
+    return {
+        success: true,
+        message: duplicate
+            ? `Payment verified, but it matches payment for booking ${duplicate.tour_package_booking_id} (similar amount, date and origin bank).`
+            : "Payment verified successfully.",
+        verificationData: outcome.verificationData,
+        duplicateOf: duplicate ?? undefined,
+    };
+}
 
-        if (downloadError || !blobData) {
-            console.error('[verifyPaymentSlip] Download Slip Error:', downloadError);
-            throw new Error(`Failed to download payment slip from storage. ${downloadError?.message ?? ''}`);
-        }
+// After OCR: flag the payment if another slip has a similar amount, date and origin bank.
+// Payments already flagged (or accepted) keep their existing duplicate details.
+async function flagVerifiedFieldDuplicate(
+    supabaseAdmin: SupabaseClient,
+    paymentId: string
+): Promise<PaymentDuplicateMatch | null> {
+    const { data: payment, error } = await supabaseAdmin
+        .from('payments')
+        .select('id, verified_amount, verified_payment_date, verified_origin_bank, duplicate_of_payment_id')
+        .eq('id', paymentId)
+        .single();
 
-        const mimeType = getMimeType(slipPath);
-        if (!mimeType) {
-            throw new Error(`Could not determine mime type for file: ${slipPath}`);
-        }
-        console.log(`[verifyPaymentSlip] Determined mime type: ${mimeType}`);
+    if (error || !payment || payment.duplicate_of_payment_id || payment.verified_amount == null || !payment.verified_payment_date) {
+        return null;
+    }
 
-        const buffer = Buffer.from(await blobData.arrayBuffer());
-        const base64Image = buffer.toString('base64');
-        const dataUri = `data:${mimeType};base64,${base64Image}`;
-        console.log(`[verifyPaymentSlip] Generated Base64 Data URI (length: ${dataUri.length})`);
+    const range = verifiedFieldsSearchRange(payment.verified_amount, payment.verified_payment_date);
+    const { data: candidates, error: candidatesError } = await supabaseAdmin
+        .from('payments')
+        .select('id, tour_package_booking_id, uploaded_at, verified_amount, verified_payment_date, verified_origin_bank, tour_package_bookings!fk_tour_package_booking ( customer_name )')
+        .neq('id', paymentId)
+        .eq('is_verified', true)
+        .gte('verified_amount', range.minAmount)
+        .lte('verified_amount', range.maxAmount)
+        .gte('verified_payment_date', range.dateFrom)
+        .lt('verified_payment_date', range.dateBefore)
+        .order('uploaded_at', { ascending: true });
+
+    if (candidatesError) {
+        console.error('[verifyPaymentSlip] Duplicate lookup failed:', candidatesError);
+        return null;
+    }
 
-        // 3. Call Mistral Chat API (using Base64)
-        const mistralApiKey = process.env.MISTRAL_API_KEY;
-        if (!mistralApiKey) {
-            throw new Error("Mistral API Key not configured in environment variables.");
-        }
-        const mistralClient = new Mistral({ apiKey: mistralApiKey });
-
-        const promptText = 'Analyze the provided payment slip image. Extract the following information and return it ONLY as a valid JSON object with keys \"payment_amount\" (numeric), \"payment_date\" (string, YYYY-MM-DD format), \"origin_bank\" (string), and \"destination_bank\" (string). If a value cannot be found, set the corresponding JSON key to null. Do not include any explanations or surrounding text, only the JSON object.';
-
-        console.log("[verifyPaymentSlip] Preparing to call Mistral Chat API...");
-        let chatResponse;
-        try {
-            chatResponse = await mistralClient.chat.complete({
-                model: "mistral-small-latest", // Vision capable model
-                responseFormat: { type: "json_object" }, 
-                messages: [
-                    {
-                        role: "user",
-                        content: [
-                            { type: "text", text: promptText },
-                            {
-                                type: "image_url",
-                                imageUrl: dataUri 
-                            }
-                        ]
-                    }
-                ],
-            });
-            console.log("[verifyPaymentSlip] Mistral API call successful.");
-        } catch (apiError: any) {
-            console.error("[verifyPaymentSlip] Mistral API call failed:", apiError);
-            throw new Error(`Mistral API Error: ${apiError.message}`); // Re-throw to be caught by outer catch
-        }
+    const match = ((candidates as unknown as VerifiedDuplicateCandidateRow[]) ?? []).find((candidate) => matchesVerifiedFields(payment, candidate));
+    if (!match) return null;
 
-        // Add check for choices array
-        if (!chatResponse || !chatResponse.choices || chatResponse.choices.length === 0) {
-            console.error("[verifyPaymentSlip] Mistral response missing choices array:", chatResponse);
-            throw new Error("Mistral returned no choices or an unexpected response structure.");
-        }
+    const { error: flagError } = await supabaseAdmin
+        .from('payments')
+        .update({ duplicate_of_payment_id: match.id, duplicate_reason: 'verified_fields' })
+        .eq('id', paymentId);
 
-        const rawContent = chatResponse.choices[0].message.content;
-        console.log("[verifyPaymentSlip] Raw Mistral response content:", JSON.stringify(rawContent, null, 2)); 
-        if (rawContent === null || rawContent === undefined) { // Check for null/undefined specifically
-             throw new Error("Mistral returned null or undefined content.");
-        }
+    if (flagError) {
+        console.error('[verifyPaymentSlip] Could not flag duplicate payment:', flagError);
+        return null;
+    }
 
-        // 4. Parse Mistral Response
-        console.log("[verifyPaymentSlip] Preparing to parse response...");
-        let parsedResult: OcrResult;
-        try {
-             // ... existing parsing and validation logic ...
-            if (typeof rawContent !== 'string') {
-                console.warn("[verifyPaymentSlip] Mistral content was not a string, attempting parse anyway. Type:", typeof rawContent);
-            }
-            const jsonContent = typeof rawContent === 'string' ? JSON.parse(rawContent) : rawContent; 
-            
-            const validation = OcrResultSchema.safeParse(jsonContent);
-            if (!validation.success) {
-                console.error("[verifyPaymentSlip] Zod Validation Error:", validation.error.flatten());
-                throw new Error(`Mistral response JSON structure is invalid: ${validation.error.message}`);
-            }
-            parsedResult = validation.data;
-            console.log("[verifyPaymentSlip] Parsed OCR Result:", parsedResult); 
-        } catch (parseError: any) {
-            console.error("[verifyPaymentSlip] Failed to parse or validate Mistral JSON response:", parseError);
-            // Add the raw content to the error message for context
-            throw new Error(`Failed to process OCR response: ${parseError.message}. Raw content was: ${JSON.stringify(rawContent)}`);
-        }
+    return {
+        payment_id: match.id,
+        tour_package_booking_id: match.tour_package_booking_id,
+        customer_name: match.tour_package_bookings?.customer_name ?? null,
+        uploaded_at: match.uploaded_at,
+        reason: 'verified_fields',
+    };
+}
 
-        // 5. Update Payment Record in DB
-        console.log("[verifyPaymentSlip] Preparing to update database...");
-        const { error: updateError } = await supabaseAdmin
-            .from('payments')
-            .update({
-                is_verified: true,
-                verified_amount: parsedResult.payment_amount,
-                verified_payment_date: parsedResult.payment_date ? new Date(parsedResult.payment_date + 'T00:00:00') : null, 
-                verified_origin_bank: parsedResult.origin_bank,
-                verified_dest_bank: parsedResult.destination_bank,
-                verification_error: null,
-                verified_at: new Date().toISOString()
-            })
-            .eq('id', paymentId);
+// --- ACCEPT A SUSPECTED DUPLICATE ---
+export async function acceptDuplicatePayment(
+    paymentId: string
+): Promise<{ success: boolean; message: string }> {
+    const user = await requireUser();
 
-        if (updateError) {
-            console.error('[verifyPaymentSlip] Update Payment Error:', updateError);
-            throw new Error(`Failed to update payment record after verification. ${updateError.message}`);
-        }
+    if (!paymentId) {
+        return { success: false, message: 'Error: Missing payment ID.' };
+    }
 
-        console.log(`[verifyPaymentSlip] Successfully verified and updated payment ID: ${paymentId}`);
-        revalidatePath('/payments'); 
-        revalidatePath(`/tour-packages/${paymentRecord.tour_package_booking_id}`); 
-        return { success: true, message: "Payment verified successfully.", verificationData: parsedResult };
+    const supabaseAdmin = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!,
+        { auth: { autoRefreshToken: false, persistSession: false } }
+    );
 
-    } catch (error: any) {
-        // Log the error caught by the main try...catch block
-        console.error(`[verifyPaymentSlip] Overall verification failed for ${paymentId}. Error:`, error); 
-        // Attempt to store the error message in the database
-        if (paymentId) { 
-            await supabaseAdmin
-                .from('payments')
-                .update({ 
-                    is_verified: false, 
-                    verification_error: error.message 
-                })
-                .eq('id', paymentId)
-                .maybeSingle(); 
-        }
-        return { success: false, message: error.message || "An unexpected error occurred during verification." };
+    const { data, error } = await supabaseAdmin
+        .from('payments')
+        .update({
+            duplicate_accepted_by: user.id,
+            duplicate_accepted_by_email: user.email ?? null,
+            duplicate_accepted_at: new Date().toISOString(),
+        })
+        .eq('id', paymentId)
+        .not('duplicate_of_payment_id', 'is', null)
+        .select('tour_package_booking_id')
+        .maybeSingle();
+
+    if (error) {
+        console.error(`Supabase error accepting duplicate payment ${paymentId}:`, error);
+        return { success: false, message: `Database Error: Failed to accept duplicate. ${error.message}` };
+    }
+    if (!data) {
+        return { success: false, message: 'Error: Payment is not flagged as a duplicate.' };
     }
+
+    revalidatePath('/payments');
+    revalidatePath(`/tour-packages/${data.tour_package_booking_id}`);
+    return { success: true, message: 'Duplicate accepted.' };
 }
 
 // NEW: Functions for managing multiple linked bookings
@@ -1002,6 +1252,8 @@ export async function addLinkedBooking(
   tourPackageBookingId: string,
   bookingId: string
 ): Promise<{ success: boolean; error?: string }> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   try {
@@ -1034,6 +1286,8 @@ export async function removeLinkedBooking(
   tourPackageBookingId: string,
   bookingId: string
 ): Promise<{ success: boolean; error?: string }> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   try {
@@ -1061,6 +1315,8 @@ export async function removeLinkedBooking(
 export async function getLinkedBookings(
   tourPackageBookingId: string
 ): Promise<{ linkedBookings: LinkedBookingInfo[]; error?: string }> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   try {
@@ -1090,17 +1346,15 @@ export async function getLinkedBookings(
     // Transform the data to match LinkedBookingInfo interface
     const linkedBookings: LinkedBookingInfo[] = data.map((item: any) => {
       const booking = item.bookings;
-      // Find earliest travel date from booking sectors
-      const earliestTravelDate = booking.booking_sectors
-        ?.map((sector: any) => sector.travel_date)
-        .filter(Boolean)
-        .sort()[0] || null;
+      // First and last travel dates across however many sectors the booking has
+      const { earliest, latest } = getTravelDateRange(booking.booking_sectors ?? []);
 
       return {
         id: booking.id,
         booking_reference: booking.booking_reference,
         customer_name: booking.customers?.company_name || null,
-        earliest_travel_date: earliestTravelDate,
+        earliest_travel_date: earliest,
+        latest_travel_date: latest,
         status: booking.status,
         created_at: booking.created_at,
       };
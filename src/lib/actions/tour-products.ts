@@ -2,7 +2,12 @@
 
 import { z } from 'zod';
 import { createSimpleServerClient } from '@/lib/supabase/server';
+import { checkPermission, requireUser } from '@/lib/supabase/current-user';
 import { TourProductSchema, type TourProduct } from '@/lib/types/tours';
+import { getExchangeRates } from '@/lib/actions/exchange-rates';
+import { bookingTotalInBase } from '@/lib/currency';
+import { applyDashboardFilters } from '@/lib/dashboard-filters';
+import { EMPTY_DASHBOARD_FILTERS, type DashboardFilters } from '@/lib/types/dashboard-filters';
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
 
@@ -29,33 +34,47 @@ export interface TopSellingStats {
   totalPackagesSold: number;
   topPerformer: TopSellingPackage | null;
   monthlyGrowth: string;
+  unconvertedBookings: number; // foreign-currency bookings left out of revenue for lack of a rate
 }
 
 // --- GET TOP SELLING PACKAGES ---
-export async function getTopSellingPackages(): Promise<{
+export async function getTopSellingPackages(filters: DashboardFilters = EMPTY_DASHBOARD_FILTERS): Promise<{
   packages: TopSellingPackage[];
   stats: TopSellingStats;
 }> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   try {
     // Get tour package sales data with product details
-    const { data: salesData, error } = await supabase
-      .from('tour_package_bookings')
-      .select(`
-        tour_product_id,
-        grand_total,
-        pax,
-        status,
-        created_at,
-        tour_products (
-          id,
-          name,
-          description
-        )
-      `)
-      .not('tour_products', 'is', null) // Ensure tour_products is not null
-      .order('created_at', { ascending: false });
+    const [{ data: salesData, error }, rates] = await Promise.all([
+      applyDashboardFilters(
+        supabase
+          .from('tour_package_bookings')
+          .select(`
+            tour_product_id,
+            grand_total,
+            currency,
+            pax,
+            status,
+            booking_date,
+            created_at,
+            tour_products (
+              id,
+              name,
+              description
+            ),
+            payments!fk_tour_package_booking (
+              is_verified,
+              verified_payment_date
+            )
+          `)
+          .not('tour_products', 'is', null), // Ensure tour_products is not null
+        filters
+      ).order('created_at', { ascending: false }),
+      getExchangeRates(),
+    ]);
 
     if (error) {
       console.error('Database Error fetching top selling packages:', error);
@@ -64,7 +83,8 @@ export async function getTopSellingPackages(): Promise<{
         stats: {
           totalPackagesSold: 0,
           topPerformer: null,
-          monthlyGrowth: "0%"
+          monthlyGrowth: "0%",
+          unconvertedBookings: 0
         }
       };
     }
@@ -76,7 +96,8 @@ export async function getTopSellingPackages(): Promise<{
         stats: {
           totalPackagesSold: 0,
           topPerformer: null,
-          monthlyGrowth: "0%"
+          monthlyGrowth: "0%",
+          unconvertedBookings: 0
         }
       };
     }
@@ -94,6 +115,7 @@ export async function getTopSellingPackages(): Promise<{
 
     let totalBookings = 0;
     let totalRevenue = 0;
+    let unconvertedBookings = 0;
 
     salesData.forEach((booking: any) => {
       if (!booking.tour_products) {
@@ -103,7 +125,10 @@ export async function getTopSellingPackages(): Promise<{
 
       const productId = booking.tour_product_id;
       const productName = booking.tour_products.name;
-      const revenue = booking.grand_total || 0;
+      // Revenue in the base currency at the payment-date rate; unconvertible bookings still count as sales
+      const baseTotal = bookingTotalInBase(booking, rates);
+      if (baseTotal === null) unconvertedBookings += 1;
+      const revenue = baseTotal ?? 0;
       const sales = booking.pax || 0;
 
       if (!packageSales[productId]) {
@@ -168,7 +193,8 @@ export async function getTopSellingPackages(): Promise<{
     const stats: TopSellingStats = {
       totalPackagesSold: totalBookings,
       topPerformer,
-      monthlyGrowth
+      monthlyGrowth,
+      unconvertedBookings
     };
 
     console.log('Final stats:', stats);
@@ -185,7 +211,8 @@ export async function getTopSellingPackages(): Promise<{
       stats: {
         totalPackagesSold: 0,
         topPerformer: null,
-        monthlyGrowth: "0%"
+        monthlyGrowth: "0%",
+        unconvertedBookings: 0
       }
     };
   }
@@ -196,6 +223,8 @@ export async function createTourProduct(
   prevState: FormState,
   formData: FormData
 ): Promise<FormState> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
 
   // 1. Validate form data
@@ -250,6 +279,8 @@ export async function updateTourProduct(
   prevState: FormState,
   formData: FormData
 ): Promise<FormState> {
+  await requireUser();
+
   if (!id) return { message: 'Error: Missing product ID for update.' };
 
   const supabase = createSimpleServerClient();
@@ -297,8 +328,13 @@ export async function updateTourProduct(
 
 // --- DELETE ---
 export async function deleteTourProduct(id: string): Promise<FormState> {
+  await requireUser();
+
   if (!id) return { message: 'Error: Missing product ID for deletion.' };
 
+  const access = await checkPermission('tour-products.delete');
+  if (!access.allowed) return { message: access.message };
+
   const supabase = createSimpleServerClient();
 
   // Delete data from Supabase
@@ -330,6 +366,8 @@ export async function deleteTourProduct(id: string): Promise<FormState> {
 
 // --- READ (for Server Components/Actions) ---
 export async function getTourProducts(): Promise<TourProduct[]> {
+  await requireUser();
+
   const supabase = createSimpleServerClient();
   const { data, error } = await supabase
     .from('tour_products')
@@ -345,6 +383,8 @@ export async function getTourProducts(): Promise<TourProduct[]> {
 }
 
 export async function getTourProductById(id: string): Promise<TourProduct | null> {
+  await requireUser();
+
   if (!id) return null;
   const supabase = createSimpleServerClient();
   const { data, error } = await supabase
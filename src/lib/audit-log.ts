@@ -0,0 +1,80 @@
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { getCurrentUser } from '@/lib/supabase/current-user';
+import {
+  AUDITED_FIELDS,
+  type AuditAction,
+  type AuditEntityType,
+  type AuditFieldChange,
+  type AuditValue,
+} from '@/lib/types/audit-log';
+
+type AuditRecord = Record<string, unknown> | null | undefined;
+
+const ISO_DATE_PREFIX = /^(\d{4}-\d{2}-\d{2})(T00:00:00|T12:00:00)?/;
+
+// Normalise DB and form values so '120.00' vs 120 or a date vs its noon timestamp don't show as changes
+function normalizeAuditValue(value: unknown): AuditValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const dateMatch = value.match(ISO_DATE_PREFIX);
+    if (dateMatch) return dateMatch[1];
+    if (/^-?\d+(\.\d+)?$/.test(value.trim())) return Number(value);
+    return value;
+  }
+  return JSON.parse(JSON.stringify(value)) as AuditValue;
+}
+
+// Field-level before/after diff restricted to the audited fields of the entity
+export function diffAuditFields(
+  entityType: AuditEntityType,
+  before: AuditRecord,
+  after: AuditRecord
+): AuditFieldChange[] {
+  return Object.keys(AUDITED_FIELDS[entityType]).flatMap((field) => {
+    const beforeValue = normalizeAuditValue(before?.[field]);
+    const afterValue = normalizeAuditValue(after?.[field]);
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) return [];
+    return [{ field, before: beforeValue, after: afterValue }];
+  });
+}
+
+interface RecordAuditEntryInput {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before?: AuditRecord;
+  after?: AuditRecord;
+}
+
+// Best-effort write: a failed audit insert is logged but never fails the user's save
+export async function recordAuditEntry({
+  entityType,
+  entityId,
+  action,
+  before,
+  after,
+}: RecordAuditEntryInput): Promise<void> {
+  const changes = diffAuditFields(entityType, before, after);
+  if (action === 'updated' && changes.length === 0) return;
+
+  try {
+    const user = await getCurrentUser();
+    const supabase = createSimpleServerClient();
+    const { error } = await supabase.from('audit_log').insert({
+      entity_type: entityType,
+      entity_id: entityId,
+      action,
+      changes,
+      actor_id: user?.id ?? null,
+      actor_email: user?.email ?? null,
+    });
+
+    if (error) {
+      console.error(`Supabase error recording audit entry for ${entityType} ${entityId}:`, error);
+    }
+  } catch (error) {
+    console.error(`Unexpected error recording audit entry for ${entityType} ${entityId}:`, error);
+  }
+}
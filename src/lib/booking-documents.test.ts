@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { buildInvoiceContent, buildReceiptContent } from './booking-documents';
+import { renderBookingDocumentPdf } from './pdf/booking-document-pdf';
+import { reconcileTourBooking, type ReconciliationPaymentInput } from './reconciliation';
+import type { TourPackageBookingWithProduct } from './types/tours';
+
+const booking: TourPackageBookingWithProduct = {
+  id: 'AB123',
+  tour_product_id: '00000000-0000-0000-0000-000000000001',
+  customer_id: null,
+  customer_name: 'Jane Traveller',
+  base_price_per_pax: 20000,
+  pax: 2,
+  addons: [{ id: 'a-1', name: 'Airport transfer', amount: 1500 }],
+  grand_total: 41500,
+  currency: 'THB',
+  status: 'Paid (1st installment)',
+  booking_date: '2026-08-01T12:00:00Z',
+  travel_start_date: '2026-12-10T12:00:00Z',
+  travel_end_date: '2026-12-15T12:00:00Z',
+  created_at: '2026-08-01T09:00:00Z',
+  updated_at: '2026-08-01T09:00:00Z',
+  tour_products: { name: 'Bhutan Discovery' },
+};
+
+const payments: ReconciliationPaymentInput[] = [
+  {
+    id: 'p-1',
+    status_at_payment: 'Paid (1st installment)',
+    uploaded_at: '2026-08-02T09:00:00Z',
+    is_verified: true,
+    verified_amount: 12450,
+    verified_payment_date: '2026-08-02',
+    verification_error: null,
+  },
+  {
+    id: 'p-2',
+    status_at_payment: 'Paid (Full Payment)',
+    uploaded_at: '2026-09-01T09:00:00Z',
+    is_verified: false,
+    verified_amount: null,
+    verified_payment_date: null,
+    verification_error: null,
+  },
+];
+
+async function runBookingDocumentsSelfCheck() {
+  const reconciliation = reconcileTourBooking(booking, payments);
+  const issued = { document_number: 'INV-2026-00001', issued_at: '2026-09-05T03:00:00Z' };
+
+  const invoice = buildInvoiceContent(booking, reconciliation, issued);
+  assert.equal(invoice.issued_on, '2026-09-05');
+  assert.deepEqual(invoice.lines, [
+    { description: 'Bhutan Discovery (per pax)', quantity: 2, unit_price: 20000, amount: 40000 },
+    { description: 'Airport transfer', quantity: null, unit_price: null, amount: 1500 },
+  ]);
+  assert.equal(invoice.total, 41500);
+  assert.deepEqual(invoice.payments, [{ date: '2026-08-02', description: 'Paid (1st installment)', amount: 12450 }], 'only verified payments are listed');
+  assert.equal(invoice.balance_due, 29050);
+  assert.equal(invoice.payment_due_on, null, 'no due date without agreed payment terms');
+
+  const termsInvoice = buildInvoiceContent(booking, reconciliation, issued, {
+    tax_id: '0105551234567',
+    billing_address: '99 Sukhumvit Rd\nBangkok 10110',
+    payment_terms_days: 30,
+  });
+  assert.equal(termsInvoice.customer_tax_id, '0105551234567');
+  assert.equal(termsInvoice.payment_due_on, '2026-10-05');
+
+  const receipt = buildReceiptContent(booking, reconciliation, { id: 'p-1', verified_amount: 12450, currency: 'THB' }, {
+    document_number: 'RCP-2026-00001',
+    issued_at: '2026-09-05T03:00:00Z',
+  });
+  assert.equal(receipt.doc_type, 'receipt');
+  assert.equal(receipt.payments.length, 1);
+  assert.equal(receipt.paid_to_date, 12450);
+  assert.equal(receipt.balance_due, 29050);
+
+  const pdf = await renderBookingDocumentPdf({ ...termsInvoice, customer_name: 'คุณสมชาย' }, 'Booking Tracker');
+  assert.equal(String.fromCharCode(...pdf.slice(0, 5)), '%PDF-', 'non-Latin text renders without throwing');
+}
+
+// An assertion failure rejects the promise and fails the run
+void runBookingDocumentsSelfCheck();
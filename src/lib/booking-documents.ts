@@ -0,0 +1,127 @@
+import type { BookingReconciliation } from '@/lib/types/reconciliation';
+import type { PaymentRecord, TourPackageBookingWithProduct } from '@/lib/types/tours';
+import type {
+  BookingDocument,
+  BookingDocumentContent,
+  DocumentCustomerDetails,
+  DocumentLine,
+  DocumentPaymentLine,
+} from '@/lib/types/booking-documents';
+
+type IssuedDocument = Pick<BookingDocument, 'document_number' | 'issued_at'>;
+
+const toDateKey = (value: string | null | undefined): string | null =>
+  value ? value.slice(0, 10) : null;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function buildPriceLines(booking: TourPackageBookingWithProduct): DocumentLine[] {
+  const basePrice = booking.base_price_per_pax ?? 0;
+  const lines: DocumentLine[] = [
+    {
+      description: `${booking.tour_products?.name ?? 'Tour package'} (per pax)`,
+      quantity: booking.pax,
+      unit_price: basePrice,
+      amount: roundMoney(basePrice * booking.pax),
+    },
+  ];
+  (booking.addons ?? []).forEach((addon) => {
+    lines.push({ description: addon.name, quantity: null, unit_price: null, amount: roundMoney(addon.amount) });
+  });
+  return lines;
+}
+
+// Verified payments counted by reconciliation, already converted into the booking's currency
+function buildPaymentLines(reconciliation: BookingReconciliation): DocumentPaymentLine[] {
+  return reconciliation.payments
+    .filter((payment) => payment.counted && payment.amount !== null)
+    .map((payment) => ({
+      date: payment.payment_date,
+      description: payment.status_at_payment,
+      amount: payment.amount as number,
+    }));
+}
+
+function buildBaseContent(
+  booking: TourPackageBookingWithProduct,
+  reconciliation: BookingReconciliation,
+  document: IssuedDocument,
+  customer: DocumentCustomerDetails
+): Omit<BookingDocumentContent, 'doc_type' | 'title' | 'payments' | 'payment_due_on' | 'notes'> {
+  const lines = buildPriceLines(booking);
+  const total = booking.grand_total ?? roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  return {
+    document_number: document.document_number,
+    issued_on: toDateKey(document.issued_at) as string,
+    currency: booking.currency,
+    booking_id: booking.id,
+    customer_name: booking.customer_name,
+    customer_tax_id: customer?.tax_id || null,
+    customer_address: customer?.billing_address || null,
+    package_name: booking.tour_products?.name ?? null,
+    travel_start_date: toDateKey(booking.travel_start_date),
+    travel_end_date: toDateKey(booking.travel_end_date),
+    pax: booking.pax,
+    lines,
+    total,
+    paid_to_date: reconciliation.paid_to_date,
+    balance_due: Math.max(roundMoney(total - reconciliation.paid_to_date), 0),
+  };
+}
+
+// Quotation / invoice: price breakdown plus every verified payment received so far
+export function buildInvoiceContent(
+  booking: TourPackageBookingWithProduct,
+  reconciliation: BookingReconciliation,
+  document: IssuedDocument,
+  customer: DocumentCustomerDetails = null
+): BookingDocumentContent {
+  const base = buildBaseContent(booking, reconciliation, document, customer);
+  const terms = customer?.payment_terms_days;
+  const notes: string[] = [];
+  if (reconciliation.flags.some((flag) => flag.code === 'missing_exchange_rate')) {
+    notes.push('Some payments are not shown because no exchange rate was available to convert them.');
+  }
+  return {
+    ...base,
+    doc_type: 'invoice',
+    title: 'Invoice',
+    payments: buildPaymentLines(reconciliation),
+    payment_due_on: terms != null && base.balance_due > 0 ? addDays(base.issued_on, terms) : null,
+    notes,
+  };
+}
+
+// Receipt for a single verified payment; paid-to-date and balance are as of that payment
+export function buildReceiptContent(
+  booking: TourPackageBookingWithProduct,
+  reconciliation: BookingReconciliation,
+  payment: Pick<PaymentRecord, 'id' | 'verified_amount' | 'currency'>,
+  document: IssuedDocument,
+  customer: DocumentCustomerDetails = null
+): BookingDocumentContent {
+  const base = buildBaseContent(booking, reconciliation, document, customer);
+  const matched = reconciliation.payments.find((item) => item.payment_id === payment.id);
+  const amount = matched?.amount ?? 0;
+  const paidToDate = matched?.paid_to_date_after ?? 0;
+  const notes: string[] = [];
+  if (payment.currency && payment.currency !== booking.currency && payment.verified_amount != null) {
+    notes.push(`Received as ${payment.currency} ${payment.verified_amount.toFixed(2)}, converted at the rate for the payment date.`);
+  }
+  return {
+    ...base,
+    doc_type: 'receipt',
+    title: 'Receipt',
+    payments: [{ date: matched?.payment_date ?? null, description: matched?.status_at_payment ?? 'Payment', amount }],
+    paid_to_date: paidToDate,
+    balance_due: Math.max(roundMoney(base.total - paidToDate), 0),
+    payment_due_on: null,
+    notes,
+  };
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import {
+  deriveBookingStatus,
+  findBookingStatusContradiction,
+  formatTicketNumber,
+  parseTicketNumbers,
+  resolveBookingStatusChange,
+} from './booking-status';
+
+function runBookingStatusSelfCheck() {
+  assert.equal(deriveBookingStatus([]), null);
+  assert.equal(deriveBookingStatus(['Confirmed', 'Confirmed']), 'Confirmed');
+  assert.equal(deriveBookingStatus(['Confirmed', 'Waiting List']), 'Waiting List');
+  assert.equal(deriveBookingStatus(['Ticketed', 'Ticketed']), 'Ticketed');
+  assert.equal(deriveBookingStatus(['Ticketed', 'Confirmed']), 'Confirmed', 'partly ticketed is still only confirmed');
+  assert.equal(deriveBookingStatus(['Ticketed', 'Cancelled']), 'Ticketed', 'cancelled sectors are ignored');
+  assert.equal(deriveBookingStatus(['Cancelled', 'Cancelled']), 'Cancelled');
+
+  assert.equal(findBookingStatusContradiction('Waiting List', ['Waiting List', 'Confirmed']), null);
+  assert.deepEqual(findBookingStatusContradiction('Confirmed', ['Waiting List', 'Waiting List']), {
+    status: 'Confirmed',
+    expected: 'Waiting List',
+    message: 'Booking is Confirmed but its sectors (2 Waiting List) make it Waiting List.',
+  });
+
+  assert.deepEqual(parseTicketNumbers('217-1234567890, 2171234567890\n618-0001112223 TG123'), {
+    ticketNumbers: ['2171234567890', '6180001112223'],
+    invalid: ['TG123'],
+  });
+  assert.equal(formatTicketNumber('2171234567890'), '217-1234567890');
+
+  // Sector changes on an open booking just re-derive its status
+  assert.deepEqual(
+    resolveBookingStatusChange({ current: 'Confirmed', requested: 'Confirmed', sectorStatuses: ['Confirmed', 'Waiting List'] }),
+    { ok: true, status: 'Waiting List', sectorStatuses: ['Confirmed', 'Waiting List'], captured: null }
+  );
+
+  // Ticketing needs ticket numbers and confirmed seats, and tickets every live sector
+  assert.deepEqual(
+    resolveBookingStatusChange({ current: 'Confirmed', requested: 'Ticketed', sectorStatuses: ['Confirmed', 'Confirmed'] }),
+    { ok: false, field: 'ticket_numbers', message: 'Enter the ticket numbers issued for this booking.' }
+  );
+  assert.deepEqual(
+    resolveBookingStatusChange({
+      current: 'Waiting List',
+      requested: 'Ticketed',
+      sectorStatuses: ['Confirmed', 'Waiting List'],
+      ticketNumbers: ['2171234567890'],
+    }),
+    { ok: false, field: 'status', message: 'Sector 2 is Waiting List; only confirmed sectors can be ticketed.' }
+  );
+  assert.deepEqual(
+    resolveBookingStatusChange({
+      current: 'Confirmed',
+      requested: 'Ticketed',
+      sectorStatuses: ['Confirmed', 'Cancelled'],
+      ticketNumbers: ['2171234567890'],
+    }),
+    { ok: true, status: 'Ticketed', sectorStatuses: ['Ticketed', 'Cancelled'], captured: 'Ticketed' }
+  );
+
+  assert.equal(
+    resolveBookingStatusChange({ current: 'Cancelled', requested: 'Ticketed', sectorStatuses: ['Cancelled'], ticketNumbers: ['2171234567890'] }).ok,
+    false
+  );
+
+  // Cancelling needs a reason and cancels every sector
+  assert.equal(
+    resolveBookingStatusChange({ current: 'Confirmed', requested: 'Cancelled', sectorStatuses: ['Confirmed'], cancellationReason: '  ' }).ok,
+    false
+  );
+  assert.deepEqual(
+    resolveBookingStatusChange({
+      current: 'Ticketed',
+      requested: 'Cancelled',
+      sectorStatuses: ['Ticketed', 'Ticketed'],
+      cancellationReason: 'Group postponed',
+    }),
+    { ok: true, status: 'Cancelled', sectorStatuses: ['Cancelled', 'Cancelled'], captured: 'Cancelled' }
+  );
+
+  // A ticketed booking given a new, unticketed sector drops back to Confirmed
+  assert.deepEqual(
+    resolveBookingStatusChange({ current: 'Ticketed', requested: 'Ticketed', sectorStatuses: ['Ticketed', 'Confirmed'] }),
+    { ok: true, status: 'Confirmed', sectorStatuses: ['Ticketed', 'Confirmed'], captured: null }
+  );
+}
+
+runBookingStatusSelfCheck();
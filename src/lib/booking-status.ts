@@ -0,0 +1,114 @@
+import type { BookingStatus } from '@/types/database';
+import type {
+  BookingStatusContradiction,
+  BookingStatusResolution,
+  CapturedBookingStatus,
+} from '@/lib/types/booking-status';
+
+// Sector statuses that still need the airline to confirm the seats
+const UNCONFIRMED_SECTOR_STATUSES: BookingStatus[] = ['Waiting List', 'Pending', 'Unconfirmed'];
+
+// E-ticket numbers: 3-digit airline prefix and 10-digit serial, optionally hyphenated
+const TICKET_NUMBER_PATTERN = /^(\d{3})-?(\d{10})$/;
+
+// Status a booking should have given its sectors, or null when it has none.
+// Cancelled sectors are ignored unless every sector is cancelled.
+export function deriveBookingStatus(sectorStatuses: BookingStatus[]): BookingStatus | null {
+  if (sectorStatuses.length === 0) return null;
+  const active = sectorStatuses.filter((status) => status !== 'Cancelled');
+  if (active.length === 0) return 'Cancelled';
+  if (active.includes('Waiting List')) return 'Waiting List';
+  if (active.includes('Unconfirmed')) return 'Unconfirmed';
+  if (active.includes('Pending')) return 'Pending';
+  if (active.every((status) => status === 'Ticketed')) return 'Ticketed';
+  return 'Confirmed';
+}
+
+export function findBookingStatusContradiction(
+  status: BookingStatus,
+  sectorStatuses: BookingStatus[]
+): BookingStatusContradiction | null {
+  const expected = deriveBookingStatus(sectorStatuses);
+  if (!expected || expected === status) return null;
+  const counts = new Map<BookingStatus, number>();
+  sectorStatuses.forEach((sectorStatus) => counts.set(sectorStatus, (counts.get(sectorStatus) ?? 0) + 1));
+  const breakdown = Array.from(counts, ([sectorStatus, count]) => `${count} ${sectorStatus}`).join(', ');
+  return {
+    status,
+    expected,
+    message: `Booking is ${status} but its sectors (${breakdown}) make it ${expected}.`,
+  };
+}
+
+// Splits pasted ticket numbers on commas, semicolons and whitespace and normalises them to
+// 13 digits. Repeats are dropped; anything that isn't a ticket number is returned as invalid.
+export function parseTicketNumbers(input: string): { ticketNumbers: string[]; invalid: string[] } {
+  const ticketNumbers: string[] = [];
+  const invalid: string[] = [];
+  input
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      const match = TICKET_NUMBER_PATTERN.exec(token);
+      if (!match) {
+        invalid.push(token);
+        return;
+      }
+      const ticketNumber = `${match[1]}${match[2]}`;
+      if (!ticketNumbers.includes(ticketNumber)) ticketNumbers.push(ticketNumber);
+    });
+  return { ticketNumbers, invalid };
+}
+
+export function formatTicketNumber(ticketNumber: string): string {
+  return ticketNumber.length === 13 ? `${ticketNumber.slice(0, 3)}-${ticketNumber.slice(3)}` : ticketNumber;
+}
+
+interface BookingStatusChange {
+  current: BookingStatus | null; // null for a new booking
+  requested: BookingStatus;
+  sectorStatuses: BookingStatus[];
+  ticketNumbers?: string[];
+  cancellationReason?: string | null;
+}
+
+// Works out the status to save. The booking's status follows its sectors; the only statuses
+// set by hand are Ticketed and Cancelled, which are pushed down to the sectors and need the
+// ticket numbers or the reason for cancelling.
+export function resolveBookingStatusChange(change: BookingStatusChange): BookingStatusResolution {
+  const { current, requested, sectorStatuses } = change;
+  let captured: CapturedBookingStatus | null = null;
+  let nextSectorStatuses = sectorStatuses;
+
+  if (requested === 'Cancelled' && current !== 'Cancelled') {
+    if (!change.cancellationReason?.trim()) {
+      return { ok: false, field: 'cancellation_reason', message: 'Give a reason for cancelling the booking.' };
+    }
+    captured = 'Cancelled';
+    nextSectorStatuses = sectorStatuses.map(() => 'Cancelled');
+  } else if (requested === 'Ticketed' && current !== 'Ticketed') {
+    if (sectorStatuses.every((status) => status === 'Cancelled')) {
+      return { ok: false, field: 'status', message: 'A cancelled booking cannot be ticketed.' };
+    }
+    const unconfirmed = sectorStatuses.findIndex((status) => UNCONFIRMED_SECTOR_STATUSES.includes(status));
+    if (unconfirmed >= 0) {
+      return {
+        ok: false,
+        field: 'status',
+        message: `Sector ${unconfirmed + 1} is ${sectorStatuses[unconfirmed]}; only confirmed sectors can be ticketed.`,
+      };
+    }
+    if (!change.ticketNumbers || change.ticketNumbers.length === 0) {
+      return { ok: false, field: 'ticket_numbers', message: 'Enter the ticket numbers issued for this booking.' };
+    }
+    captured = 'Ticketed';
+    nextSectorStatuses = sectorStatuses.map((status) => (status === 'Cancelled' ? status : 'Ticketed'));
+  }
+
+  return {
+    ok: true,
+    status: deriveBookingStatus(nextSectorStatuses) ?? requested,
+    sectorStatuses: nextSectorStatuses,
+    captured,
+  };
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import {
+  bookingTotalInBase,
+  convertAmount,
+  convertPaymentAmounts,
+  findExchangeRate,
+  parseExchangeRateCsv,
+} from './currency';
+import type { ExchangeRateInput } from './types/currency';
+
+const rates: ExchangeRateInput[] = [
+  { currency: 'USD', rate_date: '2026-01-01', rate: 36 },
+  { currency: 'USD', rate_date: '2026-06-01', rate: 34 },
+  { currency: 'EUR', rate_date: '2026-01-01', rate: 40 },
+];
+
+function runCurrencySelfCheck() {
+  assert.equal(findExchangeRate(rates, 'THB', '2026-03-01'), 1);
+  assert.equal(findExchangeRate(rates, 'USD', '2026-05-31'), 36, 'latest rate on or before the date applies');
+  assert.equal(findExchangeRate(rates, 'USD', '2026-06-01T10:00:00Z'), 34, 'timestamps compare by calendar date');
+  assert.equal(findExchangeRate(rates, 'USD', '2025-12-01'), 36, 'dates before the first rate fall back to it');
+  assert.equal(findExchangeRate(rates, 'JPY', '2026-03-01'), null, 'currencies without rates cannot be converted');
+
+  assert.equal(convertAmount(100, 'USD', 'THB', '2026-07-01', rates), 3400);
+  assert.equal(convertAmount(3400, 'THB', 'USD', '2026-07-01', rates), 100);
+  assert.equal(convertAmount(100, 'EUR', 'USD', '2026-03-01', rates), 111.11, 'cross rates go through the base currency');
+  assert.equal(convertAmount(100, 'JPY', 'THB', '2026-03-01', rates), null);
+
+  const booking = {
+    grand_total: 1000,
+    currency: 'USD' as const,
+    booking_date: '2026-02-01',
+    created_at: '2026-01-15T08:00:00Z',
+    payments: [
+      { is_verified: true, verified_payment_date: '2026-06-15' },
+      { is_verified: false, verified_payment_date: '2026-12-01' },
+    ],
+  };
+  assert.equal(bookingTotalInBase(booking, rates), 34000, 'uses the rate on the latest verified payment date');
+  assert.equal(bookingTotalInBase({ ...booking, payments: [] }, rates), 36000, 'unpaid bookings use the booking date');
+  assert.equal(bookingTotalInBase({ ...booking, currency: 'JPY' }, rates), null);
+
+  const converted = convertPaymentAmounts(
+    [
+      { verified_amount: 3400, verified_payment_date: '2026-07-01', currency: 'THB' as const },
+      { verified_amount: 5000, verified_payment_date: '2026-07-01', currency: 'JPY' as const },
+      { verified_amount: null, verified_payment_date: null, currency: 'THB' as const },
+    ],
+    'USD',
+    rates
+  );
+  assert.deepEqual(converted.map((payment) => payment.verified_amount), [100, null, null]);
+
+  const parsed = parseExchangeRateCsv('Date,Currency,Rate\n2026-07-01,usd,33.5\n2026-07-01,THB,1\nbad,EUR,41\n');
+  assert.deepEqual(parsed.rates, [{ currency: 'USD', rate_date: '2026-07-01', rate: 33.5 }]);
+  assert.equal(parsed.errors.length, 2);
+  assert.ok(parsed.errors[0].startsWith('Line 3:'), 'errors carry the file line number');
+  assert.equal(parseExchangeRateCsv('currency,rate\nUSD,30').errors.length, 1, 'a missing date column is rejected');
+}
+
+runCurrencySelfCheck();
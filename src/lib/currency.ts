@@ -0,0 +1,148 @@
+import {
+  BASE_CURRENCY,
+  CurrencyCodeEnum,
+  ExchangeRateFormSchema,
+  type CurrencyCode,
+  type ExchangeRateInput,
+} from '@/lib/types/currency';
+
+type RateRow = Pick<ExchangeRateInput, 'currency' | 'rate_date' | 'rate'>;
+
+const toDateKey = (value: string | null | undefined): string | null =>
+  value ? value.slice(0, 10) : null;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Units of BASE_CURRENCY per unit of `currency` on `date`: the latest rate dated on or before it.
+// Dates earlier than the first stored rate use that first rate rather than failing the conversion.
+export function findExchangeRate(rates: RateRow[], currency: CurrencyCode, date: string | null | undefined): number | null {
+  if (currency === BASE_CURRENCY) return 1;
+  const dateKey = toDateKey(date);
+  let onOrBefore: RateRow | null = null;
+  let earliest: RateRow | null = null;
+
+  for (const row of rates) {
+    if (row.currency !== currency) continue;
+    if (!earliest || row.rate_date < earliest.rate_date) earliest = row;
+    if (dateKey && row.rate_date <= dateKey && (!onOrBefore || row.rate_date > onOrBefore.rate_date)) onOrBefore = row;
+  }
+
+  const match = dateKey ? onOrBefore ?? earliest : null;
+  return match ? match.rate : null;
+}
+
+// Convert through the base currency; null when either side has no usable rate
+export function convertAmount(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: string | null | undefined,
+  rates: RateRow[]
+): number | null {
+  if (from === to) return amount;
+  const fromRate = findExchangeRate(rates, from, date);
+  const toRate = findExchangeRate(rates, to, date);
+  if (fromRate === null || toRate === null) return null;
+  return roundMoney((amount * fromRate) / toRate);
+}
+
+export function convertToBase(
+  amount: number,
+  currency: CurrencyCode,
+  date: string | null | undefined,
+  rates: RateRow[]
+): number | null {
+  return convertAmount(amount, currency, BASE_CURRENCY, date, rates);
+}
+
+// Date whose rate applies to a booking's totals in reports: its latest verified payment,
+// falling back to the booking date and then the creation date for unpaid bookings
+export function getConversionDate(
+  booking: { booking_date?: string | null; created_at?: string | null },
+  payments: { is_verified?: boolean | null; verified_payment_date?: string | null }[] = []
+): string | null {
+  const paymentDates = payments
+    .filter((payment) => payment.is_verified && payment.verified_payment_date)
+    .map((payment) => toDateKey(payment.verified_payment_date) as string)
+    .sort();
+  return paymentDates[paymentDates.length - 1] ?? toDateKey(booking.booking_date) ?? toDateKey(booking.created_at);
+}
+
+export function parseCurrencyCode(value: string | null | undefined): CurrencyCode | null {
+  const parsed = CurrencyCodeEnum.safeParse(value?.trim().toUpperCase());
+  return parsed.success ? parsed.data : null;
+}
+
+const CSV_COLUMNS = ['currency', 'rate_date', 'rate'] as const;
+const CSV_HEADER_ALIASES: Record<string, (typeof CSV_COLUMNS)[number]> = {
+  currency: 'currency',
+  date: 'rate_date',
+  rate_date: 'rate_date',
+  rate: 'rate',
+};
+
+// Parse a rate sheet with a header row naming currency, date and rate columns (any order).
+// Invalid lines are reported by line number and skipped; valid ones are returned.
+export function parseExchangeRateCsv(text: string): { rates: ExchangeRateInput[]; errors: string[] } {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0);
+  if (lines.length === 0) return { rates: [], errors: ['The file is empty.'] };
+
+  const header = lines[0].split(',').map((cell) => CSV_HEADER_ALIASES[cell.trim().toLowerCase()]);
+  const columnIndex = Object.fromEntries(CSV_COLUMNS.map((column) => [column, header.indexOf(column)]));
+  const missing = CSV_COLUMNS.filter((column) => columnIndex[column] === -1);
+  if (missing.length > 0) {
+    return { rates: [], errors: [`Header row must include currency, date and rate columns (missing: ${missing.join(', ')}).`] };
+  }
+
+  const rates: ExchangeRateInput[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const cells = line.split(',').map((cell) => cell.trim());
+    const parsed = ExchangeRateFormSchema.safeParse({
+      currency: cells[columnIndex.currency]?.toUpperCase(),
+      rate_date: cells[columnIndex.rate_date],
+      rate: cells[columnIndex.rate],
+    });
+    if (parsed.success) {
+      rates.push(parsed.data);
+    } else {
+      const issues = parsed.error.issues.map((issue) => issue.message).join(' ');
+      errors.push(`Line ${index + 2}: ${issues}`);
+    }
+  });
+
+  return { rates, errors };
+}
+
+export interface ConvertibleBooking {
+  grand_total?: number | null;
+  currency?: CurrencyCode | null;
+  booking_date?: string | null;
+  created_at?: string | null;
+  payments?: { is_verified?: boolean | null; verified_payment_date?: string | null }[] | null;
+}
+
+// A booking's grand total in BASE_CURRENCY at its conversion date; null when no rate is available
+export function bookingTotalInBase(booking: ConvertibleBooking, rates: RateRow[]): number | null {
+  const total = booking.grand_total ?? 0;
+  if (total === 0) return 0;
+  return convertToBase(total, booking.currency ?? BASE_CURRENCY, getConversionDate(booking, booking.payments ?? []), rates);
+}
+
+// Restate verified slip amounts in the booking's currency at each slip's date.
+// Slips with no usable rate lose their amount, so they are left out of matching rather than miscounted.
+export function convertPaymentAmounts<
+  T extends { verified_amount?: number | null; verified_payment_date?: string | null; uploaded_at?: string | null; currency?: CurrencyCode | null }
+>(payments: T[], currency: CurrencyCode, rates: RateRow[]): T[] {
+  return payments.map((payment) => {
+    if (payment.verified_amount === null || payment.verified_amount === undefined) return payment;
+    const verified_amount = convertAmount(
+      payment.verified_amount,
+      payment.currency ?? BASE_CURRENCY,
+      currency,
+      payment.verified_payment_date ?? payment.uploaded_at,
+      rates
+    );
+    return { ...payment, verified_amount };
+  });
+}
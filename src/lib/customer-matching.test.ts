@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import {
+  customerNameSimilarity,
+  findDuplicateCustomers,
+  matchCustomerName,
+  normalizeCustomerName,
+} from './customer-matching';
+
+const customers = [
+  { id: 'c-1', company_name: 'Siam Holidays Co., Ltd.' },
+  { id: 'c-2', company_name: 'Siam Travel' },
+  { id: 'c-3', company_name: 'John Smith' },
+  { id: 'c-4', company_name: 'Bangkok Explorer' },
+];
+
+function runCustomerMatchingSelfCheck() {
+  assert.equal(normalizeCustomerName('  Siam Holidays Co., Ltd. '), 'siam holidays');
+  assert.equal(normalizeCustomerName('Mr. John  SMITH'), 'john smith');
+
+  assert.equal(customerNameSimilarity('siam holidays', 'Siam Holidays Co., Ltd.'), 1, 'legal suffixes are ignored');
+  assert.equal(customerNameSimilarity('Smith John', 'John Smith'), 1, 'word order is ignored');
+  assert.ok(customerNameSimilarity('Siam Holiday', 'Siam Holidays') > 0.9, 'small typos stay close');
+  assert.ok(customerNameSimilarity('Bangkok Explorer', 'John Smith') < 0.2);
+
+  const exact = matchCustomerName('SIAM HOLIDAYS', customers);
+  assert.equal(exact.confident?.id, 'c-1');
+  assert.equal(exact.suggestions[0].customer.id, 'c-1');
+
+  const typo = matchCustomerName('Bangkok Explorers', customers);
+  assert.equal(typo.confident?.id, 'c-4', 'a clear near-match links without review');
+
+  const ambiguous = matchCustomerName('Siam', customers);
+  assert.equal(ambiguous.confident, null, 'weak matches are left for review');
+
+  const unknown = matchCustomerName('Chiang Mai Adventures', customers);
+  assert.deepEqual(unknown, { suggestions: [], confident: null });
+
+  const duplicates = findDuplicateCustomers([
+    ...customers,
+    { id: 'c-5', company_name: 'ABC Travel' },
+    { id: 'c-6', company_name: 'ABC Travel Co., Ltd' },
+    { id: 'c-7', company_name: 'Siam Holidays' },
+  ]);
+  assert.deepEqual(
+    duplicates.map((pair) => pair.customers.map((c) => c.id)),
+    [['c-5', 'c-6'], ['c-1', 'c-7']],
+    'legal-suffix variants pair up; merely related names do not'
+  );
+  assert.ok(duplicates.every((pair) => pair.score === 1));
+}
+
+runCustomerMatchingSelfCheck();
@@ -0,0 +1,90 @@
+import type { CustomerSelectItem } from '@/lib/types/call-reports';
+import type { CustomerMatchSuggestion, CustomerNameMatch, DuplicateCustomerPair } from '@/lib/types/customer-matching';
+
+// Suggestions below this similarity are not worth showing
+export const SUGGESTION_THRESHOLD = 0.5;
+// Links are made without review only at or above this similarity...
+export const CONFIDENT_MATCH_THRESHOLD = 0.9;
+// ...and only when the runner-up trails by at least this much
+const CONFIDENT_MATCH_MARGIN = 0.1;
+// Two customers at or above this similarity are listed as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.8;
+const MAX_SUGGESTIONS = 3;
+
+// Words that vary between spellings of the same customer without identifying it
+const IGNORED_WORDS = new Set(['co', 'company', 'ltd', 'limited', 'inc', 'plc', 'the', 'mr', 'mrs', 'ms', 'miss', 'dr', 'khun']);
+
+export function normalizeCustomerName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 0 && !IGNORED_WORDS.has(word))
+    .join(' ');
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) pairs.push(compact.slice(i, i + 2));
+  return pairs;
+}
+
+// Dice coefficient over character bigrams of the normalized names; word order does not matter
+// when both names contain the same words
+export function customerNameSimilarity(a: string, b: string): number {
+  const left = normalizeCustomerName(a);
+  const right = normalizeCustomerName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.split(' ').sort().join(' ') === right.split(' ').sort().join(' ')) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  if (leftPairs.length === 0 || rightPairs.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  rightPairs.forEach((pair) => remaining.set(pair, (remaining.get(pair) ?? 0) + 1));
+  let shared = 0;
+  leftPairs.forEach((pair) => {
+    const count = remaining.get(pair) ?? 0;
+    if (count > 0) {
+      shared += 1;
+      remaining.set(pair, count - 1);
+    }
+  });
+  return (2 * shared) / (leftPairs.length + rightPairs.length);
+}
+
+export function matchCustomerName(name: string, customers: CustomerSelectItem[]): CustomerNameMatch {
+  const ranked: CustomerMatchSuggestion[] = customers
+    .map((customer) => ({ customer, score: Math.round(customerNameSimilarity(name, customer.company_name) * 100) / 100 }))
+    .filter((suggestion) => suggestion.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score || a.customer.company_name.localeCompare(b.customer.company_name));
+
+  const [best, runnerUp] = ranked;
+  const confident =
+    best && best.score >= CONFIDENT_MATCH_THRESHOLD && (!runnerUp || best.score - runnerUp.score >= CONFIDENT_MATCH_MARGIN)
+      ? best.customer
+      : null;
+
+  return { suggestions: ranked.slice(0, MAX_SUGGESTIONS), confident };
+}
+
+// Every pair of customers whose names are similar enough to be the same company, most similar first
+export function findDuplicateCustomers<T extends CustomerSelectItem>(
+  customers: T[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateCustomerPair<T>[] {
+  const pairs: DuplicateCustomerPair<T>[] = [];
+  for (let i = 0; i < customers.length; i++) {
+    for (let j = i + 1; j < customers.length; j++) {
+      const score = Math.round(customerNameSimilarity(customers[i].company_name, customers[j].company_name) * 100) / 100;
+      if (score >= threshold) pairs.push({ customers: [customers[i], customers[j]], score });
+    }
+  }
+  return pairs.sort(
+    (a, b) => b.score - a.score || a.customers[0].company_name.localeCompare(b.customers[0].company_name)
+  );
+}
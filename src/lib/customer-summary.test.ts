@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { summarizeCustomer, summarizeCustomerCredit } from './customer-summary';
+import type { ExchangeRateInput } from './types/currency';
+
+const rates: ExchangeRateInput[] = [{ currency: 'USD', rate_date: '2026-01-01', rate: 35 }];
+
+function runCustomerSummarySelfCheck() {
+  const summary = summarizeCustomer(
+    {
+      airlineBookings: [{ status: 'Ticketed' }, { status: 'Cancelled' }],
+      tourBookings: [
+        { status: 'Complete', grand_total: 50000, currency: 'THB', booking_date: '2026-02-01' },
+        { status: 'Open', grand_total: 1000, currency: 'USD', booking_date: '2026-03-01' },
+        { status: 'Closed', grand_total: 20000, currency: 'THB', booking_date: '2026-03-05' },
+        { status: 'Negotiating', grand_total: 500, currency: 'JPY', booking_date: '2026-04-01' },
+      ],
+      callReports: [{ report_date: '2026-03-10' }, { report_date: '2026-05-02T00:00:00Z' }, { report_date: null }],
+    },
+    rates
+  );
+
+  assert.equal(summary.lifetimeRevenue, 85000, 'closed bookings are not revenue; foreign totals are converted');
+  assert.equal(summary.unconvertedBookings, 1, 'totals without a rate are counted, not guessed');
+  assert.equal(summary.bookingCount, 6);
+  assert.equal(summary.cancelledCount, 2);
+  assert.equal(summary.cancellationRate, 33.3);
+  assert.equal(summary.lastContactDate, '2026-05-02');
+
+  const empty = summarizeCustomer({ airlineBookings: [], tourBookings: [], callReports: [] }, rates);
+  assert.equal(empty.cancellationRate, null);
+  assert.equal(empty.lastContactDate, null);
+
+  const balances = [
+    { current_status: 'Paid (1st installment)' as const, outstanding: 30000, currency: 'THB' as const },
+    { current_status: 'Open' as const, outstanding: 500, currency: 'USD' as const },
+    { current_status: 'Closed' as const, outstanding: 90000, currency: 'THB' as const },
+    { current_status: 'Open' as const, outstanding: 100, currency: 'JPY' as const },
+    { current_status: 'Open' as const, outstanding: null, currency: 'THB' as const },
+  ];
+  const credit = summarizeCustomerCredit(40000, balances, rates, '2026-10-01');
+  assert.equal(credit.outstanding, 47500, 'closed bookings no longer count against the limit');
+  assert.equal(credit.unconvertedBookings, 1);
+  assert.equal(credit.available, -7500);
+  assert.equal(credit.over_limit, true);
+
+  const noLimit = summarizeCustomerCredit(null, balances, rates, '2026-10-01');
+  assert.equal(noLimit.available, null);
+  assert.equal(noLimit.over_limit, false, 'customers without a limit are never over it');
+}
+
+runCustomerSummarySelfCheck();
@@ -0,0 +1,83 @@
+import type { BookingStatus } from '@/types/database';
+import { bookingTotalInBase, convertToBase, type ConvertibleBooking } from '@/lib/currency';
+import type { CurrencyCode, ExchangeRateInput } from '@/lib/types/currency';
+import type { CustomerCreditStatus, CustomerSummary } from '@/lib/types/customers';
+import type { TourPackageStatus } from '@/lib/types/tours';
+
+// Tour bookings have no cancelled status; a Closed booking was dropped before completion
+const CANCELLED_TOUR_STATUS: TourPackageStatus = 'Closed';
+const CANCELLED_AIRLINE_STATUS: BookingStatus = 'Cancelled';
+
+export interface CustomerSummaryInput {
+  airlineBookings: { status: BookingStatus }[];
+  tourBookings: (ConvertibleBooking & { status: TourPackageStatus })[];
+  callReports: { report_date: string | null }[];
+}
+
+export function summarizeCustomer(
+  { airlineBookings, tourBookings, callReports }: CustomerSummaryInput,
+  rates: ExchangeRateInput[]
+): CustomerSummary {
+  let lifetimeRevenue = 0;
+  let unconvertedBookings = 0;
+  tourBookings
+    .filter((booking) => booking.status !== CANCELLED_TOUR_STATUS)
+    .forEach((booking) => {
+      const baseTotal = bookingTotalInBase(booking, rates);
+      if (baseTotal === null) unconvertedBookings += 1;
+      else lifetimeRevenue += baseTotal;
+    });
+
+  const bookingCount = airlineBookings.length + tourBookings.length;
+  const cancelledCount =
+    airlineBookings.filter((booking) => booking.status === CANCELLED_AIRLINE_STATUS).length +
+    tourBookings.filter((booking) => booking.status === CANCELLED_TOUR_STATUS).length;
+
+  const lastContactDate = callReports.reduce<string | null>((latest, report) => {
+    const date = report.report_date?.slice(0, 10) ?? null;
+    return date && (!latest || date > latest) ? date : latest;
+  }, null);
+
+  return {
+    lifetimeRevenue: Math.round(lifetimeRevenue * 100) / 100,
+    unconvertedBookings,
+    bookingCount,
+    cancelledCount,
+    cancellationRate: bookingCount > 0 ? Number(((cancelledCount / bookingCount) * 100).toFixed(1)) : null,
+    lastContactDate,
+  };
+}
+
+export interface CreditBalanceInput {
+  current_status: TourPackageStatus;
+  outstanding: number | null; // in the booking currency
+  currency: CurrencyCode;
+}
+
+// Outstanding balances count at today's rate (asOf), since that is what the customer still owes
+export function summarizeCustomerCredit(
+  creditLimit: number | null | undefined,
+  balances: CreditBalanceInput[],
+  rates: ExchangeRateInput[],
+  asOf: string
+): CustomerCreditStatus {
+  let outstanding = 0;
+  let unconvertedBookings = 0;
+  balances
+    .filter((balance) => balance.current_status !== CANCELLED_TOUR_STATUS && (balance.outstanding ?? 0) > 0)
+    .forEach((balance) => {
+      const inBase = convertToBase(balance.outstanding as number, balance.currency, asOf, rates);
+      if (inBase === null) unconvertedBookings += 1;
+      else outstanding += inBase;
+    });
+
+  outstanding = Math.round(outstanding * 100) / 100;
+  const limit = creditLimit ?? null;
+  return {
+    credit_limit: limit,
+    outstanding,
+    unconvertedBookings,
+    available: limit === null ? null : Math.round((limit - outstanding) * 100) / 100,
+    over_limit: limit !== null && outstanding > limit,
+  };
+}
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import {
+  AIRLINE_FILTER_COLUMNS,
+  applyDashboardFilters,
+  bookingTrendBuckets,
+  businessDateKey,
+  countByBucket,
+  dashboardFiltersToQuery,
+  hasActiveFilters,
+  parseDashboardFilters,
+  resolveDateRange,
+} from './dashboard-filters';
+import { EMPTY_DASHBOARD_FILTERS } from './types/dashboard-filters';
+
+const CUSTOMER_ID = '6f1c2a4e-8b3d-4c5e-9f7a-1b2c3d4e5f60';
+const PRODUCT_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+const options = { statuses: ['Open', 'Closed'], today: '2026-03-15' };
+
+// Records the filters applied, standing in for the Supabase query builder
+class RecordingQuery {
+  calls: [string, string, unknown][] = [];
+  filter(column: string, operator: string, value: unknown): this {
+    this.calls.push([column, operator, value]);
+    return this;
+  }
+}
+
+function runDashboardFiltersSelfCheck() {
+  assert.deepEqual(resolveDateRange('all_time', '2026-03-15'), { from: null, to: null });
+  assert.deepEqual(resolveDateRange('last_7_days', '2026-03-15'), { from: '2026-03-09', to: '2026-03-15' });
+  assert.deepEqual(resolveDateRange('this_month', '2026-03-15'), { from: '2026-03-01', to: '2026-03-15' });
+  assert.deepEqual(resolveDateRange('last_month', '2026-03-15'), { from: '2026-02-01', to: '2026-02-28' });
+  assert.deepEqual(resolveDateRange('last_month', '2026-01-10'), { from: '2025-12-01', to: '2025-12-31' });
+  assert.deepEqual(resolveDateRange('this_year', '2026-03-15'), { from: '2026-01-01', to: '2026-03-15' });
+  assert.deepEqual(resolveDateRange('custom', '2026-03-15', { from: '2026-02-10', to: '2026-01-05' }), { from: '2026-01-05', to: '2026-02-10' });
+
+  assert.deepEqual(parseDashboardFilters({}, options), EMPTY_DASHBOARD_FILTERS);
+  const parsed = parseDashboardFilters(
+    { range: 'custom', from: '2026-01-01', to: 'not-a-date', customer: CUSTOMER_ID, product: PRODUCT_ID, status: 'Closed' },
+    options
+  );
+  assert.deepEqual(parsed, { preset: 'custom', from: '2026-01-01', to: null, customerId: CUSTOMER_ID, tourProductId: PRODUCT_ID, status: 'Closed' });
+  const junk = parseDashboardFilters({ range: 'forever', customer: "1' or 1=1", status: 'Ticketed' }, options);
+  assert.deepEqual(junk, EMPTY_DASHBOARD_FILTERS, 'unknown presets, ids and statuses are dropped');
+  assert.equal(parseDashboardFilters({ product: PRODUCT_ID }, { ...options, withTourProduct: false }).tourProductId, null);
+  assert.equal(parseDashboardFilters({ status: ['Open', 'Closed'] }, options).status, 'Open', 'repeated params use the first value');
+
+  // Round trip through the URL, keeping the page's own params
+  const query = dashboardFiltersToQuery(parsed, { compare: 'previous_week' });
+  assert.equal(query, `range=custom&from=2026-01-01&customer=${CUSTOMER_ID}&product=${PRODUCT_ID}&status=Closed&compare=previous_week`);
+  assert.deepEqual(parseDashboardFilters(Object.fromEntries(new URLSearchParams(query)), options), parsed);
+  assert.equal(dashboardFiltersToQuery(EMPTY_DASHBOARD_FILTERS), '');
+  assert.equal(
+    dashboardFiltersToQuery(parseDashboardFilters({ range: 'last_7_days' }, options)),
+    'range=last_7_days',
+    'preset ranges are resolved again when the link is opened'
+  );
+
+  assert.equal(hasActiveFilters(EMPTY_DASHBOARD_FILTERS), false);
+  assert.equal(hasActiveFilters({ ...EMPTY_DASHBOARD_FILTERS, status: 'Open' }), true);
+
+  const recorded = applyDashboardFilters(new RecordingQuery(), { ...parsed, to: '2026-01-31' });
+  assert.deepEqual(recorded.calls, [
+    ['booking_date', 'gte', '2026-01-01'],
+    ['booking_date', 'lte', '2026-01-31'],
+    ['customer_id', 'eq', CUSTOMER_ID],
+    ['tour_product_id', 'eq', PRODUCT_ID],
+    ['status', 'eq', 'Closed'],
+  ]);
+  const airline = applyDashboardFilters(new RecordingQuery(), { ...parsed, to: '2026-01-31' }, AIRLINE_FILTER_COLUMNS);
+  assert.deepEqual(airline.calls.slice(0, 2), [
+    ['created_at', 'gte', '2026-01-01T00:00:00+07:00'],
+    ['created_at', 'lt', '2026-02-01T00:00:00+07:00'],
+  ], 'creation timestamps are matched by the Bangkok business day');
+  assert.equal(airline.calls.some(([column]) => column === 'tour_product_id'), false);
+  assert.deepEqual(applyDashboardFilters(new RecordingQuery(), EMPTY_DASHBOARD_FILTERS).calls, []);
+
+  const lastWeek = bookingTrendBuckets(EMPTY_DASHBOARD_FILTERS, '2026-03-15');
+  assert.equal(lastWeek.unit, 'day');
+  assert.deepEqual(lastWeek.buckets.map((bucket) => bucket.key), [
+    '2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13', '2026-03-14', '2026-03-15',
+  ]);
+  const year = bookingTrendBuckets(parseDashboardFilters({ range: 'this_year' }, options), '2026-03-15');
+  assert.equal(year.unit, 'month');
+  assert.deepEqual(year.buckets, [
+    { key: '2026-01', from: '2026-01-01', to: '2026-01-31' },
+    { key: '2026-02', from: '2026-02-01', to: '2026-02-28' },
+    { key: '2026-03', from: '2026-03-01', to: '2026-03-15' },
+  ]);
+  assert.deepEqual(
+    countByBucket(['2026-01-31T16:59:00.000Z', '2026-01-31T17:00:00.000Z', '2026-02-10', '2026-03-20T10:00:00.000Z', null], year.buckets),
+    [1, 2, 0],
+    '17:00 UTC is already the next day in Bangkok'
+  );
+
+  assert.equal(businessDateKey(new Date('2026-03-14T16:59:59.000Z')), '2026-03-14');
+  assert.equal(businessDateKey(new Date('2026-03-14T17:00:00.000Z')), '2026-03-15');
+}
+
+runDashboardFiltersSelfCheck();
@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import {
+  DASHBOARD_FILTER_PARAMS,
+  DEFAULT_DATE_RANGE_PRESET,
+  DateRangePresetEnum,
+  type DashboardFilters,
+  type DateRangePreset,
+} from '@/lib/types/dashboard-filters';
+
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+// The Supabase filter builder method used to apply the filters server-side. Its generic `eq`
+// is too deep for TypeScript to match structurally; `filter` takes the operator by name.
+interface FilterableQuery {
+  filter(column: string, operator: string, value: unknown): this;
+}
+
+export interface DashboardFilterColumns {
+  date: string;
+  dateKind: 'date' | 'timestamp'; // timestamps are matched between business-day midnights
+  customerId: string;
+  tourProductId: string | null; // null for tables without a tour product
+  status: string;
+}
+
+// Tour bookings are dated by booking_date, as in the revenue report
+export const DEFAULT_FILTER_COLUMNS: DashboardFilterColumns = {
+  date: 'booking_date',
+  dateKind: 'date',
+  customerId: 'customer_id',
+  tourProductId: 'tour_product_id',
+  status: 'status',
+};
+
+// Airline bookings have no booking date, so they are dated by when they were created
+export const AIRLINE_FILTER_COLUMNS: DashboardFilterColumns = {
+  date: 'created_at',
+  dateKind: 'timestamp',
+  customerId: 'customer_id',
+  tourProductId: null,
+  status: 'status',
+};
+
+// The agency works in Thai time; Thailand has no daylight saving, so the offset is fixed
+const BUSINESS_TIME_ZONE = 'Asia/Bangkok';
+const BUSINESS_UTC_OFFSET = '+07:00';
+
+// Longest range the booking trend chart still shows day by day
+export const DAILY_TREND_MAX_DAYS = 31;
+
+export interface TrendBucket {
+  key: string; // yyyy-MM-dd for days, yyyy-MM for months
+  from: string; // inclusive
+  to: string; // inclusive
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const IdSchema = z.string().uuid();
+
+function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(fromKey: string, toKey: string): number {
+  const [fromYear, fromMonth, fromDay] = fromKey.split('-').map(Number);
+  const [toYear, toMonth, toDay] = toKey.split('-').map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / DAY_MS);
+}
+
+function firstOfNextMonth(dateKey: string): string {
+  const [year, month] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+}
+
+// The business-day date (yyyy-MM-dd) of an instant, today by default. Date ranges are resolved
+// against this rather than the server's UTC date, which lags Bangkok until 07:00.
+export function businessDateKey(instant: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: BUSINESS_TIME_ZONE }).format(instant);
+}
+
+const firstParam = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+const toDateParam = (value: string | undefined): string | null =>
+  value && DATE_KEY.test(value) && !Number.isNaN(Date.parse(value)) ? value : null;
+
+// Inclusive start and end dates for a preset; custom ranges come from the URL and may be open-ended
+export function resolveDateRange(
+  preset: DateRangePreset,
+  today: string,
+  custom: { from: string | null; to: string | null } = { from: null, to: null }
+): { from: string | null; to: string | null } {
+  switch (preset) {
+    case 'all_time':
+      return { from: null, to: null };
+    case 'today':
+      return { from: today, to: today };
+    case 'last_7_days':
+      return { from: addDays(today, -6), to: today };
+    case 'last_30_days':
+      return { from: addDays(today, -29), to: today };
+    case 'this_month':
+      return { from: `${today.slice(0, 7)}-01`, to: today };
+    case 'last_month': {
+      const thisMonthStart = `${today.slice(0, 7)}-01`;
+      const lastMonthEnd = addDays(thisMonthStart, -1);
+      return { from: `${lastMonthEnd.slice(0, 7)}-01`, to: lastMonthEnd };
+    }
+    case 'this_year':
+      return { from: `${today.slice(0, 4)}-01-01`, to: today };
+    case 'custom':
+      // A reversed range is read the way it was meant rather than matching nothing
+      return custom.from && custom.to && custom.from > custom.to ? { from: custom.to, to: custom.from } : custom;
+  }
+}
+
+// Filters from the dashboard URL. Unknown presets, malformed dates and ids, and statuses
+// outside the dashboard's own list are dropped rather than reported.
+export function parseDashboardFilters(
+  params: SearchParams,
+  options: { statuses: readonly string[]; today: string; withTourProduct?: boolean }
+): DashboardFilters {
+  const parsedPreset = DateRangePresetEnum.safeParse(firstParam(params[DASHBOARD_FILTER_PARAMS.preset]));
+  const preset = parsedPreset.success ? parsedPreset.data : DEFAULT_DATE_RANGE_PRESET;
+  const { from, to } = resolveDateRange(preset, options.today, {
+    from: toDateParam(firstParam(params[DASHBOARD_FILTER_PARAMS.from])),
+    to: toDateParam(firstParam(params[DASHBOARD_FILTER_PARAMS.to])),
+  });
+
+  const idParam = (key: string): string | null => {
+    const parsed = IdSchema.safeParse(firstParam(params[key]));
+    return parsed.success ? parsed.data : null;
+  };
+  const status = firstParam(params[DASHBOARD_FILTER_PARAMS.status]);
+
+  return {
+    preset,
+    from,
+    to,
+    customerId: idParam(DASHBOARD_FILTER_PARAMS.customerId),
+    tourProductId: options.withTourProduct === false ? null : idParam(DASHBOARD_FILTER_PARAMS.tourProductId),
+    status: status && options.statuses.includes(status) ? status : null,
+  };
+}
+
+// Query string for the filters, leaving out anything at its default. Extra params
+// (the dashboard's comparison period, for one) are kept alongside.
+export function dashboardFiltersToQuery(filters: DashboardFilters, extra: Record<string, string | null | undefined> = {}): string {
+  const params = new URLSearchParams();
+  if (filters.preset !== DEFAULT_DATE_RANGE_PRESET) params.set(DASHBOARD_FILTER_PARAMS.preset, filters.preset);
+  if (filters.preset === 'custom') {
+    if (filters.from) params.set(DASHBOARD_FILTER_PARAMS.from, filters.from);
+    if (filters.to) params.set(DASHBOARD_FILTER_PARAMS.to, filters.to);
+  }
+  if (filters.customerId) params.set(DASHBOARD_FILTER_PARAMS.customerId, filters.customerId);
+  if (filters.tourProductId) params.set(DASHBOARD_FILTER_PARAMS.tourProductId, filters.tourProductId);
+  if (filters.status) params.set(DASHBOARD_FILTER_PARAMS.status, filters.status);
+  Object.entries(extra).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  return params.toString();
+}
+
+export function hasActiveFilters(filters: DashboardFilters): boolean {
+  return Boolean(filters.from || filters.to || filters.customerId || filters.tourProductId || filters.status);
+}
+
+// Narrow a bookings query to the filters. Date columns match the range inclusively; timestamp
+// columns are matched from business-day midnight on the start date up to (not including)
+// midnight after the end date.
+export function applyDashboardFilters<Q extends FilterableQuery>(
+  query: Q,
+  filters: DashboardFilters,
+  columns: DashboardFilterColumns = DEFAULT_FILTER_COLUMNS
+): Q {
+  const midnight = (dateKey: string) => `${dateKey}T00:00:00${BUSINESS_UTC_OFFSET}`;
+  let filtered = query;
+  if (columns.dateKind === 'date') {
+    if (filters.from) filtered = filtered.filter(columns.date, 'gte', filters.from);
+    if (filters.to) filtered = filtered.filter(columns.date, 'lte', filters.to);
+  } else {
+    if (filters.from) filtered = filtered.filter(columns.date, 'gte', midnight(filters.from));
+    if (filters.to) filtered = filtered.filter(columns.date, 'lt', midnight(addDays(filters.to, 1)));
+  }
+  if (filters.customerId) filtered = filtered.filter(columns.customerId, 'eq', filters.customerId);
+  if (filters.tourProductId && columns.tourProductId) filtered = filtered.filter(columns.tourProductId, 'eq', filters.tourProductId);
+  if (filters.status) filtered = filtered.filter(columns.status, 'eq', filters.status);
+  return filtered;
+}
+
+// Buckets for the booking trend chart: one per day for ranges up to DAILY_TREND_MAX_DAYS,
+// otherwise one per month. Without a start date the chart covers the last 7 days.
+export function bookingTrendBuckets(filters: DashboardFilters, today: string): { unit: 'day' | 'month'; buckets: TrendBucket[] } {
+  const to = filters.to ?? today;
+  const from = filters.from ?? addDays(to, -6);
+
+  if (daysBetween(from, to) < DAILY_TREND_MAX_DAYS) {
+    const buckets = Array.from({ length: daysBetween(from, to) + 1 }, (_, index) => {
+      const day = addDays(from, index);
+      return { key: day, from: day, to: day };
+    });
+    return { unit: 'day', buckets };
+  }
+
+  const buckets: TrendBucket[] = [];
+  for (let monthStart = `${from.slice(0, 7)}-01`; monthStart <= to; monthStart = firstOfNextMonth(monthStart)) {
+    const monthEnd = addDays(firstOfNextMonth(monthStart), -1);
+    buckets.push({
+      key: monthStart.slice(0, 7),
+      from: monthStart < from ? from : monthStart,
+      to: monthEnd > to ? to : monthEnd,
+    });
+  }
+  return { unit: 'month', buckets };
+}
+
+// How many of the dates or timestamps fall in each bucket, in bucket order.
+// Timestamps count towards their business day.
+export function countByBucket(timestamps: (string | null | undefined)[], buckets: TrendBucket[]): number[] {
+  const counts = buckets.map(() => 0);
+  timestamps.forEach((timestamp) => {
+    if (!timestamp) return;
+    const day = DATE_KEY.test(timestamp) ? timestamp : businessDateKey(new Date(timestamp));
+    const index = buckets.findIndex((bucket) => bucket.from <= day && day <= bucket.to);
+    if (index !== -1) counts[index]++;
+  });
+  return counts;
+}
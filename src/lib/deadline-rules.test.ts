@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { airlineCodeFromFlight, describeDeadlineRule, generateBookingDeadlines } from './deadline-rules';
+import type { DeadlineRule } from '@/lib/types/deadlines';
+
+type Rule = Pick<DeadlineRule, 'id' | 'airline_code' | 'fare_class_id' | 'deadline_type' | 'anchor' | 'days'>;
+
+const rule = (id: string, fields: Partial<Rule>): Rule => ({
+  id,
+  airline_code: null,
+  fare_class_id: null,
+  deadline_type: 'ticketing',
+  anchor: 'before_travel',
+  days: 21,
+  ...fields,
+});
+
+function runDeadlineRulesSelfCheck() {
+  assert.equal(airlineCodeFromFlight('TG 642'), 'TG');
+  assert.equal(airlineCodeFromFlight('fd3011'), 'FD');
+  assert.equal(airlineCodeFromFlight('TBA'), null);
+  assert.equal(airlineCodeFromFlight(null), null);
+
+  const rules = [
+    rule('any-ticketing', {}),
+    rule('tg-ticketing', { airline_code: 'TG', days: 30 }),
+    rule('group-ticketing', { fare_class_id: 'group', days: 14 }),
+    rule('any-deposit', { deadline_type: 'deposit', anchor: 'after_booking', days: 3 }),
+    rule('any-names', { deadline_type: 'name_list', days: 10 }),
+  ];
+
+  assert.deepEqual(
+    generateBookingDeadlines(rules, {
+      bookingDate: '2025-03-01',
+      travelDate: '2025-05-01',
+      airlineCodes: ['TG'],
+      fareClassIds: ['group'],
+    }),
+    [
+      { deadline_type: 'deposit', due_date: '2025-03-04', rule_id: 'any-deposit' },
+      { deadline_type: 'name_list', due_date: '2025-04-21', rule_id: 'any-names' },
+      { deadline_type: 'ticketing', due_date: '2025-04-01', rule_id: 'tg-ticketing' },
+    ],
+    'airline rule outranks the fare class and catch-all rules'
+  );
+
+  assert.deepEqual(
+    generateBookingDeadlines(rules, {
+      bookingDate: '2025-03-01',
+      travelDate: '2025-05-01',
+      airlineCodes: ['FD'],
+      fareClassIds: ['group'],
+    }).find((deadline) => deadline.deadline_type === 'ticketing'),
+    { deadline_type: 'ticketing', due_date: '2025-04-17', rule_id: 'group-ticketing' }
+  );
+
+  assert.deepEqual(
+    generateBookingDeadlines([rule('tg', { airline_code: 'TG', days: 30 }), rule('fd', { airline_code: 'FD', days: 7 })], {
+      bookingDate: '2025-03-01',
+      travelDate: '2025-05-01',
+      airlineCodes: ['TG', 'FD'],
+      fareClassIds: [],
+    }),
+    [{ deadline_type: 'ticketing', due_date: '2025-04-01', rule_id: 'tg' }],
+    'mixed airlines take the earliest of equally specific rules'
+  );
+
+  assert.deepEqual(
+    generateBookingDeadlines(rules, { bookingDate: '2025-04-25', travelDate: '2025-05-01', airlineCodes: [], fareClassIds: [] })
+      .find((deadline) => deadline.deadline_type === 'ticketing')?.due_date,
+    '2025-04-25',
+    'late bookings are due on the booking date'
+  );
+
+  assert.deepEqual(
+    generateBookingDeadlines(rules, { bookingDate: '2025-03-01', travelDate: null, airlineCodes: [], fareClassIds: [] }),
+    [{ deadline_type: 'deposit', due_date: '2025-03-04', rule_id: 'any-deposit' }],
+    'departure-based rules need a travel date'
+  );
+
+  assert.equal(
+    describeDeadlineRule({ ...rule('tg', { airline_code: 'TG' }), fare_classes: { name: 'Group' } }),
+    'Ticketing: 21 days before departure (TG, Group)'
+  );
+}
+
+runDeadlineRulesSelfCheck();
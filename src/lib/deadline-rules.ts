@@ -0,0 +1,67 @@
+import {
+  DEADLINE_ANCHOR_LABELS,
+  DEADLINE_TYPES,
+  DEADLINE_TYPE_LABELS,
+  type DeadlineRule,
+  type DeadlineRuleContext,
+  type GeneratedDeadline,
+} from '@/lib/types/deadlines';
+
+type RuleInput = Pick<DeadlineRule, 'id' | 'airline_code' | 'fare_class_id' | 'deadline_type' | 'anchor' | 'days'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// "TG 642" / "TG642" -> "TG"; anything that doesn't start with a carrier code gives null
+export function airlineCodeFromFlight(flightNumber: string | null | undefined): string | null {
+  const match = flightNumber?.trim().toUpperCase().match(/^([A-Z0-9]{2})\s?\d{1,4}[A-Z]?$/);
+  return match ? match[1] : null;
+}
+
+// "Ticketing: 21 days before departure (TG, Group)"
+export function describeDeadlineRule(rule: RuleInput & { fare_classes?: { name: string } | null }): string {
+  const scope = [rule.airline_code, rule.fare_classes?.name].filter(Boolean).join(', ');
+  return `${DEADLINE_TYPE_LABELS[rule.deadline_type]}: ${rule.days} ${DEADLINE_ANCHOR_LABELS[rule.anchor]}${scope ? ` (${scope})` : ''}`;
+}
+
+// An airline match outranks a fare class match, and either outranks a catch-all rule
+function ruleSpecificity(rule: RuleInput): number {
+  return (rule.airline_code ? 2 : 0) + (rule.fare_class_id ? 1 : 0);
+}
+
+function ruleApplies(rule: RuleInput, context: DeadlineRuleContext): boolean {
+  return (
+    (!rule.airline_code || context.airlineCodes.includes(rule.airline_code)) &&
+    (!rule.fare_class_id || context.fareClassIds.includes(rule.fare_class_id))
+  );
+}
+
+function dueDate(rule: RuleInput, context: DeadlineRuleContext): string | null {
+  if (rule.anchor === 'after_booking') return addDays(context.bookingDate, rule.days);
+  if (!context.travelDate) return null;
+  // A booking made inside the time limit is due straight away, not in the past
+  const date = addDays(context.travelDate, -rule.days);
+  return date < context.bookingDate ? context.bookingDate : date;
+}
+
+// One deadline per type from the most specific rule that applies. When a booking mixes
+// airlines or fare classes and equally specific rules disagree, the earliest date wins.
+export function generateBookingDeadlines(rules: RuleInput[], context: DeadlineRuleContext): GeneratedDeadline[] {
+  return DEADLINE_TYPES.flatMap((type): GeneratedDeadline[] => {
+    const candidates = rules
+      .filter((rule) => rule.deadline_type === type && ruleApplies(rule, context))
+      .map((rule) => ({ rule, due_date: dueDate(rule, context) }))
+      .filter((candidate): candidate is { rule: RuleInput; due_date: string } => candidate.due_date !== null)
+      .sort(
+        (a, b) =>
+          ruleSpecificity(b.rule) - ruleSpecificity(a.rule) || a.due_date.localeCompare(b.due_date)
+      );
+
+    const best = candidates[0];
+    return best ? [{ deadline_type: type, due_date: best.due_date, rule_id: best.rule.id }] : [];
+  });
+}
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { buildInstallmentSchedule, matchPaymentsToInstallments } from './installments';
+import type { ReconciliationPaymentInput } from './reconciliation';
+
+function payment(id: string, amount: number, date: string, isVerified = true): ReconciliationPaymentInput {
+  return {
+    id,
+    status_at_payment: 'Paid (1st installment)',
+    uploaded_at: `${date}T09:00:00Z`,
+    is_verified: isVerified,
+    verified_amount: amount,
+    verified_payment_date: date,
+    verification_error: null,
+  };
+}
+
+function runInstallmentsSelfCheck() {
+  const depositAndBalance = buildInstallmentSchedule({
+    grandTotal: 10000,
+    depositPercent: 30,
+    balanceDueDaysBeforeTravel: 30,
+    installmentCount: 2,
+    travelStartDate: '2026-12-15',
+    firstDueDate: '2026-09-01',
+  });
+  assert.deepEqual(depositAndBalance, [
+    { sequence: 1, label: 'Deposit', due_date: '2026-09-01', amount: 3000 },
+    { sequence: 2, label: 'Balance', due_date: '2026-11-15', amount: 7000 },
+  ]);
+
+  const threeWay = buildInstallmentSchedule({
+    grandTotal: 1000,
+    depositPercent: 20,
+    balanceDueDaysBeforeTravel: 0,
+    installmentCount: 4,
+    travelStartDate: '2026-01-31',
+    firstDueDate: '2026-01-01',
+  });
+  assert.deepEqual(threeWay.map((item) => item.due_date), ['2026-01-01', '2026-01-11', '2026-01-21', '2026-01-31']);
+  assert.deepEqual(threeWay.map((item) => item.amount), [200, 266.67, 266.67, 266.66]);
+  assert.equal(threeWay.reduce((sum, item) => sum + item.amount, 0).toFixed(2), '1000.00', 'schedule sums to the grand total');
+
+  const lateBooking = buildInstallmentSchedule({
+    grandTotal: 500,
+    depositPercent: 50,
+    balanceDueDaysBeforeTravel: 30,
+    installmentCount: 2,
+    travelStartDate: '2026-03-10',
+    firstDueDate: '2026-03-01',
+  });
+  assert.equal(lateBooking[1].due_date, '2026-03-01', 'balance never falls due before the deposit');
+
+  const schedule = depositAndBalance.map((item, index) => ({ ...item, id: `inst-${index + 1}` }));
+
+  const untouched = matchPaymentsToInstallments(schedule, [], '2026-08-01');
+  assert.deepEqual(untouched.map((item) => item.status), ['upcoming', 'upcoming']);
+
+  const overdueDeposit = matchPaymentsToInstallments(schedule, [payment('p-unverified', 3000, '2026-09-01', false)], '2026-09-05');
+  assert.equal(overdueDeposit[0].status, 'overdue', 'unverified payments are not matched');
+  const duplicateSlip = matchPaymentsToInstallments(
+    schedule,
+    [payment('p-1', 3000, '2026-09-01'), { ...payment('p-copy', 3000, '2026-09-01'), duplicate_of_payment_id: 'p-1' }],
+    '2026-09-05'
+  );
+  assert.equal(duplicateSlip[1].paid_amount, 0, 'suspected duplicate slips are not matched');
+
+  const partlyPaid = matchPaymentsToInstallments(
+    schedule,
+    [payment('p-2', 5000, '2026-10-01'), payment('p-1', 3000, '2026-09-01')],
+    '2026-10-02'
+  );
+  assert.equal(partlyPaid[0].status, 'paid');
+  assert.deepEqual(partlyPaid[0].payment_ids, ['p-1'], 'earliest payment settles the deposit');
+  assert.equal(partlyPaid[0].paid_on, '2026-09-01');
+  assert.equal(partlyPaid[1].status, 'partial');
+  assert.equal(partlyPaid[1].outstanding, 2000);
+
+  const overpaidDeposit = matchPaymentsToInstallments(schedule, [payment('p-big', 4000, '2026-09-01')], '2026-11-20');
+  assert.equal(overpaidDeposit[1].paid_amount, 1000, 'surplus rolls into the next installment');
+  assert.deepEqual(overpaidDeposit[1].payment_ids, ['p-big']);
+  assert.equal(overpaidDeposit[1].status, 'overdue');
+
+  const settled = matchPaymentsToInstallments(
+    schedule,
+    [payment('p-1', 3000, '2026-09-01'), payment('p-2', 6999.5, '2026-11-10')],
+    '2026-12-01'
+  );
+  assert.deepEqual(settled.map((item) => item.status), ['paid', 'paid'], 'amounts within tolerance settle the installment');
+}
+
+runInstallmentsSelfCheck();
@@ -0,0 +1,135 @@
+import { RECONCILIATION_TOLERANCE, type ReconciliationPaymentInput } from '@/lib/reconciliation';
+import { isSuspectedDuplicate } from '@/lib/payment-duplicates';
+import type {
+  InstallmentDraft,
+  InstallmentStatus,
+  InstallmentWithMatch,
+} from '@/lib/types/installments';
+
+export interface InstallmentScheduleOptions {
+  grandTotal: number;
+  depositPercent: number;
+  balanceDueDaysBeforeTravel: number;
+  installmentCount: number;
+  travelStartDate: string;
+  // The deposit falls due on this date; later installments are spread up to the balance due date
+  firstDueDate: string;
+}
+
+type InstallmentInput = InstallmentDraft & { id?: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const toDateKey = (value: string | null | undefined): string | null =>
+  value ? value.slice(0, 10) : null;
+
+// Date-only arithmetic in UTC so the result never shifts with the server timezone
+function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(fromKey: string, toKey: string): number {
+  const [fromYear, fromMonth, fromDay] = fromKey.split('-').map(Number);
+  const [toYear, toMonth, toDay] = toKey.split('-').map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / DAY_MS);
+}
+
+// Deposit as a percentage of the grand total, then the balance split evenly across the remaining
+// installments. The last one falls due the given number of days before travel.
+export function buildInstallmentSchedule(options: InstallmentScheduleOptions): InstallmentDraft[] {
+  const { grandTotal, depositPercent, balanceDueDaysBeforeTravel, installmentCount } = options;
+  if (!(grandTotal > 0)) throw new Error('A grand total is required to build an installment schedule.');
+  if (installmentCount < 2) throw new Error('A schedule needs at least a deposit and a balance.');
+
+  const firstDue = toDateKey(options.firstDueDate)!;
+  const travelStart = toDateKey(options.travelStartDate)!;
+  // A balance that would fall due before the deposit is due together with it
+  const proposedFinalDue = addDays(travelStart, -balanceDueDaysBeforeTravel);
+  const finalDue = proposedFinalDue < firstDue ? firstDue : proposedFinalDue;
+
+  const deposit = roundMoney((grandTotal * depositPercent) / 100);
+  const remainingCount = installmentCount - 1;
+  const balance = roundMoney(grandTotal - deposit);
+  const share = roundMoney(balance / remainingCount);
+  const span = daysBetween(firstDue, finalDue);
+
+  const schedule: InstallmentDraft[] = [{ sequence: 1, label: 'Deposit', due_date: firstDue, amount: deposit }];
+  for (let index = 1; index <= remainingCount; index++) {
+    const isLast = index === remainingCount;
+    schedule.push({
+      sequence: index + 1,
+      label: isLast ? 'Balance' : `Installment ${index + 1}`,
+      due_date: isLast ? finalDue : addDays(firstDue, Math.round((span * index) / remainingCount)),
+      // The last installment absorbs rounding so the schedule always sums to the grand total
+      amount: isLast ? roundMoney(balance - share * (remainingCount - 1)) : share,
+    });
+  }
+  return schedule;
+}
+
+function getInstallmentStatus(outstanding: number, paidAmount: number, dueDate: string, today: string): InstallmentStatus {
+  if (outstanding <= RECONCILIATION_TOLERANCE) return 'paid';
+  if (dueDate < today) return 'overdue';
+  return paidAmount > 0 ? 'partial' : 'upcoming';
+}
+
+// Allocate verified payments (suspected duplicates aside) to installments in due order: each payment fills the earliest
+// installment that still has something outstanding and any surplus rolls into the next one.
+export function matchPaymentsToInstallments(
+  installments: InstallmentInput[],
+  payments: ReconciliationPaymentInput[],
+  today: string
+): InstallmentWithMatch[] {
+  const todayKey = toDateKey(today)!;
+  const ordered = [...installments].sort((a, b) => a.sequence - b.sequence);
+  const verified = payments
+    .filter(
+      (payment) =>
+        payment.is_verified &&
+        payment.verified_amount !== null &&
+        payment.verified_amount !== undefined &&
+        !isSuspectedDuplicate(payment)
+    )
+    .sort((a, b) => {
+      const aKey = toDateKey(a.verified_payment_date) ?? a.uploaded_at;
+      const bKey = toDateKey(b.verified_payment_date) ?? b.uploaded_at;
+      return aKey.localeCompare(bKey);
+    });
+
+  const results: InstallmentWithMatch[] = ordered.map((installment) => ({
+    ...installment,
+    paid_amount: 0,
+    outstanding: installment.amount,
+    status: 'upcoming',
+    payment_ids: [],
+    paid_on: null,
+  }));
+
+  let cursor = 0;
+  for (const payment of verified) {
+    let remaining = payment.verified_amount as number;
+    const paidOn = toDateKey(payment.verified_payment_date) ?? toDateKey(payment.uploaded_at);
+
+    while (remaining > 0 && cursor < results.length) {
+      const current = results[cursor];
+      const applied = roundMoney(Math.min(remaining, current.outstanding));
+      current.paid_amount = roundMoney(current.paid_amount + applied);
+      current.outstanding = roundMoney(current.outstanding - applied);
+      remaining = roundMoney(remaining - applied);
+      if (!current.payment_ids.includes(payment.id)) current.payment_ids.push(payment.id);
+
+      if (current.outstanding <= RECONCILIATION_TOLERANCE) {
+        current.paid_on = paidOn;
+        cursor++;
+      }
+    }
+  }
+
+  return results.map((installment) => ({
+    ...installment,
+    status: getInstallmentStatus(installment.outstanding, installment.paid_amount, installment.due_date, todayKey),
+  }));
+}
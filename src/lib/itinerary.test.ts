@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { findItineraryGaps, formatItineraryRoute, getTravelDateRange } from './itinerary';
+
+const leg = (origin_code: string, destination_code: string) => ({ origin_code, destination_code });
+
+function runItinerarySelfCheck() {
+  assert.deepEqual(
+    getTravelDateRange([{ travel_date: '2025-04-20' }, { travel_date: null }, { travel_date: '2025-04-02' }, { travel_date: '2025-04-11' }]),
+    { earliest: '2025-04-02', latest: '2025-04-20' },
+    'sector order does not matter'
+  );
+  assert.deepEqual(getTravelDateRange([{ travel_date: null }]), { earliest: null, latest: null });
+
+  const roundTrip = [leg('BKK', 'HND'), leg('HND', 'KIX'), leg('KIX', 'BKK')];
+  assert.deepEqual(findItineraryGaps(roundTrip), []);
+  assert.equal(formatItineraryRoute(roundTrip), 'BKK-HND-KIX-BKK');
+
+  const openJaw = [leg('BKK', 'HND'), leg('KIX', 'BKK')];
+  assert.deepEqual(findItineraryGaps(openJaw), [{ sectorIndex: 1, arrivedAt: 'HND', departsFrom: 'KIX' }]);
+  assert.equal(formatItineraryRoute(openJaw), 'BKK-HND / KIX-BKK');
+
+  assert.equal(formatItineraryRoute([leg('BKK', 'CNX')]), 'BKK-CNX');
+  assert.equal(formatItineraryRoute([null, leg('HND', 'BKK')]), '?-? / HND-BKK', 'missing routes are not joined');
+  assert.equal(formatItineraryRoute([]), 'N/A');
+}
+
+runItinerarySelfCheck();
@@ -0,0 +1,43 @@
+import type { ItineraryGap, ItineraryLeg, TravelDateRange } from '@/lib/types/itinerary';
+
+// First and last travel dates across any number of sectors; undated sectors are ignored
+export function getTravelDateRange(sectors: { travel_date: string | null | undefined }[]): TravelDateRange {
+  const dates = sectors
+    .map((sector) => sector.travel_date?.slice(0, 10))
+    .filter((date): date is string => !!date)
+    .sort();
+  return { earliest: dates[0] ?? null, latest: dates[dates.length - 1] ?? null };
+}
+
+// Places where a sector does not depart from where the previous one arrived (open jaw)
+export function findItineraryGaps(legs: ItineraryLeg[]): ItineraryGap[] {
+  const gaps: ItineraryGap[] = [];
+  for (let i = 1; i < legs.length; i++) {
+    const previous = legs[i - 1];
+    const current = legs[i];
+    if (previous && current && previous.destination_code !== current.origin_code) {
+      gaps.push({ sectorIndex: i, arrivedAt: previous.destination_code, departsFrom: current.origin_code });
+    }
+  }
+  return gaps;
+}
+
+// "BKK-HND-KIX-BKK" for a contiguous itinerary; open-jaw breaks are shown as "BKK-HND / KIX-BKK"
+export function formatItineraryRoute(
+  legs: ({ origin_code?: string | null; destination_code?: string | null } | null | undefined)[]
+): string {
+  if (legs.length === 0) return 'N/A';
+
+  const parts: string[][] = [];
+  legs.forEach((leg) => {
+    const origin = leg?.origin_code ?? '?';
+    const destination = leg?.destination_code ?? '?';
+    const current = parts[parts.length - 1];
+    if (current && current[current.length - 1] === origin && origin !== '?') {
+      current.push(destination);
+    } else {
+      parts.push([origin, destination]);
+    }
+  });
+  return parts.map((part) => part.join('-')).join(' / ');
+}
@@ -0,0 +1,16 @@
+import { createClient } from '@supabase/supabase-js';
+import { businessDateKey } from '@/lib/dashboard-filters';
+import type { KpiSnapshotJobSummary } from '@/lib/types/kpi';
+import { createSupabaseKpiSnapshotStore } from './supabase-store';
+import { takeKpiSnapshot } from './take-snapshot';
+
+// Stores today's KPI values in kpi_snapshots for the dashboard comparisons. Today is the
+// Bangkok business day, so a run just after midnight files under the new day.
+export async function runDailyKpiSnapshot(today = businessDateKey()): Promise<KpiSnapshotJobSummary> {
+  const supabaseAdmin = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  );
+  return takeKpiSnapshot(today, { store: createSupabaseKpiSnapshotStore(supabaseAdmin) });
+}
@@ -0,0 +1,53 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { bookingTotalInBase, type ConvertibleBooking } from '@/lib/currency';
+import { KPI_BOOKING_COLUMNS } from '@/lib/kpi';
+import type { ExchangeRateInput } from '@/lib/types/currency';
+import type { KpiMetric } from '@/lib/types/kpi';
+import type { TourPackageStatus } from '@/lib/types/tours';
+import type { KpiSnapshotStore } from './take-snapshot';
+
+type KpiBookingRow = ConvertibleBooking & {
+  status: TourPackageStatus;
+  customer_id: string | null;
+  customer_name: string;
+};
+
+// Supabase-backed persistence for the snapshot job. Needs the service role client:
+// the job runs without a signed-in user.
+export function createSupabaseKpiSnapshotStore(supabaseAdmin: SupabaseClient): KpiSnapshotStore {
+  return {
+    async getBookings() {
+      const [bookingsResult, ratesResult] = await Promise.all([
+        supabaseAdmin.from('tour_package_bookings').select(KPI_BOOKING_COLUMNS).returns<KpiBookingRow[]>(),
+        supabaseAdmin.from('exchange_rates').select('currency, rate_date, rate').returns<ExchangeRateInput[]>(),
+      ]);
+      if (bookingsResult.error) throw new Error(`Failed to load tour bookings: ${bookingsResult.error.message}`);
+      if (ratesResult.error) throw new Error(`Failed to load exchange rates: ${ratesResult.error.message}`);
+
+      const rates = ratesResult.data ?? [];
+      return (bookingsResult.data ?? []).map((booking) => ({
+        status: booking.status,
+        customer_id: booking.customer_id,
+        customer_name: booking.customer_name,
+        baseTotal: bookingTotalInBase(booking, rates),
+      }));
+    },
+
+    async countTourPackages() {
+      const { count, error } = await supabaseAdmin.from('tour_products').select('id', { count: 'exact', head: true });
+      if (error) throw new Error(`Failed to count tour packages: ${error.message}`);
+      return count ?? 0;
+    },
+
+    async saveSnapshot(snapshotDate, values) {
+      const rows = (Object.entries(values) as [KpiMetric, number][]).map(([metric, value]) => ({
+        snapshot_date: snapshotDate,
+        metric,
+        value,
+        created_at: new Date().toISOString(),
+      }));
+      const { error } = await supabaseAdmin.from('kpi_snapshots').upsert(rows, { onConflict: 'snapshot_date,metric' });
+      if (error) throw new Error(`Failed to save KPI snapshot: ${error.message}`);
+    },
+  };
+}
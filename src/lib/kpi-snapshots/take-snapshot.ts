@@ -0,0 +1,21 @@
+import { computeBookingKpis, type KpiBookingInput } from '@/lib/kpi';
+import type { KpiSnapshotJobSummary, KpiValues } from '@/lib/types/kpi';
+
+// Persistence used by the job; the route handler backs it with Supabase
+export interface KpiSnapshotStore {
+  getBookings(): Promise<KpiBookingInput[]>;
+  countTourPackages(): Promise<number>;
+  // Replaces any values already stored for the date
+  saveSnapshot(snapshotDate: string, values: KpiValues): Promise<void>;
+}
+
+// Records today's KPI values. Safe to run more than once a day: the last run wins.
+export async function takeKpiSnapshot(
+  snapshotDate: string,
+  { store }: { store: KpiSnapshotStore }
+): Promise<KpiSnapshotJobSummary> {
+  const [bookings, tourPackages] = await Promise.all([store.getBookings(), store.countTourPackages()]);
+  const values: KpiValues = { ...computeBookingKpis(bookings), tour_packages: tourPackages };
+  await store.saveSnapshot(snapshotDate, values);
+  return { snapshotDate, metricsSaved: Object.keys(values).length };
+}
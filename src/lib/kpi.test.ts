@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { comparisonDate, comparisonWindowStart, computeBookingKpis, formatKpiChange, toKpiValues, type KpiBookingInput } from './kpi';
+
+const booking = (overrides: Partial<KpiBookingInput> = {}): KpiBookingInput => ({
+  status: 'Open',
+  customer_id: 'c1',
+  customer_name: 'Somchai',
+  baseTotal: 1000,
+  ...overrides,
+});
+
+function runKpiSelfCheck() {
+  const kpis = computeBookingKpis([
+    booking(),
+    booking({ status: 'Paid (Full Payment)', baseTotal: 5000 }),
+    booking({ status: 'Complete', customer_id: null, customer_name: ' Anna ', baseTotal: 2000 }),
+    booking({ status: 'Closed', customer_id: null, customer_name: 'anna', baseTotal: null }),
+  ]);
+  assert.equal(kpis.total_revenue, 8000, 'bookings without a rate add nothing');
+  assert.equal(kpis.revenue_paid_full, 5000);
+  assert.equal(kpis.revenue_closed, 0);
+  assert.equal(kpis.pending_amount, 1000);
+  assert.equal(kpis.active_bookings, 2);
+  assert.equal(kpis.tour_bookings, 4);
+  assert.equal(kpis.total_customers, 2, 'unlinked bookings are counted by normalised name');
+  assert.equal(kpis.completion_rate, 25);
+  assert.equal(computeBookingKpis([]).completion_rate, 0);
+
+  assert.equal(comparisonDate('2026-03-10', 'previous_week'), '2026-03-03');
+  assert.equal(comparisonDate('2026-03-31', 'previous_month'), '2026-02-28', 'clamped to the end of a shorter month');
+  assert.equal(comparisonDate('2026-01-15', 'previous_month'), '2025-12-15');
+  assert.equal(comparisonDate('2028-02-29', 'same_month_last_year'), '2027-02-28');
+  assert.equal(comparisonWindowStart('2026-03-03'), '2026-02-24');
+
+  assert.deepEqual(toKpiValues([{ metric: 'total_revenue', value: '1500.50' }, { metric: 'unknown', value: 1 }]), { total_revenue: 1500.5 });
+
+  assert.equal(formatKpiChange(110, 100), '+10%');
+  assert.equal(formatKpiChange(2, 3), '-33.3%');
+  assert.equal(formatKpiChange(100, 100), '0%');
+  assert.equal(formatKpiChange(100, undefined), 'n/a', 'no snapshot for the period');
+  assert.equal(formatKpiChange(5, 0), 'n/a', 'growth from zero has no percentage');
+  assert.equal(formatKpiChange(0, 0), '0%');
+  assert.equal(formatKpiChange(27.5, 25, 'points'), '+2.5 pts');
+}
+
+runKpiSelfCheck();
@@ -0,0 +1,105 @@
+import type { TourPackageStatus } from '@/lib/types/tours';
+import {
+  KPI_METRICS,
+  type ComparisonPeriod,
+  type KpiMetric,
+  type KpiValues,
+} from '@/lib/types/kpi';
+
+export const ACTIVE_TOUR_STATUSES: TourPackageStatus[] = ['Open', 'Negotiating', 'Paid (1st installment)', 'Paid (Full Payment)'];
+// Bookings still waiting on money; their totals make up the pending amount
+export const PENDING_PAYMENT_STATUSES: TourPackageStatus[] = ['Open', 'Negotiating', 'Paid (1st installment)'];
+
+// Snapshots are daily, but a missed run shouldn't blank the comparison: the latest snapshot
+// up to this many days before the comparison date is used instead
+export const SNAPSHOT_LOOKBACK_DAYS = 7;
+
+// Tour booking columns the KPIs need, including those for expressing grand_total in BASE_CURRENCY
+export const KPI_BOOKING_COLUMNS =
+  'status, customer_id, customer_name, grand_total, currency, booking_date, created_at, payments!fk_tour_package_booking(is_verified, verified_payment_date)';
+
+export interface KpiBookingInput {
+  status: TourPackageStatus;
+  customer_id: string | null;
+  customer_name: string;
+  baseTotal: number | null; // grand total in BASE_CURRENCY, null when no rate covers it
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Same day of the month `months` earlier or later, clamped to the end of shorter months
+function addMonths(dateKey: string, months: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
+
+const sumTotals = (bookings: KpiBookingInput[]): number =>
+  bookings.reduce((sum, booking) => sum + (booking.baseTotal ?? 0), 0);
+
+// Every KPI except the tour package count, from the tour package bookings
+export function computeBookingKpis(bookings: KpiBookingInput[]): Omit<KpiValues, 'tour_packages'> {
+  const revenueFor = (status: TourPackageStatus) => sumTotals(bookings.filter((booking) => booking.status === status));
+
+  // Bookings not yet linked to a customer fall back to their name
+  const customers = new Set(bookings.map((booking) => booking.customer_id ?? `name:${booking.customer_name.toLowerCase().trim()}`));
+  const completed = bookings.filter((booking) => booking.status === 'Complete').length;
+
+  return {
+    total_revenue: sumTotals(bookings),
+    revenue_open: revenueFor('Open'),
+    revenue_negotiating: revenueFor('Negotiating'),
+    revenue_paid_first_installment: revenueFor('Paid (1st installment)'),
+    revenue_paid_full: revenueFor('Paid (Full Payment)'),
+    revenue_complete: revenueFor('Complete'),
+    revenue_closed: revenueFor('Closed'),
+    pending_amount: sumTotals(bookings.filter((booking) => PENDING_PAYMENT_STATUSES.includes(booking.status))),
+    active_bookings: bookings.filter((booking) => ACTIVE_TOUR_STATUSES.includes(booking.status)).length,
+    tour_bookings: bookings.length,
+    total_customers: customers.size,
+    completion_rate: bookings.length > 0 ? Number(((completed / bookings.length) * 100).toFixed(1)) : 0,
+  };
+}
+
+// Day whose snapshot a KPI is compared against
+export function comparisonDate(today: string, period: ComparisonPeriod): string {
+  switch (period) {
+    case 'previous_week':
+      return addDays(today, -7);
+    case 'previous_month':
+      return addMonths(today, -1);
+    case 'same_month_last_year':
+      return addMonths(today, -12);
+  }
+}
+
+// Earliest snapshot date still accepted for a comparison date
+export function comparisonWindowStart(targetDate: string): string {
+  return addDays(targetDate, -SNAPSHOT_LOOKBACK_DAYS);
+}
+
+// Rows from kpi_snapshots folded into values; metrics missing from the rows are left out
+export function toKpiValues(rows: { metric: string; value: number | string }[]): Partial<KpiValues> {
+  const values: Partial<KpiValues> = {};
+  rows.forEach((row) => {
+    if ((KPI_METRICS as readonly string[]).includes(row.metric)) values[row.metric as KpiMetric] = Number(row.value);
+  });
+  return values;
+}
+
+// "+12.5%", "-3%", "0%", or "n/a" when there is nothing to compare with.
+// Rates change in percentage points ("+2.1 pts") rather than relative to themselves.
+export function formatKpiChange(current: number, previous: number | null | undefined, unit: 'relative' | 'points' = 'relative'): string {
+  if (previous === null || previous === undefined) return 'n/a';
+  const difference = unit === 'points' ? current - previous : previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+  if (difference === null) return current === 0 ? '0%' : 'n/a';
+  const rounded = Math.round(difference * 10) / 10;
+  const suffix = unit === 'points' ? ' pts' : '%';
+  if (rounded === 0) return `0${suffix}`;
+  return `${rounded > 0 ? '+' : '-'}${Math.abs(rounded)}${suffix}`;
+}
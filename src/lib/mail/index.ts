@@ -0,0 +1,56 @@
+import path from 'path';
+import { createMailboxTransport } from './mailbox-transport';
+import { createSmtpTransport } from './smtp-transport';
+import { MailTransportNameEnum, formatMailMessage, type MailMessage, type MailTransport } from './types';
+
+export type { MailMessage, MailTransport } from './types';
+
+const DEFAULT_FROM = 'Booking Tracker <noreply@localhost>';
+
+// Transport selection:
+//   MAIL_TRANSPORT   'log' (default), 'mailbox' or 'smtp'
+//   MAIL_FROM        sender address, e.g. 'Booking Tracker <noreply@agency.com>'
+//   MAILBOX_DIR      where the mailbox transport writes .eml files (default ./.mailbox)
+//   SMTP_HOST, SMTP_PORT, SMTP_SECURE ('true' for implicit TLS), SMTP_USER, SMTP_PASSWORD
+//                    for the smtp transport; localhost:1025 matches Mailpit / MailHog
+export function getMailTransport(): MailTransport {
+  const parsedName = MailTransportNameEnum.safeParse(process.env.MAIL_TRANSPORT || 'log');
+  if (!parsedName.success) {
+    throw new Error(`Invalid MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}". Expected one of: ${MailTransportNameEnum.options.join(', ')}.`);
+  }
+
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  switch (parsedName.data) {
+    case 'mailbox':
+      return createMailboxTransport({
+        directory: process.env.MAILBOX_DIR || path.join(process.cwd(), '.mailbox'),
+        from,
+      });
+    case 'smtp': {
+      const port = Number(process.env.SMTP_PORT || 1025);
+      if (!Number.isInteger(port) || port <= 0) {
+        throw new Error(`Invalid SMTP_PORT "${process.env.SMTP_PORT}".`);
+      }
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port,
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+        from,
+      });
+    }
+    case 'log':
+      return createLogTransport(from);
+  }
+}
+
+// Prints messages to the server log instead of sending them
+function createLogTransport(from: string): MailTransport {
+  return {
+    name: 'log',
+    async send(message: MailMessage) {
+      console.log(`[mail:log] ${formatMailMessage(message, { from, messageId: 'log@localhost' })}`);
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { formatMailMessage, type MailTransport } from './types';
+
+interface MailboxTransportOptions {
+  directory: string;
+  from: string;
+}
+
+// Stand-in for environments without a mail server (local dev, CI, staging).
+// Every message is written to the directory as an .eml file that any mail client opens.
+export function createMailboxTransport({ directory, from }: MailboxTransportOptions): MailTransport {
+  return {
+    name: 'mailbox',
+    async send(message) {
+      const id = crypto.randomUUID();
+      const recipient = message.to.replace(/[^A-Za-z0-9@._-]/g, '_');
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}-${id.slice(0, 8)}.eml`;
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(
+        path.join(directory, fileName),
+        formatMailMessage(message, { from, messageId: `${id}@mailbox.local` }),
+        'utf8'
+      );
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { createMailboxTransport } from './mailbox-transport';
+import { createSmtpTransport } from './smtp-transport';
+import { formatMailMessage } from './types';
+
+interface ReceivedMail {
+  commands: string[];
+  data: string;
+}
+
+// Just enough of an SMTP server to accept one message per connection
+function startFakeSmtpServer({ rejectRecipient = false } = {}) {
+  const received: ReceivedMail[] = [];
+  const server = net.createServer((socket) => {
+    const mail: ReceivedMail = { commands: [], data: '' };
+    let inData = false;
+    let buffer = '';
+    socket.write('220 fake.smtp ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        mail.data = buffer.slice(0, end + 2);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        received.push(mail);
+        socket.write('250 OK queued\r\n');
+      }
+      let index: number;
+      while (!inData && (index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        mail.commands.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-fake.smtp\r\n250 AUTH PLAIN\r\n');
+        else if (line.startsWith('AUTH')) socket.write('235 Authenticated\r\n');
+        else if (line.startsWith('RCPT') && rejectRecipient) socket.write('550 No such user\r\n');
+        else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+  return new Promise<{ port: number; received: ReceivedMail[]; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ port, received, close: () => new Promise((done) => server.close(() => done())) });
+    });
+  });
+}
+
+async function runMailTransportSelfCheck() {
+  const message = { to: 'ann@example.com', subject: 'Reminders für heute', text: 'Line one\n.hidden dot line\nLine three' };
+
+  const document = formatMailMessage(message, {
+    from: 'Tracker <noreply@example.com>',
+    date: new Date('2025-06-10T01:00:00Z'),
+    messageId: 'abc@example.com',
+  });
+  assert.match(document, /^From: Tracker <noreply@example.com>\r\nTo: ann@example.com\r\n/);
+  assert.match(document, /\r\nSubject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=\r\n/, 'non-ASCII subjects are encoded');
+  assert.match(document, /\r\nDate: Tue, 10 Jun 2025 01:00:00 GMT\r\n/);
+  assert.ok(document.endsWith('\r\n\r\nLine one\r\n.hidden dot line\r\nLine three\r\n'));
+
+  const server = await startFakeSmtpServer();
+  try {
+    const smtp = createSmtpTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      user: 'tracker',
+      password: 'secret',
+      from: 'Tracker <noreply@example.com>',
+    });
+    await smtp.send(message);
+    assert.equal(server.received.length, 1);
+    const [mail] = server.received;
+    assert.ok(mail.commands.includes('MAIL FROM:<noreply@example.com>'));
+    assert.ok(mail.commands.includes('RCPT TO:<ann@example.com>'));
+    assert.ok(mail.commands.includes(`AUTH PLAIN ${Buffer.from('\0tracker\0secret').toString('base64')}`));
+    assert.match(mail.data, /\r\n\.\.hidden dot line\r\n/, 'leading dots are escaped in DATA');
+  } finally {
+    await server.close();
+  }
+
+  const rejecting = await startFakeSmtpServer({ rejectRecipient: true });
+  try {
+    const smtp = createSmtpTransport({ host: '127.0.0.1', port: rejecting.port, from: 'noreply@example.com' });
+    await assert.rejects(smtp.send(message), /SMTP RCPT TO rejected by 127\.0\.0\.1:\d+: 550 No such user/);
+  } finally {
+    await rejecting.close();
+  }
+
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mailbox-'));
+  try {
+    await createMailboxTransport({ directory, from: 'noreply@example.com' }).send(message);
+    const files = fs.readdirSync(directory);
+    assert.equal(files.length, 1);
+    assert.match(files[0], /ann@example\.com-[0-9a-f]{8}\.eml$/);
+    assert.match(fs.readFileSync(path.join(directory, files[0]), 'utf8'), /^From: noreply@example.com\r\nTo: ann@example.com\r\n/);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+runMailTransportSelfCheck().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { formatMailMessage, type MailTransport } from './types';
+
+interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // implicit TLS (usually port 465); plain connections suit local catchers like Mailpit
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+// "Booking Tracker <noreply@example.com>" -> "noreply@example.com"
+function envelopeAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+// Resolves with one complete (possibly multi-line) server reply per call
+function createReplyReader(socket: net.Socket): () => Promise<string> {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: string[] = [];
+  let failure: Error | null = null;
+  let waiting: { resolve: (reply: string) => void; reject: (error: Error) => void } | null = null;
+
+  const flush = () => {
+    if (!waiting) return;
+    const current = waiting;
+    if (replies.length > 0) {
+      waiting = null;
+      current.resolve(replies.shift()!);
+    } else if (failure) {
+      waiting = null;
+      current.reject(failure);
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, index).replace(/\r$/, '');
+      buffer = buffer.slice(index + 1);
+      lines.push(line);
+      // "250-..." continues the reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push(lines.join('\n'));
+        lines = [];
+      }
+    }
+    flush();
+  });
+  socket.on('error', (error: Error) => {
+    failure = error;
+    flush();
+  });
+  socket.on('close', () => {
+    failure ??= new Error('SMTP server closed the connection.');
+    flush();
+  });
+
+  return () => new Promise<string>((resolve, reject) => {
+    waiting = { resolve, reject };
+    flush();
+  });
+}
+
+// Minimal SMTP client: one connection per message, optional AUTH PLAIN, no STARTTLS
+export function createSmtpTransport({
+  host,
+  port,
+  secure = false,
+  user,
+  password,
+  from,
+  timeoutMs = 15000,
+}: SmtpTransportOptions): MailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP server ${host}:${port} timed out.`)));
+      const read = createReplyReader(socket);
+
+      const step = async (command: string | null, expected: number[], label: string) => {
+        if (command !== null) socket.write(`${command}\r\n`);
+        const reply = await read();
+        if (!expected.includes(Number(reply.slice(0, 3)))) {
+          throw new Error(`SMTP ${label} rejected by ${host}:${port}: ${reply}`);
+        }
+      };
+
+      try {
+        await step(null, [220], 'greeting');
+        await step(`EHLO ${os.hostname() || 'localhost'}`, [250], 'EHLO');
+        if (user) {
+          const credentials = Buffer.from(`\0${user}\0${password ?? ''}`, 'utf8').toString('base64');
+          await step(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+        }
+        await step(`MAIL FROM:<${envelopeAddress(from)}>`, [250], 'MAIL FROM');
+        await step(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251], 'RCPT TO');
+        await step('DATA', [354], 'DATA');
+
+        const document = formatMailMessage(message, {
+          from,
+          messageId: `${crypto.randomUUID()}@${envelopeAddress(from).split('@')[1] ?? 'localhost'}`,
+        });
+        // Lines starting with a dot are escaped so they don't end the DATA section
+        await step(`${document.replace(/^\./gm, '..')}.`, [250], 'message');
+        socket.write('QUIT\r\n');
+      } finally {
+        socket.end();
+      }
+    },
+  };
+}
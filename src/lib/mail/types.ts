@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// An outgoing mail channel. Implementations throw an Error with a readable
+// message when the message could not be handed over.
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MailTransportNameEnum = z.enum(['log', 'mailbox', 'smtp']);
+export type MailTransportName = z.infer<typeof MailTransportNameEnum>;
+
+// RFC 2047 encoded-word for header values that are not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7E]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// The message as an RFC 5322 document with CRLF line endings, ready for SMTP DATA or an .eml file
+export function formatMailMessage(
+  message: MailMessage,
+  { from, date = new Date(), messageId }: { from: string; date?: Date; messageId: string }
+): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text.replace(/\r?\n/g, '\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n`;
+}
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import { createFixtureOcrProvider, type OcrFixture } from './fixture-provider';
+import { createMistralOcrProvider } from './mistral-provider';
+import { OcrProviderNameEnum, type OcrProvider } from './types';
+
+export type { OcrProvider, OcrResult, PaymentSlipImage } from './types';
+
+// Provider selection:
+//   OCR_PROVIDER       'mistral' (default) or 'fixture'
+//   MISTRAL_API_KEY    required by the mistral provider
+//   OCR_FIXTURES_FILE  optional JSON file of fixtures for the fixture provider
+export function getOcrProvider(): OcrProvider {
+  const parsedName = OcrProviderNameEnum.safeParse(process.env.OCR_PROVIDER || 'mistral');
+  if (!parsedName.success) {
+    throw new Error(`Invalid OCR_PROVIDER "${process.env.OCR_PROVIDER}". Expected one of: ${OcrProviderNameEnum.options.join(', ')}.`);
+  }
+
+  switch (parsedName.data) {
+    case 'fixture':
+      return createFixtureOcrProvider({ fixtures: loadFixtures(process.env.OCR_FIXTURES_FILE) });
+    case 'mistral':
+      return createMistralOcrProvider({ apiKey: process.env.MISTRAL_API_KEY });
+  }
+}
+
+function loadFixtures(filePath: string | undefined): Record<string, OcrFixture> {
+  if (!filePath) return {};
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, OcrFixture>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not load OCR fixtures from ${filePath}: ${message}`);
+  }
+}
@@ -0,0 +1,59 @@
+import { Mistral } from '@mistralai/mistralai';
+import { parseOcrResult, type OcrProvider } from './types';
+
+const PAYMENT_SLIP_PROMPT = 'Analyze the provided payment slip image. Extract the following information and return it ONLY as a valid JSON object with keys "payment_amount" (numeric), "payment_date" (string, YYYY-MM-DD format), "origin_bank" (string), "destination_bank" (string), and "currency" (string, ISO 4217 code such as THB or USD). If a value cannot be found, set the corresponding JSON key to null. Do not include any explanations or surrounding text, only the JSON object.';
+
+interface MistralOcrProviderOptions {
+  apiKey: string | undefined;
+  model?: string;
+}
+
+// Reads slips with a vision-capable Mistral chat model
+export function createMistralOcrProvider({
+  apiKey,
+  model = 'mistral-small-latest',
+}: MistralOcrProviderOptions): OcrProvider {
+  return {
+    name: 'mistral',
+    async extractPaymentSlip(slip) {
+      if (!apiKey) {
+        throw new Error('Mistral API Key not configured in environment variables.');
+      }
+      const client = new Mistral({ apiKey });
+      const dataUri = `data:${slip.mimeType};base64,${slip.data.toString('base64')}`;
+
+      let chatResponse;
+      try {
+        chatResponse = await client.chat.complete({
+          model,
+          responseFormat: { type: 'json_object' },
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: PAYMENT_SLIP_PROMPT },
+                { type: 'image_url', imageUrl: dataUri },
+              ],
+            },
+          ],
+        });
+      } catch (apiError) {
+        console.error('[mistral-ocr] Mistral API call failed:', apiError);
+        const message = apiError instanceof Error ? apiError.message : String(apiError);
+        throw new Error(`Mistral API Error: ${message}`);
+      }
+
+      if (!chatResponse?.choices || chatResponse.choices.length === 0) {
+        console.error('[mistral-ocr] Mistral response missing choices array:', chatResponse);
+        throw new Error('Mistral returned no choices or an unexpected response structure.');
+      }
+
+      const rawContent = chatResponse.choices[0].message.content;
+      if (rawContent === null || rawContent === undefined) {
+        throw new Error('Mistral returned null or undefined content.');
+      }
+
+      return parseOcrResult(rawContent, 'Mistral');
+    },
+  };
+}
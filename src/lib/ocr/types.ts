@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+// Fields extracted from a bank transfer slip
+export const OcrResultSchema = z.object({
+  payment_amount: z.number().positive().optional().nullable(),
+  payment_date: z.string().regex(new RegExp('^\\d{4}-\\d{2}-\\d{2}$'), 'Expected YYYY-MM-DD format').optional().nullable(),
+  origin_bank: z.string().optional().nullable(),
+  destination_bank: z.string().optional().nullable(),
+  currency: z.string().optional().nullable(), // ISO 4217 code as printed on the slip
+}).passthrough();
+
+export type OcrResult = z.infer<typeof OcrResultSchema>;
+
+export interface PaymentSlipImage {
+  // Storage path of the slip, e.g. '<booking-id>/<file>.png'
+  path: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+// A payment-slip reader. Implementations throw an Error with a readable
+// message when the slip cannot be read; the message ends up in payments.verification_error.
+export interface OcrProvider {
+  name: string;
+  extractPaymentSlip(slip: PaymentSlipImage): Promise<OcrResult>;
+}
+
+export const OcrProviderNameEnum = z.enum(['mistral', 'fixture']);
+export type OcrProviderName = z.infer<typeof OcrProviderNameEnum>;
+
+// Validate a provider's raw JSON against OcrResultSchema
+export function parseOcrResult(raw: unknown, providerName: string): OcrResult {
+  let json: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      throw new Error(`Failed to process OCR response: ${providerName} did not return valid JSON. Raw content was: ${raw}`);
+    }
+  }
+
+  const validation = OcrResultSchema.safeParse(json);
+  if (!validation.success) {
+    throw new Error(
+      `Failed to process OCR response: ${providerName} response JSON structure is invalid: ${validation.error.message}. Raw content was: ${JSON.stringify(raw)}`
+    );
+  }
+  return validation.data;
+}
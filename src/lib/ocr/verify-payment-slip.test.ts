@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { createFixtureOcrProvider } from './fixture-provider';
+import {
+  hashSlipContent,
+  runPaymentSlipVerification,
+  type PaymentSlipRecord,
+  type PaymentVerificationStore,
+} from './verify-payment-slip';
+import type { OcrResult } from './types';
+
+interface StoredPayment extends PaymentSlipRecord {
+  is_verified: boolean;
+  verified_amount: number | null;
+  verification_error: string | null;
+}
+
+function createMemoryStore(payments: StoredPayment[], slips: Record<string, Buffer>) {
+  const rows = new Map(payments.map((payment) => [payment.id, { ...payment }]));
+  const store: PaymentVerificationStore = {
+    async getPayment(paymentId) {
+      return rows.get(paymentId) ?? null;
+    },
+    async downloadSlip(slipPath) {
+      const slip = slips[slipPath];
+      if (!slip) throw new Error(`Failed to download payment slip from storage. Object not found`);
+      return slip;
+    },
+    async markVerified(paymentId, result: OcrResult) {
+      const row = rows.get(paymentId)!;
+      rows.set(paymentId, {
+        ...row,
+        is_verified: true,
+        verified_amount: result.payment_amount ?? null,
+        verification_error: null,
+      });
+    },
+    async markFailed(paymentId, errorMessage) {
+      const row = rows.get(paymentId);
+      if (row) rows.set(paymentId, { ...row, is_verified: false, verification_error: errorMessage });
+    },
+  };
+  return { store, rows };
+}
+
+function payment(id: string, slipPath: string | null): StoredPayment {
+  return {
+    id,
+    payment_slip_path: slipPath,
+    tour_package_booking_id: 'TPB-0001',
+    is_verified: false,
+    verified_amount: null,
+    verification_error: null,
+  };
+}
+
+async function runVerifyPaymentSlipSelfCheck() {
+  const readableSlip = Buffer.from('readable slip');
+  const blurrySlip = Buffer.from('blurry slip');
+  const unknownSlip = Buffer.from('slip without fixture');
+
+  const ocr = createFixtureOcrProvider({
+    fixtures: {
+      'deposit.png': {
+        payment_amount: 15000,
+        payment_date: '2026-07-01',
+        origin_bank: 'KBank',
+        destination_bank: 'SCB',
+      },
+      [hashSlipContent(blurrySlip)]: { error: 'Slip image is unreadable.' },
+    },
+  });
+
+  const { store, rows } = createMemoryStore(
+    [
+      payment('pay-ok', 'TPB-0001/deposit.png'),
+      payment('pay-blurry', 'TPB-0001/blurry.jpg'),
+      payment('pay-unknown', 'TPB-0001/other.webp'),
+      payment('pay-pdf', 'TPB-0001/slip.pdf'),
+      payment('pay-missing-file', 'TPB-0001/missing.png'),
+      payment('pay-no-path', null),
+    ],
+    {
+      'TPB-0001/deposit.png': readableSlip,
+      'TPB-0001/blurry.jpg': blurrySlip,
+      'TPB-0001/other.webp': unknownSlip,
+    }
+  );
+
+  const verified = await runPaymentSlipVerification('pay-ok', { store, ocr });
+  assert.equal(verified.success, true, 'fixture slip should verify');
+  assert.equal(rows.get('pay-ok')?.is_verified, true);
+  assert.equal(rows.get('pay-ok')?.verified_amount, 15000);
+  assert.equal(rows.get('pay-ok')?.verification_error, null);
+
+  const unreadable = await runPaymentSlipVerification('pay-blurry', { store, ocr });
+  assert.deepEqual(unreadable, { success: false, message: 'Slip image is unreadable.' });
+  assert.equal(rows.get('pay-blurry')?.is_verified, false);
+  assert.equal(rows.get('pay-blurry')?.verification_error, 'Slip image is unreadable.');
+
+  // Slips without a fixture still get a stable result
+  const first = await runPaymentSlipVerification('pay-unknown', { store, ocr });
+  const second = await runPaymentSlipVerification('pay-unknown', { store, ocr });
+  assert.ok(first.success && second.success, 'slip without fixture should verify');
+  assert.deepEqual(first.verificationData, second.verificationData, 'fixture provider should be deterministic');
+
+  const unsupported = await runPaymentSlipVerification('pay-pdf', { store, ocr });
+  assert.equal(unsupported.success, false);
+  assert.match(rows.get('pay-pdf')?.verification_error ?? '', /mime type/);
+
+  const missingFile = await runPaymentSlipVerification('pay-missing-file', { store, ocr });
+  assert.equal(missingFile.success, false);
+  assert.match(rows.get('pay-missing-file')?.verification_error ?? '', /Failed to download/);
+
+  const noPath = await runPaymentSlipVerification('pay-no-path', { store, ocr });
+  assert.deepEqual(noPath, { success: false, message: 'Payment record is missing the slip path.' });
+
+  const notFound = await runPaymentSlipVerification('pay-does-not-exist', { store, ocr });
+  assert.deepEqual(notFound, { success: false, message: 'Could not find payment record pay-does-not-exist.' });
+}
+
+runVerifyPaymentSlipSelfCheck().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import path from 'path';
+import type { OcrProvider, OcrResult } from './types';
+
+export interface PaymentSlipRecord {
+  id: string;
+  payment_slip_path: string | null;
+  tour_package_booking_id: string;
+}
+
+// Persistence used by the verify flow; the server action backs it with Supabase
+export interface PaymentVerificationStore {
+  getPayment(paymentId: string): Promise<PaymentSlipRecord | null>;
+  downloadSlip(slipPath: string): Promise<Buffer>;
+  markVerified(paymentId: string, result: OcrResult, slipHash: string): Promise<void>;
+  markFailed(paymentId: string, errorMessage: string): Promise<void>;
+}
+
+export type PaymentSlipVerificationOutcome =
+  | { success: true; payment: PaymentSlipRecord; verificationData: OcrResult }
+  | { success: false; message: string };
+
+// sha256 of the slip file, used to spot the same file uploaded twice
+export function hashSlipContent(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+export const getSlipMimeType = (filePath: string): string | null => {
+  const ext = path.extname(filePath).toLowerCase();
+  switch (ext) {
+    case '.png': return 'image/png';
+    case '.jpg':
+    case '.jpeg': return 'image/jpeg';
+    case '.webp': return 'image/webp';
+    case '.gif': return 'image/gif'; // Assuming non-animated
+    default: return null;
+  }
+};
+
+// Download the slip, read it with the OCR provider and store the outcome.
+// Any failure is written to payments.verification_error and returned as a message.
+export async function runPaymentSlipVerification(
+  paymentId: string,
+  { store, ocr }: { store: PaymentVerificationStore; ocr: OcrProvider }
+): Promise<PaymentSlipVerificationOutcome> {
+  try {
+    const payment = await store.getPayment(paymentId);
+    if (!payment) {
+      throw new Error(`Could not find payment record ${paymentId}.`);
+    }
+    if (!payment.payment_slip_path) {
+      throw new Error('Payment record is missing the slip path.');
+    }
+
+    const mimeType = getSlipMimeType(payment.payment_slip_path);
+    if (!mimeType) {
+      throw new Error(`Could not determine mime type for file: ${payment.payment_slip_path}`);
+    }
+
+    const data = await store.downloadSlip(payment.payment_slip_path);
+    const verificationData = await ocr.extractPaymentSlip({
+      path: payment.payment_slip_path,
+      mimeType,
+      data,
+    });
+
+    await store.markVerified(paymentId, verificationData, hashSlipContent(data));
+    return { success: true, payment, verificationData };
+  } catch (error) {
+    const message = error instanceof Error && error.message
+      ? error.message
+      : 'An unexpected error occurred during verification.';
+    console.error(`[verifyPaymentSlip] Verification failed for ${paymentId} (${ocr.name}):`, error);
+    try {
+      await store.markFailed(paymentId, message);
+    } catch (persistError) {
+      console.error(`[verifyPaymentSlip] Could not store verification error for ${paymentId}:`, persistError);
+    }
+    return { success: false, message };
+  }
+}
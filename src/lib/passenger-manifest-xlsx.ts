@@ -0,0 +1,49 @@
+import type { CellValue } from 'exceljs';
+import { passengerManifestRows } from '@/lib/passenger-manifest';
+import type { BookingPassenger, ManifestSector } from '@/lib/types/passengers';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// exceljs is large, so it is only loaded once a sheet is actually read or written
+const loadExcel = () => import('exceljs');
+
+// A cell as the text a CSV would hold: date cells as YYYY-MM-DD, formulas by their result
+export function sheetCellToText(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10); // Excel dates carry no time zone; exceljs reads them as UTC
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map((run) => run.text).join('');
+  if ('hyperlink' in value) return value.text;
+  if ('formula' in value || 'sharedFormula' in value) {
+    return value.result === undefined ? '' : sheetCellToText(value.result);
+  }
+  return ''; // #N/A and other error cells
+}
+
+// Rows of the first worksheet of an .xlsx file, for parsePassengerRows. Blank rows are kept
+// so that error line numbers match the sheet's row numbers.
+export async function readPassengerSheet(data: ArrayBuffer): Promise<string[][]> {
+  const { Workbook } = await loadExcel();
+  const workbook = await new Workbook().xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow((row, rowNumber) => {
+    rows[rowNumber - 1] = Array.from({ length: row.cellCount }, (_, index) => sheetCellToText(row.getCell(index + 1).value));
+  });
+  return Array.from(rows, (row) => row ?? []);
+}
+
+// The manifest as an .xlsx workbook, in the same layout as the CSV export
+export async function passengersToXlsx(passengers: BookingPassenger[], sectors: ManifestSector[]): Promise<Blob> {
+  const { Workbook } = await loadExcel();
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet('Passengers');
+  sheet.addRows(passengerManifestRows(passengers, sectors));
+  sheet.getRow(1).font = { bold: true };
+  sheet.columns.forEach((column) => {
+    column.width = 18;
+  });
+  return new Blob([await workbook.xlsx.writeBuffer()], { type: XLSX_MIME_TYPE });
+}
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import {
+  countManifestSectors,
+  findManifestMismatches,
+  formatPassengerName,
+  isPassengerNameChange,
+  parsePassengerCsv,
+  parsePassengerRows,
+  passengerManifestRows,
+  passengersToCsv,
+} from './passenger-manifest';
+import { sheetCellToText } from './passenger-manifest-xlsx';
+import type { BookingPassenger } from './types/passengers';
+
+const OUTBOUND = '00000000-0000-4000-8000-000000000001';
+const INBOUND = '00000000-0000-4000-8000-000000000002';
+const sectors = [
+  { id: OUTBOUND, label: 'BKK-HND', num_pax: 2 },
+  { id: INBOUND, label: 'HND-BKK', num_pax: 1 },
+];
+
+const passenger = (overrides: Partial<BookingPassenger>): BookingPassenger => ({
+  id: 'p-1',
+  booking_id: 'b-1',
+  title: 'MR',
+  first_name: 'JOHN',
+  last_name: 'SMITH',
+  passport_number: null,
+  passport_expiry: null,
+  date_of_birth: null,
+  nationality: null,
+  sector_ids: [OUTBOUND, INBOUND],
+  created_at: '2025-03-01T00:00:00Z',
+  updated_at: '2025-03-01T00:00:00Z',
+  ...overrides,
+});
+
+function runPassengerManifestSelfCheck() {
+  assert.equal(formatPassengerName({ title: 'MRS', first_name: 'JANE', last_name: 'SMITH' }), 'SMITH/JANE MRS');
+  assert.equal(formatPassengerName({ title: null, first_name: 'JANE', last_name: 'SMITH' }), 'SMITH/JANE');
+  assert.equal(isPassengerNameChange(passenger({}), passenger({ passport_number: 'AA1' })), false);
+  assert.equal(isPassengerNameChange(passenger({}), passenger({ first_name: 'JON' })), true);
+
+  const counts = countManifestSectors(sectors, [passenger({}), passenger({ id: 'p-2' })]);
+  assert.deepEqual(
+    counts.map((c) => c.assigned),
+    [2, 2]
+  );
+  assert.deepEqual(
+    findManifestMismatches(counts).map((c) => c.label),
+    ['HND-BKK'],
+    'the inbound sector has more names than booked seats'
+  );
+
+  const { passengers, errors } = parsePassengerCsv(
+    [
+      '\uFEFFSurname,Given Name,Title,Passport No,Expiry,DOB,Nationality,Sectors',
+      'smith,john,Mr.,aa123456,2030-01-31,15/08/1985,th,',
+      '"O\'BRIEN, JR",ANNA,MS,,,,,BKK-HND',
+      'LEE,,MR,,,,,2',
+      'KIM,MIN,MR,,,,,3',
+    ].join('\r\n'),
+    sectors
+  );
+  assert.equal(passengers.length, 2);
+  assert.deepEqual(passengers[0], {
+    title: 'MR',
+    first_name: 'JOHN',
+    last_name: 'SMITH',
+    passport_number: 'AA123456',
+    passport_expiry: '2030-01-31',
+    date_of_birth: '1985-08-15',
+    nationality: 'TH',
+    sector_ids: [OUTBOUND, INBOUND],
+  });
+  assert.equal(passengers[1].last_name, "O'BRIEN, JR", 'quoted cells keep their commas');
+  assert.deepEqual(passengers[1].sector_ids, [OUTBOUND]);
+  assert.equal(errors.length, 2);
+  assert.ok(errors[0].startsWith('Line 4: first_name'));
+  assert.ok(errors[1].includes('unknown sector(s) 3'));
+
+  assert.deepEqual(parsePassengerCsv('title,passport\nMR,X1', sectors).errors, [
+    'Header row must include first name and last name columns.',
+  ]);
+
+  const csv = passengersToCsv(
+    [passenger({ last_name: "O'BRIEN, JR", sector_ids: [INBOUND] })],
+    sectors
+  );
+  assert.equal(
+    csv,
+    'title,first_name,last_name,passport_number,passport_expiry,date_of_birth,nationality,sectors\r\nMR,JOHN,"O\'BRIEN, JR",,,,,2'
+  );
+  assert.deepEqual(parsePassengerCsv(csv, sectors).passengers[0].sector_ids, [INBOUND], 'exports read back in');
+
+  // Excel sheets: cells arrive typed, and blank rows still count towards line numbers
+  assert.equal(sheetCellToText(new Date(Date.UTC(1985, 7, 15))), '1985-08-15');
+  assert.equal(sheetCellToText(123456789), '123456789');
+  assert.equal(sheetCellToText({ richText: [{ text: 'SMI' }, { text: 'TH' }] }), 'SMITH');
+  assert.equal(sheetCellToText({ formula: 'A1', result: 'JOHN' }), 'JOHN');
+  assert.equal(sheetCellToText({ error: '#N/A' }), '');
+  const sheet = passengerManifestRows([passenger({ sector_ids: [INBOUND] })], sectors);
+  assert.deepEqual(sheet[1], ['MR', 'JOHN', 'SMITH', '', '', '', '', '2']);
+  const fromSheet = parsePassengerRows([...sheet, [], ['MR', '', 'LEE']], sectors);
+  assert.deepEqual(fromSheet.passengers[0].sector_ids, [INBOUND]);
+  assert.ok(fromSheet.errors[0].startsWith('Line 4: first_name'));
+}
+
+runPassengerManifestSelfCheck();
@@ -0,0 +1,229 @@
+import {
+  PassengerSchema,
+  type BookingPassenger,
+  type ManifestSector,
+  type ManifestSectorCount,
+  type PassengerFormData,
+  type PassengerName,
+} from '@/lib/types/passengers';
+
+// LAST/FIRST TITLE, the way the airline writes it
+export function formatPassengerName({ title, first_name, last_name }: PassengerName): string {
+  return `${last_name}/${first_name}${title ? ` ${title}` : ''}`;
+}
+
+export function isPassengerNameChange(before: PassengerName, after: PassengerName): boolean {
+  return formatPassengerName(before) !== formatPassengerName(after);
+}
+
+// Passengers assigned to each sector against the sector's booked num_pax
+export function countManifestSectors(
+  sectors: ManifestSector[],
+  passengers: Pick<BookingPassenger, 'sector_ids'>[]
+): ManifestSectorCount[] {
+  return sectors.map((sector) => ({
+    ...sector,
+    assigned: passengers.filter((passenger) => passenger.sector_ids.includes(sector.id)).length,
+  }));
+}
+
+export function findManifestMismatches(counts: ManifestSectorCount[]): ManifestSectorCount[] {
+  return counts.filter((count) => count.assigned !== count.num_pax);
+}
+
+const CSV_COLUMNS = [
+  'title',
+  'first_name',
+  'last_name',
+  'passport_number',
+  'passport_expiry',
+  'date_of_birth',
+  'nationality',
+  'sectors',
+] as const;
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const CSV_HEADER_ALIASES: Record<string, CsvColumn> = {
+  title: 'title',
+  first_name: 'first_name',
+  'first name': 'first_name',
+  'given name': 'first_name',
+  last_name: 'last_name',
+  'last name': 'last_name',
+  surname: 'last_name',
+  'family name': 'last_name',
+  passport: 'passport_number',
+  passport_number: 'passport_number',
+  'passport number': 'passport_number',
+  'passport no': 'passport_number',
+  passport_expiry: 'passport_expiry',
+  'passport expiry': 'passport_expiry',
+  expiry: 'passport_expiry',
+  date_of_birth: 'date_of_birth',
+  'date of birth': 'date_of_birth',
+  dob: 'date_of_birth',
+  nationality: 'nationality',
+  sectors: 'sectors',
+  sector: 'sectors',
+};
+
+// Splits one CSV line, honouring double-quoted cells ("SMITH, JR" and "" escapes)
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function toCsvCell(value: string | null | undefined): string {
+  const text = value ?? '';
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Spreadsheets often save dates as DD/MM/YYYY; the manifest stores YYYY-MM-DD
+function toDateKey(value: string): string {
+  const dayFirst = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!dayFirst) return value;
+  const [, day, month, year] = dayFirst;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// "1;3" (sector numbers) or "BKK-HND;HND-BKK" (routes); blank means every sector
+function resolveSectors(cell: string, sectors: ManifestSector[]): { ids: string[]; unknown: string[] } {
+  if (!cell) return { ids: sectors.map((sector) => sector.id), unknown: [] };
+
+  const ids: string[] = [];
+  const unknown: string[] = [];
+  cell
+    .split(/[;|]/)
+    .map((token) => token.trim())
+    .filter((token) => token.length > 0)
+    .forEach((token) => {
+      const byNumber = /^\d+$/.test(token) ? sectors[Number(token) - 1] : undefined;
+      const byRoute = sectors.filter((sector) => sector.label.toUpperCase() === token.toUpperCase());
+      const match = byNumber ?? (byRoute.length === 1 ? byRoute[0] : undefined);
+      if (match) {
+        if (!ids.includes(match.id)) ids.push(match.id);
+      } else {
+        unknown.push(token);
+      }
+    });
+  return { ids, unknown };
+}
+
+// Parse a manifest sheet with a header row (any column order, see CSV_HEADER_ALIASES).
+// Rows come from a CSV file or the first worksheet of an XLSX file; blank rows are skipped.
+// Invalid lines are reported by line number; valid ones are returned.
+export function parsePassengerRows(
+  rows: string[][],
+  sectors: ManifestSector[]
+): { passengers: PassengerFormData[]; errors: string[] } {
+  const lines = rows
+    .map((row, index) => ({ cells: row.map((cell) => cell.trim()), lineNumber: index + 1 }))
+    .filter(({ cells }) => cells.some((cell) => cell.length > 0));
+  if (lines.length === 0) return { passengers: [], errors: ['The file is empty.'] };
+
+  const header = lines[0].cells.map((cell) => CSV_HEADER_ALIASES[cell.toLowerCase()]);
+  const columnIndex = Object.fromEntries(CSV_COLUMNS.map((column) => [column, header.indexOf(column)])) as Record<
+    CsvColumn,
+    number
+  >;
+  if (columnIndex.first_name === -1 || columnIndex.last_name === -1) {
+    return { passengers: [], errors: ['Header row must include first name and last name columns.'] };
+  }
+
+  const passengers: PassengerFormData[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach(({ cells, lineNumber }) => {
+    const cell = (column: CsvColumn) => (columnIndex[column] === -1 ? '' : cells[columnIndex[column]] ?? '');
+    const optional = (column: CsvColumn) => cell(column) || null;
+    const optionalDate = (column: CsvColumn) => (cell(column) ? toDateKey(cell(column)) : null);
+
+    const { ids, unknown } = resolveSectors(cell('sectors'), sectors);
+    const parsed = PassengerSchema.safeParse({
+      title: cell('title') ? cell('title').replace(/\./g, '').toUpperCase() : null,
+      first_name: cell('first_name'),
+      last_name: cell('last_name'),
+      passport_number: optional('passport_number'),
+      passport_expiry: optionalDate('passport_expiry'),
+      date_of_birth: optionalDate('date_of_birth'),
+      nationality: optional('nationality'),
+      sector_ids: ids,
+    });
+
+    const issues = [
+      ...(parsed.success ? [] : parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)),
+      ...(unknown.length > 0 ? [`unknown sector(s) ${unknown.join(', ')}`] : []),
+    ];
+    if (parsed.success && issues.length === 0) {
+      passengers.push(parsed.data);
+    } else {
+      errors.push(`Line ${lineNumber}: ${issues.join(' ')}`);
+    }
+  });
+
+  return { passengers, errors };
+}
+
+// CSV text, as pasted or read from a .csv file
+export function parsePassengerCsv(
+  text: string,
+  sectors: ManifestSector[]
+): { passengers: PassengerFormData[]; errors: string[] } {
+  const rows = text
+    .replace(/^\uFEFF/, '') // Excel's byte order mark
+    .split(/\r?\n/)
+    .map(splitCsvLine);
+  return parsePassengerRows(rows, sectors);
+}
+
+// Sheet rows as CSV, quoting only the cells that need it
+export function rowsToCsv(rows: (string | null | undefined)[][]): string {
+  return rows.map((row) => row.map(toCsvCell).join(',')).join('\r\n');
+}
+
+// The manifest as sheet rows, header first, in the layout parsePassengerRows reads; sectors are listed by number
+export function passengerManifestRows(passengers: BookingPassenger[], sectors: ManifestSector[]): string[][] {
+  const rows = passengers.map((passenger) => {
+    const sectorNumbers = sectors
+      .map((sector, index) => (passenger.sector_ids.includes(sector.id) ? String(index + 1) : null))
+      .filter((value): value is string => value !== null)
+      .join(';');
+    return [
+      passenger.title,
+      passenger.first_name,
+      passenger.last_name,
+      passenger.passport_number,
+      passenger.passport_expiry,
+      passenger.date_of_birth,
+      passenger.nationality,
+      sectorNumbers,
+    ].map((value) => value ?? '');
+  });
+  return [[...CSV_COLUMNS], ...rows];
+}
+
+export function passengersToCsv(passengers: BookingPassenger[], sectors: ManifestSector[]): string {
+  return rowsToCsv(passengerManifestRows(passengers, sectors));
+}
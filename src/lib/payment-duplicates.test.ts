@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import {
+  isSimilarBankName,
+  isSuspectedDuplicate,
+  matchesVerifiedFields,
+  verifiedFieldsSearchRange,
+} from './payment-duplicates';
+
+const slip = { verified_amount: 15000, verified_payment_date: '2026-03-10', verified_origin_bank: 'Kasikorn Bank' };
+
+function runPaymentDuplicatesSelfCheck() {
+  assert.equal(matchesVerifiedFields(slip, { ...slip }), true);
+
+  // Near misses that are still the same transfer
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_amount: 15000.5 }), true, 'satang misread');
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_amount: 14999 }), true, 'amount at the tolerance');
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_payment_date: '2026-03-11T00:10:00+07:00' }), true, 'next day');
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_payment_date: '2026-03-09' }), true, 'previous day');
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_origin_bank: 'KASIKORNBANK PCL' }), true, 'bank suffixes');
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_origin_bank: 'Kasikorm Bank' }), true, 'OCR typo in the bank');
+
+  // Near misses that are different transfers
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_amount: 15002 }), false);
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_payment_date: '2026-03-12' }), false);
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_origin_bank: 'Krungthai Bank' }), false);
+  assert.equal(matchesVerifiedFields(slip, { ...slip, verified_origin_bank: null }), false, 'every field must be read');
+
+  assert.equal(isSimilarBankName('ธนาคารกสิกรไทย', 'กสิกรไทย'), true);
+  assert.equal(isSimilarBankName('SCB', 'TMB'), false);
+
+  assert.deepEqual(verifiedFieldsSearchRange(15000, '2026-03-01'), {
+    minAmount: 14999,
+    maxAmount: 15001,
+    dateFrom: '2026-02-28',
+    dateBefore: '2026-03-03',
+  });
+
+  assert.equal(isSuspectedDuplicate({ duplicate_of_payment_id: 'p-1', duplicate_accepted_at: null }), true);
+  assert.equal(isSuspectedDuplicate({ duplicate_of_payment_id: 'p-1', duplicate_accepted_at: '2026-03-11T08:00:00Z' }), false);
+}
+
+runPaymentDuplicatesSelfCheck();
@@ -0,0 +1,93 @@
+import type { PaymentDuplicateReason, PaymentRecord } from '@/lib/types/tours';
+
+export const DUPLICATE_REASON_LABELS: Record<PaymentDuplicateReason, string> = {
+  content_hash: 'Same slip file',
+  verified_fields: 'Similar amount, date and origin bank',
+};
+
+type VerifiedFields = Pick<PaymentRecord, 'verified_amount' | 'verified_payment_date' | 'verified_origin_bank'>;
+
+// 'Kasikorn Bank ' and 'KASIKORNBANK' compare equal (Thai letters are kept)
+export function normalizeBankName(bank: string | null | undefined): string {
+  return (bank ?? '').toLowerCase().replace(/[^a-z0-9\u0E00-\u0E7F]/g, '');
+}
+
+// How far apart two slips' fields can be and still count as the same transfer. OCR misreads
+// satang and the odd digit, and a transfer made around midnight can carry either day's date.
+export const DUPLICATE_AMOUNT_TOLERANCE = 1;
+export const DUPLICATE_DATE_WINDOW_DAYS = 1;
+const BANK_NAME_MIN_SIMILARITY = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayNumber(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date((dayNumber(date) + days) * DAY_MS).toISOString().slice(0, 10);
+}
+
+// The bank's own name, without the words every bank name shares
+function bankNameCore(bank: string | null | undefined): string {
+  return normalizeBankName(bank).replace(/bank|publiccompanylimited|pcl|ธนาคาร|จำกัด|มหาชน/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 'Kasikorn Bank PCL' and 'KASIKORNBANK' are the same bank; so are OCR slips like 'Kasikorm Bank'
+export function isSimilarBankName(a: string | null | undefined, b: string | null | undefined): boolean {
+  const coreA = bankNameCore(a) || normalizeBankName(a);
+  const coreB = bankNameCore(b) || normalizeBankName(b);
+  if (!coreA || !coreB) return false;
+  if (coreA === coreB) return true;
+  const longest = Math.max(coreA.length, coreB.length);
+  return 1 - editDistance(coreA, coreB) / longest >= BANK_NAME_MIN_SIMILARITY;
+}
+
+// Fuzzy match on the fields read from two slips: amounts within DUPLICATE_AMOUNT_TOLERANCE,
+// dates within DUPLICATE_DATE_WINDOW_DAYS and similar origin bank names. Every field must be
+// present on both.
+export function matchesVerifiedFields(a: VerifiedFields, b: VerifiedFields): boolean {
+  if (a.verified_amount == null || b.verified_amount == null) return false;
+  if (!a.verified_payment_date || !b.verified_payment_date) return false;
+
+  return (
+    Math.abs(a.verified_amount - b.verified_amount) <= DUPLICATE_AMOUNT_TOLERANCE &&
+    Math.abs(dayNumber(a.verified_payment_date) - dayNumber(b.verified_payment_date)) <= DUPLICATE_DATE_WINDOW_DAYS &&
+    isSimilarBankName(a.verified_origin_bank, b.verified_origin_bank)
+  );
+}
+
+// Bounds for the database lookup of slips that matchesVerifiedFields could accept;
+// the date range ends before `dateBefore`, so it works for date and timestamp columns alike
+export function verifiedFieldsSearchRange(amount: number, paymentDate: string): {
+  minAmount: number;
+  maxAmount: number;
+  dateFrom: string;
+  dateBefore: string;
+} {
+  return {
+    minAmount: amount - DUPLICATE_AMOUNT_TOLERANCE,
+    maxAmount: amount + DUPLICATE_AMOUNT_TOLERANCE,
+    dateFrom: shiftDate(paymentDate, -DUPLICATE_DATE_WINDOW_DAYS),
+    dateBefore: shiftDate(paymentDate, DUPLICATE_DATE_WINDOW_DAYS + 1),
+  };
+}
+
+export function isSuspectedDuplicate(
+  payment: Pick<PaymentRecord, 'duplicate_of_payment_id' | 'duplicate_accepted_at'>
+): boolean {
+  return Boolean(payment.duplicate_of_payment_id) && !payment.duplicate_accepted_at;
+}
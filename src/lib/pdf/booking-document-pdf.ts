@@ -0,0 +1,159 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import type { BookingDocumentContent } from '@/lib/types/booking-documents';
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 16;
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.8, 0.8, 0.8);
+
+// The standard PDF fonts only cover WinAnsi; anything else (e.g. Thai names) is replaced
+const toPdfText = (value: string): string => value.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+interface Cursor {
+  page: PDFPage;
+  y: number;
+}
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+function drawRight(cursor: Cursor, text: string, right: number, font: PDFFont, size = BODY_SIZE) {
+  const safe = toPdfText(text);
+  cursor.page.drawText(safe, { x: right - font.widthOfTextAtSize(safe, size), y: cursor.y, size, font });
+}
+
+function drawRule(cursor: Cursor) {
+  cursor.page.drawLine({
+    start: { x: MARGIN, y: cursor.y + LINE_HEIGHT / 2 },
+    end: { x: PAGE_WIDTH - MARGIN, y: cursor.y + LINE_HEIGHT / 2 },
+    thickness: 0.5,
+    color: RULE,
+  });
+}
+
+// Start a new page when fewer than `needed` lines fit on the current one
+function ensureSpace(pdf: PDFDocument, cursor: Cursor, needed = 1) {
+  if (cursor.y - needed * LINE_HEIGHT >= MARGIN) return;
+  cursor.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  cursor.y = PAGE_HEIGHT - MARGIN;
+}
+
+function drawLabelValue(cursor: Cursor, fonts: Fonts, label: string, value: string) {
+  cursor.page.drawText(toPdfText(label), { x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.bold });
+  cursor.page.drawText(toPdfText(value), { x: MARGIN + 110, y: cursor.y, size: BODY_SIZE, font: fonts.regular });
+  cursor.y -= LINE_HEIGHT;
+}
+
+export async function renderBookingDocumentPdf(content: BookingDocumentContent, issuerName: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${content.title} ${content.document_number}`);
+  pdf.setCreator(issuerName);
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+  const right = PAGE_WIDTH - MARGIN;
+  const cursor: Cursor = { page: pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]), y: PAGE_HEIGHT - MARGIN };
+
+  // Header
+  cursor.page.drawText(toPdfText(issuerName), { x: MARGIN, y: cursor.y, size: 16, font: fonts.bold });
+  drawRight(cursor, content.title.toUpperCase(), right, fonts.bold, 16);
+  cursor.y -= LINE_HEIGHT * 1.5;
+  drawRight(cursor, `No. ${content.document_number}`, right, fonts.regular);
+  cursor.y -= LINE_HEIGHT;
+  drawRight(cursor, `Date: ${content.issued_on}`, right, fonts.regular);
+  cursor.y -= LINE_HEIGHT * 2;
+
+  // Booking details
+  drawLabelValue(cursor, fonts, 'Customer', content.customer_name);
+  if (content.customer_tax_id) drawLabelValue(cursor, fonts, 'Tax ID', content.customer_tax_id);
+  if (content.customer_address) {
+    content.customer_address
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== '')
+      .forEach((line, index) => drawLabelValue(cursor, fonts, index === 0 ? 'Billing Address' : '', line.trim()));
+  }
+  drawLabelValue(cursor, fonts, 'Booking ID', content.booking_id);
+  if (content.package_name) drawLabelValue(cursor, fonts, 'Tour Package', content.package_name);
+  if (content.travel_start_date) {
+    const travel = content.travel_end_date && content.travel_end_date !== content.travel_start_date
+      ? `${content.travel_start_date} to ${content.travel_end_date}`
+      : content.travel_start_date;
+    drawLabelValue(cursor, fonts, 'Travel Dates', travel);
+  }
+  drawLabelValue(cursor, fonts, 'PAX', String(content.pax));
+  cursor.y -= LINE_HEIGHT;
+
+  // Price breakdown
+  const qtyRight = right - 180;
+  const unitRight = right - 90;
+  cursor.page.drawText('Description', { x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.bold });
+  drawRight(cursor, 'Qty', qtyRight, fonts.bold);
+  drawRight(cursor, 'Unit Price', unitRight, fonts.bold);
+  drawRight(cursor, `Amount (${content.currency})`, right, fonts.bold);
+  cursor.y -= LINE_HEIGHT;
+  drawRule(cursor);
+  content.lines.forEach((line) => {
+    ensureSpace(pdf, cursor);
+    cursor.page.drawText(toPdfText(line.description), { x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.regular });
+    if (line.quantity !== null) drawRight(cursor, String(line.quantity), qtyRight, fonts.regular);
+    if (line.unit_price !== null) drawRight(cursor, formatAmount(line.unit_price), unitRight, fonts.regular);
+    drawRight(cursor, formatAmount(line.amount), right, fonts.regular);
+    cursor.y -= LINE_HEIGHT;
+  });
+  drawRule(cursor);
+  ensureSpace(pdf, cursor, 2);
+  cursor.page.drawText('Grand Total', { x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.bold });
+  drawRight(cursor, `${content.currency} ${formatAmount(content.total)}`, right, fonts.bold);
+  cursor.y -= LINE_HEIGHT * 2;
+
+  // Payments received
+  ensureSpace(pdf, cursor, 3);
+  cursor.page.drawText(content.doc_type === 'receipt' ? 'Payment Received' : 'Payments Received', {
+    x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.bold,
+  });
+  cursor.y -= LINE_HEIGHT;
+  drawRule(cursor);
+  if (content.payments.length === 0) {
+    cursor.page.drawText('No payments received yet.', { x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.regular, color: MUTED });
+    cursor.y -= LINE_HEIGHT;
+  }
+  content.payments.forEach((payment) => {
+    ensureSpace(pdf, cursor);
+    cursor.page.drawText(toPdfText(payment.date ?? '-'), { x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.regular });
+    cursor.page.drawText(toPdfText(payment.description), { x: MARGIN + 90, y: cursor.y, size: BODY_SIZE, font: fonts.regular });
+    drawRight(cursor, formatAmount(payment.amount), right, fonts.regular);
+    cursor.y -= LINE_HEIGHT;
+  });
+  drawRule(cursor);
+  ensureSpace(pdf, cursor, 2);
+  cursor.page.drawText('Paid to Date', { x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.regular });
+  drawRight(cursor, `${content.currency} ${formatAmount(content.paid_to_date)}`, right, fonts.regular);
+  cursor.y -= LINE_HEIGHT;
+  cursor.page.drawText('Balance Due', { x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.bold });
+  drawRight(cursor, `${content.currency} ${formatAmount(content.balance_due)}`, right, fonts.bold);
+  cursor.y -= LINE_HEIGHT;
+  if (content.payment_due_on) {
+    cursor.page.drawText('Payment Due', { x: MARGIN, y: cursor.y, size: BODY_SIZE, font: fonts.regular });
+    drawRight(cursor, content.payment_due_on, right, fonts.regular);
+    cursor.y -= LINE_HEIGHT;
+  }
+  cursor.y -= LINE_HEIGHT;
+
+  content.notes.forEach((note) => {
+    ensureSpace(pdf, cursor);
+    cursor.page.drawText(toPdfText(note), { x: MARGIN, y: cursor.y, size: 8, font: fonts.regular, color: MUTED });
+    cursor.y -= LINE_HEIGHT;
+  });
+
+  return pdf.save();
+}
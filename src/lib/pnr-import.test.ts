@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { parsePnr, pnrToBookingFormValues } from './pnr-import';
+
+const reference = {
+  predefinedSectors: [
+    { id: 's-bkk-hnd', origin_code: 'BKK', destination_code: 'HND', created_at: '2025-01-01T00:00:00Z' },
+    { id: 's-hnd-bkk', origin_code: 'HND', destination_code: 'BKK', created_at: '2025-01-01T00:00:00Z' },
+  ],
+  fareClasses: [
+    { id: 'f-y', name: 'Economy (Y)', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' },
+    { id: 'f-c', name: 'C', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' },
+  ],
+};
+const importedOn = new Date(2025, 2, 10); // 10 Mar 2025
+
+const AMADEUS = `RP/BKKTG08AA/BKKTG08AA            AA/SU  10MAR25/0345Z   XK7P2Q
+  1.SMITH/JOHN MR   2.SMITH/JANE MRS
+  3  TG 628 Y 15MAR 6 BKKHND HK2  2235 0630+1 *1A/E*
+  4  TG 677 C 22MAR 6 HNDBKK HL2  1100 1630  *1A/E*
+  5 AP BKK 02-123-4567`;
+
+const SABRE = `ABCDEF
+ 1.2LEE/ANNA MS/TOM MR
+ 1 TG 628Y 05JAN 1 BKKHND*HK2  2235  0630  /DCTG*QWE123 /E
+ 2 TG 999M 12JAN 1 BKKCNX*UC2  0800  0910  /E
+TKT/TIME LIMIT
+  1.TAW10MAR/`;
+
+function runPnrImportSelfCheck() {
+  const amadeus = parsePnr(AMADEUS, reference, importedOn);
+  assert.equal(amadeus.booking_reference, 'XK7P2Q');
+  assert.deepEqual(amadeus.passenger_names, ['SMITH/JOHN MR', 'SMITH/JANE MRS']);
+  assert.equal(amadeus.booking_type, 'Return');
+  assert.equal(amadeus.segments.length, 2);
+  assert.deepEqual(amadeus.segments[0], {
+    line: 3,
+    airline_code: 'TG',
+    flight_number: 'TG628',
+    booking_class: 'Y',
+    travel_date: '2025-03-15',
+    origin_code: 'BKK',
+    destination_code: 'HND',
+    status_code: 'HK',
+    status: 'Confirmed',
+    num_pax: 2,
+    predefined_sector_id: 's-bkk-hnd',
+    fare_class_id: 'f-y',
+  });
+  assert.equal(amadeus.segments[1].status, 'Waiting List', 'HL is waitlisted');
+  assert.equal(amadeus.segments[1].fare_class_id, 'f-c');
+  assert.deepEqual(amadeus.warnings, []);
+
+  const sabre = parsePnr(SABRE, reference, importedOn);
+  assert.equal(sabre.booking_reference, 'ABCDEF');
+  assert.deepEqual(sabre.passenger_names, ['LEE/ANNA MS', 'LEE/TOM MR'], 'Sabre names share the surname');
+  assert.equal(sabre.segments[0].travel_date, '2026-01-05', 'dates before the import date roll into next year');
+  assert.equal(sabre.segments[0].flight_number, 'TG628');
+  assert.equal(sabre.segments[1].status, 'Cancelled');
+  assert.equal(sabre.segments[1].predefined_sector_id, null, 'unknown city pairs stay unmatched');
+  assert.equal(sabre.segments[1].fare_class_id, null);
+  assert.equal(sabre.booking_type, 'One-Way', 'cancelled segments do not count');
+  assert.ok(sabre.warnings.some((w) => w.includes('BKK-CNX is not a predefined sector')));
+  assert.ok(sabre.warnings.some((w) => w.includes('cancelled (UC)')));
+
+  const values = pnrToBookingFormValues(sabre);
+  assert.equal(values.booking_type, 'One-Way');
+  assert.equal(values.booking_reference, 'ABCDEF');
+  assert.equal(values.sectors.length, 1);
+  assert.equal(values.sectors[0].predefined_sector_id, 's-bkk-hnd');
+  assert.equal(values.sectors[0].travel_date?.getFullYear(), 2026);
+
+  const unmatched = pnrToBookingFormValues(parsePnr(' 1 FD 3101Q 20MAR 4 DMKCNX*HK1  0700  0815', reference, importedOn));
+  assert.equal(unmatched.sectors[0].predefined_sector_id, '', 'unmatched routes are left for the agent to pick');
+  assert.equal(unmatched.booking_reference, undefined);
+
+  const multiCity = parsePnr(
+    [
+      ' 1 TG 628Y 15MAR 6 BKKHND*HK1',
+      ' 2 JL 123Y 18MAR 2 HNDKIX*HK1',
+      ' 3 TG 623Y 22MAR 6 KIXBKK*HK1',
+    ].join('\n'),
+    reference,
+    importedOn
+  );
+  assert.equal(multiCity.booking_type, 'Multi-City', 'more than two segments make a Multi-City booking');
+
+  const empty = parsePnr('nothing useful here', reference, importedOn);
+  assert.equal(empty.segments.length, 0);
+  assert.equal(empty.booking_type, null);
+  assert.ok(empty.warnings[0].includes('No flight segments'));
+}
+
+runPnrImportSelfCheck();
@@ -0,0 +1,197 @@
+import type { BookingFormData } from '@/lib/schemas';
+import type { PnrImport, PnrSegment } from '@/lib/types/pnr-import';
+import type { BookingStatus, FareClass, PredefinedSector } from '@/types/database';
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// GDS segment status codes, by the booking status they mean to us
+const SEGMENT_STATUSES: Record<string, BookingStatus> = {
+  HK: 'Confirmed',
+  KK: 'Confirmed',
+  KL: 'Confirmed', // confirmed from the waitlist
+  TK: 'Confirmed', // schedule change, still confirmed
+  RR: 'Confirmed',
+  SS: 'Confirmed',
+  HL: 'Waiting List',
+  LL: 'Waiting List',
+  HN: 'Waiting List',
+  NN: 'Waiting List',
+  PN: 'Waiting List',
+  US: 'Waiting List',
+  HX: 'Cancelled',
+  UC: 'Cancelled',
+  UN: 'Cancelled',
+  NO: 'Cancelled',
+  XX: 'Cancelled',
+  XK: 'Cancelled',
+  XL: 'Cancelled',
+};
+
+// Segment lines look the same in both systems once spacing is ignored:
+//   Amadeus: "3  TG 628 Y 15MAR 6 BKKHND HK2  2235 0630+1 *1A/E*"
+//   Sabre:   " 1 TG 628Y 15MAR 6 BKKHND*HK2  2235  0630  /DCTG*ABC123 /E"
+const SEGMENT_PATTERN =
+  /^\s*(\d{1,2})\.?\s+([A-Z0-9]{2})\s*(\d{1,4})[A-Z]?\s*([A-Z])\s+(\d{1,2})([A-Z]{3})(?:\s+[1-7A-Z](?=\s))?\s+([A-Z]{3})\s*([A-Z]{3})\s*\*?\s*([A-Z]{2})(\d{1,3})\b/;
+// "1.SMITH/JOHN MR" (Amadeus) or "1.2SMITH/JOHN MR/JANE MRS" (Sabre, several names sharing a surname)
+const NAME_PATTERN = /^\d{1,2}\.(?:\d{1,2})?([A-Z][A-Z' -]*)\/([A-Z][A-Z /.'-]*)$/;
+const LOCATOR_KEYWORD_PATTERN = /\b(?:RLOC|REC\s*LOC|RECORD\s+LOCATOR|PNR)[:\s]+([A-Z0-9]{6})\b/;
+const LOCATOR_PATTERN = /^(?=[A-Z0-9]*[A-Z])[A-Z0-9]{6}$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// PNR dates carry no year: take the first occurrence on or after the reference date
+function inferTravelDate(day: number, monthName: string, referenceDate: Date): string | null {
+  const month = MONTHS.indexOf(monthName);
+  if (month < 0) return null;
+
+  const refMonth = referenceDate.getMonth();
+  const beforeReference = month < refMonth || (month === refMonth && day < referenceDate.getDate());
+  const year = referenceDate.getFullYear() + (beforeReference ? 1 : 0);
+  const date = new Date(year, month, day);
+  if (date.getMonth() !== month) return null; // e.g. 30FEB
+
+  return `${year}-${pad(month + 1)}-${pad(day)}`;
+}
+
+// Fare classes are named freely ("Y", "Y Class", "Economy (Y)"); match any that contains the letter as a word
+function findFareClass(bookingClass: string, fareClasses: FareClass[]): FareClass | undefined {
+  return fareClasses.find((fareClass) =>
+    fareClass.name
+      .toUpperCase()
+      .split(/[^A-Z0-9]+/)
+      .includes(bookingClass)
+  );
+}
+
+function findRecordLocator(lines: string[]): string | null {
+  for (const line of lines) {
+    const keyword = line.match(LOCATOR_KEYWORD_PATTERN);
+    if (keyword) return keyword[1];
+    // Amadeus puts the locator at the end of the RP/ header line
+    if (line.startsWith('RP/')) {
+      const last = line.split(/\s+/).pop() ?? '';
+      if (LOCATOR_PATTERN.test(last)) return last;
+    }
+    // Sabre shows it alone on the first line of the display
+    if (LOCATOR_PATTERN.test(line)) return line;
+  }
+  return null;
+}
+
+function parsePassengerNames(line: string): string[] {
+  return line
+    .split(/\s+(?=\d{1,2}\.)/)
+    .flatMap((entry) => {
+      const match = entry.trim().match(NAME_PATTERN);
+      if (!match) return [];
+      const surname = match[1].trim();
+      return match[2]
+        .split('/')
+        .map((given) => given.trim())
+        .filter((given) => given.length > 0)
+        .map((given) => `${surname}/${given}`);
+    });
+}
+
+// Reads a pasted Amadeus or Sabre PNR display into segments matched against our sectors and fare classes.
+// Anything that cannot be matched is kept and described in `warnings` so the agent can fix it before saving.
+export function parsePnr(
+  text: string,
+  { predefinedSectors, fareClasses }: { predefinedSectors: PredefinedSector[]; fareClasses: FareClass[] },
+  referenceDate: Date = new Date()
+): PnrImport {
+  const lines = text
+    .toUpperCase()
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim().length > 0);
+
+  const warnings: string[] = [];
+  const segments: PnrSegment[] = [];
+  const passengerNames: string[] = [];
+
+  for (const line of lines) {
+    const match = line.match(SEGMENT_PATTERN);
+    if (!match) {
+      passengerNames.push(...parsePassengerNames(line.trim()));
+      continue;
+    }
+
+    const [, lineNumber, airline, flight, bookingClass, day, monthName, origin, destination, statusCode, pax] = match;
+    const travelDate = inferTravelDate(Number(day), monthName, referenceDate);
+    if (!travelDate) {
+      warnings.push(`Segment ${lineNumber}: ${day}${monthName} is not a valid date, so it was left out.`);
+      continue;
+    }
+
+    const sector = predefinedSectors.find(
+      (s) => s.origin_code.toUpperCase() === origin && s.destination_code.toUpperCase() === destination
+    );
+    const fareClass = findFareClass(bookingClass, fareClasses);
+    const status = SEGMENT_STATUSES[statusCode] ?? null;
+
+    if (status === null) {
+      warnings.push(`Segment ${lineNumber}: status ${statusCode} is not recognised, so it will not be imported.`);
+    } else if (status === 'Cancelled') {
+      warnings.push(`Segment ${lineNumber} is cancelled (${statusCode}) and will not be imported.`);
+    }
+    if (!sector) warnings.push(`Segment ${lineNumber}: ${origin}-${destination} is not a predefined sector.`);
+    if (!fareClass) warnings.push(`Segment ${lineNumber}: no fare class matches booking class ${bookingClass}.`);
+
+    segments.push({
+      line: Number(lineNumber),
+      airline_code: airline,
+      flight_number: `${airline}${flight}`,
+      booking_class: bookingClass,
+      travel_date: travelDate,
+      origin_code: origin,
+      destination_code: destination,
+      status_code: statusCode,
+      status,
+      num_pax: Number(pax),
+      predefined_sector_id: sector?.id ?? null,
+      fare_class_id: fareClass?.id ?? null,
+    });
+  }
+
+  const bookingReference = findRecordLocator(lines.map((line) => line.trim()));
+  if (segments.length === 0) warnings.unshift('No flight segments were found in the pasted text.');
+  if (!bookingReference) warnings.push('No record locator was found; enter the booking reference by hand.');
+
+  const importable = segments.filter(isImportableSegment);
+  let bookingType: PnrImport['booking_type'] = null;
+  if (importable.length === 1) bookingType = 'One-Way';
+  else if (importable.length === 2) bookingType = 'Return';
+  else if (importable.length > 2) bookingType = 'Multi-City';
+
+  return {
+    booking_reference: bookingReference,
+    passenger_names: passengerNames,
+    segments,
+    booking_type: bookingType,
+    warnings,
+  };
+}
+
+// Only confirmed and waitlisted segments become booking sectors
+export function isImportableSegment(segment: PnrSegment): boolean {
+  return segment.status === 'Confirmed' || segment.status === 'Waiting List';
+}
+
+// Booking form values for an import. Unmatched routes are left blank so the form asks for them.
+export function pnrToBookingFormValues(
+  pnr: PnrImport
+): Pick<BookingFormData, 'sectors'> & Partial<Pick<BookingFormData, 'booking_type' | 'booking_reference'>> {
+  return {
+    ...(pnr.booking_type ? { booking_type: pnr.booking_type } : {}),
+    ...(pnr.booking_reference ? { booking_reference: pnr.booking_reference } : {}),
+    sectors: pnr.segments.filter(isImportableSegment).map((segment) => ({
+      predefined_sector_id: segment.predefined_sector_id ?? '',
+      travel_date: new Date(`${segment.travel_date}T00:00:00`),
+      fare_class_id: segment.fare_class_id,
+      flight_number: segment.flight_number,
+      status: segment.status as BookingStatus,
+      num_pax: segment.num_pax,
+    })),
+  };
+}
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import {
+  RECONCILIATION_TOLERANCE,
+  reconcileTourBooking,
+  type ReconciliationBookingInput,
+  type ReconciliationPaymentInput,
+} from './reconciliation';
+
+const booking = (overrides: Partial<ReconciliationBookingInput> = {}): ReconciliationBookingInput => ({
+  id: 'B0001',
+  customer_name: 'Somchai',
+  package_name: 'Chiang Mai Explorer',
+  status: 'Open',
+  booking_date: '2026-01-15',
+  grand_total: 30000,
+  ...overrides,
+});
+
+const payment = (overrides: Partial<ReconciliationPaymentInput> = {}): ReconciliationPaymentInput => ({
+  id: 'pay-1',
+  status_at_payment: 'Paid (Full Payment)',
+  uploaded_at: '2026-01-20T10:00:00.000Z',
+  is_verified: true,
+  verified_amount: 30000,
+  verified_payment_date: '2026-01-20',
+  verification_error: null,
+  ...overrides,
+});
+
+const flagCodes = (flags: { code: string }[]) => flags.map((flag) => flag.code);
+
+function runReconciliationSelfCheck() {
+  // Within tolerance: a slip a little short of the total still settles the booking
+  const settled = reconcileTourBooking(booking(), [payment({ verified_amount: 30000 - RECONCILIATION_TOLERANCE / 2 })]);
+  assert.equal(settled.balance_status, 'settled');
+  assert.equal(settled.payments[0].expected_amount, 30000);
+  assert.deepEqual(flagCodes(settled.flags), []);
+  assert.equal(settled.suggested_status, 'Paid (Full Payment)');
+  assert.equal(
+    reconcileTourBooking(booking({ status: 'Paid (Full Payment)' }), [payment()]).suggested_status,
+    null,
+    'a booking already at full payment needs no change'
+  );
+
+  // Partial payment: the deposit leaves a balance and moves an open booking to the first installment
+  const partial = reconcileTourBooking(booking(), [payment({ status_at_payment: 'Paid (1st installment)', verified_amount: 10000 })]);
+  assert.equal(partial.balance_status, 'partial');
+  assert.equal(partial.paid_to_date, 10000);
+  assert.equal(partial.outstanding, 20000);
+  assert.equal(partial.over_under, -20000);
+  assert.deepEqual(flagCodes(partial.flags), []);
+  assert.equal(partial.suggested_status, 'Paid (1st installment)');
+  const ahead = reconcileTourBooking(booking({ status: 'Paid (Full Payment)' }), [payment({ verified_amount: 10000 })]);
+  assert.deepEqual(flagCodes(ahead.flags), ['status_ahead_of_payments', 'installment_mismatch']);
+  assert.equal(ahead.suggested_status, null);
+
+  // Overpayment: the second slip takes the total past the grand total
+  const overpaid = reconcileTourBooking(booking({ status: 'Paid (1st installment)' }), [
+    payment({ id: 'pay-2', verified_amount: 25000, verified_payment_date: '2026-02-10' }),
+    payment({ status_at_payment: 'Paid (1st installment)', verified_amount: 10000 }),
+  ]);
+  assert.deepEqual(overpaid.payments.map((row) => row.payment_id), ['pay-1', 'pay-2'], 'payments are taken in date order');
+  assert.equal(overpaid.payments[1].expected_amount, 20000);
+  assert.equal(overpaid.balance_status, 'overpaid');
+  assert.equal(overpaid.over_under, 5000);
+  assert.equal(overpaid.outstanding, 0);
+  assert.deepEqual(flagCodes(overpaid.flags), ['overpaid', 'installment_mismatch']);
+  assert.equal(overpaid.flags[0].severity, 'error');
+  assert.equal(overpaid.suggested_status, 'Paid (Full Payment)');
+
+  // Slip dated before the booking is flagged but still counted
+  const early = reconcileTourBooking(booking(), [payment({ verified_payment_date: '2026-01-10' })]);
+  assert.deepEqual(flagCodes(early.flags), ['slip_before_booking']);
+  assert.equal(early.payments[0].counted, true);
+  assert.equal(early.balance_status, 'settled');
+  assert.equal(early.suggested_status, 'Paid (Full Payment)');
+
+  // The same transfer verified twice: the flagged copy is not counted until someone accepts it
+  const original = payment({ status_at_payment: 'Paid (1st installment)', verified_amount: 10000 });
+  const copy = payment({ id: 'pay-2', status_at_payment: 'Paid (1st installment)', verified_amount: 10000, duplicate_of_payment_id: 'pay-1' });
+  const duplicated = reconcileTourBooking(booking(), [original, copy]);
+  assert.equal(duplicated.paid_to_date, 10000);
+  assert.equal(duplicated.payments.find((row) => row.payment_id === 'pay-2')?.counted, false);
+  assert.deepEqual(flagCodes(duplicated.flags), ['suspected_duplicate']);
+  assert.equal(duplicated.suggested_status, 'Paid (1st installment)');
+  const accepted = reconcileTourBooking(booking(), [original, { ...copy, duplicate_accepted_at: '2026-01-21T09:00:00.000Z' }]);
+  assert.equal(accepted.paid_to_date, 20000, 'an accepted duplicate counts as a real payment');
+
+  // Unverified slips are not counted, and closed bookings are never moved on
+  const unverified = reconcileTourBooking(booking(), [payment({ is_verified: false })]);
+  assert.equal(unverified.balance_status, 'unpaid');
+  assert.deepEqual(flagCodes(unverified.flags), ['unverified_payment']);
+  assert.equal(unverified.suggested_status, null);
+  assert.equal(reconcileTourBooking(booking({ status: 'Closed' }), [payment()]).suggested_status, null);
+}
+
+runReconciliationSelfCheck();
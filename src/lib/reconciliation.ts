@@ -0,0 +1,206 @@
+import type { PaymentRecord, TourPackageStatus } from '@/lib/types/tours';
+import { BASE_CURRENCY, type CurrencyCode, type ExchangeRateInput } from '@/lib/types/currency';
+import { convertAmount } from '@/lib/currency';
+import type {
+  BalanceStatus,
+  BookingReconciliation,
+  PaymentReconciliation,
+  ReconciliationFlag,
+} from '@/lib/types/reconciliation';
+import { formatCurrency } from '@/lib/utils/formatting';
+import { isSuspectedDuplicate } from '@/lib/payment-duplicates';
+
+// Slip amounts within this many currency units of the expected figure count as a match
+export const RECONCILIATION_TOLERANCE = 1;
+
+export interface ReconciliationBookingInput {
+  id: string;
+  customer_name?: string | null;
+  package_name?: string | null;
+  status: TourPackageStatus;
+  booking_date?: string | null;
+  grand_total?: number | null;
+  currency?: CurrencyCode | null;
+}
+
+export type ReconciliationPaymentInput = Pick<
+  PaymentRecord,
+  | 'id'
+  | 'status_at_payment'
+  | 'uploaded_at'
+  | 'is_verified'
+  | 'verified_amount'
+  | 'verified_payment_date'
+  | 'verification_error'
+  | 'currency'
+  | 'duplicate_of_payment_id'
+  | 'duplicate_accepted_at'
+>;
+
+const CLOSED_STATUSES: TourPackageStatus[] = ['Complete', 'Closed'];
+const FULLY_PAID_STATUSES: TourPackageStatus[] = ['Paid (Full Payment)', 'Complete'];
+const PRE_PAYMENT_STATUSES: TourPackageStatus[] = ['Open', 'Negotiating'];
+
+const toDateKey = (value: string | null | undefined): string | null =>
+  value ? value.slice(0, 10) : null;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+function getBalanceStatus(grandTotal: number | null, paidToDate: number): BalanceStatus {
+  if (!grandTotal) return 'no_total';
+  if (paidToDate <= 0) return 'unpaid';
+  const difference = paidToDate - grandTotal;
+  if (difference > RECONCILIATION_TOLERANCE) return 'overpaid';
+  if (difference < -RECONCILIATION_TOLERANCE) return 'partial';
+  return 'settled';
+}
+
+// Next status the payments justify, or null when the current status already fits
+function suggestNextStatus(current: TourPackageStatus, balanceStatus: BalanceStatus): TourPackageStatus | null {
+  if (CLOSED_STATUSES.includes(current)) return null;
+  if ((balanceStatus === 'settled' || balanceStatus === 'overpaid') && current !== 'Paid (Full Payment)') {
+    return 'Paid (Full Payment)';
+  }
+  if (balanceStatus === 'partial' && PRE_PAYMENT_STATUSES.includes(current)) {
+    return 'Paid (1st installment)';
+  }
+  return null;
+}
+
+// Compare verified slip amounts with the booking's grand total, payment by payment
+// Slips paid in another currency are converted into the booking's currency at the rate for the slip date
+export function reconcileTourBooking(
+  booking: ReconciliationBookingInput,
+  payments: ReconciliationPaymentInput[],
+  rates: ExchangeRateInput[] = []
+): BookingReconciliation {
+  const currency = booking.currency ?? BASE_CURRENCY;
+  const grandTotal = booking.grand_total && booking.grand_total > 0 ? booking.grand_total : null;
+  const bookingDate = toDateKey(booking.booking_date);
+
+  const ordered = [...payments].sort((a, b) => {
+    const aKey = toDateKey(a.verified_payment_date) ?? a.uploaded_at;
+    const bKey = toDateKey(b.verified_payment_date) ?? b.uploaded_at;
+    return aKey.localeCompare(bKey);
+  });
+
+  let paidToDate = 0;
+  const paymentResults: PaymentReconciliation[] = ordered.map((payment) => {
+    const flags: ReconciliationFlag[] = [];
+    const paymentDate = toDateKey(payment.verified_payment_date);
+    const slipAmount = payment.verified_amount ?? null;
+    const slipCurrency = payment.currency ?? BASE_CURRENCY;
+    const amount = slipAmount !== null
+      ? convertAmount(slipAmount, slipCurrency, currency, paymentDate ?? payment.uploaded_at, rates)
+      : null;
+    const suspectedDuplicate = isSuspectedDuplicate(payment);
+    const counted = Boolean(payment.is_verified) && amount !== null && !suspectedDuplicate;
+    const balanceBefore = grandTotal !== null ? roundMoney(grandTotal - paidToDate) : null;
+    let expectedAmount: number | null = null;
+
+    if (!payment.is_verified) {
+      flags.push(
+        payment.verification_error
+          ? { code: 'verification_failed', severity: 'warning', message: 'Slip could not be verified; amount not counted.', payment_id: payment.id }
+          : { code: 'unverified_payment', severity: 'info', message: 'Slip not verified yet; amount not counted.', payment_id: payment.id }
+      );
+    } else if (slipAmount === null) {
+      flags.push({ code: 'missing_verified_amount', severity: 'warning', message: 'No amount was read from the slip.', payment_id: payment.id });
+    } else if (amount === null) {
+      flags.push({
+        code: 'missing_exchange_rate',
+        severity: 'warning',
+        message: `No ${slipCurrency} exchange rate to convert ${formatCurrency(slipAmount, slipCurrency)} into ${currency}; amount not counted.`,
+        payment_id: payment.id,
+      });
+    }
+
+    if (suspectedDuplicate) {
+      flags.push({
+        code: 'suspected_duplicate',
+        severity: 'warning',
+        message: 'Slip looks like a duplicate of an earlier payment; amount not counted unless accepted.',
+        payment_id: payment.id,
+      });
+    }
+
+    if (paymentDate && bookingDate && paymentDate < bookingDate) {
+      flags.push({
+        code: 'slip_before_booking',
+        severity: 'warning',
+        message: `Slip is dated ${paymentDate}, before the booking date ${bookingDate}.`,
+        payment_id: payment.id,
+      });
+    }
+
+    if (counted && balanceBefore !== null) {
+      if (FULLY_PAID_STATUSES.includes(payment.status_at_payment)) {
+        // A full-payment slip should settle whatever was still owed
+        expectedAmount = balanceBefore;
+        if (Math.abs(amount - balanceBefore) > RECONCILIATION_TOLERANCE) {
+          flags.push({
+            code: 'installment_mismatch',
+            severity: 'warning',
+            message: `Full payment expected ${formatCurrency(balanceBefore, currency)} but the slip shows ${formatCurrency(amount, currency)}.`,
+            payment_id: payment.id,
+          });
+        }
+      } else if (payment.status_at_payment === 'Paid (1st installment)' && amount >= balanceBefore - RECONCILIATION_TOLERANCE) {
+        flags.push({
+          code: 'installment_mismatch',
+          severity: 'warning',
+          message: `Recorded as an installment but ${formatCurrency(amount, currency)} covers the full balance of ${formatCurrency(balanceBefore, currency)}.`,
+          payment_id: payment.id,
+        });
+      }
+    }
+
+    if (counted) paidToDate = roundMoney(paidToDate + amount);
+
+    return {
+      payment_id: payment.id,
+      status_at_payment: payment.status_at_payment,
+      amount,
+      payment_date: paymentDate,
+      counted,
+      balance_before: balanceBefore,
+      expected_amount: expectedAmount,
+      paid_to_date_after: paidToDate,
+      flags,
+    };
+  });
+
+  const balanceStatus = getBalanceStatus(grandTotal, paidToDate);
+  const overUnder = grandTotal !== null ? roundMoney(paidToDate - grandTotal) : null;
+  const bookingFlags: ReconciliationFlag[] = [];
+
+  if (grandTotal === null) {
+    bookingFlags.push({ code: 'missing_grand_total', severity: 'warning', message: 'Booking has no grand total to reconcile against.' });
+  }
+  if (balanceStatus === 'overpaid' && overUnder !== null) {
+    bookingFlags.push({ code: 'overpaid', severity: 'error', message: `Verified payments exceed the grand total by ${formatCurrency(overUnder, currency)}.` });
+  }
+  if (FULLY_PAID_STATUSES.includes(booking.status) && (balanceStatus === 'partial' || balanceStatus === 'unpaid')) {
+    bookingFlags.push({
+      code: 'status_ahead_of_payments',
+      severity: 'warning',
+      message: `Status is ${booking.status} but ${formatCurrency(Math.abs(overUnder ?? 0), currency)} is still outstanding.`,
+    });
+  }
+
+  return {
+    booking_id: booking.id,
+    customer_name: booking.customer_name ?? null,
+    package_name: booking.package_name ?? null,
+    current_status: booking.status,
+    currency,
+    grand_total: grandTotal,
+    paid_to_date: paidToDate,
+    outstanding: grandTotal !== null ? Math.max(roundMoney(grandTotal - paidToDate), 0) : null,
+    over_under: overUnder,
+    balance_status: balanceStatus,
+    suggested_status: suggestNextStatus(booking.status, balanceStatus),
+    payments: paymentResults,
+    flags: [...bookingFlags, ...paymentResults.flatMap((payment) => payment.flags)],
+  };
+}
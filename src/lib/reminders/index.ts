@@ -0,0 +1,21 @@
+import { createClient } from '@supabase/supabase-js';
+import { businessDateKey } from '@/lib/dashboard-filters';
+import { getMailTransport } from '@/lib/mail';
+import type { ReminderJobSummary } from '@/lib/types/notifications';
+import { runReminderJob } from './run-reminders';
+import { createSupabaseReminderStore } from './supabase-store';
+
+// Runs the reminder job for today (the Bangkok business day) against Supabase with the configured
+// mail transport (see src/lib/mail). APP_URL is used for the links in the digest emails.
+export async function runScheduledReminders(today = businessDateKey()): Promise<ReminderJobSummary> {
+  const supabaseAdmin = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  );
+  return runReminderJob(today, {
+    store: createSupabaseReminderStore(supabaseAdmin),
+    transport: getMailTransport(),
+    appUrl: process.env.APP_URL || 'http://localhost:3000',
+  });
+}
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import {
+  buildReminderDigest,
+  describeDueDate,
+  reminderDedupeKey,
+  runReminderJob,
+  selectReminders,
+  type NewNotification,
+  type ReminderItem,
+  type ReminderRecipient,
+  type ReminderStore,
+} from './run-reminders';
+import type { MailMessage, MailTransport } from '@/lib/mail';
+import { DEFAULT_NOTIFICATION_PREFERENCES, type AppNotification } from '@/lib/types/notifications';
+
+const TODAY = '2025-06-10';
+
+const items: ReminderItem[] = [
+  { kind: 'booking_deadline', source_id: 'dl-1', due_date: '2025-06-12', title: 'Ticketing deadline: BK-1 (Acme)', link: '/bookings/b1' },
+  { kind: 'booking_deadline', source_id: 'dl-2', due_date: '2025-06-13', title: 'Deposit deadline: BK-2 (Acme)', link: '/bookings/b2' },
+  { kind: 'task', source_id: '7', due_date: '2025-06-09', title: 'Task: Send invoices', link: '/tasks/7' },
+  { kind: 'task', source_id: '8', due_date: '2025-05-01', title: 'Task: Long forgotten', link: '/tasks/8' },
+  { kind: 'follow_up', source_id: 'cr-1', due_date: '2025-06-11', title: 'Follow up with Acme: Group quote', link: '/call-reports/cr-1' },
+];
+
+function createMemoryStore(recipients: ReminderRecipient[], reminderItems: ReminderItem[]) {
+  const notifications: AppNotification[] = [];
+  const digests = new Set<string>();
+  const store: ReminderStore = {
+    async getRecipients() {
+      return recipients;
+    },
+    async getReminderItems(fromDate, throughDate) {
+      return reminderItems.filter((item) => item.due_date >= fromDate && item.due_date <= throughDate);
+    },
+    async createNotifications(rows: NewNotification[]) {
+      const created = rows
+        .filter((row) => !notifications.some((n) => n.user_id === row.user_id && n.dedupe_key === row.dedupe_key))
+        .map((row, index) => ({
+          ...row,
+          id: `n-${notifications.length + index + 1}`,
+          created_at: `${TODAY}T00:00:00Z`,
+          read_at: null,
+          emailed_at: null,
+        }));
+      notifications.push(...created);
+      return created;
+    },
+    async getUnemailedNotifications(userId) {
+      return notifications.filter((n) => n.user_id === userId && !n.emailed_at);
+    },
+    async claimDigest(userId, digestDate) {
+      const key = `${userId}:${digestDate}`;
+      if (digests.has(key)) return false;
+      digests.add(key);
+      return true;
+    },
+    async releaseDigest(userId, digestDate) {
+      digests.delete(`${userId}:${digestDate}`);
+    },
+    async markEmailed(ids, emailedAt) {
+      notifications.forEach((n) => {
+        if (ids.includes(n.id)) n.emailed_at = emailedAt;
+      });
+    },
+  };
+  return { store, notifications };
+}
+
+function createMemoryTransport({ failFor = [] as string[] } = {}) {
+  const sent: MailMessage[] = [];
+  const transport: MailTransport = {
+    name: 'memory',
+    async send(message) {
+      if (failFor.includes(message.to)) throw new Error('Mailbox unavailable');
+      sent.push(message);
+    },
+  };
+  return { transport, sent };
+}
+
+async function runRemindersSelfCheck() {
+  assert.equal(describeDueDate('2025-06-10', TODAY), 'Due today');
+  assert.equal(describeDueDate('2025-06-11', TODAY), 'Due tomorrow');
+  assert.equal(describeDueDate('2025-06-13', TODAY), 'Due in 3 days');
+  assert.equal(describeDueDate('2025-06-09', TODAY), 'Overdue by 1 day');
+  assert.equal(describeDueDate('2025-06-01', TODAY), 'Overdue by 9 days');
+
+  assert.equal(reminderDedupeKey(items[2], 'overdue'), 'task:7:2025-06-09:overdue');
+
+  // Lead times are per kind; long-overdue items are left to the dashboard
+  const selected = selectReminders(items, { user_id: 'u1', preferences: DEFAULT_NOTIFICATION_PREFERENCES }, TODAY);
+  assert.deepEqual(
+    selected.map((n) => n.dedupe_key),
+    ['booking_deadline:dl-1:2025-06-12:due', 'task:7:2025-06-09:overdue', 'follow_up:cr-1:2025-06-11:due']
+  );
+  assert.equal(selected[1].body, 'Overdue by 1 day');
+
+  const wider = selectReminders(
+    items,
+    { user_id: 'u1', preferences: { ...DEFAULT_NOTIFICATION_PREFERENCES, booking_deadline_lead_days: 3, follow_up_lead_days: 0 } },
+    TODAY
+  );
+  assert.deepEqual(wider.map((n) => n.source_id), ['dl-1', 'dl-2', '7']);
+
+  const digest = buildReminderDigest(
+    { email: 'ann@example.com', full_name: 'Ann' },
+    selected,
+    { today: TODAY, appUrl: 'https://tracker.example.com/' }
+  );
+  assert.equal(digest.to, 'ann@example.com');
+  assert.equal(digest.subject, 'Booking Tracker reminders for 2025-06-10: 3 items');
+  assert.match(digest.text, /Booking deadlines \(1\)\n- Due in 2 days \(2025-06-12\): Ticketing deadline: BK-1 \(Acme\)\n {2}https:\/\/tracker\.example\.com\/bookings\/b1/);
+  assert.match(digest.text, /Tasks \(1\)\n- Overdue by 1 day/);
+  assert.ok(digest.text.indexOf('Booking deadlines') < digest.text.indexOf('Tasks'), 'sections follow the kind order');
+
+  const recipients: ReminderRecipient[] = [
+    { user_id: 'u1', email: 'ann@example.com', full_name: 'Ann', preferences: DEFAULT_NOTIFICATION_PREFERENCES },
+    { user_id: 'u2', email: 'bob@example.com', full_name: 'Bob', preferences: { ...DEFAULT_NOTIFICATION_PREFERENCES, email_enabled: false } },
+    { user_id: 'u3', email: 'cat@example.com', full_name: 'Cat', preferences: DEFAULT_NOTIFICATION_PREFERENCES },
+  ];
+  const { store, notifications } = createMemoryStore(recipients, items);
+  const mail = createMemoryTransport({ failFor: ['cat@example.com'] });
+  const job = { store, transport: mail.transport, appUrl: 'http://localhost:3000' };
+
+  const first = await runReminderJob(TODAY, job);
+  assert.deepEqual(first, { runDate: TODAY, recipients: 3, notificationsCreated: 9, digestsSent: 1, digestsFailed: 1 });
+  assert.deepEqual(mail.sent.map((m) => m.to), ['ann@example.com'], 'opted-out and failed users get no email');
+  assert.equal(notifications.filter((n) => n.user_id === 'u2').length, 3, 'opted-out users still get in-app notifications');
+  assert.ok(notifications.filter((n) => n.user_id === 'u1').every((n) => n.emailed_at), 'emailed notifications are marked');
+
+  // A second run the same day creates nothing new and sends no second digest to Ann,
+  // but retries Cat, whose first digest failed
+  const retry = createMemoryTransport();
+  const second = await runReminderJob(TODAY, { ...job, transport: retry.transport });
+  assert.deepEqual(second, { runDate: TODAY, recipients: 3, notificationsCreated: 0, digestsSent: 1, digestsFailed: 0 });
+  assert.deepEqual(retry.sent.map((m) => m.to), ['cat@example.com']);
+
+  // Next day only the deposit deadline is new: it has entered the two-day lead time
+  const nextDay = createMemoryTransport();
+  const third = await runReminderJob('2025-06-11', { ...job, transport: nextDay.transport });
+  assert.equal(third.notificationsCreated, 3);
+  assert.deepEqual(nextDay.sent.map((m) => m.to), ['ann@example.com', 'cat@example.com']);
+  assert.match(nextDay.sent[0].subject, /1 item$/);
+  assert.match(nextDay.sent[0].text, /Deposit deadline: BK-2/);
+  assert.doesNotMatch(nextDay.sent[0].text, /Ticketing deadline/, 'already emailed reminders are not repeated');
+}
+
+runRemindersSelfCheck().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,194 @@
+import type { MailMessage, MailTransport } from '@/lib/mail';
+import {
+  LEAD_DAYS_FIELD,
+  REMINDER_KIND_LABELS,
+  REMINDER_KINDS,
+  type AppNotification,
+  type NotificationPreferences,
+  type ReminderJobSummary,
+  type ReminderKind,
+  type ReminderStage,
+} from '@/lib/types/notifications';
+
+// Items overdue for longer than this are left to the dashboard instead of reminded about
+export const OVERDUE_LOOKBACK_DAYS = 14;
+
+// Something with a due date that someone should be reminded of
+export interface ReminderItem {
+  kind: ReminderKind;
+  source_id: string;
+  due_date: string; // yyyy-MM-dd
+  title: string; // e.g. "Ticketing deadline: BK-1042 (Acme Travel)"
+  link: string; // app path, e.g. '/bookings/<id>'
+}
+
+export interface ReminderRecipient {
+  user_id: string;
+  email: string | null;
+  full_name: string | null;
+  preferences: NotificationPreferences;
+}
+
+export type NewNotification = Pick<
+  AppNotification,
+  'user_id' | 'kind' | 'source_id' | 'due_date' | 'title' | 'body' | 'link' | 'dedupe_key'
+>;
+
+// Persistence used by the job; the route handler backs it with Supabase
+export interface ReminderStore {
+  getRecipients(): Promise<ReminderRecipient[]>;
+  // Open items due between the two dates (inclusive)
+  getReminderItems(fromDate: string, throughDate: string): Promise<ReminderItem[]>;
+  // Inserts the rows, skipping (user_id, dedupe_key) pairs that already exist; returns the inserted rows
+  createNotifications(rows: NewNotification[]): Promise<AppNotification[]>;
+  getUnemailedNotifications(userId: string): Promise<AppNotification[]>;
+  // Reserves the user's digest for the date; false when that digest was already sent
+  claimDigest(userId: string, digestDate: string, transportName: string): Promise<boolean>;
+  releaseDigest(userId: string, digestDate: string): Promise<void>;
+  markEmailed(notificationIds: string[], emailedAt: string): Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / DAY_MS);
+}
+
+export function reminderStage(dueDate: string, today: string): ReminderStage {
+  return dueDate < today ? 'overdue' : 'due';
+}
+
+// One reminder per item, due date and stage: a moved due date is reminded about again
+export function reminderDedupeKey(item: Pick<ReminderItem, 'kind' | 'source_id' | 'due_date'>, stage: ReminderStage): string {
+  return `${item.kind}:${item.source_id}:${item.due_date}:${stage}`;
+}
+
+// "Due today" / "Due tomorrow" / "Due in 3 days" / "Overdue by 2 days"
+export function describeDueDate(dueDate: string, today: string): string {
+  const days = daysBetween(today, dueDate);
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  if (days > 1) return `Due in ${days} days`;
+  return `Overdue by ${-days} day${days === -1 ? '' : 's'}`;
+}
+
+// The reminders a user should have today, given their lead time for each kind
+export function selectReminders(
+  items: ReminderItem[],
+  recipient: Pick<ReminderRecipient, 'user_id' | 'preferences'>,
+  today: string
+): NewNotification[] {
+  const oldest = addDays(today, -OVERDUE_LOOKBACK_DAYS);
+  return items
+    .filter((item) => {
+      const latest = addDays(today, recipient.preferences[LEAD_DAYS_FIELD[item.kind]]);
+      return item.due_date >= oldest && item.due_date <= latest;
+    })
+    .map((item) => ({
+      user_id: recipient.user_id,
+      kind: item.kind,
+      source_id: item.source_id,
+      due_date: item.due_date,
+      title: item.title,
+      body: describeDueDate(item.due_date, today),
+      link: item.link,
+      dedupe_key: reminderDedupeKey(item, reminderStage(item.due_date, today)),
+    }));
+}
+
+// Plain-text daily digest, grouped by kind and soonest first
+export function buildReminderDigest(
+  recipient: Pick<ReminderRecipient, 'email' | 'full_name'>,
+  notifications: Pick<AppNotification, 'kind' | 'due_date' | 'title' | 'link'>[],
+  { today, appUrl }: { today: string; appUrl: string }
+): MailMessage {
+  const baseUrl = appUrl.replace(/\/+$/, '');
+  const sections = REMINDER_KINDS.flatMap((kind) => {
+    const entries = notifications
+      .filter((notification) => notification.kind === kind)
+      .sort((a, b) => a.due_date.localeCompare(b.due_date));
+    if (entries.length === 0) return [];
+    return [
+      [
+        `${REMINDER_KIND_LABELS[kind]}s (${entries.length})`,
+        ...entries.map((entry) => {
+          const line = `- ${describeDueDate(entry.due_date, today)} (${entry.due_date}): ${entry.title}`;
+          return entry.link ? `${line}\n  ${baseUrl}${entry.link}` : line;
+        }),
+      ].join('\n'),
+    ];
+  });
+
+  const count = notifications.length;
+  return {
+    to: recipient.email ?? '',
+    subject: `Booking Tracker reminders for ${today}: ${count} item${count === 1 ? '' : 's'}`,
+    text: [
+      `Hello ${recipient.full_name || recipient.email},`,
+      '',
+      `You have ${count} reminder${count === 1 ? '' : 's'}:`,
+      '',
+      sections.join('\n\n'),
+      '',
+      `Change your reminder settings at ${baseUrl}/notifications`,
+    ].join('\n'),
+  };
+}
+
+// One run of the reminder job: create in-app notifications for everything inside each user's
+// lead time, then email each user one digest per day of whatever they were not emailed yet.
+// Safe to run repeatedly: dedupe keys and the per-day digest claim stop repeats.
+export async function runReminderJob(
+  today: string,
+  { store, transport, appUrl }: { store: ReminderStore; transport: MailTransport; appUrl: string }
+): Promise<ReminderJobSummary> {
+  const summary: ReminderJobSummary = {
+    runDate: today,
+    recipients: 0,
+    notificationsCreated: 0,
+    digestsSent: 0,
+    digestsFailed: 0,
+  };
+
+  const recipients = await store.getRecipients();
+  summary.recipients = recipients.length;
+  if (recipients.length === 0) return summary;
+
+  const longestLead = Math.max(
+    ...recipients.flatMap((recipient) => REMINDER_KINDS.map((kind) => recipient.preferences[LEAD_DAYS_FIELD[kind]]))
+  );
+  const items = await store.getReminderItems(addDays(today, -OVERDUE_LOOKBACK_DAYS), addDays(today, longestLead));
+
+  for (const recipient of recipients) {
+    const created = await store.createNotifications(selectReminders(items, recipient, today));
+    summary.notificationsCreated += created.length;
+
+    if (!recipient.preferences.email_enabled || !recipient.email) continue;
+
+    const pending = await store.getUnemailedNotifications(recipient.user_id);
+    if (pending.length === 0) continue;
+    if (!(await store.claimDigest(recipient.user_id, today, transport.name))) continue;
+
+    try {
+      await transport.send(buildReminderDigest(recipient, pending, { today, appUrl }));
+    } catch (error) {
+      console.error(`[reminders] Digest for ${recipient.email} failed (${transport.name}):`, error);
+      summary.digestsFailed += 1;
+      // Give the next run today another go at this user
+      await store.releaseDigest(recipient.user_id, today);
+      continue;
+    }
+    summary.digestsSent += 1;
+    // The digest is out: the claim stays even if this fails, so it is not sent twice today
+    await store.markEmailed(pending.map((notification) => notification.id), new Date().toISOString());
+  }
+
+  return summary;
+}
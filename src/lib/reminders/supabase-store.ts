@@ -0,0 +1,162 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEADLINE_TYPE_LABELS, type DeadlineType } from '@/lib/types/deadlines';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type AppNotification,
+  type NotificationPreferences,
+} from '@/lib/types/notifications';
+import type { ReminderItem, ReminderRecipient, ReminderStore } from './run-reminders';
+
+const NOTIFICATION_COLUMNS = 'id, user_id, kind, source_id, due_date, title, body, link, dedupe_key, created_at, read_at, emailed_at';
+
+// Bookings whose time limits still matter (same as the dashboard list)
+const OPEN_BOOKING_STATUSES = ['Confirmed', 'Waiting List'];
+
+interface DeadlineRow {
+  id: string;
+  booking_id: string;
+  deadline_type: DeadlineType;
+  due_date: string;
+  bookings: { booking_reference: string | null; customers: { company_name: string } | null } | null;
+}
+
+interface TaskRow {
+  id: number;
+  description: string;
+  due_date: string;
+}
+
+interface FollowUpRow {
+  id: string;
+  topic: string;
+  next_follow_up_date: string;
+  customers: { company_name: string } | null;
+}
+
+// Supabase-backed persistence for the reminder job. Needs the service role client:
+// the job runs without a signed-in user and reads every user's preferences.
+export function createSupabaseReminderStore(supabaseAdmin: SupabaseClient): ReminderStore {
+  return {
+    async getRecipients() {
+      const [profilesResult, preferencesResult] = await Promise.all([
+        supabaseAdmin.from('profiles').select('id, email, full_name'),
+        supabaseAdmin.from('notification_preferences').select('user_id, email_enabled, booking_deadline_lead_days, task_lead_days, follow_up_lead_days'),
+      ]);
+      const error = profilesResult.error || preferencesResult.error;
+      if (error) throw new Error(`Failed to load reminder recipients. ${error.message}`);
+
+      const preferencesByUser = new Map(
+        (preferencesResult.data ?? []).map(({ user_id, ...preferences }) => [user_id as string, preferences as NotificationPreferences])
+      );
+      return (profilesResult.data ?? []).map((profile): ReminderRecipient => ({
+        user_id: profile.id,
+        email: profile.email,
+        full_name: profile.full_name,
+        preferences: preferencesByUser.get(profile.id) ?? DEFAULT_NOTIFICATION_PREFERENCES,
+      }));
+    },
+
+    async getReminderItems(fromDate, throughDate) {
+      const [deadlinesResult, tasksResult, followUpsResult] = await Promise.all([
+        supabaseAdmin
+          .from('booking_deadlines')
+          .select('id, booking_id, deadline_type, due_date, bookings!inner ( booking_reference, status, customers ( company_name ) )')
+          .is('completed_at', null)
+          .gte('due_date', fromDate)
+          .lte('due_date', throughDate)
+          .in('bookings.status', OPEN_BOOKING_STATUSES)
+          .returns<DeadlineRow[]>(),
+        supabaseAdmin
+          .from('tasks')
+          .select('id, description, due_date')
+          .neq('status', 'Completed')
+          .gte('due_date', fromDate)
+          .lte('due_date', throughDate)
+          .returns<TaskRow[]>(),
+        supabaseAdmin
+          .from('call_reports')
+          .select('id, topic, next_follow_up_date, customers ( company_name )')
+          .eq('status', 'Follow Up')
+          .gte('next_follow_up_date', fromDate)
+          .lte('next_follow_up_date', throughDate)
+          .returns<FollowUpRow[]>(),
+      ]);
+      const error = deadlinesResult.error || tasksResult.error || followUpsResult.error;
+      if (error) throw new Error(`Failed to load reminder items. ${error.message}`);
+
+      return [
+        ...(deadlinesResult.data ?? []).map((deadline): ReminderItem => ({
+          kind: 'booking_deadline',
+          source_id: deadline.id,
+          due_date: deadline.due_date,
+          title: `${DEADLINE_TYPE_LABELS[deadline.deadline_type]} deadline: ${deadline.bookings?.booking_reference || 'No Ref'} (${deadline.bookings?.customers?.company_name || 'Unknown Co.'})`,
+          link: `/bookings/${deadline.booking_id}`,
+        })),
+        ...(tasksResult.data ?? []).map((task): ReminderItem => ({
+          kind: 'task',
+          source_id: String(task.id),
+          due_date: task.due_date,
+          title: `Task: ${task.description}`,
+          link: `/tasks/${task.id}`,
+        })),
+        ...(followUpsResult.data ?? []).map((report): ReminderItem => ({
+          kind: 'follow_up',
+          source_id: report.id,
+          due_date: report.next_follow_up_date,
+          title: `Follow up with ${report.customers?.company_name || 'customer'}: ${report.topic}`,
+          link: `/call-reports/${report.id}`,
+        })),
+      ];
+    },
+
+    async createNotifications(rows) {
+      if (rows.length === 0) return [];
+      const { data, error } = await supabaseAdmin
+        .from('notifications')
+        .upsert(rows, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+        .select(NOTIFICATION_COLUMNS)
+        .returns<AppNotification[]>();
+      if (error) throw new Error(`Failed to create notifications. ${error.message}`);
+      return data ?? [];
+    },
+
+    async getUnemailedNotifications(userId) {
+      const { data, error } = await supabaseAdmin
+        .from('notifications')
+        .select(NOTIFICATION_COLUMNS)
+        .eq('user_id', userId)
+        .is('emailed_at', null)
+        .order('due_date', { ascending: true })
+        .returns<AppNotification[]>();
+      if (error) throw new Error(`Failed to load notifications for ${userId}. ${error.message}`);
+      return data ?? [];
+    },
+
+    async claimDigest(userId, digestDate, transportName) {
+      const { error } = await supabaseAdmin
+        .from('reminder_digests')
+        .insert({ user_id: userId, digest_date: digestDate, transport: transportName });
+      if (error?.code === '23505') return false;
+      if (error) throw new Error(`Failed to record digest for ${userId}. ${error.message}`);
+      return true;
+    },
+
+    async releaseDigest(userId, digestDate) {
+      const { error } = await supabaseAdmin
+        .from('reminder_digests')
+        .delete()
+        .eq('user_id', userId)
+        .eq('digest_date', digestDate);
+      if (error) console.error(`[reminders] Could not release digest for ${userId}:`, error);
+    },
+
+    async markEmailed(notificationIds, emailedAt) {
+      if (notificationIds.length === 0) return;
+      const { error } = await supabaseAdmin
+        .from('notifications')
+        .update({ emailed_at: emailedAt })
+        .in('id', notificationIds);
+      if (error) throw new Error(`Failed to mark notifications as emailed. ${error.message}`);
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import {
+  buildRevenueEntries,
+  buildRevenuePivot,
+  buildRevenueReport,
+  forecastCashFlow,
+  spreadOverTravelDays,
+  type RevenueBookingInput,
+} from './revenue';
+import type { ReconciliationPaymentInput } from './reconciliation';
+import type { ExchangeRateInput } from './types/currency';
+
+const rates: ExchangeRateInput[] = [
+  { currency: 'USD', rate_date: '2026-01-01', rate: 35 },
+  { currency: 'USD', rate_date: '2026-06-01', rate: 36 },
+];
+
+const booking = (overrides: Partial<RevenueBookingInput> = {}): RevenueBookingInput => ({
+  id: 'B0001',
+  status: 'Paid (1st installment)',
+  tour_product_id: 'p1',
+  package_name: 'Chiang Mai Explorer',
+  customer_id: 'c1',
+  customer_name: 'Somchai',
+  currency: 'THB',
+  grand_total: 31000,
+  booking_date: '2026-01-15',
+  created_at: '2026-01-15T08:00:00.000Z',
+  travel_start_date: '2026-03-30',
+  travel_end_date: '2026-04-28',
+  payments: [],
+  installments: [],
+  ...overrides,
+});
+
+const payment = (overrides: Partial<ReconciliationPaymentInput> = {}): ReconciliationPaymentInput => ({
+  id: 'pay-1',
+  status_at_payment: 'Open',
+  uploaded_at: '2026-02-03T10:00:00.000Z',
+  is_verified: true,
+  verified_amount: 10000,
+  verified_payment_date: '2026-02-02',
+  verification_error: null,
+  currency: 'THB',
+  ...overrides,
+});
+
+function runRevenueSelfCheck() {
+  // 30 travel days: 2 in March, 28 in April
+  assert.deepEqual(spreadOverTravelDays(30000, '2026-03-30', '2026-04-28'), [
+    { month: '2026-03', amount: 2000 },
+    { month: '2026-04', amount: 28000 },
+  ]);
+  assert.deepEqual(spreadOverTravelDays(100, '2026-05-10', null), [{ month: '2026-05', amount: 100 }], 'no end date recognises on the start date');
+  const uneven = spreadOverTravelDays(100, '2026-01-31', '2026-02-02');
+  assert.equal(uneven.reduce((sum, share) => sum + share.amount, 0), 100, 'rounding is absorbed by the last month');
+
+  const { entries, exclusions } = buildRevenueEntries(
+    [
+      booking({ payments: [payment(), payment({ id: 'pay-2', is_verified: false, verified_amount: 5000 })] }),
+      booking({ id: 'B0002', status: 'Closed', payments: [payment({ id: 'pay-3', verified_amount: 2000, verified_payment_date: '2026-03-01' })] }),
+      booking({ id: 'B0003', currency: 'USD', grand_total: 100, booking_date: '2026-07-01', travel_start_date: null, customer_id: null, customer_name: 'Anna' }),
+      booking({ id: 'B0004', currency: 'EUR', grand_total: 100, travel_start_date: null }),
+    ],
+    rates
+  );
+  const byMeasure = (measure: string) => entries.filter((entry) => entry.measure === measure);
+
+  assert.deepEqual(byMeasure('booked').map((entry) => [entry.booking_id, entry.month, entry.amount]), [
+    ['B0001', '2026-01', 31000],
+    ['B0003', '2026-07', 3600],
+  ], 'closed bookings are not booked value; USD converts at the booking date');
+  assert.deepEqual(byMeasure('cash').map((entry) => [entry.booking_id, entry.month, entry.amount]), [
+    ['B0001', '2026-02', 10000],
+    ['B0002', '2026-03', 2000],
+  ], 'only verified payments count as cash, including those on closed bookings');
+  assert.deepEqual(byMeasure('recognised').map((entry) => [entry.month, entry.amount]), [
+    ['2026-03', 2066.67],
+    ['2026-04', 28933.33],
+  ]);
+  assert.deepEqual(exclusions, { missingExchangeRate: 1, missingTravelDates: 2 });
+
+  const pivot = buildRevenuePivot(entries, 'booked', 'customer', ['2026-01', '2026-07']);
+  assert.deepEqual(pivot.rows.map((row) => [row.key, row.total]), [['c1', 31000], ['name:anna', 3600]]);
+  assert.equal(pivot.monthTotals['2026-07'], 3600);
+  assert.equal(pivot.total, 34600);
+  assert.equal(buildRevenuePivot(entries, 'booked', 'customer', ['2026-02']).rows.length, 0, 'months outside the range are left out');
+
+  const installments = [
+    { id: 'i1', sequence: 1, label: 'Deposit', due_date: '2026-01-20', amount: 9300 },
+    { id: 'i2', sequence: 2, label: 'Installment 2', due_date: '2026-02-10', amount: 10000 },
+    { id: 'i3', sequence: 3, label: 'Balance', due_date: '2026-04-28', amount: 11700 },
+  ];
+  const { forecast } = forecastCashFlow(
+    [
+      booking({ installments, payments: [payment()] }),
+      booking({ id: 'B0005', status: 'Complete', installments }),
+    ],
+    rates,
+    '2026-02-15'
+  );
+  // 10,000 paid fills the deposit and 700 of installment 2, which is now overdue
+  assert.equal(forecast.overdue, 9300);
+  assert.equal(forecast.overdueInstallments, 1);
+  assert.deepEqual(forecast.months, [
+    { month: '2026-02', expected: 0, installments: 0 },
+    { month: '2026-03', expected: 0, installments: 0 },
+    { month: '2026-04', expected: 11700, installments: 1 },
+  ]);
+  assert.equal(forecast.total, 21000);
+
+  const report = buildRevenueReport([booking({ payments: [payment()] })], rates, 2026, '2026-02-15');
+  assert.equal(report.months.length, 12);
+  assert.deepEqual(report.totals, { booked: 31000, cash: 10000, recognised: 31000 });
+  assert.equal(buildRevenueReport([booking()], rates, 2025, '2026-02-15').totals.booked, 0);
+}
+
+runRevenueSelfCheck();
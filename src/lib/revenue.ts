@@ -0,0 +1,276 @@
+import { convertPaymentAmounts, convertToBase } from '@/lib/currency';
+import { matchPaymentsToInstallments } from '@/lib/installments';
+import { isSuspectedDuplicate } from '@/lib/payment-duplicates';
+import type { ReconciliationPaymentInput } from '@/lib/reconciliation';
+import { BASE_CURRENCY, type CurrencyCode, type ExchangeRateInput } from '@/lib/types/currency';
+import type { PaymentInstallment } from '@/lib/types/installments';
+import {
+  RevenueMeasureEnum,
+  RevenueDimensionEnum,
+  type CashFlowForecast,
+  type RevenueDimension,
+  type RevenueEntry,
+  type RevenueExclusions,
+  type RevenueMeasure,
+  type RevenuePivot,
+  type RevenuePivotRow,
+  type RevenueReport,
+} from '@/lib/types/revenue';
+import type { TourPackageStatus } from '@/lib/types/tours';
+
+type RateRow = Pick<ExchangeRateInput, 'currency' | 'rate_date' | 'rate'>;
+
+export interface RevenueBookingInput {
+  id: string;
+  status: TourPackageStatus;
+  tour_product_id: string;
+  package_name: string | null;
+  customer_id: string | null;
+  customer_name: string;
+  currency: CurrencyCode;
+  grand_total: number | null;
+  booking_date: string | null;
+  created_at: string;
+  travel_start_date: string | null;
+  travel_end_date: string | null;
+  payments: ReconciliationPaymentInput[];
+  installments: Pick<PaymentInstallment, 'id' | 'sequence' | 'label' | 'due_date' | 'amount'>[];
+}
+
+// Closed bookings were never delivered: they add nothing booked or recognised,
+// though any cash taken on them still counts as received
+const EXCLUDED_FROM_REVENUE: TourPackageStatus[] = ['Closed'];
+// Bookings in these statuses no longer chase outstanding installments
+const SETTLED_STATUSES: TourPackageStatus[] = ['Complete', 'Closed'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const toDateKey = (value: string | null | undefined): string | null =>
+  value ? value.slice(0, 10) : null;
+
+const toMonthKey = (dateKey: string): string => dateKey.slice(0, 7);
+
+function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(fromKey: string, toKey: string): number {
+  const [fromYear, fromMonth, fromDay] = fromKey.split('-').map(Number);
+  const [toYear, toMonth, toDay] = toKey.split('-').map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / DAY_MS);
+}
+
+function nextMonth(monthKey: string): string {
+  const [year, month] = monthKey.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+// Last day of the month a date falls in
+function monthEnd(dateKey: string): string {
+  return addDays(`${nextMonth(toMonthKey(dateKey))}-01`, -1);
+}
+
+export function monthsOfYear(year: number): string[] {
+  return Array.from({ length: 12 }, (_, index) => `${year}-${String(index + 1).padStart(2, '0')}`);
+}
+
+// Unlinked bookings fall back to the customer name, as on the dashboard
+const customerKey = (booking: RevenueBookingInput): string =>
+  booking.customer_id ?? `name:${booking.customer_name.toLowerCase().trim()}`;
+
+// Split an amount across the travel days and give each month its share.
+// Rounding is absorbed by the last month so the shares always sum to the amount.
+export function spreadOverTravelDays(amount: number, travelStart: string, travelEnd: string | null): { month: string; amount: number }[] {
+  const start = toDateKey(travelStart)!;
+  const endKey = toDateKey(travelEnd);
+  const end = endKey && endKey > start ? endKey : start;
+  const totalDays = daysBetween(start, end) + 1;
+
+  const shares: { month: string; amount: number }[] = [];
+  let allocated = 0;
+  let segmentStart = start;
+  while (segmentStart <= end) {
+    const segmentEnd = monthEnd(segmentStart) < end ? monthEnd(segmentStart) : end;
+    const isLast = segmentEnd === end;
+    const share = isLast
+      ? roundMoney(amount - allocated)
+      : roundMoney((amount * (daysBetween(segmentStart, segmentEnd) + 1)) / totalDays);
+    shares.push({ month: toMonthKey(segmentStart), amount: share });
+    allocated = roundMoney(allocated + share);
+    segmentStart = addDays(segmentEnd, 1);
+  }
+  return shares;
+}
+
+// Booked, cash and recognised amounts for every booking, each attributed to a month.
+// Amounts are converted to BASE_CURRENCY at the date that puts them in their month.
+export function buildRevenueEntries(
+  bookings: RevenueBookingInput[],
+  rates: RateRow[]
+): { entries: RevenueEntry[]; exclusions: RevenueExclusions } {
+  const entries: RevenueEntry[] = [];
+  const exclusions: RevenueExclusions = { missingExchangeRate: 0, missingTravelDates: 0 };
+
+  bookings.forEach((booking) => {
+    const keys = {
+      booking_id: booking.id,
+      tour_product_key: booking.tour_product_id,
+      tour_product_label: booking.package_name ?? 'Unknown package',
+      customer_key: customerKey(booking),
+      customer_label: booking.customer_name,
+    };
+    const grandTotal = booking.grand_total ?? 0;
+    const countsAsRevenue = grandTotal > 0 && !EXCLUDED_FROM_REVENUE.includes(booking.status);
+
+    if (countsAsRevenue) {
+      const bookedOn = toDateKey(booking.booking_date) ?? toDateKey(booking.created_at)!;
+      const booked = convertToBase(grandTotal, booking.currency, bookedOn, rates);
+      if (booked === null) {
+        exclusions.missingExchangeRate++;
+      } else {
+        entries.push({ measure: 'booked', month: toMonthKey(bookedOn), amount: booked, ...keys });
+      }
+
+      const travelStart = toDateKey(booking.travel_start_date);
+      if (!travelStart) {
+        exclusions.missingTravelDates++;
+      } else {
+        const recognised = convertToBase(grandTotal, booking.currency, travelStart, rates);
+        if (recognised === null) {
+          exclusions.missingExchangeRate++;
+        } else {
+          spreadOverTravelDays(recognised, travelStart, booking.travel_end_date).forEach((share) => {
+            entries.push({ measure: 'recognised', month: share.month, amount: share.amount, ...keys });
+          });
+        }
+      }
+    }
+
+    booking.payments
+      .filter(
+        (payment) =>
+          payment.is_verified &&
+          payment.verified_amount !== null &&
+          payment.verified_amount !== undefined &&
+          !isSuspectedDuplicate(payment)
+      )
+      .forEach((payment) => {
+        const paidOn = toDateKey(payment.verified_payment_date) ?? toDateKey(payment.uploaded_at)!;
+        const cash = convertToBase(payment.verified_amount as number, payment.currency ?? BASE_CURRENCY, paidOn, rates);
+        if (cash === null) {
+          exclusions.missingExchangeRate++;
+        } else {
+          entries.push({ measure: 'cash', month: toMonthKey(paidOn), amount: cash, ...keys });
+        }
+      });
+  });
+
+  return { entries, exclusions };
+}
+
+// Monthly pivot of one measure by tour package or customer, limited to the given months
+export function buildRevenuePivot(
+  entries: RevenueEntry[],
+  measure: RevenueMeasure,
+  dimension: RevenueDimension,
+  months: string[]
+): RevenuePivot {
+  const rowsByKey = new Map<string, RevenuePivotRow>();
+  const monthTotals: Record<string, number> = Object.fromEntries(months.map((month) => [month, 0]));
+
+  entries
+    .filter((entry) => entry.measure === measure && months.includes(entry.month))
+    .forEach((entry) => {
+      const key = dimension === 'tour_product' ? entry.tour_product_key : entry.customer_key;
+      const label = dimension === 'tour_product' ? entry.tour_product_label : entry.customer_label;
+      const row = rowsByKey.get(key) ?? { key, label, months: {}, total: 0 };
+      row.months[entry.month] = roundMoney((row.months[entry.month] ?? 0) + entry.amount);
+      row.total = roundMoney(row.total + entry.amount);
+      monthTotals[entry.month] = roundMoney(monthTotals[entry.month] + entry.amount);
+      rowsByKey.set(key, row);
+    });
+
+  const rows = [...rowsByKey.values()].sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+  return {
+    measure,
+    dimension,
+    months,
+    rows,
+    monthTotals,
+    total: roundMoney(rows.reduce((sum, row) => sum + row.total, 0)),
+  };
+}
+
+// Outstanding installments on open bookings by due month, in BASE_CURRENCY at today's rate.
+// Payments are matched to installments exactly as on the booking page.
+export function forecastCashFlow(
+  bookings: RevenueBookingInput[],
+  rates: RateRow[],
+  today: string
+): { forecast: CashFlowForecast; missingExchangeRate: number } {
+  const todayKey = toDateKey(today)!;
+  const byMonth = new Map<string, { expected: number; installments: number }>();
+  const forecast: CashFlowForecast = { overdue: 0, overdueInstallments: 0, months: [], total: 0 };
+  let missingExchangeRate = 0;
+
+  bookings
+    .filter((booking) => !SETTLED_STATUSES.includes(booking.status) && booking.installments.length > 0)
+    .forEach((booking) => {
+      matchPaymentsToInstallments(booking.installments, convertPaymentAmounts(booking.payments, booking.currency, rates), todayKey)
+        .filter((installment) => installment.status !== 'paid')
+        .forEach((installment) => {
+          const expected = convertToBase(installment.outstanding, booking.currency, todayKey, rates);
+          if (expected === null) {
+            missingExchangeRate++;
+            return;
+          }
+          forecast.total = roundMoney(forecast.total + expected);
+          if (installment.due_date < todayKey) {
+            forecast.overdue = roundMoney(forecast.overdue + expected);
+            forecast.overdueInstallments++;
+            return;
+          }
+          const month = toMonthKey(installment.due_date);
+          const bucket = byMonth.get(month) ?? { expected: 0, installments: 0 };
+          byMonth.set(month, { expected: roundMoney(bucket.expected + expected), installments: bucket.installments + 1 });
+        });
+    });
+
+  const lastMonth = [...byMonth.keys()].sort().pop();
+  for (let month = toMonthKey(todayKey); lastMonth && month <= lastMonth; month = nextMonth(month)) {
+    forecast.months.push({ month, ...(byMonth.get(month) ?? { expected: 0, installments: 0 }) });
+  }
+  return { forecast, missingExchangeRate };
+}
+
+// Everything the revenue report page shows for one calendar year
+export function buildRevenueReport(bookings: RevenueBookingInput[], rates: RateRow[], year: number, today: string): RevenueReport {
+  const months = monthsOfYear(year);
+  const { entries, exclusions } = buildRevenueEntries(bookings, rates);
+  const { forecast, missingExchangeRate } = forecastCashFlow(bookings, rates, today);
+
+  const pivots = Object.fromEntries(
+    RevenueMeasureEnum.options.map((measure) => [
+      measure,
+      Object.fromEntries(
+        RevenueDimensionEnum.options.map((dimension) => [dimension, buildRevenuePivot(entries, measure, dimension, months)])
+      ),
+    ])
+  ) as RevenueReport['pivots'];
+
+  return {
+    year,
+    months,
+    totals: {
+      booked: pivots.booked.tour_product.total,
+      cash: pivots.cash.tour_product.total,
+      recognised: pivots.recognised.tour_product.total,
+    },
+    pivots,
+    forecast,
+    exclusions: { ...exclusions, missingExchangeRate: exclusions.missingExchangeRate + missingExchangeRate },
+  };
+}
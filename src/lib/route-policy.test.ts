@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { CRON_ROUTES, isPublicRoute, resolveRouteAccess } from './route-policy';
+
+// Turn src/app/**/page.tsx into concrete URLs ('[id]' segments get a sample id)
+function collectAppRoutes(dir: string, segments: string[] = []): string[] {
+  const routes: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      const segment = entry.name.startsWith('[') ? '550e8400-e29b-41d4-a716-446655440000' : entry.name;
+      routes.push(...collectAppRoutes(path.join(dir, entry.name), [...segments, segment]));
+    } else if (entry.name === 'page.tsx' || entry.name === 'route.ts') {
+      routes.push(`/${segments.join('/')}`);
+    }
+  }
+  return routes;
+}
+
+function runRoutePolicySelfCheck() {
+  const routes = collectAppRoutes(path.join(__dirname, '..', 'app'));
+  assert.ok(routes.includes('/'), 'dashboard route should be discovered');
+  assert.ok(routes.includes('/login'), 'login route should be discovered');
+
+  for (const route of routes) {
+    const signedOut = resolveRouteAccess(route, false);
+    const signedIn = resolveRouteAccess(route, true);
+
+    if (route === '/login') {
+      assert.deepEqual(signedOut, { type: 'allow' }, 'login should be reachable when signed out');
+      assert.deepEqual(signedIn, { type: 'redirect', to: '/' }, 'signed-in users should leave login');
+      continue;
+    }
+
+    if ((CRON_ROUTES as readonly string[]).includes(route)) {
+      assert.deepEqual(signedOut, { type: 'allow' }, `${route} authenticates the scheduler itself`);
+      assert.deepEqual(signedIn, { type: 'allow' });
+      continue;
+    }
+
+    assert.deepEqual(signedOut, { type: 'redirect', to: '/login' }, `${route} should require a session`);
+    assert.deepEqual(signedIn, { type: 'allow' }, `${route} should be reachable when signed in`);
+  }
+
+  // Routes that do not exist yet are denied too
+  assert.deepEqual(resolveRouteAccess('/reports/new', false), { type: 'redirect', to: '/login' });
+  assert.deepEqual(resolveRouteAccess('/api/export', false), { type: 'redirect', to: '/login' });
+
+  // Prefix matching stops at segment boundaries
+  assert.equal(isPublicRoute('/login'), true);
+  assert.equal(isPublicRoute('/login/reset'), true);
+  assert.equal(isPublicRoute('/login-help'), false);
+  assert.equal(isPublicRoute('/'), false);
+  assert.equal(isPublicRoute('/api/reminders'), true);
+  assert.equal(isPublicRoute('/api/reminders-admin'), false);
+  assert.equal(isPublicRoute('/api/kpi-snapshots'), true);
+}
+
+runRoutePolicySelfCheck();
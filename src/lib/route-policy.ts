@@ -0,0 +1,38 @@
+// Deny-by-default route policy used by the middleware.
+// Every path requires a signed-in user unless it is listed in PUBLIC_ROUTES,
+// so new pages are protected without having to register them anywhere.
+
+export const LOGIN_ROUTE = '/login';
+export const HOME_ROUTE = '/';
+
+// Called by a scheduler without a session; the route handler checks CRON_SECRET itself
+export const CRON_ROUTES = ['/api/reminders', '/api/kpi-snapshots'] as const;
+
+// Reachable without a session
+export const PUBLIC_ROUTES = [LOGIN_ROUTE, ...CRON_ROUTES] as const;
+
+// Signed-in users are sent back to the dashboard from these
+export const SIGNED_OUT_ONLY_ROUTES = [LOGIN_ROUTE] as const;
+
+export type RouteDecision =
+  | { type: 'allow' }
+  | { type: 'redirect'; to: string };
+
+// '/login' matches '/login' and '/login/...', but not '/login-help'
+function matchesRoute(pathname: string, route: string): boolean {
+  return pathname === route || pathname.startsWith(`${route}/`);
+}
+
+export function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_ROUTES.some((route) => matchesRoute(pathname, route));
+}
+
+export function resolveRouteAccess(pathname: string, isSignedIn: boolean): RouteDecision {
+  if (!isSignedIn && !isPublicRoute(pathname)) {
+    return { type: 'redirect', to: LOGIN_ROUTE };
+  }
+  if (isSignedIn && SIGNED_OUT_ONLY_ROUTES.some((route) => matchesRoute(pathname, route))) {
+    return { type: 'redirect', to: HOME_ROUTE };
+  }
+  return { type: 'allow' };
+}
@@ -14,6 +14,12 @@ export const bookingStatuses: [BookingStatus, ...BookingStatus[]] = [
 // Zod schema for validating customer form data
 export const customerSchema = z.object({
   company_name: z.string().min(1, { message: 'Company name is required' }).max(255),
+  billing_address: z.string().max(1000).optional().nullable(),
+  tax_id: z.string().max(50, { message: 'Tax ID must be 50 characters or fewer' }).optional().nullable(),
+  payment_terms_days: z.coerce.number().int({ message: 'Payment terms must be whole days' })
+    .min(0, { message: 'Payment terms cannot be negative' }).max(365, { message: 'Payment terms cannot exceed 365 days' })
+    .optional().nullable(),
+  credit_limit: z.coerce.number().min(0, { message: 'Credit limit cannot be negative' }).optional().nullable(),
 });
 
 // Zod schema for validating predefined sector form data
@@ -25,14 +31,16 @@ export const predefinedSectorSchema = z.object({
 
 // Updated Zod schema for a single booking sector within the form
 export const bookingSectorFormSchema = z.object({
+    // Existing booking_sectors.id when editing; lets the save diff sectors instead of replacing them
+    id: z.string().uuid().optional().nullable(),
     predefined_sector_id: z.string().uuid({ message: "Please select a valid sector."}),
     travel_date: z.date({
         invalid_type_error: "That's not a valid date!",
     }).optional().nullable(),
     fare_class_id: z.string().uuid().optional().nullable(),
     flight_number: z.string().max(20).optional().nullable(),
-    // Sector status only allows Confirmed or Waiting List
-    status: z.enum(['Confirmed', 'Waiting List'] as [BookingStatus, ...BookingStatus[]], {
+    // Sectors are entered as Confirmed or Waiting List; Ticketed and Cancelled come from the booking status
+    status: z.enum(['Confirmed', 'Waiting List', 'Ticketed', 'Cancelled'] as [BookingStatus, ...BookingStatus[]], {
         required_error: "Sector status is required.",
     }),
     // Allow zero or negative passenger counts
@@ -43,14 +51,13 @@ export const bookingSectorFormSchema = z.object({
 export const bookingFormSchema = z.object({
     // Booking Details section
     customer_id: z.string().uuid({ message: "Please select a valid customer."}),
-    booking_type: z.enum(['One-Way', 'Return'] as [BookingType, ...BookingType[]], {
+    booking_type: z.enum(['One-Way', 'Return', 'Multi-City'] as [BookingType, ...BookingType[]], {
         required_error: "Booking type is required.",
     }),
     // Sectors section (array)
     sectors: z.array(bookingSectorFormSchema).min(1, { message: "At least one sector is required."}),
     // Booking Reference section
     booking_reference: z.string().min(1, { message: "Booking reference is required."}).max(50),
-    deadline: z.date().optional().nullable(),
 }).refine(data => {
     if (data.booking_type === 'One-Way') {
       return data.sectors.length === 1;
@@ -67,16 +74,39 @@ export const bookingFormSchema = z.object({
 }, {
     message: "Return bookings must have exactly two sectors.",
     path: ["sectors"],
+}).refine(data => {
+     if (data.booking_type === 'Multi-City') {
+      return data.sectors.length >= 2;
+    }
+    return true;
+}, {
+    message: "Multi-City bookings need at least two sectors.",
+    path: ["sectors"],
+}).superRefine((data, ctx) => {
+    // Sectors are saved in the order entered, so their dates must not go backwards
+    let previous: Date | null = null;
+    data.sectors.forEach((sector, index) => {
+      if (!sector.travel_date) return;
+      if (previous && sector.travel_date < previous) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Travel date is earlier than the previous sector's.",
+          path: ["sectors", index, "travel_date"],
+        });
+      }
+      previous = sector.travel_date;
+    });
 });
 
 // Schema specifically for the update action, including the main status field
 export const updateBookingActionSchema = z.object({
   booking_reference: z.string().min(1, "Booking reference is required"),
   customer_id: z.string().uuid("Please select a valid customer"),
-  status: z.enum(bookingStatuses, { // Allow setting any valid status on update
+  status: z.enum(bookingStatuses, { // Only Ticketed and Cancelled stick; other statuses are derived from the sectors
     required_error: "Booking status is required for update."
   }), 
-  deadline: z.date().optional().nullable(),
+  ticket_numbers: z.string().max(5000).optional().nullable(),
+  cancellation_reason: z.string().max(500, { message: "Reason cannot exceed 500 characters." }).optional().nullable(),
   // Note: We are not validating/processing sectors within the basic update action currently
 });
 
@@ -0,0 +1,45 @@
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { getCurrentUser } from '@/lib/supabase/current-user';
+import { diffSectorHolds } from '@/lib/seat-inventory';
+import type { SectorHold } from '@/lib/types/seat-inventory';
+
+// Seats each sector of a booking currently holds
+export async function getSectorHolds(bookingId: string): Promise<SectorHold[]> {
+  const supabase = createSimpleServerClient();
+  const { data, error } = await supabase
+    .from('booking_sectors')
+    .select('id, num_pax')
+    .eq('booking_id', bookingId);
+
+  if (error) {
+    console.error(`Error fetching sector holds for booking ${bookingId}:`, error);
+    return [];
+  }
+  return (data ?? []).map((sector) => ({ id: sector.id, num_pax: sector.num_pax ?? 0 }));
+}
+
+// Logs holds set through the booking form into the seat inventory timeline.
+// Best-effort, like the audit log: a failed insert never fails the user's save.
+export async function recordSectorHoldChanges(bookingId: string, before: SectorHold[]): Promise<void> {
+  const changes = diffSectorHolds(before, await getSectorHolds(bookingId));
+  if (changes.length === 0) return;
+
+  try {
+    const user = await getCurrentUser();
+    const supabase = createSimpleServerClient();
+    const { error } = await supabase.from('booking_sector_inventory_changes').insert(
+      changes.map((change) => ({
+        ...change,
+        booking_id: bookingId,
+        changed_by: user?.id ?? null,
+        changed_by_email: user?.email ?? null,
+      }))
+    );
+
+    if (error) {
+      console.error(`Supabase error recording seat inventory for booking ${bookingId}:`, error);
+    }
+  } catch (error) {
+    console.error(`Unexpected error recording seat inventory for booking ${bookingId}:`, error);
+  }
+}
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { diffSectorHolds, findUnderusedBlocks, formatUtilisation, summarizeSectorInventory, totalInventory } from './seat-inventory';
+import type { InventoryBlock, SectorInventory } from '@/lib/types/seat-inventory';
+
+const sector = (id: string, held: number, named: number, ticketed = 0, released = 0): SectorInventory => ({
+  id,
+  label: 'BKK-HND',
+  travel_date: '2025-05-01',
+  held,
+  named,
+  released,
+  ticketed,
+});
+
+const block = (booking_id: string, deadline: string | null, sectors: SectorInventory[]): InventoryBlock => ({
+  booking_id,
+  booking_reference: booking_id.toUpperCase(),
+  customer_name: 'Acme Travel',
+  deadline,
+  route: 'BKK-HND-BKK',
+  sectors,
+});
+
+function runSeatInventorySelfCheck() {
+  const named = summarizeSectorInventory(sector('s-1', 20, 12, 5, 4));
+  assert.equal(named.used, 12, 'named seats count as used even before ticketing');
+  assert.equal(named.unused, 8);
+  assert.equal(named.utilisation, 0.6);
+
+  assert.equal(summarizeSectorInventory(sector('s-2', 10, 2, 6)).used, 6, 'tickets without names still count');
+  assert.equal(summarizeSectorInventory(sector('s-3', 4, 6)).unused, 0, 'more names than seats is not negative inventory');
+  assert.equal(summarizeSectorInventory(sector('s-4', 0, 0, 0, 10)).utilisation, null, 'fully released sector');
+
+  const totals = totalInventory([sector('s-1', 20, 12, 0, 4), sector('s-2', 20, 20)]);
+  assert.deepEqual(totals, { held: 40, named: 32, released: 4, ticketed: 0, used: 32, unused: 8, utilisation: 0.8 });
+  assert.equal(formatUtilisation(totals.utilisation), '80%');
+  assert.equal(formatUtilisation(null), '-');
+
+  assert.deepEqual(
+    diffSectorHolds(
+      [{ id: 's-1', num_pax: 20 }, { id: 's-2', num_pax: 15 }, { id: 's-3', num_pax: 5 }],
+      [{ id: 's-1', num_pax: 20 }, { id: 's-2', num_pax: 12 }, { id: 's-4', num_pax: 8 }]
+    ),
+    [
+      { booking_sector_id: 's-2', change_type: 'adjusted', seats: -3, seats_held_after: 12 },
+      { booking_sector_id: 's-4', change_type: 'held', seats: 8, seats_held_after: 8 },
+    ],
+    'unchanged and deleted sectors are not logged'
+  );
+
+  const report = findUnderusedBlocks(
+    [
+      block('far', '2025-05-30', [sector('s-1', 20, 0)]),
+      block('past', '2025-04-09', [sector('s-2', 20, 0)]),
+      block('full', '2025-04-12', [sector('s-3', 20, 18)]),
+      block('soon-small', '2025-04-15', [sector('s-4', 10, 5)]),
+      block('soon-big', '2025-04-15', [sector('s-5', 30, 3)]),
+      block('today', '2025-04-10', [sector('s-6', 10, 0)]),
+      block('no-deadline', null, [sector('s-7', 10, 0)]),
+    ],
+    '2025-04-10',
+    { withinDays: 14, maxUtilisation: 0.8 }
+  );
+  assert.deepEqual(
+    report.map((row) => [row.booking_id, row.days_to_deadline, row.unused]),
+    [['today', 0, 10], ['soon-big', 5, 27], ['soon-small', 5, 5]],
+    'outside the window, past deadlines and well-used blocks are left out'
+  );
+}
+
+runSeatInventorySelfCheck();
@@ -0,0 +1,116 @@
+import type {
+  InventoryBlock,
+  InventoryTotals,
+  SectorHold,
+  SectorHoldChange,
+  SectorInventory,
+  SectorInventorySummary,
+  UnderusedBlock,
+} from '@/lib/types/seat-inventory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UnderusedBlockOptions {
+  withinDays: number; // deadlines from today up to this many days ahead
+  maxUtilisation: number; // 0..1; blocks using more than this are left out
+}
+
+export const DEFAULT_UNDERUSED_BLOCK_OPTIONS: UnderusedBlockOptions = { withinDays: 14, maxUtilisation: 0.8 };
+
+function daysBetween(fromKey: string, toKey: string): number {
+  const [fromYear, fromMonth, fromDay] = fromKey.split('-').map(Number);
+  const [toYear, toMonth, toDay] = toKey.split('-').map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / DAY_MS);
+}
+
+// A held seat is used once it has a name on the manifest or a ticket, whichever is further along
+function toTotals(held: number, named: number, released: number, ticketed: number): InventoryTotals {
+  const used = Math.min(Math.max(named, ticketed), held);
+  return {
+    held,
+    named,
+    released,
+    ticketed,
+    used,
+    unused: held - used,
+    utilisation: held > 0 ? used / held : null,
+  };
+}
+
+export function summarizeSectorInventory(sector: SectorInventory): SectorInventorySummary {
+  return { ...sector, ...toTotals(sector.held, sector.named, sector.released, sector.ticketed) };
+}
+
+// Seat counts summed over every sector of a block
+export function totalInventory(sectors: SectorInventory[]): InventoryTotals {
+  const summaries = sectors.map(summarizeSectorInventory);
+  const sum = (key: 'held' | 'named' | 'released' | 'ticketed' | 'used') =>
+    summaries.reduce((total, sector) => total + sector[key], 0);
+  const held = sum('held');
+  const used = sum('used');
+  return {
+    held,
+    named: sum('named'),
+    released: sum('released'),
+    ticketed: sum('ticketed'),
+    used,
+    unused: held - used,
+    utilisation: held > 0 ? used / held : null,
+  };
+}
+
+export function formatUtilisation(utilisation: number | null): string {
+  return utilisation === null ? '-' : `${Math.round(utilisation * 100)}%`;
+}
+
+// Inventory log entries for a booking form save: new sectors start a hold, changed num_pax adjusts it.
+// Deleted sectors take their history with them, so they produce nothing.
+export function diffSectorHolds(before: SectorHold[], after: SectorHold[]): SectorHoldChange[] {
+  const previous = new Map(before.map((sector) => [sector.id, sector.num_pax]));
+  return after.flatMap((sector): SectorHoldChange[] => {
+    const held = previous.get(sector.id);
+    if (held === undefined) {
+      return [{ booking_sector_id: sector.id, change_type: 'held', seats: sector.num_pax, seats_held_after: sector.num_pax }];
+    }
+    if (held === sector.num_pax) return [];
+    return [
+      {
+        booking_sector_id: sector.id,
+        change_type: 'adjusted',
+        seats: sector.num_pax - held,
+        seats_held_after: sector.num_pax,
+      },
+    ];
+  });
+}
+
+// Blocks whose deadline falls within the window and that still hold seats nobody is using,
+// soonest deadline first, then the most unused seats
+export function findUnderusedBlocks(
+  blocks: InventoryBlock[],
+  today: string,
+  options: UnderusedBlockOptions = DEFAULT_UNDERUSED_BLOCK_OPTIONS
+): UnderusedBlock[] {
+  return blocks
+    .flatMap((block): UnderusedBlock[] => {
+      if (!block.deadline) return [];
+      const daysToDeadline = daysBetween(today, block.deadline.slice(0, 10));
+      if (daysToDeadline < 0 || daysToDeadline > options.withinDays) return [];
+
+      const totals = totalInventory(block.sectors);
+      if (totals.unused === 0 || (totals.utilisation ?? 0) > options.maxUtilisation) return [];
+
+      return [
+        {
+          booking_id: block.booking_id,
+          booking_reference: block.booking_reference,
+          customer_name: block.customer_name,
+          deadline: block.deadline,
+          route: block.route,
+          ...totals,
+          days_to_deadline: daysToDeadline,
+        },
+      ];
+    })
+    .sort((a, b) => a.days_to_deadline - b.days_to_deadline || b.unused - a.unused);
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Actions that must stay callable without a session
+const PUBLIC_ACTIONS = new Set(['signOut']);
+
+function collectServerActionModules(dir: string): string[] {
+  const modules: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      modules.push(...collectServerActionModules(fullPath));
+    } else if (/\.tsx?$/.test(entry.name) && !entry.name.includes('.test.')) {
+      const source = fs.readFileSync(fullPath, 'utf8');
+      if (/^['"]use server['"];?/.test(source.trimStart())) modules.push(fullPath);
+    }
+  }
+  return modules;
+}
+
+// Source of each exported action, up to the next export
+function collectExportedActions(source: string): { name: string; head: string }[] {
+  const actions: { name: string; head: string }[] = [];
+  const pattern = /^export async function (\w+)/gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const next = source.indexOf('\nexport ', match.index + 1);
+    actions.push({ name: match[1], head: source.slice(match.index, next === -1 ? undefined : next) });
+  }
+  return actions;
+}
+
+function runServerActionGuardSelfCheck() {
+  const modules = collectServerActionModules(path.join(__dirname, '..'));
+  assert.ok(modules.length > 0, 'should find server action modules');
+
+  for (const modulePath of modules) {
+    const source = fs.readFileSync(modulePath, 'utf8');
+    const relativePath = path.relative(process.cwd(), modulePath);
+
+    for (const action of collectExportedActions(source)) {
+      if (PUBLIC_ACTIONS.has(action.name)) continue;
+
+      // The guard must be the first statement of the body, before any try/catch
+      const guard = /(?:const \w+ = )?await requireUser\(\);/.exec(action.head);
+      const beforeGuard = guard ? action.head.slice(0, guard.index).replace(/\/\/[^\n]*/g, '') : '';
+      assert.ok(
+        guard !== null && !/\b(try|if|const|let|return|await)\b/.test(beforeGuard),
+        `${relativePath}: ${action.name} must call requireUser() first`
+      );
+    }
+  }
+}
+
+runServerActionGuardSelfCheck();
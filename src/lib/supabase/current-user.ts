@@ -0,0 +1,79 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import type { User } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { LOGIN_ROUTE } from '@/lib/route-policy';
+import { hasPermission, UserRoleEnum, type Permission, type UserProfile } from '@/lib/types/profiles';
+
+// Resolve the signed-in Supabase user from the request cookies.
+// Kept apart from server.ts because next/headers cannot be bundled into client components.
+export async function getCurrentUser(): Promise<User | null> {
+  try {
+    const cookieStore = await cookies();
+    const supabase = createClient(cookieStore);
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (error) return null;
+    return user;
+  } catch (error) {
+    console.error('Error resolving current user:', error);
+    return null;
+  }
+}
+
+// Guard for server actions: every exported action in a 'use server' module calls this
+// first, outside any try/catch so the redirect is not swallowed. Server actions are
+// public endpoints and the middleware does not run for them on every code path,
+// so actions must not rely on page-level protection.
+export async function requireUser(): Promise<User> {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(LOGIN_ROUTE);
+  }
+  return user;
+}
+
+// The signed-in user's profile; users without a profile row are treated as agents.
+// Read with the user's own session, as row level security only exposes their row.
+export async function getCurrentProfile(): Promise<UserProfile | null> {
+  const user = await getCurrentUser();
+  if (!user) return null;
+
+  const supabase = createClient(await cookies());
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, role')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Supabase error fetching profile for ${user.id}:`, error);
+  }
+
+  const role = UserRoleEnum.safeParse(data?.role);
+  return {
+    id: user.id,
+    email: data?.email ?? user.email ?? null,
+    full_name: data?.full_name ?? null,
+    role: role.success ? role.data : 'agent',
+  };
+}
+
+export type PermissionCheck =
+  | { allowed: true; profile: UserProfile }
+  | { allowed: false; message: string };
+
+// Server-side role check for a guarded action. The message is phrased as an error
+// so the existing table-action components display it in red.
+export async function checkPermission(permission: Permission): Promise<PermissionCheck> {
+  const profile = await getCurrentProfile();
+  if (!profile) {
+    return { allowed: false, message: 'Permission Error: You must be signed in to do this.' };
+  }
+  if (!hasPermission(profile.role, permission)) {
+    return {
+      allowed: false,
+      message: `Permission Error: Your role (${profile.role}) is not allowed to perform this action.`,
+    };
+  }
+  return { allowed: true, profile };
+}
@@ -0,0 +1,34 @@
+import { createSimpleServerClient } from '@/lib/supabase/server';
+import { getCurrentUser } from '@/lib/supabase/current-user';
+import type { TourPackageStatus } from '@/lib/types/tours';
+import type { TourStatusDecision } from '@/lib/types/tour-status';
+
+// Logs a status change attempt, allowed or refused, with the reason code of the decision.
+// Best-effort, like the audit log: a failed insert never changes the outcome of the save.
+export async function recordTourStatusAttempt(
+  bookingId: string,
+  from: TourPackageStatus | null,
+  to: TourPackageStatus,
+  decision: TourStatusDecision
+): Promise<void> {
+  try {
+    const user = await getCurrentUser();
+    const supabase = createSimpleServerClient();
+    const { error } = await supabase.from('tour_booking_status_transitions').insert({
+      tour_package_booking_id: bookingId,
+      from_status: from,
+      to_status: to,
+      allowed: decision.allowed,
+      reason_code: decision.reason,
+      reason_message: decision.message,
+      actor_id: user?.id ?? null,
+      actor_email: user?.email ?? null,
+    });
+
+    if (error) {
+      console.error(`Supabase error recording status change for tour booking ${bookingId}:`, error);
+    }
+  } catch (error) {
+    console.error(`Unexpected error recording status change for tour booking ${bookingId}:`, error);
+  }
+}
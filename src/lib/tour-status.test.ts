@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { checkTourStatusTransition, selectableTourStatuses, type TourStatusGuardInput } from './tour-status';
+
+const guard = (overrides: Partial<TourStatusGuardInput> = {}): TourStatusGuardInput => ({
+  grandTotal: 10000,
+  currency: 'THB',
+  verifiedPaidToDate: 0,
+  travelEndDate: '2026-05-10T12:00:00.000Z',
+  today: '2026-05-20',
+  ...overrides,
+});
+
+function runTourStatusSelfCheck() {
+  assert.deepEqual(selectableTourStatuses(null), ['Open', 'Negotiating']);
+  assert.deepEqual(selectableTourStatuses('Paid (1st installment)'), ['Paid (1st installment)', 'Paid (Full Payment)', 'Closed']);
+  assert.deepEqual(selectableTourStatuses('Closed'), ['Closed']);
+
+  assert.equal(checkTourStatusTransition(null, 'Negotiating', guard()).reason, 'allowed');
+  assert.equal(checkTourStatusTransition(null, 'Paid (Full Payment)', guard()).reason, 'not_initial_status');
+  assert.equal(checkTourStatusTransition('Closed', 'Closed', guard()).allowed, true, 'keeping the status is always allowed');
+
+  const reopened = checkTourStatusTransition('Closed', 'Paid (Full Payment)', guard({ verifiedPaidToDate: 10000 }));
+  assert.equal(reopened.reason, 'transition_not_allowed');
+  assert.equal(reopened.message, 'A Closed booking cannot change status.');
+  assert.equal(checkTourStatusTransition('Paid (1st installment)', 'Open', guard()).reason, 'transition_not_allowed');
+  assert.equal(checkTourStatusTransition('Open', 'Complete', guard({ verifiedPaidToDate: 10000 })).reason, 'transition_not_allowed');
+
+  // Full payment is judged on verified payments, within the reconciliation tolerance
+  assert.equal(checkTourStatusTransition('Paid (1st installment)', 'Paid (Full Payment)', guard({ verifiedPaidToDate: 3000 })).reason, 'insufficient_verified_payments');
+  assert.equal(checkTourStatusTransition('Paid (1st installment)', 'Paid (Full Payment)', guard({ verifiedPaidToDate: 9999.5 })).allowed, true);
+  assert.equal(checkTourStatusTransition('Open', 'Paid (Full Payment)', guard({ grandTotal: null, verifiedPaidToDate: 500 })).reason, 'missing_grand_total');
+  assert.equal(checkTourStatusTransition('Open', 'Paid (1st installment)', guard()).allowed, true);
+
+  // Complete needs the payments to still cover the total and travel to be over
+  const paid = { verifiedPaidToDate: 10000 };
+  assert.equal(checkTourStatusTransition('Paid (Full Payment)', 'Complete', guard(paid)).allowed, true);
+  assert.equal(checkTourStatusTransition('Paid (Full Payment)', 'Complete', guard()).reason, 'insufficient_verified_payments');
+  assert.equal(checkTourStatusTransition('Paid (Full Payment)', 'Complete', guard({ ...paid, travelEndDate: null })).reason, 'missing_travel_end_date');
+  assert.equal(
+    checkTourStatusTransition('Paid (Full Payment)', 'Complete', guard({ ...paid, travelEndDate: '2026-05-20' })).reason,
+    'travel_not_finished',
+    'travel ending today has not passed yet'
+  );
+
+  assert.equal(checkTourStatusTransition('Paid (Full Payment)', 'Closed', guard()).allowed, true);
+}
+
+runTourStatusSelfCheck();
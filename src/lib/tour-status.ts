@@ -0,0 +1,96 @@
+import type { TourPackageStatus } from '@/lib/types/tours';
+import type { CurrencyCode } from '@/lib/types/currency';
+import type { TourStatusDecision, TourStatusReasonCode } from '@/lib/types/tour-status';
+import { RECONCILIATION_TOLERANCE } from '@/lib/reconciliation';
+import { formatCurrency } from '@/lib/utils/formatting';
+
+// New bookings have no verified payments yet, so they start before any payment status
+export const INITIAL_TOUR_STATUSES: TourPackageStatus[] = ['Open', 'Negotiating'];
+
+// Statuses each status may move to. Complete and Closed (cancelled) are terminal.
+export const TOUR_STATUS_TRANSITIONS: Record<TourPackageStatus, TourPackageStatus[]> = {
+  'Open': ['Negotiating', 'Paid (1st installment)', 'Paid (Full Payment)', 'Closed'],
+  'Negotiating': ['Open', 'Paid (1st installment)', 'Paid (Full Payment)', 'Closed'],
+  'Paid (1st installment)': ['Paid (Full Payment)', 'Closed'],
+  'Paid (Full Payment)': ['Complete', 'Closed'],
+  'Complete': [],
+  'Closed': [],
+};
+
+// Statuses that claim the booking is paid in full, so need verified payments to back them
+const FULL_PAYMENT_STATUSES: TourPackageStatus[] = ['Paid (Full Payment)', 'Complete'];
+
+export interface TourStatusGuardInput {
+  grandTotal: number | null;
+  currency: CurrencyCode;
+  // Verified slip amounts, converted into the booking's currency
+  verifiedPaidToDate: number;
+  travelEndDate: string | null; // yyyy-MM-dd or ISO timestamp
+  today: string; // yyyy-MM-dd
+}
+
+const toDateKey = (value: string | null | undefined): string | null =>
+  value ? value.slice(0, 10) : null;
+
+const decision = (reason: TourStatusReasonCode, message: string): TourStatusDecision => ({
+  allowed: reason === 'allowed',
+  reason,
+  message,
+});
+
+// Statuses offered in the form: the current one plus its legal next steps
+export function selectableTourStatuses(current: TourPackageStatus | null): TourPackageStatus[] {
+  if (!current) return INITIAL_TOUR_STATUSES;
+  return [current, ...TOUR_STATUS_TRANSITIONS[current]];
+}
+
+// Decide whether a booking may move from one status to another.
+// `from` is null for a new booking. Keeping the current status is always allowed.
+export function checkTourStatusTransition(
+  from: TourPackageStatus | null,
+  to: TourPackageStatus,
+  guard: TourStatusGuardInput
+): TourStatusDecision {
+  if (from === to) return decision('allowed', `Status stays ${to}.`);
+
+  if (from === null) {
+    if (!INITIAL_TOUR_STATUSES.includes(to)) {
+      return decision('not_initial_status', `New bookings must start as ${INITIAL_TOUR_STATUSES.join(' or ')}, not ${to}.`);
+    }
+    return decision('allowed', `Created as ${to}.`);
+  }
+
+  if (!TOUR_STATUS_TRANSITIONS[from].includes(to)) {
+    const next = TOUR_STATUS_TRANSITIONS[from];
+    return decision(
+      'transition_not_allowed',
+      next.length > 0
+        ? `A ${from} booking can only move to ${next.join(', ')}, not ${to}.`
+        : `A ${from} booking cannot change status.`
+    );
+  }
+
+  if (FULL_PAYMENT_STATUSES.includes(to)) {
+    if (!guard.grandTotal || guard.grandTotal <= 0) {
+      return decision('missing_grand_total', `${to} needs a grand total to compare verified payments against.`);
+    }
+    if (guard.verifiedPaidToDate < guard.grandTotal - RECONCILIATION_TOLERANCE) {
+      return decision(
+        'insufficient_verified_payments',
+        `${to} needs verified payments of ${formatCurrency(guard.grandTotal, guard.currency)}; only ${formatCurrency(guard.verifiedPaidToDate, guard.currency)} is verified.`
+      );
+    }
+  }
+
+  if (to === 'Complete') {
+    const travelEnd = toDateKey(guard.travelEndDate);
+    if (!travelEnd) {
+      return decision('missing_travel_end_date', 'Complete needs a travel end date.');
+    }
+    if (travelEnd >= guard.today) {
+      return decision('travel_not_finished', `Complete is only available after travel ends on ${travelEnd}.`);
+    }
+  }
+
+  return decision('allowed', `Moved from ${from} to ${to}.`);
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+export const AuditEntityTypeEnum = z.enum(['booking', 'tour_package_booking']);
+export type AuditEntityType = z.infer<typeof AuditEntityTypeEnum>;
+
+export const AuditActionEnum = z.enum(['created', 'updated', 'deleted']);
+export type AuditAction = z.infer<typeof AuditActionEnum>;
+
+export type AuditValue = string | number | boolean | null | AuditValue[] | { [key: string]: AuditValue };
+
+export interface AuditFieldChange {
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  changes: AuditFieldChange[];
+  actor_id: string | null;
+  actor_email: string | null;
+  created_at: string;
+}
+
+// Fields recorded for each entity, with the label shown in the History tab
+export const AUDITED_FIELDS: Record<AuditEntityType, Record<string, string>> = {
+  booking: {
+    status: 'Status',
+    deadline: 'Deadline',
+    booking_reference: 'Booking reference',
+    customer_id: 'Customer',
+    booking_type: 'Booking type',
+    num_pax: 'Passengers',
+    ticket_numbers: 'Ticket numbers',
+    cancellation_reason: 'Cancellation reason',
+  },
+  tour_package_booking: {
+    status: 'Status',
+    customer_name: 'Customer',
+    customer_id: 'Customer record',
+    tour_product_id: 'Tour package',
+    base_price_per_pax: 'Base price per PAX',
+    pax: 'PAX',
+    addons: 'Add-ons',
+    grand_total: 'Grand total',
+    currency: 'Currency',
+    booking_date: 'Booking date',
+    travel_start_date: 'Travel start',
+    travel_end_date: 'Travel end',
+    notes: 'Notes',
+  },
+};
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import type { Customer } from '@/types/database';
+import type { CurrencyCode } from '@/lib/types/currency';
+
+export const BookingDocumentTypeEnum = z.enum(['invoice', 'receipt']);
+export type BookingDocumentType = z.infer<typeof BookingDocumentTypeEnum>;
+
+// One row of booking_documents; storage_path is null until the PDF has been uploaded
+export interface BookingDocument {
+  id: string;
+  doc_type: BookingDocumentType;
+  document_number: string;
+  tour_package_booking_id: string;
+  payment_id: string | null;
+  amount: number;
+  currency: CurrencyCode;
+  storage_path: string | null;
+  issued_by_email: string | null;
+  issued_at: string;
+}
+
+export interface DocumentLine {
+  description: string;
+  quantity: number | null;
+  unit_price: number | null;
+  amount: number;
+}
+
+export interface DocumentPaymentLine {
+  date: string | null; // yyyy-MM-dd
+  description: string;
+  amount: number;
+}
+
+// Everything printed on an invoice or receipt, already in the booking's currency
+export interface BookingDocumentContent {
+  doc_type: BookingDocumentType;
+  title: string;
+  document_number: string;
+  issued_on: string; // yyyy-MM-dd
+  currency: CurrencyCode;
+  booking_id: string;
+  customer_name: string;
+  customer_tax_id: string | null;
+  customer_address: string | null;
+  package_name: string | null;
+  travel_start_date: string | null;
+  travel_end_date: string | null;
+  pax: number;
+  lines: DocumentLine[];
+  total: number;
+  payments: DocumentPaymentLine[];
+  paid_to_date: number;
+  balance_due: number;
+  payment_due_on: string | null; // invoices with a balance, from the customer's payment terms
+  notes: string[];
+}
+
+// Customer master data printed on documents; null for bookings not linked to a customer
+export type DocumentCustomerDetails = Pick<Customer, 'tax_id' | 'billing_address' | 'payment_terms_days'> | null;
+
+export const BOOKING_DOCUMENT_LABELS: Record<BookingDocumentType, string> = {
+  invoice: 'Invoice',
+  receipt: 'Receipt',
+};
+
+export const BOOKING_DOCUMENTS_BUCKET = 'booking-documents';
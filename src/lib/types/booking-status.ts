@@ -0,0 +1,27 @@
+import type { BookingStatus } from '@/types/database';
+
+// Booking statuses that are set on the booking and pushed down to its sectors,
+// each needing something captured at the moment of the change
+export const CAPTURED_BOOKING_STATUSES = ['Ticketed', 'Cancelled'] as const satisfies readonly BookingStatus[];
+export type CapturedBookingStatus = (typeof CAPTURED_BOOKING_STATUSES)[number];
+
+// Form fields the lifecycle check can reject
+export type BookingStatusField = 'status' | 'ticket_numbers' | 'cancellation_reason';
+
+// The booking's saved status disagrees with the status its sectors imply
+export interface BookingStatusContradiction {
+  status: BookingStatus;
+  expected: BookingStatus;
+  message: string;
+}
+
+export type BookingStatusResolution =
+  | {
+      ok: true;
+      status: BookingStatus;
+      // Sector statuses after the change, in the order given
+      sectorStatuses: BookingStatus[];
+      // Set when the booking has just moved into a captured status
+      captured: CapturedBookingStatus | null;
+    }
+  | { ok: false; field: BookingStatusField; message: string };
@@ -10,7 +10,8 @@ export type CallReportStatus = z.infer<typeof CallReportStatusEnum>;
 
 export const CallReportSchema = z.object({
   customer_id: z.string().uuid({ message: 'Please select a customer.' }),
-  contact_person: z.string().max(255).optional().nullable(),
+  contact_id: z.string().uuid().optional().nullable(),
+  contact_person: z.string().max(255).optional().nullable(), // printed name; taken from the contact when one is picked
   report_date: z.coerce.date({ required_error: 'Report date is required.' }),
   topic: z.string().min(1, { message: 'Topic is required.' }),
   summary: z.string().optional().nullable(),
@@ -25,6 +26,7 @@ export type CallReportFormData = z.infer<typeof CallReportSchema>;
 export interface CallReportWithCustomer {
   id: string;
   customer_id: string;
+  contact_id: string | null;
   contact_person: string | null;
   report_date: string;
   topic: string;
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+export const CurrencyCodeEnum = z.enum(['THB', 'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'SGD', 'AUD']);
+export type CurrencyCode = z.infer<typeof CurrencyCodeEnum>;
+
+// Reports, dashboards and exchange rates are all expressed in this currency
+export const BASE_CURRENCY: CurrencyCode = 'THB';
+
+export const ExchangeRateSourceEnum = z.enum(['manual', 'csv']);
+export type ExchangeRateSource = z.infer<typeof ExchangeRateSourceEnum>;
+
+// One row of exchange_rates: 1 unit of `currency` is worth `rate` units of BASE_CURRENCY from `rate_date` on
+export interface ExchangeRate {
+  id: string;
+  currency: CurrencyCode;
+  rate_date: string; // yyyy-MM-dd
+  rate: number;
+  source: ExchangeRateSource;
+  created_by_email?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ExchangeRateInput = Pick<ExchangeRate, 'currency' | 'rate_date' | 'rate'>;
+
+export const ExchangeRateFormSchema = z.object({
+  currency: CurrencyCodeEnum,
+  rate_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format.' }),
+  rate: z.coerce.number().positive({ message: 'Rate must be a positive number.' }),
+}).refine((data) => data.currency !== BASE_CURRENCY, {
+  message: `Rates are stored against ${BASE_CURRENCY}; pick another currency.`,
+  path: ['currency'],
+});
+
+export const CURRENCY_LABELS: Record<CurrencyCode, string> = {
+  THB: 'Thai Baht',
+  USD: 'US Dollar',
+  EUR: 'Euro',
+  GBP: 'British Pound',
+  JPY: 'Japanese Yen',
+  CNY: 'Chinese Yuan',
+  SGD: 'Singapore Dollar',
+  AUD: 'Australian Dollar',
+};
@@ -0,0 +1,35 @@
+import type { CustomerSelectItem } from '@/lib/types/call-reports';
+import type { TourPackageStatus } from '@/lib/types/tours';
+
+export interface CustomerMatchSuggestion {
+  customer: CustomerSelectItem;
+  score: number; // 0..1 name similarity
+}
+
+export interface CustomerNameMatch {
+  suggestions: CustomerMatchSuggestion[]; // best first
+  // Set when the best suggestion is close enough, and clear enough of the runner-up, to link unattended
+  confident: CustomerSelectItem | null;
+}
+
+// A tour booking still waiting for customer_id, with suggested customers for review
+export interface UnlinkedTourBooking extends CustomerNameMatch {
+  id: string;
+  customer_name: string;
+  package_name: string | null;
+  status: TourPackageStatus;
+  booking_date: string | null;
+}
+
+export interface DuplicateCustomerPair<T extends CustomerSelectItem = CustomerSelectItem> {
+  customers: [T, T];
+  score: number; // 0..1 name similarity
+}
+
+// A customer in the duplicate review, with what a merge would move
+export interface DuplicateCustomerCandidate extends CustomerSelectItem {
+  created_at: string;
+  booking_count: number;
+  tour_booking_count: number;
+  call_report_count: number;
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import type { BookingStatus, BookingType, Customer } from '@/types/database';
+import type { CallReportUpdate, CallReportWithCustomer } from '@/lib/types/call-reports';
+import type { BookingReconciliation } from '@/lib/types/reconciliation';
+import type { TaskStatus } from '@/lib/types/tasks';
+
+export const CustomerContactSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Contact name is required.' }).max(255),
+  role: z.string().trim().max(100).optional().nullable(),
+  email: z.string().trim().email({ message: 'Enter a valid email address.' }).optional().nullable(),
+  phone: z.string().trim().max(50).optional().nullable(),
+  is_primary: z.boolean(),
+});
+
+export type CustomerContactFormData = z.infer<typeof CustomerContactSchema>;
+
+export interface CustomerContact extends CustomerContactFormData {
+  id: string;
+  customer_id: string;
+  role: string | null;
+  email: string | null;
+  phone: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Outstanding tour balances measured against the customer's credit limit, in BASE_CURRENCY
+export interface CustomerCreditStatus {
+  credit_limit: number | null; // null means no limit
+  outstanding: number;
+  unconvertedBookings: number; // balances left out of outstanding for lack of a rate
+  available: number | null; // negative when over the limit
+  over_limit: boolean;
+}
+
+export interface CustomerAirlineSector {
+  id: string;
+  status: BookingStatus;
+  travel_date: string | null;
+  flight_number: string | null;
+  num_pax: number;
+  origin_code: string | null;
+  destination_code: string | null;
+}
+
+export interface CustomerAirlineBooking {
+  id: string;
+  booking_reference: string;
+  booking_type: BookingType;
+  status: BookingStatus;
+  num_pax: number;
+  deadline: string | null;
+  created_at: string;
+  sectors: CustomerAirlineSector[];
+}
+
+export interface CustomerCallReport extends CallReportWithCustomer {
+  updates: CallReportUpdate[]; // newest first
+}
+
+export interface CustomerOpenTask {
+  id: number;
+  description: string;
+  due_date: string | null;
+  status: TaskStatus;
+  linked_tour_booking_id: string | null;
+}
+
+export interface CustomerSummary {
+  lifetimeRevenue: number; // BASE_CURRENCY total of tour bookings that were not closed
+  unconvertedBookings: number; // tour bookings left out of lifetimeRevenue for lack of a rate
+  bookingCount: number; // airline and tour bookings
+  cancelledCount: number;
+  cancellationRate: number | null; // percentage; null when the customer has no bookings
+  lastContactDate: string | null; // latest call report date
+}
+
+// Everything known about one customer, for /customers/[id]
+export interface Customer360 {
+  customer: Customer;
+  summary: CustomerSummary;
+  credit: CustomerCreditStatus;
+  contacts: CustomerContact[]; // primary first
+  airlineBookings: CustomerAirlineBooking[];
+  tourBookings: BookingReconciliation[];
+  callReports: CustomerCallReport[];
+  openTasks: CustomerOpenTask[];
+}
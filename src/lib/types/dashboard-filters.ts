@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+export const DateRangePresetEnum = z.enum([
+  'all_time',
+  'today',
+  'last_7_days',
+  'last_30_days',
+  'this_month',
+  'last_month',
+  'this_year',
+  'custom',
+]);
+export type DateRangePreset = z.infer<typeof DateRangePresetEnum>;
+
+export const DEFAULT_DATE_RANGE_PRESET: DateRangePreset = 'all_time';
+
+export const DATE_RANGE_PRESET_LABELS: Record<DateRangePreset, string> = {
+  all_time: 'All time',
+  today: 'Today',
+  last_7_days: 'Last 7 days',
+  last_30_days: 'Last 30 days',
+  this_month: 'This month',
+  last_month: 'Last month',
+  this_year: 'This year',
+  custom: 'Custom range',
+};
+
+// Filter context shared by the airline (/) and tour (/dashboard) dashboards.
+// Dates are yyyy-MM-dd business days (Asia/Bangkok), inclusive. Tour bookings are selected
+// by booking date and airline bookings by when they were created.
+export interface DashboardFilters {
+  preset: DateRangePreset;
+  from: string | null; // null when the range has no start (all time)
+  to: string | null;
+  customerId: string | null;
+  tourProductId: string | null; // tour dashboard only
+  status: string | null; // a booking status of the dashboard's own kind
+}
+
+export interface DashboardFilterOption {
+  id: string;
+  name: string;
+}
+
+// Query string keys, kept short so shared links stay readable
+export const DASHBOARD_FILTER_PARAMS = {
+  preset: 'range',
+  from: 'from',
+  to: 'to',
+  customerId: 'customer',
+  tourProductId: 'product',
+  status: 'status',
+} as const satisfies Record<keyof DashboardFilters, string>;
+
+// Everything, as the dashboards showed before filters existed
+export const EMPTY_DASHBOARD_FILTERS: DashboardFilters = {
+  preset: DEFAULT_DATE_RANGE_PRESET,
+  from: null,
+  to: null,
+  customerId: null,
+  tourProductId: null,
+  status: null,
+};
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+
+export const DEADLINE_TYPES = ['deposit', 'name_list', 'ticketing', 'full_payment'] as const;
+export const DeadlineTypeEnum = z.enum(DEADLINE_TYPES);
+export type DeadlineType = z.infer<typeof DeadlineTypeEnum>;
+
+export const DEADLINE_TYPE_LABELS: Record<DeadlineType, string> = {
+  deposit: 'Deposit',
+  name_list: 'Name List',
+  ticketing: 'Ticketing',
+  full_payment: 'Full Payment',
+};
+
+// What the airline does when the time limit passes
+export const DEADLINE_CONSEQUENCES: Record<DeadlineType, string> = {
+  deposit: 'Unpaid seats may be released back to the airline.',
+  name_list: 'Unnamed seats are cancelled; later name changes are charged.',
+  ticketing: 'Unticketed seats are cancelled and the fare may no longer be available.',
+  full_payment: 'The whole booking may be cancelled.',
+};
+
+export const DEADLINE_ANCHORS = ['after_booking', 'before_travel'] as const;
+export const DeadlineAnchorEnum = z.enum(DEADLINE_ANCHORS);
+export type DeadlineAnchor = z.infer<typeof DeadlineAnchorEnum>;
+
+export const DEADLINE_ANCHOR_LABELS: Record<DeadlineAnchor, string> = {
+  after_booking: 'days after booking',
+  before_travel: 'days before departure',
+};
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DeadlineRuleSchema = z.object({
+  airline_code: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9]{2}$/, { message: 'Use the 2 character airline code, e.g. TG.' })
+    .transform((v) => v.toUpperCase())
+    .optional()
+    .nullable(),
+  fare_class_id: z.string().uuid().optional().nullable(),
+  deadline_type: DeadlineTypeEnum,
+  anchor: DeadlineAnchorEnum,
+  days: z.coerce
+    .number({ invalid_type_error: 'Days must be a number.' })
+    .int({ message: 'Must be a whole number.' })
+    .min(0, { message: 'Days cannot be negative.' })
+    .max(365, { message: 'Maximum 365 days.' }),
+  description: z.string().trim().max(255).optional().nullable(),
+});
+
+export type DeadlineRuleFormInput = z.input<typeof DeadlineRuleSchema>;
+export type DeadlineRuleFormData = z.output<typeof DeadlineRuleSchema>;
+
+export interface DeadlineRule {
+  id: string;
+  airline_code: string | null; // null applies to every airline
+  fare_class_id: string | null; // null applies to every fare class
+  deadline_type: DeadlineType;
+  anchor: DeadlineAnchor;
+  days: number;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  fare_classes?: { name: string } | null;
+}
+
+export const BookingDeadlineSchema = z.object({
+  deadline_type: DeadlineTypeEnum,
+  due_date: z.string().regex(DATE_KEY, { message: 'Date must be in YYYY-MM-DD format.' }),
+  note: z.string().trim().max(255).optional().nullable(),
+});
+
+export type BookingDeadlineFormInput = z.input<typeof BookingDeadlineSchema>;
+export type BookingDeadlineFormData = z.output<typeof BookingDeadlineSchema>;
+
+export interface BookingDeadline {
+  id: string;
+  booking_id: string;
+  deadline_type: DeadlineType;
+  due_date: string; // yyyy-MM-dd
+  rule_id: string | null;
+  is_manual: boolean;
+  completed_at: string | null;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the rules are matched against
+export interface DeadlineRuleContext {
+  bookingDate: string; // yyyy-MM-dd
+  travelDate: string | null; // first departure
+  airlineCodes: string[];
+  fareClassIds: string[];
+}
+
+export interface GeneratedDeadline {
+  deadline_type: DeadlineType;
+  due_date: string;
+  rule_id: string;
+}
+
+// Open booking deadline due by a date, for the dashboard
+export interface DueBookingDeadline {
+  id: string;
+  booking_id: string;
+  booking_reference: string | null;
+  customer_name: string | null;
+  status: string | null;
+  deadline_type: DeadlineType;
+  due_date: string;
+  earliest_travel_date: string | null;
+  latest_travel_date: string | null;
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import type { CurrencyCode } from '@/lib/types/currency';
+
+export const InstallmentStatusEnum = z.enum(['upcoming', 'partial', 'paid', 'overdue']);
+export type InstallmentStatus = z.infer<typeof InstallmentStatusEnum>;
+
+// Stored schedule row (payment_installments)
+export interface PaymentInstallment {
+  id: string;
+  tour_package_booking_id: string;
+  sequence: number;
+  label: string;
+  due_date: string; // yyyy-MM-dd
+  amount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type InstallmentDraft = Pick<PaymentInstallment, 'sequence' | 'label' | 'due_date' | 'amount'>;
+
+// Schedule row with the verified payments that were matched to it
+export interface InstallmentWithMatch extends InstallmentDraft {
+  id?: string;
+  paid_amount: number;
+  outstanding: number;
+  status: InstallmentStatus;
+  payment_ids: string[];
+  paid_on: string | null; // date of the payment that settled the installment
+}
+
+// Unpaid installment that has fallen (or is about to fall) due, for the dashboard deadline list
+export interface DueInstallment {
+  id: string;
+  tour_package_booking_id: string;
+  customer_name: string | null;
+  package_name: string | null;
+  travel_start_date: string | null;
+  label: string;
+  due_date: string;
+  currency: CurrencyCode;
+  amount: number;
+  outstanding: number;
+  status: InstallmentStatus;
+}
+
+export const InstallmentScheduleFormSchema = z.object({
+  deposit_percent: z.coerce
+    .number()
+    .gt(0, { message: 'Deposit must be more than 0%.' })
+    .lt(100, { message: 'Deposit must be less than 100%.' }),
+  balance_due_days_before_travel: z.coerce
+    .number()
+    .int()
+    .min(0, { message: 'Days before travel cannot be negative.' }),
+  installment_count: z.coerce
+    .number()
+    .int()
+    .min(2, { message: 'A schedule needs at least a deposit and a balance.' })
+    .max(12, { message: 'A schedule can have at most 12 installments.' }),
+});
+
+export type InstallmentScheduleFormValues = z.infer<typeof InstallmentScheduleFormSchema>;
+
+export const DEFAULT_INSTALLMENT_SETTINGS: InstallmentScheduleFormValues = {
+  deposit_percent: 30,
+  balance_due_days_before_travel: 30,
+  installment_count: 2,
+};
+
+export const INSTALLMENT_STATUS_LABELS: Record<InstallmentStatus, string> = {
+  upcoming: 'Upcoming',
+  partial: 'Part paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+};
@@ -0,0 +1,16 @@
+export interface ItineraryLeg {
+  origin_code: string;
+  destination_code: string;
+}
+
+// An open jaw between two consecutive sectors
+export interface ItineraryGap {
+  sectorIndex: number; // index of the sector that departs from somewhere else
+  arrivedAt: string;
+  departsFrom: string;
+}
+
+export interface TravelDateRange {
+  earliest: string | null; // yyyy-MM-dd
+  latest: string | null;
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+// Values stored in kpi_snapshots, one row per metric per day. Amounts are in BASE_CURRENCY.
+export const KPI_METRICS = [
+  'total_revenue',
+  'revenue_open',
+  'revenue_negotiating',
+  'revenue_paid_first_installment',
+  'revenue_paid_full',
+  'revenue_complete',
+  'revenue_closed',
+  'pending_amount',
+  'active_bookings',
+  'tour_bookings',
+  'total_customers',
+  'completion_rate',
+  'tour_packages',
+] as const;
+export const KpiMetricEnum = z.enum(KPI_METRICS);
+export type KpiMetric = z.infer<typeof KpiMetricEnum>;
+
+export type KpiValues = Record<KpiMetric, number>;
+
+export const ComparisonPeriodEnum = z.enum(['previous_week', 'previous_month', 'same_month_last_year']);
+export type ComparisonPeriod = z.infer<typeof ComparisonPeriodEnum>;
+
+export const DEFAULT_COMPARISON_PERIOD: ComparisonPeriod = 'previous_month';
+
+export const COMPARISON_PERIOD_LABELS: Record<ComparisonPeriod, string> = {
+  previous_week: 'Previous week',
+  previous_month: 'Previous month',
+  same_month_last_year: 'Same month last year',
+};
+
+// Completes "+12% ..." next to a KPI
+export const COMPARISON_PERIOD_PHRASES: Record<ComparisonPeriod, string> = {
+  previous_week: 'from last week',
+  previous_month: 'from last month',
+  same_month_last_year: 'from same month last year',
+};
+
+export interface KpiSnapshotJobSummary {
+  snapshotDate: string;
+  metricsSaved: number;
+}
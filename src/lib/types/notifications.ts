@@ -0,0 +1,68 @@
+import { z } from 'zod';
+
+export const REMINDER_KINDS = ['booking_deadline', 'task', 'follow_up'] as const;
+export const ReminderKindEnum = z.enum(REMINDER_KINDS);
+export type ReminderKind = z.infer<typeof ReminderKindEnum>;
+
+export const REMINDER_KIND_LABELS: Record<ReminderKind, string> = {
+  booking_deadline: 'Booking deadline',
+  task: 'Task',
+  follow_up: 'Call report follow-up',
+};
+
+// 'due' is sent once the item enters the lead time, 'overdue' once more after it passes
+export type ReminderStage = 'due' | 'overdue';
+
+const leadDays = z.coerce
+  .number({ invalid_type_error: 'Lead time must be a number.' })
+  .int({ message: 'Must be a whole number.' })
+  .min(0, { message: 'Lead time cannot be negative.' })
+  .max(30, { message: 'Maximum 30 days.' });
+
+export const NotificationPreferencesSchema = z.object({
+  email_enabled: z.boolean(),
+  booking_deadline_lead_days: leadDays,
+  task_lead_days: leadDays,
+  follow_up_lead_days: leadDays,
+});
+
+export type NotificationPreferencesFormInput = z.input<typeof NotificationPreferencesSchema>;
+export type NotificationPreferences = z.output<typeof NotificationPreferencesSchema>;
+
+// Used for users who never saved their preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email_enabled: true,
+  booking_deadline_lead_days: 2,
+  task_lead_days: 1,
+  follow_up_lead_days: 1,
+};
+
+export const LEAD_DAYS_FIELD: Record<ReminderKind, keyof Omit<NotificationPreferences, 'email_enabled'>> = {
+  booking_deadline: 'booking_deadline_lead_days',
+  task: 'task_lead_days',
+  follow_up: 'follow_up_lead_days',
+};
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  kind: ReminderKind;
+  source_id: string;
+  due_date: string; // yyyy-MM-dd
+  title: string;
+  body: string | null;
+  link: string | null;
+  dedupe_key: string;
+  created_at: string;
+  read_at: string | null;
+  emailed_at: string | null;
+}
+
+// What the reminder job did in one run
+export interface ReminderJobSummary {
+  runDate: string;
+  recipients: number;
+  notificationsCreated: number;
+  digestsSent: number;
+  digestsFailed: number;
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+export const PASSENGER_TITLES = ['MR', 'MRS', 'MS', 'MISS', 'MSTR'] as const;
+export const PassengerTitleEnum = z.enum(PASSENGER_TITLES);
+export type PassengerTitle = z.infer<typeof PassengerTitleEnum>;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Names are kept in upper case, as they appear on the ticket and in the airline's PNR
+export const PassengerSchema = z.object({
+  title: PassengerTitleEnum.optional().nullable(),
+  first_name: z.string().trim().min(1, { message: 'First name is required.' }).max(60).transform((v) => v.toUpperCase()),
+  last_name: z.string().trim().min(1, { message: 'Last name is required.' }).max(60).transform((v) => v.toUpperCase()),
+  passport_number: z.string().trim().max(20).transform((v) => v.toUpperCase()).optional().nullable(),
+  passport_expiry: z.string().regex(DATE_KEY, { message: 'Date must be in YYYY-MM-DD format.' }).optional().nullable(),
+  date_of_birth: z.string().regex(DATE_KEY, { message: 'Date must be in YYYY-MM-DD format.' }).optional().nullable(),
+  nationality: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{2,3}$/, { message: 'Use the 2 or 3 letter country code.' })
+    .transform((v) => v.toUpperCase())
+    .optional()
+    .nullable(),
+  sector_ids: z.array(z.string().uuid()),
+});
+
+export type PassengerFormInput = z.input<typeof PassengerSchema>;
+export type PassengerFormData = z.output<typeof PassengerSchema>;
+
+export interface BookingPassenger {
+  id: string;
+  booking_id: string;
+  title: PassengerTitle | null;
+  first_name: string;
+  last_name: string;
+  passport_number: string | null;
+  passport_expiry: string | null; // yyyy-MM-dd
+  date_of_birth: string | null; // yyyy-MM-dd
+  nationality: string | null;
+  sector_ids: string[]; // booking_sectors this passenger travels on
+  created_at: string;
+  updated_at: string;
+}
+
+export type PassengerName = Pick<BookingPassenger, 'title' | 'first_name' | 'last_name'>;
+
+// Recorded whenever a passenger's name is edited; airlines charge for changes made after the deadline
+export interface PassengerNameChange {
+  id: string;
+  passenger_id: string;
+  booking_id: string;
+  previous_name: string; // LAST/FIRST TITLE
+  new_name: string;
+  after_deadline: boolean;
+  changed_by_email: string | null;
+  changed_at: string;
+}
+
+// A booking sector as the manifest refers to it
+export interface ManifestSector {
+  id: string;
+  label: string; // e.g. BKK-HND
+  num_pax: number;
+}
+
+export interface ManifestSectorCount extends ManifestSector {
+  assigned: number;
+}
+
+export interface BookingManifest {
+  passengers: BookingPassenger[];
+  sectors: ManifestSector[];
+  nameChanges: PassengerNameChange[];
+  deadline: string | null;
+}
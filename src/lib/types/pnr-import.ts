@@ -0,0 +1,25 @@
+import type { BookingStatus, BookingType } from '@/types/database';
+
+// One air segment read from a pasted Amadeus/Sabre PNR display
+export interface PnrSegment {
+  line: number; // segment number as shown in the PNR
+  airline_code: string;
+  flight_number: string; // airline code + number, e.g. TG628
+  booking_class: string; // single fare class letter
+  travel_date: string; // yyyy-MM-dd, year inferred from the import date
+  origin_code: string;
+  destination_code: string;
+  status_code: string; // GDS segment status, e.g. HK
+  status: BookingStatus | null; // null when the status code is not one we know
+  num_pax: number;
+  predefined_sector_id: string | null; // null when the city pair is not a predefined sector
+  fare_class_id: string | null; // null when no fare class uses the booking class letter
+}
+
+export interface PnrImport {
+  booking_reference: string | null;
+  passenger_names: string[];
+  segments: PnrSegment[];
+  booking_type: BookingType | null; // null when there is nothing to import
+  warnings: string[];
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+export const UserRoleEnum = z.enum(['agent', 'manager', 'admin']);
+export type UserRole = z.infer<typeof UserRoleEnum>;
+
+export interface UserProfile {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  role: UserRole;
+}
+
+// Roles allowed to perform each guarded action.
+// Agents handle day-to-day bookings; destructive and financial actions need a manager.
+export const PERMISSIONS = {
+  'bookings.delete': ['manager', 'admin'],
+  'tour-bookings.delete': ['manager', 'admin'],
+  'customers.delete': ['manager', 'admin'],
+  'customers.merge': ['manager', 'admin'],
+  'sectors.delete': ['manager', 'admin'],
+  'fare-classes.delete': ['manager', 'admin'],
+  'tour-products.delete': ['manager', 'admin'],
+  'payments.delete': ['manager', 'admin'],
+  'payments.verify': ['manager', 'admin'],
+  'exchange-rates.manage': ['manager', 'admin'],
+  'deadline-rules.manage': ['manager', 'admin'],
+  'reminders.run': ['manager', 'admin'],
+  'tour-bookings.link-customers': ['manager', 'admin'],
+  'profiles.manage': ['admin'],
+} as const satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return (PERMISSIONS[permission] as readonly UserRole[]).includes(role);
+}
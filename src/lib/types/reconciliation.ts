@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import type { TourPackageStatus } from '@/lib/types/tours';
+import type { CurrencyCode } from '@/lib/types/currency';
+
+export const BalanceStatusEnum = z.enum(['no_total', 'unpaid', 'partial', 'settled', 'overpaid']);
+export type BalanceStatus = z.infer<typeof BalanceStatusEnum>;
+
+export const ReconciliationFlagCodeEnum = z.enum([
+  'installment_mismatch',
+  'slip_before_booking',
+  'missing_verified_amount',
+  'missing_exchange_rate',
+  'verification_failed',
+  'unverified_payment',
+  'suspected_duplicate',
+  'overpaid',
+  'missing_grand_total',
+  'status_ahead_of_payments',
+]);
+export type ReconciliationFlagCode = z.infer<typeof ReconciliationFlagCodeEnum>;
+
+export const ReconciliationSeverityEnum = z.enum(['info', 'warning', 'error']);
+export type ReconciliationSeverity = z.infer<typeof ReconciliationSeverityEnum>;
+
+export interface ReconciliationFlag {
+  code: ReconciliationFlagCode;
+  severity: ReconciliationSeverity;
+  message: string;
+  payment_id?: string;
+}
+
+export interface PaymentReconciliation {
+  payment_id: string;
+  status_at_payment: TourPackageStatus;
+  amount: number | null;
+  payment_date: string | null;
+  counted: boolean; // verified with an amount and not a suspected duplicate, so included in paid-to-date
+  // Balance still owed just before this payment, and what the payment was expected to cover
+  balance_before: number | null;
+  expected_amount: number | null;
+  paid_to_date_after: number;
+  flags: ReconciliationFlag[];
+}
+
+export interface BookingReconciliation {
+  booking_id: string;
+  customer_name: string | null;
+  package_name: string | null;
+  current_status: TourPackageStatus;
+  currency: CurrencyCode; // all amounts below are in the booking's currency
+  grand_total: number | null;
+  paid_to_date: number;
+  outstanding: number | null;
+  // Positive when overpaid, negative when underpaid
+  over_under: number | null;
+  balance_status: BalanceStatus;
+  suggested_status: TourPackageStatus | null;
+  payments: PaymentReconciliation[];
+  flags: ReconciliationFlag[];
+}
+
+export const RECONCILIATION_FLAG_LABELS: Record<ReconciliationFlagCode, string> = {
+  installment_mismatch: 'Installment mismatch',
+  slip_before_booking: 'Slip dated before booking',
+  missing_verified_amount: 'No amount read',
+  missing_exchange_rate: 'No exchange rate',
+  verification_failed: 'Verification failed',
+  unverified_payment: 'Not verified',
+  suspected_duplicate: 'Suspected duplicate',
+  overpaid: 'Overpaid',
+  missing_grand_total: 'No grand total',
+  status_ahead_of_payments: 'Status ahead of payments',
+};
+
+export const BALANCE_STATUS_LABELS: Record<BalanceStatus, string> = {
+  no_total: 'No total',
+  unpaid: 'Unpaid',
+  partial: 'Underpaid',
+  settled: 'Settled',
+  overpaid: 'Overpaid',
+};
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+// Three views of the same tour bookings, all in BASE_CURRENCY:
+// booked value by booking date, cash by verified payment date, recognised revenue by travel dates
+export const RevenueMeasureEnum = z.enum(['booked', 'cash', 'recognised']);
+export type RevenueMeasure = z.infer<typeof RevenueMeasureEnum>;
+
+export const RevenueDimensionEnum = z.enum(['tour_product', 'customer']);
+export type RevenueDimension = z.infer<typeof RevenueDimensionEnum>;
+
+export const REVENUE_MEASURE_LABELS: Record<RevenueMeasure, string> = {
+  booked: 'Booked value',
+  cash: 'Cash received',
+  recognised: 'Recognised revenue',
+};
+
+export const REVENUE_MEASURE_DESCRIPTIONS: Record<RevenueMeasure, string> = {
+  booked: 'Grand totals of bookings in the month they were booked. Closed bookings are left out.',
+  cash: 'Verified payment slips in the month they were paid.',
+  recognised: 'Grand totals spread across the days of travel. Closed bookings are left out.',
+};
+
+export const REVENUE_DIMENSION_LABELS: Record<RevenueDimension, string> = {
+  tour_product: 'Tour package',
+  customer: 'Customer',
+};
+
+// One amount attributed to a month, with the keys needed to pivot it
+export interface RevenueEntry {
+  measure: RevenueMeasure;
+  month: string; // yyyy-MM
+  amount: number;
+  booking_id: string;
+  tour_product_key: string;
+  tour_product_label: string;
+  customer_key: string;
+  customer_label: string;
+}
+
+export interface RevenuePivotRow {
+  key: string;
+  label: string;
+  months: Record<string, number>; // yyyy-MM -> amount; months with nothing are left out
+  total: number;
+}
+
+export interface RevenuePivot {
+  measure: RevenueMeasure;
+  dimension: RevenueDimension;
+  months: string[];
+  rows: RevenuePivotRow[]; // largest total first
+  monthTotals: Record<string, number>;
+  total: number;
+}
+
+// Outstanding installments grouped by the month they fall due
+export interface CashFlowForecastMonth {
+  month: string; // yyyy-MM
+  expected: number;
+  installments: number;
+}
+
+export interface CashFlowForecast {
+  // Installments already past due; they are expected but no longer have a month of their own
+  overdue: number;
+  overdueInstallments: number;
+  months: CashFlowForecastMonth[]; // from the current month to the last due date, gaps included
+  total: number;
+}
+
+// Bookings, payments and installments left out of the figures because something they need is missing
+export interface RevenueExclusions {
+  missingExchangeRate: number;
+  missingTravelDates: number;
+}
+
+export interface RevenueReport {
+  year: number;
+  months: string[];
+  totals: Record<RevenueMeasure, number>;
+  pivots: Record<RevenueMeasure, Record<RevenueDimension, RevenuePivot>>;
+  forecast: CashFlowForecast;
+  exclusions: RevenueExclusions;
+}
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+
+export const SEAT_CHANGE_TYPES = ['held', 'added', 'released', 'ticketed', 'adjusted'] as const;
+export type SeatChangeType = (typeof SEAT_CHANGE_TYPES)[number];
+
+// 'held' and 'adjusted' are logged when the booking form sets a sector's seats
+export const RECORDABLE_SEAT_CHANGES = ['added', 'released', 'ticketed'] as const;
+export type RecordableSeatChange = (typeof RECORDABLE_SEAT_CHANGES)[number];
+
+export const SEAT_CHANGE_LABELS: Record<SeatChangeType, string> = {
+  held: 'Seats held',
+  added: 'Seats added',
+  released: 'Seats released',
+  ticketed: 'Seats ticketed',
+  adjusted: 'Hold adjusted',
+};
+
+export const SeatChangeSchema = z.object({
+  change_type: z.enum(RECORDABLE_SEAT_CHANGES),
+  seats: z.coerce
+    .number({ invalid_type_error: 'Seats must be a number.' })
+    .int({ message: 'Must be a whole number.' })
+    .min(1, { message: 'Enter at least one seat.' })
+    .max(999, { message: 'Maximum 999 seats.' }),
+  note: z.string().trim().max(500).optional().nullable(),
+});
+
+export type SeatChangeFormInput = z.input<typeof SeatChangeSchema>;
+export type SeatChangeFormData = z.output<typeof SeatChangeSchema>;
+
+export interface SectorInventory {
+  id: string;
+  label: string; // e.g. BKK-HND
+  travel_date: string | null; // yyyy-MM-dd
+  held: number; // booking_sectors.num_pax
+  named: number; // passengers assigned on the manifest
+  released: number;
+  ticketed: number;
+}
+
+export interface InventoryTotals {
+  held: number;
+  named: number;
+  released: number;
+  ticketed: number;
+  used: number; // held seats that are named or ticketed
+  unused: number;
+  utilisation: number | null; // used / held, null when nothing is held
+}
+
+export interface SectorInventorySummary extends SectorInventory, InventoryTotals {}
+
+export interface SeatInventoryChange {
+  id: string;
+  booking_sector_id: string;
+  change_type: SeatChangeType;
+  seats: number; // signed change to the hold; tickets issued for 'ticketed'
+  seats_held_after: number;
+  note: string | null;
+  changed_by_email: string | null;
+  changed_at: string;
+}
+
+export interface BookingSeatInventory {
+  sectors: SectorInventory[];
+  changes: SeatInventoryChange[];
+  deadline: string | null;
+}
+
+// The seats a sector holds, compared before and after a booking form save
+export interface SectorHold {
+  id: string;
+  num_pax: number;
+}
+
+export interface SectorHoldChange {
+  booking_sector_id: string;
+  change_type: Extract<SeatChangeType, 'held' | 'adjusted'>;
+  seats: number;
+  seats_held_after: number;
+}
+
+export interface InventoryBlock {
+  booking_id: string;
+  booking_reference: string | null;
+  customer_name: string | null;
+  deadline: string | null;
+  route: string;
+  sectors: SectorInventory[];
+}
+
+export interface UnderusedBlock extends Omit<InventoryBlock, 'sectors'>, InventoryTotals {
+  days_to_deadline: number;
+}
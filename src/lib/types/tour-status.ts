@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import type { TourPackageStatus } from '@/lib/types/tours';
+
+export const TourStatusReasonCodeEnum = z.enum([
+  'allowed',
+  'not_initial_status',
+  'transition_not_allowed',
+  'missing_grand_total',
+  'insufficient_verified_payments',
+  'missing_travel_end_date',
+  'travel_not_finished',
+]);
+export type TourStatusReasonCode = z.infer<typeof TourStatusReasonCodeEnum>;
+
+export const TOUR_STATUS_REASON_LABELS: Record<TourStatusReasonCode, string> = {
+  allowed: 'Allowed',
+  not_initial_status: 'Not a starting status',
+  transition_not_allowed: 'Transition not allowed',
+  missing_grand_total: 'No grand total',
+  insufficient_verified_payments: 'Verified payments below grand total',
+  missing_travel_end_date: 'No travel end date',
+  travel_not_finished: 'Travel not finished',
+};
+
+export interface TourStatusDecision {
+  allowed: boolean;
+  reason: TourStatusReasonCode;
+  message: string;
+}
+
+// One row of tour_booking_status_transitions; rejected attempts are kept too
+export interface TourStatusTransitionAttempt {
+  id: string;
+  tour_package_booking_id: string;
+  from_status: TourPackageStatus | null; // null when the booking is being created
+  to_status: TourPackageStatus;
+  allowed: boolean;
+  reason_code: TourStatusReasonCode;
+  reason_message: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  created_at: string;
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CurrencyCodeEnum, type CurrencyCode } from '@/lib/types/currency';
 
 // Database types (matching Supabase schema)
 export interface TourProduct {
@@ -23,7 +24,8 @@ export type TourPackageStatus = z.infer<typeof TourPackageStatusEnum>;
 export interface TourPackageBooking {
   id: string;
   tour_product_id: string;
-  customer_name: string;
+  customer_id: string | null; // null until linked on the customer review page
+  customer_name: string; // printed name, refreshed from customers.company_name when linked
   base_price_per_pax?: number | null;
   booking_date?: string | null; // Assuming date only
   travel_start_date?: string | null; // Assuming date only
@@ -38,6 +40,7 @@ export interface TourPackageBooking {
   addons?: Array<{ id: string; name: string; amount: number }> | null;
   total_per_pax?: number | null;
   grand_total?: number | null;
+  currency: CurrencyCode; // shared by base price, add-ons and grand total
   // Optional: Add joined tour product data if needed frequently
   // tour_products?: Pick<TourProduct, 'name'> | null; 
 }
@@ -62,6 +65,7 @@ const TourPackageBookingBaseSchema = z.object({
   travel_start_date: z.coerce.date().optional().nullable(),
   travel_end_date: z.coerce.date().optional().nullable(),
   status: TourPackageStatusEnum,
+  currency: CurrencyCodeEnum,
   notes: z.string().optional().nullable(),
   linked_booking_id: z.string().uuid().optional().nullable(),
   created_at: z.string().datetime().optional(),
@@ -86,11 +90,12 @@ export const TourPackageBookingFormSchema = TourPackageBookingBaseSchema
 // Apply omit before refine
 export const TourPackageBookingSchema = z.object({
     id: z.string().length(5, { message: "ID must be 5 characters long" }).regex(/^[a-zA-Z0-9]+$/, { message: "ID must be alphanumeric" }).optional(),
-    customer_name: z.string().min(1, { message: 'Customer name is required.' }),
+    customer_id: z.string().uuid({ message: 'Please select a customer.' }),
     tour_product_id: z.string().uuid({ message: 'Please select a valid tour package.' }),
     base_price_per_pax: z.coerce.number().positive('Base Price must be a positive number.').optional().nullable(),
     pax: z.coerce.number().int().positive('PAX must be a positive number.'),
     status: TourPackageStatusEnum,
+    currency: CurrencyCodeEnum,
     booking_date: z.date().optional().nullable(),
     travel_start_date: z.date().optional().nullable(),
     travel_end_date: z.date().optional().nullable(),
@@ -127,7 +132,7 @@ export interface TourProduct extends Omit<z.infer<typeof TourProductSchema>, 'de
 }
 
 // TypeScript interface for Tour Package Booking
-export interface TourPackageBooking extends Omit<z.infer<typeof TourPackageBookingSchema>, 'booking_date' | 'travel_start_date' | 'travel_end_date' | 'notes' | 'base_price_per_pax' | 'id' | 'addons'> {
+export interface TourPackageBooking extends Omit<z.infer<typeof TourPackageBookingSchema>, 'booking_date' | 'travel_start_date' | 'travel_end_date' | 'notes' | 'base_price_per_pax' | 'id' | 'addons' | 'customer_id'> {
     id: string;
     booking_date?: string | null;
     travel_start_date?: string | null;
@@ -154,6 +159,7 @@ export interface LinkedBookingInfo {
   booking_reference: string | null;
   customer_name: string | null;
   earliest_travel_date: string | null;
+  latest_travel_date: string | null;
   status: string | null;
   created_at: string;
 }
@@ -165,6 +171,7 @@ export interface PaymentRecord {
     status_at_payment: TourPackageStatus; // Use the existing enum type
     payment_slip_path: string; // text (path in storage)
     uploaded_at: string; // timestamp with time zone
+    currency?: CurrencyCode; // currency shown on the slip (THB unless OCR read another)
     // Verification Fields
     is_verified?: boolean | null;
     verified_amount?: number | null;
@@ -173,6 +180,24 @@ export interface PaymentRecord {
     verified_dest_bank?: string | null;
     verification_error?: string | null;
     verified_at?: string | null; // <-- Add verified_at timestamp
+    // Duplicate detection
+    slip_hash?: string | null;
+    duplicate_of_payment_id?: string | null;
+    duplicate_reason?: PaymentDuplicateReason | null;
+    duplicate_accepted_by_email?: string | null;
+    duplicate_accepted_at?: string | null;
+}
+
+export const PaymentDuplicateReasonEnum = z.enum(['content_hash', 'verified_fields']);
+export type PaymentDuplicateReason = z.infer<typeof PaymentDuplicateReasonEnum>;
+
+// An earlier payment that a slip appears to duplicate
+export interface PaymentDuplicateMatch {
+    payment_id: string;
+    tour_package_booking_id: string;
+    customer_name: string | null;
+    uploaded_at: string;
+    reason: PaymentDuplicateReason;
 }
 
 // --- NEW: Payment Ledger Item Type ---
@@ -180,4 +205,6 @@ export interface PaymentLedgerItem extends PaymentRecord {
     customer_name: string | null;
     package_name: string | null;
     // Verification fields are now implicitly included by extending PaymentRecord
+    is_suspected_duplicate: boolean; // flagged and not yet accepted
+    duplicate_of_booking_id: string | null;
 } 
\ No newline at end of file
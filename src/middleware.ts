@@ -1,5 +1,6 @@
 import { createServerClient, type CookieOptions } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
+import { resolveRouteAccess } from '@/lib/route-policy';
 
 export async function middleware(request: NextRequest) {
   let response = NextResponse.next({
@@ -55,30 +56,20 @@ export async function middleware(request: NextRequest) {
     }
   );
 
-  // Get the current user session
-  const { data: { session } } = await supabase.auth.getSession();
+  // Validate the session with Supabase Auth (getSession only reads the cookie)
+  const { data: { user } } = await supabase.auth.getUser();
 
   const { pathname } = request.nextUrl;
 
-  // Define protected routes (adjust as needed)
-  const protectedRoutes = ['/', '/bookings', '/customers', '/sectors']; // Add other protected routes
-  const isProtectedRoute = protectedRoutes.some(route => pathname.startsWith(route)) && pathname !== '/login';
-
-  // Redirect to login if accessing a protected route without a session
-  if (!session && isProtectedRoute) {
-    console.log('Middleware: No session, redirecting to /login from', pathname);
-    return NextResponse.redirect(new URL('/login', request.url));
-  }
-
-  // Redirect to dashboard if accessing login page with an active session
-  if (session && pathname === '/login') {
-    console.log('Middleware: Session found, redirecting from /login to /');
-    return NextResponse.redirect(new URL('/', request.url));
+  // Deny by default: only routes in PUBLIC_ROUTES are reachable without a user
+  const decision = resolveRouteAccess(pathname, Boolean(user));
+  if (decision.type === 'redirect') {
+    console.log(`Middleware: Redirecting from ${pathname} to ${decision.to}`);
+    return NextResponse.redirect(new URL(decision.to, request.url));
   }
 
   // Refresh session if needed - important for server components
-  // await supabase.auth.getSession(); 
-  // Note: getSession() called above already handles refresh to some extent for middleware.
+  // Note: getUser() called above already refreshes an expired access token via the cookie handlers.
   // Direct session refresh might be needed in layouts/pages for full SSR auth state sync.
 
   console.log('Middleware: Allowing request for', pathname);
@@ -93,9 +84,9 @@ export const config = {
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
-     * - api (API routes, if you want them public - adjust if needed)
-     * Feel free to modify this pattern to include more exceptions.
+     * - static assets served from /public
+     * API routes are matched too, so route handlers are protected by default.
      */
-    '/((?!_next/static|_next/image|favicon.ico|api).*)', 
+    '/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
   ],
 }; 
\ No newline at end of file
@@ -1,6 +1,10 @@
 export interface Customer {
   id: string; // uuid
   company_name: string;
+  billing_address?: string | null;
+  tax_id?: string | null; // printed on invoices
+  payment_terms_days?: number | null; // agreed days to pay an invoice
+  credit_limit?: number | null; // THB cap on outstanding tour balances; null means no limit
   created_at: string; // timestamp with time zone
 }
 
@@ -12,7 +16,7 @@ export interface PredefinedSector {
   created_at: string; // timestamp with time zone
 }
 
-export type BookingType = 'One-Way' | 'Return';
+export type BookingType = 'One-Way' | 'Return' | 'Multi-City';
 export type BookingStatus = 'Confirmed' | 'Waiting List' | 'Ticketed' | 'Cancelled' | 'Pending' | 'Unconfirmed';
 
 export interface FareClass {
@@ -29,8 +33,12 @@ export interface Booking {
   booking_reference: string;
   booking_type: BookingType;
   num_pax: number;
-  deadline?: string | null; // date
-  status: BookingStatus;
+  deadline?: string | null; // date, earliest open booking_deadlines due date (kept by trigger)
+  status: BookingStatus; // follows the sector statuses, see src/lib/booking-status.ts
+  ticket_numbers?: string[] | null; // captured when the booking is ticketed
+  ticketed_at?: string | null; // timestamptz
+  cancellation_reason?: string | null; // captured when the booking is cancelled
+  cancelled_at?: string | null; // timestamptz
   created_at: string; // timestamp with time zone
   updated_at: string; // timestamp with time zone
   // We might want to join customer data later
@@ -46,6 +54,9 @@ export interface BookingSector {
   fare_class_id?: string | null; // uuid, Added
   flight_number?: string | null;
   num_pax: number; // Added: number of passengers for this specific sector
+  seats_released?: number; // seats given back to the airline
+  seats_ticketed?: number;
+  sector_order?: number | null; // position in the itinerary, from 0
   created_at: string; // timestamp with time zone
   // We might want to join sector data later
   predefined_sectors?: Pick<PredefinedSector, 'origin_code' | 'destination_code'> | null; // Example